@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+// Offline evaluation of the recommendation ranker (src/utils/recoEval.ts).
+//
+//   node scripts/reco-eval.mjs generate [--seed=42] [--users=100] [--titles=300] [--out=reco-fixture.json]
+//   node scripts/reco-eval.mjs run [--fixture=reco-fixture.json | --activity=export.json] [--k=10] [--holdout=1]
+//
+// Without a fixture, `run` evaluates the synthetic fixture for --seed, so
+// results are reproducible without network access or stored data.
+//
+// `--activity` takes exported `user_activity` rows (a JSON array with
+// user_id, type, ts, movie_id, content_type, title, genres, query, metadata).
+// The TypeScript sources are loaded through Vite so the `@/` alias resolves.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createServer } from 'vite';
+
+const DEFAULT_FIXTURE = 'reco-fixture.json';
+
+const args = Object.fromEntries(
+  process.argv.slice(3).map(arg => {
+    const [key, value = 'true'] = arg.replace(/^--/, '').split('=');
+    return [key, value];
+  })
+);
+const command = process.argv[2] || 'run';
+const num = (value, fallback) => (value === undefined ? fallback : Number(value));
+
+// The app modules expect browser storage at import time
+const memory = new Map();
+globalThis.localStorage ??= {
+  getItem: key => (memory.has(key) ? memory.get(key) : null),
+  setItem: (key, value) => memory.set(key, String(value)),
+  removeItem: key => memory.delete(key),
+  clear: () => memory.clear(),
+  key: i => [...memory.keys()][i] ?? null,
+  get length() { return memory.size; },
+};
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const evalModule = await server.ssrLoadModule('/src/utils/recoEval.ts');
+  const { generateFixture } = await server.ssrLoadModule('/src/utils/recoFixture.ts');
+  const synthetic = () =>
+    generateFixture({ seed: num(args.seed, 42), users: num(args.users, 100), titles: num(args.titles, 300) });
+  if (command === 'generate') {
+    const fixture = synthetic();
+    const out = args.out || DEFAULT_FIXTURE;
+    writeFileSync(out, JSON.stringify(fixture) + '\n');
+    console.log(`Wrote ${fixture.users.length} users and ${fixture.catalog.length} titles to ${out}`);
+  } else if (command === 'run') {
+    const fixture = args.activity
+      ? evalModule.fixtureFromActivity(JSON.parse(readFileSync(args.activity, 'utf8')))
+      : args.fixture
+        ? evalModule.normalizeFixture(JSON.parse(readFileSync(args.fixture, 'utf8')))
+        : synthetic();
+    const k = num(args.k, 10);
+    const results = evalModule.evaluate(fixture, evalModule.standardRankers(), {
+      k,
+      holdout: num(args.holdout, 1),
+    });
+    console.log(evalModule.formatTable(results, k));
+  } else {
+    console.error(`Unknown command "${command}"; use "generate" or "run"`);
+    process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
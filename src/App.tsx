@@ -9,6 +9,8 @@ import EnhancedMovies from "./pages/EnhancedMovies";
 import EnhancedTrending from "./pages/EnhancedTrending";
 import Profile from "./pages/Profile";
 import MovieDetails from "./pages/MovieDetails";
+import TvDetails from "./pages/TvDetails";
+import PersonDetails from "./pages/PersonDetails";
 import NotFound from "./pages/NotFound";
 import Settings from "./pages/Settings";
 import Activity from "./pages/Activity";
@@ -20,6 +22,8 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useState, useEffect } from "react";
 import { hydrateHistoryFromSupabase, syncLocalHistoryToSupabase } from "@/utils/history";
+import { hydrateEpisodeProgressFromSupabase } from "@/utils/episodes";
+import { hydrateRecoConfigFromSupabase } from "@/utils/recoConfig";
 import { enableTVFocus } from "@/utils/tvFocus";
 
 const queryClient = new QueryClient();
@@ -79,6 +83,8 @@ const AppContent = () => {
           // First push any local-only events to server, then hydrate back
           await syncLocalHistoryToSupabase();
           await hydrateHistoryFromSupabase();
+          await hydrateEpisodeProgressFromSupabase();
+          await hydrateRecoConfigFromSupabase(user.id);
         } catch {}
         if (!cancelled) {
           // no-op; local cache is hydrated for all pages
@@ -109,6 +115,8 @@ const AppContent = () => {
           <Route path="/" element={<Navigate to="/movies" replace />} />
           <Route path="/movies" element={<EnhancedMovies />} />
           <Route path="/movie/:id" element={<MovieDetails />} />
+          <Route path="/tv/:id" element={<TvDetails />} />
+          <Route path="/person/:id" element={<PersonDetails />} />
           <Route path="/trending" element={<EnhancedTrending />} />
           <Route path="/activity" element={<Activity />} />
           <Route path="/settings" element={<Settings />} />
@@ -4,16 +4,27 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Bot, Send, X, Lightbulb, Minimize2, Maximize2, Trash2, Lock, Mic, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { Bot, Send, X, Lightbulb, Minimize2, Maximize2, Trash2, Lock, Mic, Image as ImageIcon, Loader2, Square } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import { describeAction, streamAssistantReply, type AssistantAction, type MessageBlock, type TitleCard } from '@/utils/assistant';
+import { logTrailerPlay } from '@/utils/history';
+import { findTrailer, tmdb } from '@/lib/tmdb';
+import AssistantTitleCard from '@/components/AssistantTitleCard';
+import VideoPlayerModal from '@/components/VideoPlayerModal';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   imageUrl?: string;
+  // Reply cut short with the stop button
+  stopped?: boolean;
+  // Tools the assistant ran while answering, e.g. watchlist updates
+  actions?: AssistantAction[];
+  // Title cards and other rich content shown after the text
+  blocks?: MessageBlock[];
 }
 
 const AIAssistant = () => {
@@ -36,6 +47,10 @@ const AIAssistant = () => {
   const [messages, setMessages] = useState<Message[]>(INITIAL_MESSAGES);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // True once the first token of a reply has arrived
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [trailer, setTrailer] = useState<{ title: string; videoKey: string | null; loading: boolean } | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
@@ -77,14 +92,16 @@ const AIAssistant = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
-  // Persist to localStorage whenever messages change
+  // Persist to localStorage whenever messages change; a reply still
+  // streaming in is saved once it completes or is stopped
   useEffect(() => {
+    if (isLoading) return;
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
     } catch (e) {
       console.warn('Failed to persist AI assistant messages to storage', e);
     }
-  }, [messages, STORAGE_KEY]);
+  }, [messages, STORAGE_KEY, isLoading]);
 
   // Load from Supabase for authenticated user
   useEffect(() => {
@@ -119,7 +136,7 @@ const AIAssistant = () => {
 
   // Debounced save to Supabase for authenticated user
   useEffect(() => {
-    if (!user?.id) return;
+    if (!user?.id || isLoading) return;
     if (saveTimer.current) window.clearTimeout(saveTimer.current);
     saveTimer.current = window.setTimeout(async () => {
       try {
@@ -132,7 +149,10 @@ const AIAssistant = () => {
     return () => {
       if (saveTimer.current) window.clearTimeout(saveTimer.current);
     };
-  }, [messages, user?.id]);
+  }, [messages, user?.id, isLoading]);
+
+  // Stop a reply in flight when the assistant unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Initialize speech recognition
   useEffect(() => {
@@ -314,18 +334,42 @@ const AIAssistant = () => {
     const newMessages = [...messages, { role: 'user' as const, content: messageToSend }];
     setMessages(newMessages);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const actions: AssistantAction[] = [];
+    const withActions = () => (actions.length ? { actions: [...actions] } : {});
+    let text = '';
     try {
-      const { data, error } = await supabase.functions.invoke('groq-assistant', {
-        body: {
-          message: messageToSend,
-          conversation: newMessages,
-        },
-      });
-
-      if (error) throw error;
-
-      // Add assistant response
-      setMessages([...newMessages, { role: 'assistant', content: data.message }]);
+      const reply = await streamAssistantReply(
+        'groq-assistant',
+        // Only the text goes back to the model; the rest is for display
+        { message: messageToSend, conversation: newMessages.map(({ role, content }) => ({ role, content })) },
+        {
+          signal: controller.signal,
+          onText: t => {
+            text = t;
+            setIsStreaming(true);
+            setMessages([...newMessages, { role: 'assistant', content: text, ...withActions() }]);
+          },
+          onTool: action => {
+            actions.push(action);
+            if (text) setMessages([...newMessages, { role: 'assistant', content: text, ...withActions() }]);
+          },
+        }
+      );
+
+      if (reply.cancelled) {
+        setMessages(reply.message || actions.length
+          ? [...newMessages, { role: 'assistant', content: reply.message, stopped: true, ...withActions() }]
+          : newMessages);
+      } else {
+        setMessages([...newMessages, {
+          role: 'assistant',
+          content: reply.message,
+          ...withActions(),
+          ...(reply.blocks.length ? { blocks: reply.blocks } : {}),
+        }]);
+      }
     } catch (error) {
       console.error('Error calling AI assistant:', error);
       // Add fallback response
@@ -340,9 +384,31 @@ const AIAssistant = () => {
       });
     }
 
+    abortRef.current = null;
+    setIsStreaming(false);
     setIsLoading(false);
   };
 
+  const stopReply = () => {
+    abortRef.current?.abort();
+  };
+
+  const playTrailer = async (card: TitleCard) => {
+    const ref = { kind: card.kind, id: card.id };
+    setTrailer({ title: card.title, videoKey: null, loading: true });
+    try { logTrailerPlay(ref, card.title); } catch {
+      // History is best-effort
+    }
+    try {
+      const results = (await tmdb.videos(card.kind, card.id)) || [];
+      const video = findTrailer(results) || results[0];
+      setTrailer(t => (t?.title === card.title ? { ...t, videoKey: video?.key || null, loading: false } : t));
+    } catch (error) {
+      console.error('Error loading trailer:', error);
+      setTrailer(t => (t?.title === card.title ? { ...t, loading: false } : t));
+    }
+  };
+
   const clearChat = async () => {
     try {
       localStorage.removeItem(STORAGE_KEY);
@@ -490,10 +556,27 @@ const AIAssistant = () => {
                   }`}
                 >
                   <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                  {message.actions?.map(describeAction).filter(Boolean).map((line, i) => (
+                    <p key={i} className="mt-1 text-xs text-muted-foreground">{line}</p>
+                  ))}
+                  {message.stopped && (
+                    <p className="mt-1 text-xs text-muted-foreground italic">Stopped</p>
+                  )}
                 </div>
+                {message.blocks?.map((block, i) => block.type === 'titles' ? (
+                  <div key={i} className="mt-2 w-full space-y-2">
+                    {block.cards.map(card => (
+                      <AssistantTitleCard key={`${card.kind}:${card.id}`} card={card} onPlayTrailer={playTrailer} />
+                    ))}
+                  </div>
+                ) : (
+                  <Link key={i} to="/profile" className="mt-1 text-xs text-muted-foreground hover:text-foreground">
+                    Remembered: {block.notes.join('; ')}
+                  </Link>
+                ))}
               </div>
             ))}
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex justify-start">
                 <div className="bg-muted p-3 rounded-lg">
                   <div className="flex items-center gap-1">
@@ -558,18 +641,38 @@ const AIAssistant = () => {
                 </Button>
               </div>
             </div>
-            <Button
-              onClick={() => sendMessage()}
-              disabled={!inputMessage.trim() || isLoading || !isVerified || isRecording}
-              size="icon"
-              className="bg-primary hover:bg-primary/90"
-              aria-label="Send message"
-            >
-              <Send size={16} />
-            </Button>
+            {isLoading ? (
+              <Button
+                onClick={stopReply}
+                size="icon"
+                variant="outline"
+                aria-label="Stop response"
+                title="Stop response"
+              >
+                <Square size={14} className="fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={() => sendMessage()}
+                disabled={!inputMessage.trim() || !isVerified || isRecording}
+                size="icon"
+                className="bg-primary hover:bg-primary/90"
+                aria-label="Send message"
+              >
+                <Send size={16} />
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
+
+      <VideoPlayerModal
+        isOpen={!!trailer}
+        onClose={() => setTrailer(null)}
+        movieTitle={trailer?.title || ''}
+        videoKey={trailer?.videoKey ?? null}
+        isLoading={trailer?.loading}
+      />
     </Card>
   );
 };
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { readPersonalization, savePersonalization } from "@/utils/assistant";
+
+// Settings card: let the AI assistant use your history, ratings and lists, or not
+const AssistantPersonalization = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    readPersonalization(user.id)
+      .then(value => { if (!cancelled) setEnabled(value); })
+      .catch(e => console.warn("Failed to load assistant settings", e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [user?.id]);
+
+  if (!user) return null;
+
+  const toggle = async (next: boolean) => {
+    setEnabled(next);
+    try {
+      await savePersonalization(user.id, next);
+      toast({
+        title: next ? "Assistant personalization on" : "Assistant personalization off",
+        description: next
+          ? "The assistant will tailor suggestions to your taste."
+          : "The assistant will only see the current conversation and will not take taste notes.",
+      });
+    } catch (e) {
+      setEnabled(!next);
+      toast({
+        title: "Could not save",
+        description: e instanceof Error ? e.message : "Please try again later.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg flex items-center justify-between gap-4">
+      <div>
+        <h2 className="text-lg font-semibold">Personalized assistant</h2>
+        <p className="text-sm text-muted-foreground">
+          Let the AI assistant use your viewing history, ratings, favorites, watchlist and taste notes to tailor its suggestions,
+          and remember what you tell it you like. Review what it remembers on your Profile.
+        </p>
+      </div>
+      <Switch
+        checked={enabled}
+        disabled={loading}
+        onCheckedChange={toggle}
+        aria-label="Personalize the AI assistant"
+      />
+    </div>
+  );
+};
+
+export default AssistantPersonalization;
@@ -0,0 +1,72 @@
+import { Link } from "react-router-dom";
+import { Check, Film, Play, Plus, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useLibraryToggle } from "@/hooks/useLibraryToggle";
+import { contentPath } from "@/lib/content";
+import { tmdbImage } from "@/lib/tmdb";
+import type { TitleCard } from "@/utils/assistant";
+
+interface AssistantTitleCardProps {
+  card: TitleCard;
+  onPlayTrailer: (card: TitleCard) => void;
+}
+
+// Compact title card shown inside assistant messages
+const AssistantTitleCard = ({ card, onPlayTrailer }: AssistantTitleCardProps) => {
+  const { user } = useAuth();
+  const ref = { kind: card.kind, id: card.id };
+  const { saved: inWatchlist, toggle: toggleWatchlist } = useLibraryToggle("user_watchlist", ref);
+  const poster = tmdbImage(card.poster_path, "w185");
+
+  return (
+    <div className="flex gap-3 rounded-lg border bg-background p-2">
+      <Link to={contentPath(ref)} className="shrink-0">
+        {poster ? (
+          <img src={poster} alt={card.title} loading="lazy" className="h-20 w-14 rounded object-cover" />
+        ) : (
+          <div className="flex h-20 w-14 items-center justify-center rounded bg-muted">
+            <Film size={18} className="text-muted-foreground" />
+          </div>
+        )}
+      </Link>
+      <div className="flex min-w-0 flex-1 flex-col justify-between">
+        <div>
+          <Link to={contentPath(ref)} className="line-clamp-2 text-sm font-semibold hover:text-primary">
+            {card.title}
+          </Link>
+          <div className="mt-0.5 flex items-center gap-2 text-xs text-muted-foreground">
+            {card.year && <span>{card.year}</span>}
+            {card.kind === "tv" && <span>Series</span>}
+            {card.rating !== null && (
+              <span className="flex items-center gap-0.5">
+                <Star size={11} className="fill-current text-accent" />
+                {card.rating.toFixed(1)}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant="secondary" className="h-7 px-2 text-xs" onClick={() => onPlayTrailer(card)}>
+            <Play size={12} className="mr-1" />
+            Trailer
+          </Button>
+          {user && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs"
+              onClick={toggleWatchlist}
+              aria-pressed={inWatchlist}
+            >
+              {inWatchlist ? <Check size={12} className="mr-1" /> : <Plus size={12} className="mr-1" />}
+              {inWatchlist ? "In Watchlist" : "Watchlist"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssistantTitleCard;
@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { PlayCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useEpisodeProgress } from "@/hooks/useEpisodeProgress";
+import { followedSeries, nextEpisode, seasonCompletion, type SeasonShape } from "@/utils/episodes";
+import { contentPath, contentRef } from "@/lib/content";
+import { tmdb, tmdbImage } from "@/lib/tmdb";
+
+const MAX_SERIES = 10;
+
+// "Continue watching" strip: the next unwatched episode of each followed series
+const ContinueWatching = () => {
+  const navigate = useNavigate();
+  const { state } = useEpisodeProgress();
+  const series = useMemo(() => followedSeries(state).slice(0, MAX_SERIES), [state]);
+  // Season layout per series id; progress math needs episode counts from TMDB
+  const [seasons, setSeasons] = useState<Record<number, SeasonShape[]>>({});
+
+  const idsKey = series.map(s => s.seriesId).join(",");
+  // Series whose layout was already requested, so a changed list only fetches
+  // the new ones
+  const requested = useRef(new Set<number>());
+
+  useEffect(() => {
+    const missing = idsKey.split(",").filter(Boolean).map(Number).filter(id => !requested.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => requested.current.add(id));
+    // Results are kept even if the list changed meanwhile; they are still valid
+    Promise.all(
+      missing.map(async (seriesId) => {
+        try {
+          const details = await tmdb.details("tv", seriesId);
+          return [seriesId, details?.seasons || []] as const;
+        } catch {
+          return [seriesId, []] as const;
+        }
+      })
+    ).then((entries) => {
+      setSeasons(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+    });
+  }, [idsKey]);
+
+  const items = series
+    .map((p) => {
+      const layout = seasons[p.seriesId];
+      if (!layout) return null;
+      const next = nextEpisode(p, layout);
+      if (!next) return null; // caught up
+      const season = layout.find(s => s.season_number === next.season);
+      return { progress: p, next, completion: season ? seasonCompletion(p, season) : null };
+    })
+    .filter((x): x is NonNullable<typeof x> => !!x);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-2xl font-bold mb-4">Continue watching</h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {items.map(({ progress, next, completion }) => (
+          <Card
+            key={progress.seriesId}
+            className="w-40 shrink-0 cursor-pointer overflow-hidden hover:shadow-lg transition-shadow"
+            onClick={() => navigate(contentPath(contentRef("tv", progress.seriesId)))}
+          >
+            <div className="relative aspect-[2/3] bg-muted">
+              <img
+                src={tmdbImage(progress.poster_path) || "/placeholder.svg"}
+                alt={progress.title || "Series"}
+                className="w-full h-full object-cover"
+                loading="lazy"
+              />
+              <div className="absolute inset-0 flex items-center justify-center bg-black/0 hover:bg-black/30 transition-colors">
+                <PlayCircle className="h-10 w-10 text-white opacity-80" />
+              </div>
+            </div>
+            <CardContent className="p-3 space-y-2">
+              <div className="text-sm font-medium line-clamp-1">{progress.title || `Series #${progress.seriesId}`}</div>
+              <div className="text-xs text-muted-foreground">Next: S{next.season} · E{next.episode}</div>
+              {completion && completion.total > 0 && (
+                <Progress value={completion.ratio * 100} className="h-1.5" />
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ContinueWatching;
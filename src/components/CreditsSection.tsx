@@ -0,0 +1,110 @@
+import { useNavigate } from "react-router-dom";
+import { User } from "lucide-react";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { tmdbImage, type TmdbCredits } from "@/lib/tmdb";
+
+const MAX_CAST = 20;
+
+// Crew jobs worth surfacing on a details page, in display order
+const KEY_JOBS = [
+  "Director",
+  "Creator",
+  "Screenplay",
+  "Writer",
+  "Novel",
+  "Producer",
+  "Executive Producer",
+  "Original Music Composer",
+  "Director of Photography",
+];
+
+interface CreditsSectionProps {
+  credits: TmdbCredits;
+}
+
+// Cast carousel plus key crew; every name links to its person page
+const CreditsSection = ({ credits }: CreditsSectionProps) => {
+  const navigate = useNavigate();
+
+  const cast = [...credits.cast]
+    .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+    .slice(0, MAX_CAST);
+
+  const crew = KEY_JOBS
+    .map((job) => ({
+      job,
+      people: credits.crew
+        .filter((c) => c.job === job)
+        .filter((c, i, list) => list.findIndex((o) => o.id === c.id) === i),
+    }))
+    .filter((g) => g.people.length > 0);
+
+  if (cast.length === 0 && crew.length === 0) return null;
+
+  return (
+    <div className="mb-8 space-y-6">
+      {cast.length > 0 && (
+        <div>
+          <h2 className="text-2xl font-bold mb-4">В ролях</h2>
+          <Carousel opts={{ align: "start", dragFree: true }} className="px-10">
+            <CarouselContent>
+              {cast.map((person) => (
+                <CarouselItem key={`${person.id}-${person.character || ""}`} className="basis-1/3 sm:basis-1/4 md:basis-1/6 lg:basis-[12.5%]">
+                  <button
+                    className="text-left w-full group"
+                    onClick={() => navigate(`/person/${person.id}`)}
+                    aria-label={`Open ${person.name}`}
+                  >
+                    <div className="aspect-[2/3] bg-muted rounded-lg overflow-hidden flex items-center justify-center">
+                      {person.profile_path ? (
+                        <img
+                          src={tmdbImage(person.profile_path, "w185") || ""}
+                          alt={person.name}
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <User className="h-10 w-10 text-muted-foreground/40" />
+                      )}
+                    </div>
+                    <div className="mt-2 text-sm font-medium line-clamp-1">{person.name}</div>
+                    {person.character && (
+                      <div className="text-xs text-muted-foreground line-clamp-2">{person.character}</div>
+                    )}
+                  </button>
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            <CarouselPrevious className="left-0" />
+            <CarouselNext className="right-0" />
+          </Carousel>
+        </div>
+      )}
+
+      {crew.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold mb-3">Съёмочная группа</h2>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-3">
+            {crew.map(({ job, people }) => (
+              <div key={job}>
+                <dt className="text-xs uppercase tracking-wide text-muted-foreground">{job}</dt>
+                <dd className="text-sm">
+                  {people.map((p, i) => (
+                    <span key={p.id}>
+                      {i > 0 && ", "}
+                      <button className="hover:underline" onClick={() => navigate(`/person/${p.id}`)}>
+                        {p.name}
+                      </button>
+                    </span>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CreditsSection;
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Download, FileJson, FileSpreadsheet, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/utils";
+import { todayIso } from "@/utils/watches";
+import { buildArchive, buildLetterboxdCsvs, parseArchive, restoreArchive } from "@/utils/archive";
+
+type Busy = "json" | "csv" | "restore" | null;
+
+// Settings card: "Download my data" as a JSON archive or Letterboxd CSVs, and restore from an archive
+const DataExport = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<Busy>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const fail = (title: string, e: unknown) => {
+    toast({ title, description: e instanceof Error ? e.message : "Please try again later.", variant: "destructive" });
+  };
+
+  const downloadJson = async () => {
+    if (!user) return;
+    setBusy("json");
+    try {
+      const archive = await buildArchive(user.id);
+      downloadFile(`cinepulse-data-${todayIso()}.json`, JSON.stringify(archive, null, 2), "application/json");
+    } catch (e) {
+      fail("Export failed", e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const downloadCsvs = async () => {
+    if (!user) return;
+    setBusy("csv");
+    setProgress(0);
+    try {
+      const archive = await buildArchive(user.id);
+      const files = await buildLetterboxdCsvs(archive, (done, total) => setProgress(Math.round((done / total) * 100)));
+      for (const [name, content] of Object.entries(files)) {
+        downloadFile(`letterboxd-${name}`, content, "text/csv");
+      }
+    } catch (e) {
+      fail("Export failed", e);
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const restore = async (file: File | undefined) => {
+    if (!user || !file) return;
+    setBusy("restore");
+    try {
+      const archive = parseArchive(await file.text());
+      const summary = await restoreArchive(user.id, archive);
+      toast({
+        title: "Archive restored",
+        description: [
+          `${summary.favorites} favorites, ${summary.watchlist} watchlist items, ${summary.ratings} ratings, ${summary.watches} diary entries, ${summary.activity} activity events`,
+          ...summary.warnings,
+        ].join(". "),
+      });
+    } catch (e) {
+      fail("Restore failed", e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Your data</h2>
+        <p className="text-sm text-muted-foreground">
+          Download everything we store for your account: profile, favorites, watchlist, ratings, diary, activity,
+          taste memory and assistant chats. The CSVs can be imported into Letterboxd.
+        </p>
+      </div>
+
+      {!user ? (
+        <p className="text-sm text-muted-foreground">Sign in to download or restore your data.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={downloadJson} disabled={busy !== null}>
+              <FileJson size={16} className="mr-2" />
+              {busy === "json" ? "Preparing..." : "Download my data"}
+            </Button>
+            <Button variant="outline" onClick={downloadCsvs} disabled={busy !== null}>
+              <FileSpreadsheet size={16} className="mr-2" />
+              {busy === "csv" ? "Preparing..." : "Letterboxd CSVs"}
+            </Button>
+            <Button variant="outline" asChild disabled={busy !== null}>
+              <label className={busy !== null ? "pointer-events-none opacity-50" : "cursor-pointer"}>
+                <Upload size={16} className="mr-2" />
+                {busy === "restore" ? "Restoring..." : "Restore from archive"}
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    restore(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+          </div>
+          {progress !== null && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Download size={12} /> Looking up titles…
+              </p>
+              <Progress value={progress} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DataExport;
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/utils";
+import {
+  DELETE_CONFIRM_PHRASE,
+  clearLocalAccountData,
+  deleteAccount,
+  hasPassword,
+  reauthenticateWithPassword,
+  sendReauthCode,
+  verifyReauthCode,
+  type DeletionReceipt,
+} from "@/utils/account";
+
+type Step = "reauth" | "confirm" | "done";
+
+// Settings danger zone: re-authenticate, type the phrase, purge everything
+const DeleteAccount = () => {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("reauth");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [phrase, setPhrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+
+  if (!user?.email) return null;
+  const email = user.email;
+  const usesPassword = hasPassword(user);
+
+  const start = () => {
+    setStep("reauth");
+    setPassword("");
+    setCode("");
+    setCodeSent(false);
+    setPhrase("");
+    setReceipt(null);
+    setOpen(true);
+  };
+
+  const run = async (action: () => Promise<void>, failTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      toast({ title: failTitle, description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reauthenticate = () =>
+    run(async () => {
+      if (usesPassword) await reauthenticateWithPassword(email, password);
+      else await verifyReauthCode(email, code);
+      setStep("confirm");
+    }, "Could not confirm your identity");
+
+  const sendCode = () =>
+    run(async () => {
+      await sendReauthCode(email);
+      setCodeSent(true);
+      toast({ title: "Code sent", description: `Check ${email} for a sign-in code` });
+    }, "Could not send a code");
+
+  const confirmDeletion = () =>
+    run(async () => {
+      const userId = user.id;
+      try {
+        const result = await deleteAccount();
+        setReceipt(result);
+        setStep("done");
+        clearLocalAccountData(userId);
+      } catch (e) {
+        const partial = (e as { receipt?: DeletionReceipt }).receipt;
+        if (partial) setReceipt(partial);
+        throw e;
+      }
+    }, "Account deletion failed");
+
+  const finish = async () => {
+    setOpen(false);
+    await signOut();
+    navigate("/");
+  };
+
+  return (
+    <div className="p-4 border border-destructive/50 rounded-lg flex items-center justify-between gap-4">
+      <div>
+        <h2 className="text-lg font-semibold">Delete account</h2>
+        <p className="text-sm text-muted-foreground">
+          Permanently delete your account with your library, ratings, diary, activity and assistant chats. This cannot be undone.
+        </p>
+      </div>
+      <Button variant="destructive" onClick={start} aria-label="Delete account">
+        <Trash2 size={16} className="mr-2" /> Delete
+      </Button>
+
+      <Dialog open={open} onOpenChange={(next) => (step === "done" ? finish() : setOpen(next))}>
+        <DialogContent className="sm:max-w-md">
+          {step === "reauth" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Confirm it's you</DialogTitle>
+                <DialogDescription>
+                  {usesPassword ? "Enter your password to continue." : `We'll email a sign-in code to ${email}.`}
+                </DialogDescription>
+              </DialogHeader>
+              {usesPassword ? (
+                <div className="space-y-2">
+                  <Label htmlFor="delete-password">Password</Label>
+                  <Input
+                    id="delete-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+              ) : codeSent ? (
+                <div className="space-y-2">
+                  <Label htmlFor="delete-code">Code</Label>
+                  <Input
+                    id="delete-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
+              ) : null}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+                {!usesPassword && !codeSent ? (
+                  <Button onClick={sendCode} disabled={busy}>{busy ? "Sending..." : "Send code"}</Button>
+                ) : (
+                  <Button onClick={reauthenticate} disabled={busy || !(usesPassword ? password : code.trim())}>
+                    {busy ? "Checking..." : "Continue"}
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+
+          {step === "confirm" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Delete your account?</DialogTitle>
+                <DialogDescription>
+                  Everything stored for {email} will be erased. Download your data from this page first if you want to keep it.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="delete-phrase">Type {DELETE_CONFIRM_PHRASE} to confirm</Label>
+                <Input id="delete-phrase" value={phrase} onChange={(e) => setPhrase(e.target.value)} autoComplete="off" />
+              </div>
+              {receipt && !receipt.auth_user_deleted && (
+                <p className="text-sm text-destructive">
+                  Some data could not be removed ({receipt.tables.filter(t => t.error).map(t => t.table).join(", ")}). Your account was kept; try again.
+                </p>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+                <Button
+                  variant="destructive"
+                  onClick={confirmDeletion}
+                  disabled={busy || phrase !== DELETE_CONFIRM_PHRASE}
+                >
+                  {busy ? "Deleting..." : "Delete forever"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {step === "done" && receipt && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Account deleted</DialogTitle>
+                <DialogDescription>Receipt {receipt.receipt_id}</DialogDescription>
+              </DialogHeader>
+              <ul className="text-sm space-y-1">
+                {receipt.tables.map(t => (
+                  <li key={t.table} className="flex justify-between">
+                    <span className="text-muted-foreground">{t.table}</span>
+                    <span>{t.deleted}</span>
+                  </li>
+                ))}
+              </ul>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => downloadFile(`cinepulse-deletion-${receipt.receipt_id}.json`, JSON.stringify(receipt, null, 2), "application/json")}>Download receipt</Button>
+                <Button onClick={finish}>Done</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DeleteAccount;
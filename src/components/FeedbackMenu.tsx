@@ -0,0 +1,85 @@
+import { ThumbsDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { hideGenre, markNotInterested, readHistory, showFewerLike, undoFeedback, type FeedbackType } from "@/utils/history";
+import type { ContentRef } from "@/lib/content";
+
+interface FeedbackMenuProps {
+  content: ContentRef;
+  title: string;
+  genreIds?: number[];
+  // Names for the "Hide genre" entries; genres without a name are not offered
+  genreNames: Record<number, string>;
+  className?: string;
+  // Called after feedback is recorded or undone so the page can re-rank
+  onChange?: (type: FeedbackType) => void;
+}
+
+// Card menu for telling the ranker what not to show
+const FeedbackMenu = ({ content, title, genreIds = [], genreNames, className, onChange }: FeedbackMenuProps) => {
+  const { toast } = useToast();
+  const genres = genreIds.filter(g => genreNames[g]);
+
+  const record = (type: FeedbackType, apply: () => void, message: string) => {
+    apply();
+    onChange?.(type);
+    // The event just logged is the newest one
+    const { events } = readHistory();
+    const evt = events[events.length - 1];
+    toast({
+      title: message,
+      description: "You can review hidden items in Settings.",
+      action: evt ? (
+        <ToastAction altText="Undo" onClick={() => { void undoFeedback(evt).then(() => onChange?.(type)); }}>
+          Undo
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={className}
+          title="Not interested"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <ThumbsDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuItem onSelect={() => record('not_interested', () => markNotInterested(content, title, genreIds), `Hidden: ${title}`)}>
+          Not interested
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => record('show_fewer', () => showFewerLike(content, title, genreIds), `Showing fewer like ${title}`)}>
+          Show fewer like this
+        </DropdownMenuItem>
+        {genres.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Hide genre</DropdownMenuLabel>
+            {genres.map(g => (
+              <DropdownMenuItem key={g} onSelect={() => record('hide_genre', () => hideGenre(g, genreNames[g]), `Hidden genre: ${genreNames[g]}`)}>
+                {genreNames[g]}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default FeedbackMenu;
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { contentKey, contentPath } from "@/lib/content";
+import { readHistory, undoFeedback, type FeedbackType, type HistoryEvent } from "@/utils/history";
+
+const SECTIONS: Array<{ type: FeedbackType; title: string; empty: string }> = [
+  { type: "not_interested", title: "Not interested", empty: "No hidden titles." },
+  { type: "show_fewer", title: "Showing fewer like", empty: "Nothing down-ranked." },
+  { type: "hide_genre", title: "Hidden genres", empty: "No hidden genres." },
+];
+
+// One entry per title or genre, newest first
+const feedbackOf = (type: FeedbackType): HistoryEvent[] => {
+  const byTarget = new Map<string, HistoryEvent>();
+  for (const e of readHistory().events) {
+    if (e.type !== type) continue;
+    const target = e.content ? contentKey(e.content) : `genre:${e.genres?.[0]}`;
+    byTarget.set(target, e);
+  }
+  return [...byTarget.values()].sort((a, b) => b.ts - a.ts);
+};
+
+const loadSections = () => SECTIONS.map(s => ({ ...s, items: feedbackOf(s.type) }));
+
+// Settings card: review "Not interested", "Show fewer" and hidden genres, and undo them
+const HiddenContent = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [sections, setSections] = useState(loadSections);
+
+  useEffect(() => {
+    const refresh = () => setSections(loadSections());
+    window.addEventListener("cinepulse_history_changed", refresh);
+    return () => window.removeEventListener("cinepulse_history_changed", refresh);
+  }, []);
+
+  const undo = async (evt: HistoryEvent) => {
+    await undoFeedback(evt);
+    setSections(loadSections());
+    toast({ title: "Restored", description: `${evt.title || "This item"} can appear in recommendations again.` });
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Hidden from recommendations</h2>
+        <p className="text-sm text-muted-foreground">
+          Titles and genres you asked not to see. Undo any of them to let them back into recommendations.
+        </p>
+      </div>
+      {sections.map(section => (
+        <div key={section.type} className="space-y-2">
+          <h3 className="text-sm font-medium">{section.title}</h3>
+          {section.items.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{section.empty}</p>
+          ) : (
+            <ul className="space-y-1">
+              {section.items.map(evt => (
+                <li key={`${evt.type}-${evt.ts}`} className="flex items-center justify-between gap-2 text-sm">
+                  {evt.content ? (
+                    <button className="text-left hover:underline line-clamp-1" onClick={() => navigate(contentPath(evt.content!))}>
+                      {evt.title || contentKey(evt.content)}
+                    </button>
+                  ) : (
+                    <Badge variant="outline">{evt.title || `Genre ${evt.genres?.[0]}`}</Badge>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => undo(evt)}>
+                    <Undo2 size={14} className="mr-1" /> Undo
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HiddenContent;
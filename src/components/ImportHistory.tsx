@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { Check, FileUp, Film, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { releaseYear, tmdbImage, type TmdbTitle } from "@/lib/tmdb";
+import {
+  IMPORT_SOURCE_LABELS,
+  applyImport,
+  groupRows,
+  matchGroups,
+  parseImportFile,
+  type ImportFile,
+  type MatchGroup,
+} from "@/utils/imports";
+
+type Stage = "pick" | "matching" | "review" | "importing";
+
+// Settings card: Letterboxd / IMDb CSV exports -> TMDB matches -> diary, ratings, watchlist
+const ImportHistory = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [files, setFiles] = useState<ImportFile[]>([]);
+  const [groups, setGroups] = useState<MatchGroup[]>([]);
+  const [stage, setStage] = useState<Stage>("pick");
+  const [progress, setProgress] = useState(0);
+
+  const reset = () => {
+    setFiles([]);
+    setGroups([]);
+    setProgress(0);
+    setStage("pick");
+  };
+
+  const onFiles = async (list: FileList | null) => {
+    if (!list) return;
+    const parsed: ImportFile[] = [];
+    for (const file of Array.from(list)) {
+      try {
+        parsed.push(parseImportFile(file.name, await file.text()));
+      } catch (e) {
+        toast({ title: "Unsupported file", description: e instanceof Error ? e.message : file.name, variant: "destructive" });
+      }
+    }
+    setFiles(prev => [...prev.filter(f => !parsed.some(p => p.name === f.name)), ...parsed]);
+  };
+
+  const runMatching = async () => {
+    setStage("matching");
+    setProgress(0);
+    const matched = await matchGroups(
+      groupRows(files.flatMap(f => f.rows)),
+      (done, total) => setProgress(Math.round((done / total) * 100))
+    );
+    setGroups(matched);
+    setStage("review");
+  };
+
+  const choose = (key: string, title: TmdbTitle | null) => {
+    setGroups(list => list.map(g => (g.key === key ? { ...g, chosen: title } : g)));
+  };
+
+  const runImport = async () => {
+    if (!user) return;
+    setStage("importing");
+    try {
+      const summary = await applyImport(user.id, groups);
+      toast({
+        title: "Import complete",
+        description: `${summary.watches} diary entries, ${summary.ratings} ratings, ${summary.watchlist} watchlist items, ${summary.history} history events`,
+      });
+      reset();
+    } catch (e) {
+      toast({ title: "Import failed", description: e instanceof Error ? e.message : "Please try again later.", variant: "destructive" });
+      setStage("review");
+    }
+  };
+
+  const totalRows = files.reduce((n, f) => n + f.rows.length, 0);
+  const matched = groups.filter(g => g.status === "matched");
+  const pending = groups.filter(g => g.status !== "matched");
+  const accepted = groups.filter(g => g.chosen).length;
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Import history</h2>
+        <p className="text-sm text-muted-foreground">
+          Bring your diary, ratings, watched films and watchlist from Letterboxd (diary.csv, ratings.csv, watched.csv, watchlist.csv) or IMDb (ratings CSV).
+          Files are read in your browser.
+        </p>
+      </div>
+
+      {!user ? (
+        <p className="text-sm text-muted-foreground">Sign in to import your history.</p>
+      ) : stage === "pick" ? (
+        <div className="space-y-3">
+          <label className="flex items-center justify-center gap-2 border border-dashed rounded-md p-4 cursor-pointer text-sm text-muted-foreground hover:bg-muted/50">
+            <FileUp size={16} /> Choose CSV files
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                onFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {files.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {files.map(f => (
+                <li key={f.name} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{f.name}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <Badge variant="secondary">{IMPORT_SOURCE_LABELS[f.source]}</Badge>
+                    <span className="text-muted-foreground">
+                      {f.rows.length} rows{f.skipped > 0 ? `, ${f.skipped} skipped` : ""}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            {files.length > 0 && <Button variant="outline" onClick={reset}>Clear</Button>}
+            <Button onClick={runMatching} disabled={totalRows === 0}>
+              Match {totalRows > 0 ? `${totalRows} rows` : ""}
+            </Button>
+          </div>
+        </div>
+      ) : stage === "matching" ? (
+        <div className="space-y-2">
+          <p className="text-sm">Matching titles against TMDB…</p>
+          <Progress value={progress} />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm">
+            {matched.length} matched automatically
+            {pending.length > 0 && `, ${pending.length} need your review`}.
+          </p>
+
+          {pending.length > 0 && (
+            <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+              {pending.map(g => (
+                <div key={g.key} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm truncate">
+                      {g.title}{g.year ? ` (${g.year})` : ""}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant={g.chosen ? "ghost" : "secondary"}
+                      onClick={() => choose(g.key, null)}
+                    >
+                      Skip
+                    </Button>
+                  </div>
+                  {g.candidates.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No match found on TMDB</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {g.candidates.map(c => {
+                        const selected = g.chosen?.id === c.title.id && g.chosen?.media_type === c.title.media_type;
+                        return (
+                          <button
+                            key={`${c.title.media_type}:${c.title.id}`}
+                            type="button"
+                            onClick={() => choose(g.key, c.title)}
+                            className={`w-full flex items-center gap-3 rounded p-1.5 text-left text-sm hover:bg-muted ${selected ? "bg-muted ring-1 ring-primary" : ""}`}
+                          >
+                            <div className="w-8 h-12 shrink-0 rounded overflow-hidden bg-muted flex items-center justify-center">
+                              {c.title.poster_path ? (
+                                <img src={tmdbImage(c.title.poster_path, "w92") || ""} alt="" className="w-full h-full object-cover" />
+                              ) : (
+                                <Film className="h-4 w-4 text-muted-foreground/40" />
+                              )}
+                            </div>
+                            <span className="flex-1 min-w-0 truncate">
+                              {c.title.title}
+                              {releaseYear(c.title) && <span className="text-muted-foreground"> ({releaseYear(c.title)})</span>}
+                            </span>
+                            <span className="text-xs text-muted-foreground">{Math.round(c.confidence * 100)}%</span>
+                            {selected && <Check size={14} className="text-primary" />}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={reset} disabled={stage === "importing"}>Cancel</Button>
+            <Button onClick={runImport} disabled={stage === "importing" || accepted === 0}>
+              <Upload size={16} className="mr-2" />
+              {stage === "importing" ? "Importing..." : `Import ${accepted} titles`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,101 @@
+import { Heart, Plus, Share } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useLibraryToggle } from "@/hooks/useLibraryToggle";
+import type { ContentRef } from "@/lib/content";
+import MarkWatchedButton from "@/components/MarkWatchedButton";
+
+interface LibraryActionsProps {
+  content: ContentRef;
+  title: string;
+  posterPath?: string | null;
+  buttonClassName?: string;
+}
+
+// Favorite / watchlist / watched / share buttons shared by the details pages
+const LibraryActions = ({
+  content,
+  title,
+  posterPath,
+  buttonClassName = "text-white border-white hover:bg-white hover:text-black",
+}: LibraryActionsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { saved: isFavorite, toggle: toggleFavorite } = useLibraryToggle('user_favorites', content);
+  const { saved: inWatchlist, toggle: toggleWatchlist } = useLibraryToggle('user_watchlist', content);
+
+  const handleShare = async () => {
+    const url = window.location.href;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title,
+          text: `Check out this ${content.kind === 'tv' ? 'series' : 'movie'}: ${title}`,
+          url: url,
+        });
+      } catch (error) {
+        console.log('Error sharing:', error);
+      }
+    } else {
+      try {
+        await navigator.clipboard.writeText(url);
+        toast({ title: "Link copied to clipboard!" });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to copy link",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {user && (
+        <>
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={toggleFavorite}
+            className={buttonClassName}
+          >
+            <Heart className={`mr-2 h-4 w-4 ${isFavorite ? 'fill-current' : ''}`} />
+            {isFavorite ? 'Favorited' : 'Favorite'}
+          </Button>
+
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={toggleWatchlist}
+            className={buttonClassName}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {inWatchlist ? 'In Watchlist' : 'Watchlist'}
+          </Button>
+
+          <MarkWatchedButton
+            content={content}
+            title={title}
+            posterPath={posterPath}
+            className={buttonClassName}
+          />
+        </>
+      )}
+
+      <Button
+        variant="outline"
+        size="lg"
+        onClick={handleShare}
+        className={buttonClassName}
+      >
+        <Share className="mr-2 h-4 w-4" />
+        Share
+      </Button>
+    </div>
+  );
+};
+
+export default LibraryActions;
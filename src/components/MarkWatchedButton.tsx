@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Eye, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWatchesFor, logWatch, todayIso } from "@/utils/watches";
+import type { ContentRef } from "@/lib/content";
+
+interface MarkWatchedButtonProps {
+  content: ContentRef;
+  title: string;
+  posterPath?: string | null;
+  // "icon" fits card overlays; "button" matches the details page actions
+  variant?: "button" | "icon";
+  className?: string;
+  onLogged?: () => void;
+}
+
+// Opens a small form to log a viewing: date (today by default), rating, notes
+const MarkWatchedButton = ({
+  content,
+  title,
+  posterPath,
+  variant = "button",
+  className,
+  onLogged,
+}: MarkWatchedButtonProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [watchedOn, setWatchedOn] = useState(todayIso());
+  const [rating, setRating] = useState<number | null>(null);
+  const [notes, setNotes] = useState("");
+  const [previousViews, setPreviousViews] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = async () => {
+    if (!user) {
+      toast({ title: "Sign in required", description: "Please sign in to keep a watch diary", variant: "destructive" });
+      return;
+    }
+    setWatchedOn(todayIso());
+    setRating(null);
+    setNotes("");
+    setOpen(true);
+    try {
+      const views = await fetchWatchesFor(user.id, content);
+      setPreviousViews(views.length);
+    } catch {
+      setPreviousViews(0);
+    }
+  };
+
+  const save = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await logWatch(user.id, content, { watchedOn, rating, notes, title, poster_path: posterPath });
+      toast({ title: previousViews > 0 ? "Rewatch logged" : "Marked as watched" });
+      setOpen(false);
+      onLogged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save to your diary",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {variant === "icon" ? (
+        <Button
+          size="icon"
+          variant="secondary"
+          className={className}
+          onClick={(e) => {
+            e.stopPropagation();
+            openDialog();
+          }}
+          title="Mark as watched"
+        >
+          <Eye size={16} />
+        </Button>
+      ) : (
+        <Button variant="outline" size="lg" className={className} onClick={openDialog}>
+          <Eye className="mr-2 h-4 w-4" />
+          Mark as watched
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              {previousViews > 0
+                ? `Already in your diary ${previousViews} time${previousViews > 1 ? "s" : ""} — this will be logged as a rewatch.`
+                : "Add this viewing to your diary."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="watched-on">Watched on</Label>
+              <Input
+                id="watched-on"
+                type="date"
+                value={watchedOn}
+                max={todayIso()}
+                onChange={(e) => setWatchedOn(e.target.value || todayIso())}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rating</Label>
+              <div className="flex items-center gap-1">
+                {[1, 2, 3, 4, 5].map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    className="p-0.5"
+                    aria-label={`Rate ${n} star${n > 1 ? "s" : ""}`}
+                    onClick={() => setRating(rating === n ? null : n)}
+                  >
+                    <Star
+                      size={20}
+                      className={(rating ?? 0) >= n ? "fill-yellow-500 text-yellow-500" : "text-muted-foreground"}
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="watch-notes">Notes</Label>
+              <Textarea
+                id="watch-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What did you think?"
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default MarkWatchedButton;
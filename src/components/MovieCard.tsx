@@ -1,9 +1,12 @@
 import { Star, Calendar, Search, Play } from "lucide-react";
 import { Button } from "./ui/button";
 import { logExternalSearch, logTrailerPlay } from "@/utils/history";
+import { refOf } from "@/lib/content";
+import type { MediaKind } from "@/lib/tmdb";
 
 interface Movie {
   id: number;
+  media_type?: MediaKind;
   title: string;
   poster_path: string;
   release_date: string;
@@ -22,13 +25,13 @@ const MovieCard = ({ movie, className = "", style }: MovieCardProps) => {
 
   const handleSearchInBrowser = () => {
     const searchQuery = encodeURIComponent(movie.title + " movie");
-    try { logExternalSearch(movie.title, movie.id); } catch {}
+    try { logExternalSearch(movie.title, refOf(movie)); } catch {}
     window.open(`https://www.google.com/search?q=${searchQuery}`, '_blank');
   };
 
   const handleOpenTrailer = () => {
     const q = encodeURIComponent(`${movie.title} trailer`);
-    try { logTrailerPlay(movie.id, movie.title); } catch {}
+    try { logTrailerPlay(refOf(movie), movie.title); } catch {}
     window.open(`https://www.youtube.com/results?search_query=${q}`, '_blank');
   };
 
@@ -0,0 +1,40 @@
+import { Sparkles } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { RecoExplanation } from "@/utils/reco";
+
+interface RecoReasonProps {
+  explanation: RecoExplanation | undefined;
+  className?: string;
+}
+
+// Short "why this title" line; hovering lists the factors behind the score
+const RecoReason = ({ explanation, className }: RecoReasonProps) => {
+  if (!explanation) return null;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <p className={cn("text-xs text-muted-foreground flex items-center gap-1 cursor-help", className)}>
+          <Sparkles className="h-3 w-3 shrink-0 text-primary" />
+          <span className="line-clamp-1">{explanation.reason}</span>
+        </p>
+      </TooltipTrigger>
+      {explanation.factors.length > 0 && (
+        <TooltipContent className="max-w-xs">
+          <ul className="space-y-0.5 text-xs">
+            {explanation.factors.map(f => (
+              <li key={f.label} className="flex justify-between gap-4">
+                <span>{f.label}</span>
+                <span className={f.value < 0 ? "text-destructive" : "text-muted-foreground"}>
+                  {f.value > 0 ? "+" : ""}{f.value.toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </TooltipContent>
+      )}
+    </Tooltip>
+  );
+};
+
+export default RecoReason;
@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { contentKey, refOf } from "@/lib/content";
+import { tmdb, tmdbImage, releaseYear, type TmdbTitle } from "@/lib/tmdb";
+import { readHistory } from "@/utils/history";
+import { scoreCandidates } from "@/utils/reco";
+import {
+  hydrateRecoConfigFromSupabase,
+  NEUTRAL_TUNING,
+  readRecoConfig,
+  saveRecoConfig,
+  tuneRecoConfig,
+  tuningOf,
+  type RecoTuning,
+} from "@/utils/recoConfig";
+import RecoReason from "@/components/RecoReason";
+
+const SLIDERS: Array<{ key: keyof RecoTuning; left: string; right: string }> = [
+  { key: "adventurous", left: "Familiar", right: "Adventurous" },
+  { key: "hiddenGems", left: "Popular", right: "Hidden gems" },
+  { key: "classic", left: "Recent", right: "Classic" },
+];
+
+const PREVIEW_SIZE = 8;
+
+// Popular titles plus well-rated older and lesser-known ones, so every slider
+// has something to move
+const loadPreviewPool = async (): Promise<TmdbTitle[]> => {
+  const pages = await Promise.all([
+    tmdb.popular("movie"),
+    tmdb.discover("movie", { sort_by: "vote_average.desc", "vote_count.gte": 2000 }),
+    tmdb.discover("movie", { sort_by: "vote_average.desc", "vote_count.gte": 150, "vote_count.lte": 1000 }),
+  ]);
+  const byKey = new Map<string, TmdbTitle>();
+  for (const page of pages) {
+    for (const t of page?.results || []) byKey.set(contentKey(refOf(t)), t);
+  }
+  return [...byKey.values()];
+};
+
+// Settings card: three sliders over the ranker's weights with a live preview
+const RecoTuningPanel = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tuning, setTuning] = useState<RecoTuning>(() => tuningOf(readRecoConfig()));
+  const [pool, setPool] = useState<TmdbTitle[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPreviewPool()
+      .then(titles => { if (!cancelled) setPool(titles); })
+      .catch(e => console.warn("Failed to load preview titles", e));
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    hydrateRecoConfigFromSupabase(user.id)
+      .then(() => setTuning(tuningOf(readRecoConfig())))
+      .catch(e => console.warn("Failed to load recommendation settings", e));
+  }, [user?.id]);
+
+  const preview = useMemo(
+    () => scoreCandidates(pool, readHistory(), tuneRecoConfig(tuning)).slice(0, PREVIEW_SIZE),
+    [pool, tuning]
+  );
+
+  const save = async (next: RecoTuning) => {
+    setSaving(true);
+    try {
+      await saveRecoConfig(user?.id ?? null, tuneRecoConfig(next));
+      toast({ title: "Recommendations updated", description: "New rankings apply across the app." });
+    } catch (e) {
+      toast({
+        title: "Saved on this device only",
+        description: e instanceof Error ? e.message : "Could not sync to your account.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Recommendation style</h2>
+        <p className="text-sm text-muted-foreground">
+          Tune how recommendations are ranked. The preview re-ranks as you move the sliders.
+        </p>
+      </div>
+
+      <div className="space-y-5">
+        {SLIDERS.map(({ key, left, right }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{left}</span>
+              <span>{right}</span>
+            </div>
+            <Slider
+              min={-1}
+              max={1}
+              step={0.1}
+              value={[tuning[key]]}
+              onValueChange={([v]) => setTuning(t => ({ ...t, [key]: v }))}
+              aria-label={`${left} to ${right}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={() => save(tuning)} disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => { setTuning(NEUTRAL_TUNING); void save(NEUTRAL_TUNING); }}
+          disabled={saving}
+        >
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Preview</h3>
+        {preview.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Loading titles…</p>
+        ) : (
+          <ol className="space-y-2">
+            {preview.map(({ item, explanation }, i) => (
+              <li key={contentKey(refOf(item))} className="flex items-center gap-3">
+                <span className="w-4 text-xs text-muted-foreground">{i + 1}</span>
+                <img
+                  src={tmdbImage(item.poster_path, "w92") || "/placeholder.svg"}
+                  alt={item.title}
+                  className="h-12 w-8 rounded object-cover"
+                  loading="lazy"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium line-clamp-1">
+                    {item.title} <span className="text-muted-foreground font-normal">{releaseYear(item)}</span>
+                  </p>
+                  <RecoReason explanation={explanation} />
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecoTuningPanel;
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Brain, Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { contentPath } from "@/lib/content";
+import {
+  deleteTasteMemory,
+  fetchTasteMemories,
+  parseEmotions,
+  updateTasteMemory,
+  type TasteMemory,
+} from "@/utils/tasteMemory";
+
+interface TasteMemoriesProps {
+  userId: string;
+}
+
+// Profile section: what the assistant remembers from chats, with inline editing and deletion
+const TasteMemories = ({ userId }: TasteMemoriesProps) => {
+  const { toast } = useToast();
+  const [memories, setMemories] = useState<TasteMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftDescription, setDraftDescription] = useState("");
+  const [draftEmotions, setDraftEmotions] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMemories(await fetchTasteMemories(userId));
+    } catch (error) {
+      console.error("Error fetching taste memories:", error);
+      toast({ title: "Ошибка", description: "Не удалось загрузить воспоминания ассистента", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const startEditing = (memory: TasteMemory) => {
+    setEditingId(memory.id);
+    setDraftDescription(memory.description);
+    setDraftEmotions(memory.emotions.join(", "));
+  };
+
+  const save = async (memory: TasteMemory) => {
+    const description = draftDescription.trim();
+    if (!description) return;
+    const patch = { description, emotions: parseEmotions(draftEmotions) };
+    const prev = memories;
+    setEditingId(null);
+    setMemories(list => list.map(m => (m.id === memory.id ? { ...m, ...patch } : m)));
+    try {
+      await updateTasteMemory(memory.id, patch);
+    } catch {
+      setMemories(prev);
+      toast({ title: "Ошибка", description: "Не удалось сохранить изменения", variant: "destructive" });
+    }
+  };
+
+  const remove = async (memory: TasteMemory) => {
+    const prev = memories;
+    setMemories(list => list.filter(m => m.id !== memory.id));
+    try {
+      await deleteTasteMemory(memory.id);
+    } catch {
+      setMemories(prev);
+      toast({ title: "Ошибка", description: "Не удалось удалить запись", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-2xl font-bold flex items-center gap-2 mb-2">
+        <Brain className="h-6 w-6 text-primary" />
+        Что помнит ассистент
+      </h2>
+      <p className="text-sm text-muted-foreground mb-8">
+        Ассистент запоминает, что вам нравится и что нет, из ваших разговоров и учитывает это в советах.
+        Отключить это можно в <Link to="/settings" className="underline hover:text-foreground">настройках</Link>.
+      </p>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : memories.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg">
+          <Brain className="mx-auto h-12 w-12 text-muted-foreground/30 mb-4" />
+          <h3 className="text-lg font-medium text-muted-foreground">Пока ничего</h3>
+          <p className="text-sm text-muted-foreground mt-2">
+            Расскажите ассистенту, что вы любите смотреть, и он это запомнит
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {memories.map((memory) => (
+            <Card key={memory.id}>
+              <CardContent className="p-4">
+                {editingId === memory.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={draftDescription}
+                      onChange={(e) => setDraftDescription(e.target.value)}
+                      className="min-h-[60px]"
+                      aria-label="Memory"
+                      autoFocus
+                    />
+                    <Input
+                      value={draftEmotions}
+                      onChange={(e) => setDraftEmotions(e.target.value)}
+                      placeholder="Эмоции через запятую"
+                      aria-label="Emotions"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Отмена
+                      </Button>
+                      <Button size="sm" onClick={() => save(memory)} disabled={!draftDescription.trim()}>
+                        Сохранить
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      {memory.content && (
+                        <Link to={contentPath(memory.content)} className="text-sm font-medium hover:underline">
+                          {memory.title || `#${memory.content.id}`}
+                        </Link>
+                      )}
+                      <p className="whitespace-pre-line">{memory.description}</p>
+                      {memory.emotions.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {memory.emotions.map(emotion => (
+                            <Badge key={emotion} variant="secondary" className="text-[10px]">{emotion}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(memory)} aria-label="Edit memory">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => remove(memory)} aria-label="Delete memory">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TasteMemories;
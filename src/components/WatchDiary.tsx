@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BookOpen, Film, RotateCcw, Star, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { contentPath } from "@/lib/content";
+import { tmdbImage } from "@/lib/tmdb";
+import { deleteWatch, fetchWatches, groupByMonth, updateWatch, type WatchEntry, type WatchPatch } from "@/utils/watches";
+
+const monthLabel = (month: string) => {
+  const d = new Date(`${month}-01T00:00:00`);
+  return Number.isNaN(d.getTime())
+    ? month
+    : d.toLocaleDateString("ru-RU", { month: "long", year: "numeric" });
+};
+
+interface WatchDiaryProps {
+  userId: string;
+}
+
+// Profile diary: every logged viewing grouped by month, with inline rating and notes
+const WatchDiary = ({ userId }: WatchDiaryProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<WatchEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftNotes, setDraftNotes] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await fetchWatches(userId));
+    } catch (error) {
+      console.error("Error fetching diary:", error);
+      toast({ title: "Ошибка", description: "Не удалось загрузить дневник", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const patchEntry = async (entry: WatchEntry, patch: WatchPatch) => {
+    const prev = entries;
+    setEntries(list => list.map(e => (e.id === entry.id ? { ...e, ...patch } : e)));
+    try {
+      await updateWatch(entry.id, patch);
+    } catch {
+      setEntries(prev);
+      toast({ title: "Ошибка", description: "Не удалось сохранить изменения", variant: "destructive" });
+    }
+  };
+
+  const removeEntry = async (entry: WatchEntry) => {
+    try {
+      await deleteWatch(entry.id);
+      // Rewatch flags depend on the remaining rows
+      await load();
+    } catch {
+      toast({ title: "Ошибка", description: "Не удалось удалить запись", variant: "destructive" });
+    }
+  };
+
+  const startEditing = (entry: WatchEntry) => {
+    setEditingId(entry.id);
+    setDraftNotes(entry.notes || "");
+  };
+
+  const saveNotes = async (entry: WatchEntry) => {
+    setEditingId(null);
+    await patchEntry(entry, { notes: draftNotes.trim() || null });
+  };
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-2xl font-bold flex items-center gap-2 mb-8">
+        <BookOpen className="h-6 w-6 text-primary" />
+        Дневник просмотров
+      </h2>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg">
+          <BookOpen className="mx-auto h-12 w-12 text-muted-foreground/30 mb-4" />
+          <h3 className="text-lg font-medium text-muted-foreground">Дневник пуст</h3>
+          <p className="text-sm text-muted-foreground mt-2">
+            Отмечайте просмотренные фильмы и сериалы, чтобы они появились здесь
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {groupByMonth(entries).map(({ month, entries: monthEntries }) => (
+            <section key={month}>
+              <h3 className="text-lg font-semibold capitalize mb-3">
+                {monthLabel(month)}
+                <span className="ml-2 text-sm font-normal text-muted-foreground">{monthEntries.length}</span>
+              </h3>
+              <div className="space-y-3">
+                {monthEntries.map((entry) => (
+                  <Card key={entry.id}>
+                    <CardContent className="p-4 flex gap-4">
+                      <div className="w-10 shrink-0 text-center">
+                        <div className="text-2xl font-bold leading-none">{Number(entry.watchedOn.slice(8, 10))}</div>
+                      </div>
+                      <button
+                        className="w-12 h-[72px] shrink-0 rounded overflow-hidden bg-muted flex items-center justify-center"
+                        onClick={() => navigate(contentPath(entry.content))}
+                        aria-label={`Open ${entry.title || "title"}`}
+                      >
+                        {entry.poster_path ? (
+                          <img src={tmdbImage(entry.poster_path, "w92") || ""} alt="" className="w-full h-full object-cover" />
+                        ) : (
+                          <Film className="h-5 w-5 text-muted-foreground/40" />
+                        )}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <button
+                              className="font-medium hover:underline text-left line-clamp-1"
+                              onClick={() => navigate(contentPath(entry.content))}
+                            >
+                              {entry.title || `#${entry.content.id}`}
+                            </button>
+                            <div className="flex items-center gap-2 mt-1">
+                              {entry.content.kind === "tv" && <Badge variant="outline" className="text-[10px]">TV</Badge>}
+                              {entry.rewatch && (
+                                <Badge variant="secondary" className="text-[10px]">
+                                  <RotateCcw className="h-3 w-3 mr-1" /> Повтор
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                          <Button variant="ghost" size="icon" onClick={() => removeEntry(entry)} aria-label="Delete entry">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+
+                        <div className="flex items-center gap-0.5 mt-2">
+                          {[1, 2, 3, 4, 5].map((n) => (
+                            <button
+                              key={n}
+                              type="button"
+                              className="p-0.5"
+                              aria-label={`Rate ${n} star${n > 1 ? "s" : ""}`}
+                              onClick={() => patchEntry(entry, { rating: entry.rating === n ? null : n })}
+                            >
+                              <Star
+                                size={14}
+                                className={(entry.rating ?? 0) >= n ? "fill-yellow-500 text-yellow-500" : "text-muted-foreground"}
+                              />
+                            </button>
+                          ))}
+                        </div>
+
+                        {editingId === entry.id ? (
+                          <div className="mt-2 space-y-2">
+                            <Textarea
+                              value={draftNotes}
+                              onChange={(e) => setDraftNotes(e.target.value)}
+                              className="min-h-[60px]"
+                              autoFocus
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                                Отмена
+                              </Button>
+                              <Button size="sm" onClick={() => saveNotes(entry)}>
+                                Сохранить
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            className="mt-2 text-sm text-left text-muted-foreground hover:text-foreground whitespace-pre-line"
+                            onClick={() => startEditing(entry)}
+                          >
+                            {entry.notes || "Добавить заметку…"}
+                          </button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchDiary;
@@ -0,0 +1,139 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useDownloads, type DownloadItem } from "./useDownloads";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1, 12);
+
+const item = (overrides: Partial<DownloadItem> = {}): DownloadItem => ({
+  id: "42",
+  title: "Dune",
+  type: "movie",
+  sourceUrl: "https://example.com/dune.mp4",
+  poster: null,
+  blob: null,
+  progress: 1,
+  status: "completed",
+  createdAt: NOW - 10 * DAY,
+  expiresAt: NOW + DAY,
+  ...overrides,
+});
+
+// Writes straight to the hook's database, creating it the same way it does
+const seed = (items: DownloadItem[]) =>
+  new Promise<void>((resolve, reject) => {
+    const req = indexedDB.open("cinemaease-downloads", 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore("downloads", { keyPath: "id" });
+      store.createIndex("status", "status", { unique: false });
+      store.createIndex("expiresAt", "expiresAt", { unique: false });
+    };
+    req.onsuccess = () => {
+      const tx = req.result.transaction("downloads", "readwrite");
+      items.forEach(it => tx.objectStore("downloads").put(it));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const mount = async () => {
+  const hook = renderHook(() => useDownloads());
+  // Let the initial load from IndexedDB land
+  await act(async () => {
+    await new Promise(r => setTimeout(r, 0));
+  });
+  return hook;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("useDownloads", () => {
+  it("loads stored downloads on mount", async () => {
+    await seed([item()]);
+    const { result } = await mount();
+    await waitFor(() => expect(result.current.items).toHaveLength(1));
+    expect(result.current.getStatus("42")?.status).toBe("completed");
+  });
+
+  it("locks completed downloads once they expire", async () => {
+    await seed([item({ id: "fresh" }), item({ id: "stale", expiresAt: NOW - 1 })]);
+    const { result } = await mount();
+
+    await act(() => result.current.refresh());
+    expect(result.current.getStatus("fresh")?.status).toBe("completed");
+    expect(result.current.getStatus("stale")?.status).toBe("locked");
+  });
+
+  it("leaves unfinished downloads alone when they pass the expiry", async () => {
+    await seed([item({ status: "idle", progress: 0, expiresAt: NOW - 1 })]);
+    const { result } = await mount();
+
+    await act(() => result.current.refresh());
+    expect(result.current.getStatus("42")?.status).toBe("idle");
+  });
+
+  it("unlocks locked downloads for another week when back online", async () => {
+    await seed([item({ status: "locked", expiresAt: NOW - DAY })]);
+    const { result } = await mount();
+
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+    });
+    await waitFor(() => expect(result.current.getStatus("42")?.status).toBe("completed"));
+    expect(result.current.getStatus("42")?.expiresAt).toBe(NOW + 7 * DAY);
+  });
+
+  it("reports offline availability only for completed downloads while offline", async () => {
+    await seed([item({ id: "done" }), item({ id: "locked", status: "locked" })]);
+    const { result } = await mount();
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    expect(result.current.isOfflineAvailable("done")).toBe(true);
+    expect(result.current.isOfflineAvailable("locked")).toBe(false);
+    onLine.mockReturnValue(true);
+    expect(result.current.isOfflineAvailable("done")).toBe(false);
+  });
+
+  it("stays idle when there is no direct link", async () => {
+    const { result } = await mount();
+    let outcome: Awaited<ReturnType<typeof result.current.startDownload>> | undefined;
+    await act(async () => {
+      outcome = await result.current.startDownload("7", "Heat", "movie", null);
+    });
+    expect(outcome).toEqual({ ok: false, reason: "no-url" });
+    expect(result.current.getStatus("7")?.status).toBe("idle");
+  });
+
+  it("stores the file and a fresh expiry when the download completes", async () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(bytes, {
+      headers: { "Content-Length": String(bytes.length), "Content-Type": "video/mp4" },
+    })));
+    const { result } = await mount();
+    await act(async () => {
+      await result.current.startDownload("7", "Heat", "movie", "https://example.com/heat.mp4");
+    });
+    expect(result.current.getStatus("7")).toMatchObject({ status: "completed", progress: 1, expiresAt: NOW + 7 * DAY });
+  });
+
+  it("returns to idle when the download fails", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 404 })));
+    const { result } = await mount();
+    let outcome: Awaited<ReturnType<typeof result.current.startDownload>> | undefined;
+    await act(async () => {
+      outcome = await result.current.startDownload("7", "Heat", "movie", "https://example.com/heat.mp4");
+    });
+    expect(outcome).toEqual({ ok: false, reason: "error" });
+    expect(result.current.getStatus("7")).toMatchObject({ status: "idle", sourceUrl: "https://example.com/heat.mp4" });
+  });
+});
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  EPISODES_CHANGED_EVENT,
+  isEpisodeWatched,
+  readEpisodeProgress,
+  seriesProgress,
+  setEpisodesWatched,
+  type EpisodeNumber,
+  type EpisodeProgressState,
+  type SeriesInfo,
+} from "@/utils/episodes";
+
+// Live view of the local episode progress store; re-renders on any change,
+// including ones made in other tabs.
+export function useEpisodeProgress() {
+  const [state, setState] = useState<EpisodeProgressState>(() => readEpisodeProgress());
+
+  useEffect(() => {
+    const refresh = () => setState(readEpisodeProgress());
+    window.addEventListener(EPISODES_CHANGED_EVENT, refresh);
+    window.addEventListener("storage", refresh);
+    return () => {
+      window.removeEventListener(EPISODES_CHANGED_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+    };
+  }, []);
+
+  const progressFor = useCallback((seriesId: number) => seriesProgress(state, seriesId), [state]);
+
+  const toggleEpisode = useCallback((series: SeriesInfo, ep: EpisodeNumber) => {
+    const watched = isEpisodeWatched(seriesProgress(readEpisodeProgress(), series.id), ep);
+    setEpisodesWatched(series, [ep], !watched);
+  }, []);
+
+  const setWatched = useCallback((series: SeriesInfo, episodes: EpisodeNumber[], watched: boolean) => {
+    setEpisodesWatched(series, episodes, watched);
+  }, []);
+
+  return { state, progressFor, toggleEpisode, setWatched };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ContentRef } from "@/lib/content";
+import { addToLibrary, isInLibrary, removeFromLibrary, type LibraryList } from "@/utils/library";
+
+const LIST_NAMES: Record<LibraryList, string> = {
+  user_favorites: "favorites",
+  user_watchlist: "watchlist",
+};
+
+// Whether a title is in one of the signed-in user's lists, and a toggle that
+// adds or removes it with a toast. Always false for signed-out users.
+export function useLibraryToggle(list: LibraryList, content: ContentRef) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [saved, setSaved] = useState(false);
+  const { kind, id } = content;
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    isInLibrary(list, user.id, { kind, id })
+      .then(inList => {
+        if (!cancelled) setSaved(inList);
+      })
+      .catch(() => {
+        // Treat lookup failures as "not saved"
+      });
+    return () => { cancelled = true; };
+  }, [user, list, kind, id]);
+
+  const toggle = useCallback(async () => {
+    if (!user) return;
+    const name = LIST_NAMES[list];
+    const ref = { kind, id };
+
+    try {
+      if (saved) {
+        await removeFromLibrary(list, user.id, ref);
+        setSaved(false);
+        toast({ title: `Removed from ${name}` });
+      } else {
+        await addToLibrary(list, user.id, ref);
+        setSaved(true);
+        toast({ title: `Added to ${name}` });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to update ${name}`,
+        variant: "destructive",
+      });
+    }
+  }, [user, list, kind, id, saved, toast]);
+
+  return { saved, toggle };
+}
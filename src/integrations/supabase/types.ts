@@ -14,6 +14,30 @@ export type Database = {
   }
   public: {
     Tables: {
+      assistant_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          messages: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          messages?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          messages?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       capsules: {
         Row: {
           content: string
@@ -433,34 +457,104 @@ export type Database = {
         }
         Relationships: []
       }
+      user_activity: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          genres: number[] | null
+          id: string
+          metadata: Json | null
+          movie_id: number | null
+          query: string | null
+          title: string | null
+          ts: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          genres?: number[] | null
+          id?: string
+          metadata?: Json | null
+          movie_id?: number | null
+          query?: string | null
+          title?: string | null
+          ts?: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          genres?: number[] | null
+          id?: string
+          metadata?: Json | null
+          movie_id?: number | null
+          query?: string | null
+          title?: string | null
+          ts?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_episode_progress: {
+        Row: {
+          episode_number: number
+          id: string
+          poster_path: string | null
+          season_number: number
+          series_id: number
+          series_title: string | null
+          user_id: string
+          watched_at: string
+        }
+        Insert: {
+          episode_number: number
+          id?: string
+          poster_path?: string | null
+          season_number: number
+          series_id: number
+          series_title?: string | null
+          user_id: string
+          watched_at?: string
+        }
+        Update: {
+          episode_number?: number
+          id?: string
+          poster_path?: string | null
+          season_number?: number
+          series_id?: number
+          series_title?: string | null
+          user_id?: string
+          watched_at?: string
+        }
+        Relationships: []
+      }
       user_favorites: {
         Row: {
+          content_type: string
           created_at: string
           id: string
           movie_id: string
           user_id: string
         }
         Insert: {
+          content_type?: string
           created_at?: string
           id?: string
           movie_id: string
           user_id: string
         }
         Update: {
+          content_type?: string
           created_at?: string
           id?: string
           movie_id?: string
           user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "user_favorites_movie_id_fkey"
-            columns: ["movie_id"]
-            isOneToOne: false
-            referencedRelation: "movies"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       user_preferences: {
         Row: {
@@ -471,6 +565,7 @@ export type Database = {
           notification_settings: Json | null
           preferred_genres: string[] | null
           privacy_settings: Json | null
+          reco_config: Json | null
           updated_at: string
           user_id: string
         }
@@ -482,6 +577,7 @@ export type Database = {
           notification_settings?: Json | null
           preferred_genres?: string[] | null
           privacy_settings?: Json | null
+          reco_config?: Json | null
           updated_at?: string
           user_id: string
         }
@@ -493,39 +589,140 @@ export type Database = {
           notification_settings?: Json | null
           preferred_genres?: string[] | null
           privacy_settings?: Json | null
+          reco_config?: Json | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      user_ratings: {
+        Row: {
+          content_type: string
+          created_at: string
+          id: string
+          movie_id: number
+          rating: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content_type?: string
+          created_at?: string
+          id?: string
+          movie_id: number
+          rating: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          id?: string
+          movie_id?: number
+          rating?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_taste_memory: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          description: string | null
+          emotions: string[] | null
+          id: string
+          movie_id: number | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          description?: string | null
+          emotions?: string[] | null
+          id?: string
+          movie_id?: number | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          description?: string | null
+          emotions?: string[] | null
+          id?: string
+          movie_id?: number | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_watches: {
+        Row: {
+          content_type: string
+          created_at: string
+          id: string
+          movie_id: number
+          notes: string | null
+          poster_path: string | null
+          rating: number | null
+          title: string | null
+          updated_at: string
+          user_id: string
+          watched_on: string
+        }
+        Insert: {
+          content_type?: string
+          created_at?: string
+          id?: string
+          movie_id: number
+          notes?: string | null
+          poster_path?: string | null
+          rating?: number | null
+          title?: string | null
+          updated_at?: string
+          user_id: string
+          watched_on?: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          id?: string
+          movie_id?: number
+          notes?: string | null
+          poster_path?: string | null
+          rating?: number | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+          watched_on?: string
+        }
+        Relationships: []
+      }
       user_watchlist: {
         Row: {
+          content_type: string
           created_at: string
           id: string
           movie_id: string
           user_id: string
         }
         Insert: {
+          content_type?: string
           created_at?: string
           id?: string
           movie_id: string
           user_id: string
         }
         Update: {
+          content_type?: string
           created_at?: string
           id?: string
           movie_id?: string
           user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "user_watchlist_movie_id_fkey"
-            columns: ["movie_id"]
-            isOneToOne: false
-            referencedRelation: "movies"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       video_comments: {
         Row: {
@@ -726,7 +923,9 @@ export type Database = {
       watch_history: {
         Row: {
           completed: boolean | null
+          content_type: string
           id: string
+          movie_id: number | null
           user_id: string
           video_id: string
           watch_duration: number | null
@@ -734,7 +933,9 @@ export type Database = {
         }
         Insert: {
           completed?: boolean | null
+          content_type?: string
           id?: string
+          movie_id?: number | null
           user_id: string
           video_id: string
           watch_duration?: number | null
@@ -742,7 +943,9 @@ export type Database = {
         }
         Update: {
           completed?: boolean | null
+          content_type?: string
           id?: string
+          movie_id?: number | null
           user_id?: string
           video_id?: string
           watch_duration?: number | null
@@ -0,0 +1,38 @@
+import type { MediaKind } from '@/lib/tmdb';
+
+// Movies and TV series share the TMDB id space, so an id alone is ambiguous.
+// Everything that stores or compares titles goes through ContentRef.
+
+export type ContentRef = { kind: MediaKind; id: number };
+
+export const isMediaKind = (v: unknown): v is MediaKind => v === 'movie' || v === 'tv';
+
+export const contentRef = (kind: MediaKind | null | undefined, id: number | string): ContentRef => ({
+  kind: isMediaKind(kind) ? kind : 'movie',
+  id: Number(id),
+});
+
+// Ref for a TMDB title; untagged results come from movie endpoints
+export const refOf = (t: { id: number; media_type?: MediaKind | string | null }): ContentRef =>
+  contentRef(t.media_type as MediaKind, t.id);
+
+// Stable string form, e.g. `tv:1399`, for Set/Map keys and local storage
+export const contentKey = (ref: ContentRef) => `${ref.kind}:${ref.id}`;
+
+// Inverse of contentKey. Bare numeric keys predate TV support and are movies.
+export const parseContentKey = (key: string): ContentRef | null => {
+  const m = /^(?:(movie|tv):)?(\d+)$/.exec(key);
+  return m ? contentRef(m[1] as MediaKind | undefined, m[2]) : null;
+};
+
+// Details page route for a title
+export const contentPath = (ref: ContentRef) => `/${ref.kind}/${ref.id}`;
+
+export const sameContent = (a: ContentRef | null | undefined, b: ContentRef | null | undefined) =>
+  !!a && !!b && a.kind === b.kind && a.id === b.id;
+
+// Row shape used by the favorites/watchlist/ratings tables
+export const toRow = (ref: ContentRef) => ({ movie_id: String(ref.id), content_type: ref.kind });
+
+export const fromRow = (row: { movie_id: string | number; content_type?: string | null }) =>
+  contentRef(row.content_type as MediaKind, row.movie_id);
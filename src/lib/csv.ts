@@ -0,0 +1,72 @@
+// Minimal RFC 4180 CSV reader: quoted fields, doubled quotes, CRLF or LF,
+// newlines inside quotes. Good enough for the exports users bring from
+// other services; no type inference.
+
+export type CsvRecord = Record<string, string>;
+
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 BOM; Excel adds one
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines come through as a single empty field
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+};
+
+// First row is the header; values are keyed by trimmed header names
+export const parseCsv = (text: string): { headers: string[]; records: CsvRecord[] } => {
+  const [head, ...body] = parseCsvRows(text);
+  if (!head) return { headers: [], records: [] };
+  const headers = head.map(h => h.trim());
+  const records = body.map(cells => {
+    const rec: CsvRecord = {};
+    headers.forEach((h, i) => { rec[h] = (cells[i] ?? '').trim(); });
+    return rec;
+  });
+  return { headers, records };
+};
+
+const escapeField = (v: string) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+// Inverse of parseCsv; null and undefined become empty fields
+export const toCsv = (headers: string[], rows: Array<Array<string | number | null | undefined>>): string =>
+  [headers, ...rows]
+    .map(cells => cells.map(c => escapeField(c == null ? '' : String(c))).join(','))
+    .join('\r\n') + '\r\n';
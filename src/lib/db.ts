@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/supabase';
+import type { ContentRef } from '@/lib/content';
 
 // Create a new Supabase client with the correct types
 const supabase = createClient<Database>(
@@ -20,16 +21,15 @@ const getTable = <T extends keyof Database['public']['Tables']>(tableName: T) =>
 
 // Define types based on your database schema
 type Rating = {
-  movie_id: number;
+  content: ContentRef;
   rating: number;
-  content_type?: 'movie' | 'tv';
 };
 
 type ActivityType = 'movie_open' | 'trailer_play' | 'external_search' | 'query' | 'movie_rated' | 'movie_saved' | 'movie_watched';
 
 type Activity = {
   type: ActivityType;
-  movie_id?: number;
+  content?: ContentRef;
   title?: string;
   genres?: number[];
   query?: string;
@@ -44,8 +44,7 @@ type ChatMessage = {
 };
 
 type TasteMemory = {
-  movie_id: number;
-  content_type?: 'movie' | 'tv';
+  content: ContentRef;
   emotions: string[];
   description: string;
 };
@@ -53,35 +52,35 @@ type TasteMemory = {
 
 export const db = {
   // User Ratings
-  async getRating(movieId: number, contentType: 'movie' | 'tv' = 'movie') {
+  async getRating(content: ContentRef) {
     const { data, error } = await getTable('user_ratings')
       .select('rating')
-      .eq('movie_id', movieId)
-      .eq('content_type', contentType)
+      .eq('movie_id', content.id)
+      .eq('content_type', content.kind)
       .single();
     
     if (error || !data) return null;
     return (data as { rating: number }).rating;
   },
 
-  async setRating({ movie_id, rating, content_type = 'movie' }: Rating) {
+  async setRating({ content, rating }: Rating) {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData?.user) throw new Error('Not authenticated');
 
     return (supabase as any).from('user_ratings')
       .upsert(
-        { user_id: userData.user.id, movie_id, rating, content_type },
+        { user_id: userData.user.id, movie_id: content.id, rating, content_type: content.kind },
         { onConflict: 'user_id,movie_id,content_type' }
       )
       .select()
       .single();
   },
 
-  async getAverageRating(movieId: number, contentType: 'movie' | 'tv' = 'movie') {
+  async getAverageRating(content: ContentRef) {
     try {
       const { data } = await (supabase as any).rpc('get_average_rating', { 
-        p_movie_id: movieId,
-        p_content_type: contentType 
+        p_movie_id: content.id,
+        p_content_type: content.kind 
       });
       return data || { avg: 0, count: 0 };
     } catch (error) {
@@ -98,12 +97,12 @@ export const db = {
     const activityData = {
       user_id: userData.user.id,
       type: activity.type,
-      movie_id: activity.movie_id,
+      movie_id: activity.content?.id,
       title: activity.title,
       genres: activity.genres,
       query: activity.query,
       metadata: activity.metadata,
-      content_type: activity.movie_id ? 'movie' : undefined
+      content_type: activity.content?.kind
     };
 
     return (supabase as any).from('user_activity').insert(activityData);
@@ -113,13 +112,13 @@ export const db = {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData.user) return [];
 
-    const { data: activities } = await getTable('user_activity')
-      .select('movie_id, title')
+    // One row per viewing in the watch diary; rewatches repeat the title
+    const { data: watches } = await getTable('user_watches')
+      .select('movie_id, content_type, title, watched_on')
       .eq('user_id', userData.user.id)
-      .eq('type', 'movie_watched')
-      .order('created_at', { ascending: false });
+      .order('watched_on', { ascending: false });
 
-    return activities || [];
+    return watches || [];
   },
 
   async getSavedMovies() {
@@ -127,7 +126,7 @@ export const db = {
     if (!userData.user) return [];
 
     const { data: activities } = await getTable('user_activity')
-      .select('movie_id, title')
+      .select('movie_id, content_type, title')
       .eq('user_id', userData.user.id)
       .eq('type', 'movie_saved')
       .order('created_at', { ascending: false });
@@ -173,8 +172,8 @@ export const db = {
 
     const memoryData = {
       user_id: userData.user.id,
-      movie_id: tasteMemory.movie_id,
-      content_type: tasteMemory.content_type || 'movie',
+      movie_id: tasteMemory.content.id,
+      content_type: tasteMemory.content.kind,
       emotions: tasteMemory.emotions,
       description: tasteMemory.description
     };
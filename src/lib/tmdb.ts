@@ -0,0 +1,511 @@
+import { z } from 'zod';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Typed TMDB client shared by every page. All requests go through the
+// `tmdb-movies` edge function so the API key never reaches the browser.
+
+export type MediaKind = 'movie' | 'tv';
+export type TrendingPeriod = 'day' | 'week';
+export type TmdbAppend = 'videos' | 'credits' | 'similar';
+export type TmdbQuery = Record<string, string | number | boolean | null | undefined>;
+
+export type TmdbRequestOptions = {
+  retries?: number;
+  timeoutMs?: number;
+  // Max age of a cached response that is considered fresh (used with cacheOnly)
+  maxAgeMs?: number;
+  // Read from the local cache only; never hit the network
+  cacheOnly?: boolean;
+  language?: string;
+};
+
+// ---------- Schemas ----------
+
+const genreSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+const rawTitleSchema = z.object({
+  id: z.number(),
+  title: z.string().nullish(),
+  name: z.string().nullish(),
+  overview: z.string().nullish(),
+  poster_path: z.string().nullish(),
+  backdrop_path: z.string().nullish(),
+  release_date: z.string().nullish(),
+  first_air_date: z.string().nullish(),
+  vote_average: z.number().nullish(),
+  vote_count: z.number().nullish(),
+  popularity: z.number().nullish(),
+  genre_ids: z.array(z.number()).nullish(),
+  genres: z.array(genreSchema).nullish(),
+  media_type: z.string().nullish(),
+  original_language: z.string().nullish(),
+});
+
+const pagedSchema = z.object({
+  page: z.number().nullish(),
+  total_pages: z.number().nullish(),
+  total_results: z.number().nullish(),
+  results: z.array(z.unknown()).default([]),
+});
+
+const videoSchema = z.object({
+  key: z.string(),
+  site: z.string(),
+  type: z.string(),
+  name: z.string().nullish(),
+  official: z.boolean().nullish(),
+});
+
+const videosSchema = z.object({
+  results: z.array(videoSchema).default([]),
+});
+
+const castSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  character: z.string().nullish(),
+  profile_path: z.string().nullish(),
+  order: z.number().nullish(),
+});
+
+const crewSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  job: z.string().nullish(),
+  department: z.string().nullish(),
+  profile_path: z.string().nullish(),
+});
+
+const creditsSchema = z.object({
+  cast: z.array(castSchema).default([]),
+  crew: z.array(crewSchema).default([]),
+});
+
+const seasonSummarySchema = z.object({
+  id: z.number(),
+  season_number: z.number(),
+  name: z.string().nullish(),
+  overview: z.string().nullish(),
+  air_date: z.string().nullish(),
+  episode_count: z.number().nullish(),
+  poster_path: z.string().nullish(),
+});
+
+const episodeSchema = z.object({
+  id: z.number(),
+  episode_number: z.number(),
+  season_number: z.number(),
+  name: z.string().nullish(),
+  overview: z.string().nullish(),
+  air_date: z.string().nullish(),
+  runtime: z.number().nullish(),
+  still_path: z.string().nullish(),
+  vote_average: z.number().nullish(),
+});
+
+const seasonSchema = seasonSummarySchema.extend({
+  episodes: z.array(episodeSchema).default([]),
+});
+
+const findSchema = z.object({
+  movie_results: z.array(z.unknown()).default([]),
+  tv_results: z.array(z.unknown()).default([]),
+});
+
+// Combined credits list a person's titles with the role they had
+const personCastSchema = rawTitleSchema.extend({
+  character: z.string().nullish(),
+  episode_count: z.number().nullish(),
+});
+
+const personCrewSchema = rawTitleSchema.extend({
+  job: z.string().nullish(),
+  department: z.string().nullish(),
+  episode_count: z.number().nullish(),
+});
+
+const personCreditsSchema = z.object({
+  cast: z.array(personCastSchema).default([]),
+  crew: z.array(personCrewSchema).default([]),
+});
+
+const personSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  biography: z.string().nullish(),
+  birthday: z.string().nullish(),
+  deathday: z.string().nullish(),
+  place_of_birth: z.string().nullish(),
+  profile_path: z.string().nullish(),
+  known_for_department: z.string().nullish(),
+  popularity: z.number().nullish(),
+  combined_credits: personCreditsSchema.nullish(),
+});
+
+const detailsSchema = rawTitleSchema.extend({
+  runtime: z.number().nullish(),
+  episode_run_time: z.array(z.number()).nullish(),
+  tagline: z.string().nullish(),
+  status: z.string().nullish(),
+  number_of_seasons: z.number().nullish(),
+  number_of_episodes: z.number().nullish(),
+  seasons: z.array(seasonSummarySchema).nullish(),
+  videos: videosSchema.nullish(),
+  credits: creditsSchema.nullish(),
+  similar: pagedSchema.nullish(),
+});
+
+// ---------- Public types ----------
+
+export type TmdbGenre = z.infer<typeof genreSchema>;
+export type TmdbVideo = z.infer<typeof videoSchema>;
+export type TmdbCastMember = z.infer<typeof castSchema>;
+export type TmdbCrewMember = z.infer<typeof crewSchema>;
+export type TmdbCredits = z.infer<typeof creditsSchema>;
+export type TmdbSeasonSummary = z.infer<typeof seasonSummarySchema>;
+export type TmdbEpisode = z.infer<typeof episodeSchema>;
+export type TmdbSeason = z.infer<typeof seasonSchema>;
+
+// A movie or TV show normalized to one shape: `title` and `release_date`
+// are filled from `name` / `first_air_date` for TV.
+export type TmdbTitle = {
+  id: number;
+  media_type: MediaKind;
+  title: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  release_date: string;
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  genre_ids: number[];
+};
+
+export type TmdbPage<T = TmdbTitle> = {
+  page: number;
+  total_pages: number;
+  total_results: number;
+  results: T[];
+};
+
+// One title in a filmography; a person may hold several roles on it
+export type TmdbPersonCredit = TmdbTitle & {
+  roles: string[];
+  departments: string[];
+  episode_count: number | null;
+};
+
+export type TmdbPerson = {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  profile_path: string | null;
+  known_for_department: string | null;
+  credits: TmdbPersonCredit[];
+};
+
+export type TmdbDetails = TmdbTitle & {
+  genres: TmdbGenre[];
+  runtime: number | null;
+  tagline: string | null;
+  status: string | null;
+  number_of_seasons: number | null;
+  number_of_episodes: number | null;
+  seasons: TmdbSeasonSummary[];
+  videos?: { results: TmdbVideo[] };
+  credits?: TmdbCredits;
+  similar?: TmdbPage;
+};
+
+// ---------- Normalization ----------
+
+const toTitle = (raw: z.infer<typeof rawTitleSchema>, kind?: MediaKind): TmdbTitle => {
+  const mediaType: MediaKind =
+    raw.media_type === 'movie' || raw.media_type === 'tv'
+      ? raw.media_type
+      : kind ?? (raw.title ? 'movie' : 'tv');
+  return {
+    id: raw.id,
+    media_type: mediaType,
+    title: raw.title || raw.name || '',
+    overview: raw.overview || '',
+    poster_path: raw.poster_path || null,
+    backdrop_path: raw.backdrop_path || null,
+    release_date: raw.release_date || raw.first_air_date || '',
+    vote_average: raw.vote_average || 0,
+    vote_count: raw.vote_count || 0,
+    popularity: raw.popularity || 0,
+    genre_ids: raw.genre_ids || raw.genres?.map(g => g.id) || [],
+  };
+};
+
+// Normalize a single raw TMDB list item (e.g. from a cached snapshot)
+export const normalizeTitle = (raw: unknown, kind?: MediaKind): TmdbTitle | null => {
+  const parsed = rawTitleSchema.safeParse(raw);
+  if (!parsed.success) return null;
+  // `trending/all` mixes in people; they are not titles
+  if (parsed.data.media_type === 'person') return null;
+  return toTitle(parsed.data, kind);
+};
+
+const parsePage = (kind?: MediaKind) => (raw: unknown): TmdbPage => {
+  const data = pagedSchema.parse(raw);
+  const results = data.results
+    .map(item => normalizeTitle(item, kind))
+    .filter((t): t is TmdbTitle => t !== null);
+  return {
+    page: data.page || 1,
+    total_pages: data.total_pages || 1,
+    total_results: data.total_results || results.length,
+    results,
+  };
+};
+
+const parseDetails = (kind: MediaKind) => (raw: unknown): TmdbDetails => {
+  const data = detailsSchema.parse(raw);
+  return {
+    ...toTitle(data, kind),
+    genres: data.genres || [],
+    runtime: data.runtime ?? data.episode_run_time?.[0] ?? null,
+    tagline: data.tagline || null,
+    status: data.status || null,
+    number_of_seasons: data.number_of_seasons ?? null,
+    number_of_episodes: data.number_of_episodes ?? null,
+    seasons: data.seasons || [],
+    videos: data.videos ? { results: data.videos.results } : undefined,
+    credits: data.credits || undefined,
+    similar: data.similar ? parsePage(kind)(data.similar) : undefined,
+  };
+};
+
+// Cast and crew entries for the same title collapse into one credit
+const parsePerson = (raw: unknown): TmdbPerson => {
+  const data = personSchema.parse(raw);
+  const byKey = new Map<string, TmdbPersonCredit>();
+  const add = (
+    item: z.infer<typeof rawTitleSchema> & { episode_count?: number | null },
+    role: string | null | undefined,
+    department: string
+  ) => {
+    if (item.media_type !== 'movie' && item.media_type !== 'tv') return;
+    const title = toTitle(item);
+    const key = `${title.media_type}:${title.id}`;
+    const credit = byKey.get(key) || { ...title, roles: [], departments: [], episode_count: null };
+    if (role && !credit.roles.includes(role)) credit.roles.push(role);
+    if (!credit.departments.includes(department)) credit.departments.push(department);
+    if (item.episode_count) credit.episode_count = Math.max(credit.episode_count || 0, item.episode_count);
+    byKey.set(key, credit);
+  };
+  for (const c of data.combined_credits?.cast || []) add(c, c.character, 'Acting');
+  for (const c of data.combined_credits?.crew || []) add(c, c.job, c.department || 'Crew');
+  return {
+    id: data.id,
+    name: data.name,
+    biography: data.biography || '',
+    birthday: data.birthday || null,
+    deathday: data.deathday || null,
+    place_of_birth: data.place_of_birth || null,
+    profile_path: data.profile_path || null,
+    known_for_department: data.known_for_department || null,
+    credits: [...byKey.values()],
+  };
+};
+
+// ---------- Local cache ----------
+
+const CACHE_KEY = 'tmdb_cache_v1';
+const CACHE_MAX_ENTRIES = 200;
+const DEFAULT_MAX_AGE_MS = 30 * 60 * 1000;
+// Stale entries are still served when the network fails
+const STALE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+type CacheBucket = Record<string, { ts: number; data: unknown }>;
+
+const getCacheBucket = (): CacheBucket => {
+  try { return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}'); } catch { return {}; }
+};
+
+const setCacheBucket = (bucket: CacheBucket) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(bucket));
+  } catch {
+    // Storage unavailable (private mode or quota); responses just go uncached
+  }
+};
+
+export const readTmdbCache = (endpoint: string, maxAgeMs = DEFAULT_MAX_AGE_MS): unknown => {
+  const entry = getCacheBucket()[endpoint];
+  if (!entry) return null;
+  if (Date.now() - entry.ts > maxAgeMs) return null;
+  return entry.data;
+};
+
+export const writeTmdbCache = (endpoint: string, data: unknown) => {
+  const bucket = getCacheBucket();
+  bucket[endpoint] = { ts: Date.now(), data };
+  const keys = Object.keys(bucket);
+  if (keys.length > CACHE_MAX_ENTRIES) {
+    // Drop the oldest entries so localStorage does not fill up
+    keys
+      .sort((a, b) => bucket[a].ts - bucket[b].ts)
+      .slice(0, keys.length - CACHE_MAX_ENTRIES)
+      .forEach(k => { delete bucket[k]; });
+  }
+  setCacheBucket(bucket);
+};
+
+// ---------- Transport ----------
+
+export const buildEndpoint = (path: string, query: TmdbQuery = {}) => {
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) {
+    if (v === undefined || v === null || v === '') continue;
+    params.set(k, String(v));
+  }
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+};
+
+const withTimeout = <T,>(p: Promise<T>, timeoutMs: number): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error('Request timeout')), timeoutMs);
+    p.then((v) => { clearTimeout(t); resolve(v); }).catch((e) => { clearTimeout(t); reject(e); });
+  });
+};
+
+const request = async <T,>(
+  endpoint: string,
+  parse: (raw: unknown) => T,
+  opts: TmdbRequestOptions = {}
+): Promise<T | null> => {
+  const fromCache = (maxAgeMs: number): T | null => {
+    const cached = readTmdbCache(endpoint, maxAgeMs);
+    if (cached == null) return null;
+    try { return parse(cached); } catch { return null; }
+  };
+
+  if (opts.cacheOnly) return fromCache(opts.maxAgeMs ?? DEFAULT_MAX_AGE_MS);
+
+  const retries = opts.retries ?? 2;
+  const timeoutMs = opts.timeoutMs ?? 9000;
+  let lastErr: unknown = null;
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const { data, error } = await withTimeout(
+        supabase.functions.invoke('tmdb-movies', { body: { endpoint } }),
+        timeoutMs
+      );
+      if (error) throw error;
+      const parsed = parse(data);
+      writeTmdbCache(endpoint, data);
+      return parsed;
+    } catch (e) {
+      lastErr = e;
+      // A malformed payload will not fix itself on retry
+      if (e instanceof z.ZodError) break;
+      // Neither will an endpoint the edge function rejected as invalid
+      if (e instanceof FunctionsHttpError && (e.context as Response | undefined)?.status === 400) break;
+      if (i < retries) await new Promise(r => setTimeout(r, 300 * (i + 1)));
+    }
+  }
+  console.error(`TMDB request failed for ${endpoint}:`, lastErr);
+  return fromCache(STALE_MAX_AGE_MS);
+};
+
+// ---------- Helpers ----------
+
+const IMAGE_BASE = 'https://image.tmdb.org/t/p';
+
+// The edge function already returns absolute poster URLs for most payloads;
+// cached or appended data may still carry raw TMDB paths.
+export const tmdbImage = (path: string | null | undefined, size = 'w500') => {
+  if (!path) return null;
+  if (path.startsWith('http')) return path;
+  return `${IMAGE_BASE}/${size}${path}`;
+};
+
+// Pick the best YouTube trailer (falls back to a teaser)
+export const findTrailer = (videos: TmdbVideo[] | null | undefined) => {
+  const list = (videos || []).filter(v => v.site === 'YouTube');
+  return list.find(v => v.type === 'Trailer') || list.find(v => v.type === 'Teaser') || null;
+};
+
+export const releaseYear = (t: Pick<TmdbTitle, 'release_date'>) => t.release_date?.split('-')[0] || '';
+
+// ---------- Client ----------
+
+export const tmdb = {
+  popular(kind: MediaKind, page = 1, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint(`${kind}/popular`, { page, language: opts?.language }), parsePage(kind), opts);
+  },
+
+  // Movies and series merged by the edge function into one tagged page
+  mixedPopular(page = 1, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint('mix/popular', { page, language: opts?.language }), parsePage(), opts);
+  },
+
+  mixedSearch(query: string, page = 1, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint('mix/search', { query: query.trim(), page, language: opts?.language }), parsePage(), opts);
+  },
+
+  discover(kind: MediaKind, query: TmdbQuery = {}, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint(`discover/${kind}`, { ...query, language: opts?.language }), parsePage(kind), opts);
+  },
+
+  search(kind: MediaKind, query: string, page = 1, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint(`search/${kind}`, { query: query.trim(), page, language: opts?.language }), parsePage(kind), opts);
+  },
+
+  trending(kind: MediaKind | 'all', period: TrendingPeriod = 'day', page = 1, opts?: TmdbRequestOptions) {
+    const hint = kind === 'all' ? undefined : kind;
+    return request(buildEndpoint(`trending/${kind}/${period}`, { page, language: opts?.language }), parsePage(hint), opts);
+  },
+
+  details(kind: MediaKind, id: number | string, append: TmdbAppend[] = [], opts?: TmdbRequestOptions) {
+    const query = { append_to_response: append.join(','), language: opts?.language };
+    return request(buildEndpoint(`${kind}/${id}`, query), parseDetails(kind), opts);
+  },
+
+  async videos(kind: MediaKind, id: number | string, opts?: TmdbRequestOptions) {
+    const data = await request(buildEndpoint(`${kind}/${id}/videos`, { language: opts?.language }), (raw) => videosSchema.parse(raw), opts);
+    return data ? data.results : null;
+  },
+
+  similar(kind: MediaKind, id: number | string, page = 1, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint(`${kind}/${id}/similar`, { page, language: opts?.language }), parsePage(kind), opts);
+  },
+
+  season(tvId: number | string, seasonNumber: number, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint(`tv/${tvId}/season/${seasonNumber}`, { language: opts?.language }), (raw) => seasonSchema.parse(raw), opts);
+  },
+
+  credits(kind: MediaKind, id: number | string, opts?: TmdbRequestOptions) {
+    return request(buildEndpoint(`${kind}/${id}/credits`, { language: opts?.language }), (raw) => creditsSchema.parse(raw), opts);
+  },
+
+  // Titles matching an IMDb id (`tt…`); normally zero or one
+  findByImdbId(imdbId: string, opts?: TmdbRequestOptions) {
+    const query = { external_source: 'imdb_id', language: opts?.language };
+    return request(buildEndpoint(`find/${imdbId}`, query), (raw) => {
+      const data = findSchema.parse(raw);
+      return [
+        ...data.movie_results.map(r => normalizeTitle(r, 'movie')),
+        ...data.tv_results.map(r => normalizeTitle(r, 'tv')),
+      ].filter((t): t is TmdbTitle => t !== null);
+    }, opts);
+  },
+
+  // Person profile with their combined movie + TV credits
+  person(id: number | string, opts?: TmdbRequestOptions) {
+    const query = { append_to_response: 'combined_credits', language: opts?.language };
+    return request(buildEndpoint(`person/${id}`, query), parsePerson, opts);
+  },
+};
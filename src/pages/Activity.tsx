@@ -1,11 +1,12 @@
 import { useMemo, useState, useEffect } from "react";
-import { readHistory, type HistoryEvent, deleteEventAt, deleteEventsWhere, hydrateHistoryFromSupabase } from "@/utils/history";
+import { readHistory, type HistoryEvent, type FeedbackType, deleteEventAt, deleteEventsWhere, hydrateHistoryFromSupabase, isFeedbackEvent } from "@/utils/history";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Calendar, Search as SearchIcon, Play, Globe, Film, Trash2, Filter } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Calendar, Search as SearchIcon, Play, Globe, Film, Trash2, Filter, Tv, Eye, Star } from "lucide-react";
+import { tmdb, findTrailer } from "@/lib/tmdb";
+import { contentKey, contentPath, type ContentRef } from "@/lib/content";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import VideoPlayerModal from "@/components/VideoPlayerModal";
@@ -23,6 +24,9 @@ const typeLabel = (t: HistoryEvent["type"]) => {
   if (t === "movie_open") return "Opened";
   if (t === "trailer_play") return "Trailer";
   if (t === "external_search") return "Browser Search";
+  if (t === "episode_watched") return "Episode";
+  if (t === "movie_watched") return "Watched";
+  if (t === "movie_rated") return "Rated";
   return "Query";
 };
 
@@ -30,11 +34,15 @@ const typeIcon = (t: HistoryEvent["type"]) => {
   if (t === "movie_open") return <Film size={14} />;
   if (t === "trailer_play") return <Play size={14} />;
   if (t === "external_search") return <Globe size={14} />;
+  if (t === "episode_watched") return <Tv size={14} />;
+  if (t === "movie_watched") return <Eye size={14} />;
+  if (t === "movie_rated") return <Star size={14} />;
   return <SearchIcon size={14} />;
 };
 
-type TType = HistoryEvent["type"];
-const ALL_TYPES: TType[] = ["movie_open", "trailer_play", "query", "external_search"];
+// Feedback is reviewed in Settings, not listed here
+type TType = Exclude<HistoryEvent["type"], FeedbackType>;
+const ALL_TYPES: TType[] = ["movie_open", "trailer_play", "movie_watched", "episode_watched", "movie_rated", "query", "external_search"];
 
 const Activity = () => {
   const navigate = useNavigate();
@@ -44,6 +52,9 @@ const Activity = () => {
   const [activeTypes, setActiveTypes] = useState<Record<TType, boolean>>({
     movie_open: true,
     trailer_play: true,
+    movie_watched: true,
+    episode_watched: true,
+    movie_rated: true,
     query: true,
     external_search: true,
   });
@@ -53,7 +64,7 @@ const Activity = () => {
 
   const history = readHistory();
   const rawEvents = useMemo(() => {
-    const list = [...(history.events || [])];
+    const list = (history.events || []).filter(e => !isFeedbackEvent(e));
     list.sort((a, b) => b.ts - a.ts);
     return list;
   }, [history.events, tick]);
@@ -82,11 +93,19 @@ const Activity = () => {
   const toggleType = (t: TType) => setActiveTypes(s => ({ ...s, [t]: !s[t] }));
 
   const onDeleteIndex = (indexInFiltered: number) => {
-    // Map filtered index back to absolute index in rawEvents
+    // The list shown is sorted and filtered, so find the event in the stored
+    // list (oldest first, feedback included) by what it is
     const evt = events[indexInFiltered];
-    const absoluteIndex = rawEvents.findIndex(e => e === evt);
-    if (absoluteIndex >= 0) {
-      deleteEventAt(absoluteIndex);
+    if (!evt) return;
+    const key = evt.content ? contentKey(evt.content) : null;
+    const storedIndex = readHistory().events.findIndex(e =>
+      e.ts === evt.ts &&
+      e.type === evt.type &&
+      (e.content ? contentKey(e.content) : null) === key &&
+      e.query === evt.query
+    );
+    if (storedIndex >= 0) {
+      deleteEventAt(storedIndex);
       setTick(x => x + 1);
     }
   };
@@ -108,21 +127,16 @@ const Activity = () => {
     window.open(`https://www.google.com/search?q=${q}`, '_blank');
   };
 
-  const openDetails = (movieId?: number) => {
-    if (!movieId) return;
-    navigate(`/movie/${movieId}`);
+  const openDetails = (content?: ContentRef) => {
+    if (!content) return;
+    navigate(contentPath(content));
   };
 
-  const playTrailer = async (movieId?: number, title?: string) => {
-    if (!movieId || !title) return;
-    setSelectedMovie({ title, id: movieId });
-    const { data } = await supabase.functions.invoke('tmdb-movies', {
-      body: { endpoint: `movie/${movieId}/videos` }
-    });
-    const results = (data as any)?.results || [];
-    const trailer = results.find((v: any) => v.type === 'Trailer' && v.site === 'YouTube')
-      || results.find((v: any) => v.type === 'Teaser' && v.site === 'YouTube')
-      || results[0];
+  const playTrailer = async (content?: ContentRef, title?: string) => {
+    if (!content || !title) return;
+    setSelectedMovie({ title, id: content.id });
+    const results = (await tmdb.videos(content.kind, content.id)) || [];
+    const trailer = findTrailer(results) || results[0];
     setVideoKey(trailer?.key || null);
     setIsPlayerOpen(true);
   };
@@ -143,7 +157,7 @@ const Activity = () => {
               className="pl-9"
             />
           </div>
-          <Button variant="outline" onClick={() => setActiveTypes({ movie_open: true, trailer_play: true, query: true, external_search: true })}>
+          <Button variant="outline" onClick={() => setActiveTypes({ movie_open: true, trailer_play: true, movie_watched: true, episode_watched: true, movie_rated: true, query: true, external_search: true })}>
             <Filter size={16} className="mr-2" />
             Reset filters
           </Button>
@@ -188,14 +202,24 @@ const Activity = () => {
                     {e.type === 'query' && (
                       <span>Query: <span className="font-medium">{e.query}</span></span>
                     )}
-                    {(e.type === 'movie_open' || e.type === 'trailer_play') && (
+                    {(e.type === 'movie_open' || e.type === 'trailer_play' || e.type === 'movie_watched') && (
+                      <span>
+                        {e.content?.kind === 'tv' ? 'Series' : 'Movie'}{e.content ? ` #${e.content.id}` : ''}: <span className="font-medium">{e.title || 'Unknown'}</span>
+                      </span>
+                    )}
+                    {e.type === 'episode_watched' && (
+                      <span>
+                        Watched: <span className="font-medium">{e.title || 'Unknown'}</span>{e.episode ? ` — S${e.episode.season}E${e.episode.episode}` : ''}
+                      </span>
+                    )}
+                    {e.type === 'movie_rated' && (
                       <span>
-                        Movie{e.movieId ? ` #${e.movieId}` : ''}: <span className="font-medium">{e.title || 'Unknown'}</span>
+                        Rated <span className="font-medium">{e.title || 'Unknown'}</span>{e.rating != null ? ` — ${e.rating}/5` : ''}
                       </span>
                     )}
                     {e.type === 'external_search' && (
                       <span>
-                        Browser search: <span className="font-medium">{e.title || 'Unknown'}</span>{e.movieId ? ` (movie #${e.movieId})` : ''}
+                        Browser search: <span className="font-medium">{e.title || 'Unknown'}</span>{e.content ? ` (${e.content.kind === 'tv' ? 'series' : 'movie'} #${e.content.id})` : ''}
                       </span>
                     )}
                   </div>
@@ -206,8 +230,8 @@ const Activity = () => {
                         <Button size="sm" variant="secondary" onClick={() => openInBrowser(e.title || undefined)}>
                           <Globe size={14} className="mr-1" /> Open in Browser
                         </Button>
-                        {!!e.movieId && (
-                          <Button size="sm" variant="outline" onClick={() => openDetails(e.movieId!)}>
+                        {!!e.content && (
+                          <Button size="sm" variant="outline" onClick={() => openDetails(e.content!)}>
                             <Film size={14} className="mr-1" /> Details
                           </Button>
                         )}
@@ -215,21 +239,21 @@ const Activity = () => {
                     )}
                     {e.type === 'trailer_play' && (
                       <>
-                        {!!e.movieId && (
-                          <Button size="sm" variant="secondary" onClick={() => playTrailer(e.movieId!, e.title || undefined)}>
+                        {!!e.content && (
+                          <Button size="sm" variant="secondary" onClick={() => playTrailer(e.content!, e.title || undefined)}>
                             <Play size={14} className="mr-1" /> Play Trailer
                           </Button>
                         )}
-                        {!!e.movieId && (
-                          <Button size="sm" variant="outline" onClick={() => openDetails(e.movieId!)}>
+                        {!!e.content && (
+                          <Button size="sm" variant="outline" onClick={() => openDetails(e.content!)}>
                             <Film size={14} className="mr-1" /> Details
                           </Button>
                         )}
                       </>
                     )}
-                    {e.type === 'movie_open' && (
-                      !!e.movieId && (
-                        <Button size="sm" variant="outline" onClick={() => openDetails(e.movieId!)}>
+                    {(e.type === 'movie_open' || e.type === 'episode_watched' || e.type === 'movie_watched' || e.type === 'movie_rated') && (
+                      !!e.content && (
+                        <Button size="sm" variant="outline" onClick={() => openDetails(e.content!)}>
                           <Film size={14} className="mr-1" /> Details
                         </Button>
                       )
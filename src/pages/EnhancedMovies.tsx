@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -12,19 +12,13 @@ import { useToast } from "@/hooks/use-toast";
 import { useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import VideoPlayerModal from "@/components/VideoPlayerModal";
 import { logQuery, logExternalSearch, logTrailerPlay, logMovieOpen, readHistory, hydrateHistoryFromSupabase } from "@/utils/history";
-import { rankCandidates } from "@/utils/reco";
-
-interface TMDBMovie {
-  id: number;
-  title: string;
-  overview: string;
-  poster_path: string;
-  backdrop_path: string;
-  release_date: string;
-  vote_average: number;
-  genre_ids: number[];
-  popularity: number;
-}
+import { explainCandidates, rankCandidates } from "@/utils/reco";
+import RecoReason from "@/components/RecoReason";
+import FeedbackMenu from "@/components/FeedbackMenu";
+import { tmdb, tmdbImage, findTrailer, releaseYear, type TmdbTitle, type TmdbRequestOptions } from "@/lib/tmdb";
+import { contentKey, contentPath, refOf, type ContentRef } from "@/lib/content";
+import MarkWatchedButton from "@/components/MarkWatchedButton";
+import { addToLibrary, fetchLibraryKeys, removeFromLibrary } from "@/utils/library";
 
 interface Genre {
   id: number;
@@ -74,11 +68,13 @@ const TV_GENRES: { [key: number]: string } = {
 
 const EnhancedMovies = () => {
   // Movie data state
-  const [movies, setMovies] = useState<TMDBMovie[]>([]);
+  const [movies, setMovies] = useState<TmdbTitle[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  // Why each card is shown, from the same scores that ordered the list
+  const explanations = useMemo(() => explainCandidates(movies, readHistory()), [movies]);
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState("");
@@ -88,8 +84,9 @@ const EnhancedMovies = () => {
   const [showToGenres, setShowToGenres] = useState(false);
 
   // User data state
-  const [favorites, setFavorites] = useState<Set<number>>(new Set());
-  const [watchlist, setWatchlist] = useState<Set<number>>(new Set());
+  // Content keys (`movie:123`, `tv:456`) so movies and series never collide
+  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [watchlist, setWatchlist] = useState<Set<string>>(new Set());
   const [userRatings, setUserRatings] = useState<Record<number, number>>({});
   const [avgRatings, setAvgRatings] = useState<Record<number, { avg: number; count: number }>>({});
 
@@ -195,14 +192,14 @@ const EnhancedMovies = () => {
       const idsText = ids.map(String);
       const { data, error } = await (supabase as any)
         .from('user_ratings')
-        .select('content_id, user_id, rating')
-        .in('content_id', idsText)
+        .select('movie_id, user_id, rating')
+        .in('movie_id', idsText)
         .eq('content_type', 'tv');
       if (error) return;
       const avgMap: Record<number, { sum: number; count: number }> = {};
       const userMap: Record<number, number> = {};
       for (const row of (data || [])) {
-        const idNum = parseInt(row.content_id);
+        const idNum = Number(row.movie_id);
         if (!Number.isFinite(idNum)) continue;
         if (!avgMap[idNum]) avgMap[idNum] = { sum: 0, count: 0 };
         avgMap[idNum].sum += row.rating || 0;
@@ -232,10 +229,10 @@ const EnhancedMovies = () => {
         .from('user_ratings')
         .upsert({
           user_id: user.id,
-          content_id: String(id),
+          movie_id: id,
           content_type: 'tv',
           rating
-        }, { onConflict: 'user_id,content_id,content_type' });
+        }, { onConflict: 'user_id,movie_id,content_type' });
       setUserRatings(prev => ({ ...prev, [id]: rating }));
       const current = avgRatings[id];
       if (current) {
@@ -278,163 +275,55 @@ const EnhancedMovies = () => {
     };
   }, [genresRef.current]);
 
-  // Simple local cache for TMDB responses
-  const CACHE_KEY = 'tmdb_cache_v1';
-  const getCacheBucket = (): Record<string, { ts: number; data: any }> => {
-    try { return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}'); } catch { return {}; }
-  };
-  const setCacheBucket = (bucket: Record<string, { ts: number; data: any }>) => {
-    try { localStorage.setItem(CACHE_KEY, JSON.stringify(bucket)); } catch {}
-  };
-  const readCached = (endpoint: string, maxAgeMs = 30 * 60 * 1000) => {
-    const bucket = getCacheBucket();
-    const entry = bucket[endpoint];
-    if (!entry) return null;
-    if (Date.now() - entry.ts > maxAgeMs) return null;
-    return entry.data;
-  };
-  const writeCached = (endpoint: string, data: any) => {
-    const bucket = getCacheBucket();
-    bucket[endpoint] = { ts: Date.now(), data };
-    setCacheBucket(bucket);
-  };
-
-  const fetchFromTMDB = async (endpoint: string, opts?: { retries?: number; timeoutMs?: number }) => {
-    const retries = opts?.retries ?? 2;
-    const timeoutMs = opts?.timeoutMs ?? 9000;
-    const invoke = () => supabase.functions.invoke('tmdb-movies', { body: { endpoint } });
-
-    const withTimeout = <T,>(p: Promise<T>): Promise<T> => {
-      return new Promise((resolve, reject) => {
-        const t = setTimeout(() => reject(new Error('Request timeout')), timeoutMs);
-        p.then((v) => { clearTimeout(t); resolve(v); }).catch((e) => { clearTimeout(t); reject(e); });
-      });
-    };
-
-    let lastErr: any = null;
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const { data, error } = await withTimeout(invoke());
-        if (error) throw error;
-        try { writeCached(endpoint, data); } catch {}
-        return data as any;
-      } catch (e) {
-        lastErr = e;
-        await new Promise(r => setTimeout(r, 300 * (i + 1)));
-      }
-    }
-    console.error('TMDB API error after retries:', lastErr);
-    return null;
-  };
-
   const fetchPopularMovies = async (genreOverride: number | null = selectedGenre, pageOverride: number = currentPage) => {
     setLoading(true);
     setError(null);
     setLastAction("popular");
     if (!contentType) {
-      // Mixed mode: fetch both popular, with cache prefill
-      const epMovie = `movie/popular?page=${pageOverride}`;
-      const epTV = `tv/popular?page=${pageOverride}`;
-      const epMix = `mix/popular?page=${pageOverride}`;
-      const cachedMovie = readCached(epMovie);
-      const cachedTV = readCached(epTV);
-      const cachedMix = readCached(epMix, 24 * 60 * 60 * 1000);
-      if ((cachedMovie?.results || cachedTV?.results) && movies.length === 0) {
-        let pre: TMDBMovie[] = [];
-        if (cachedMovie?.results) pre = pre.concat(cachedMovie.results as TMDBMovie[]);
-        if (cachedTV?.results) {
-          const normalized = (cachedTV.results as any[]).map(it => ({ ...it, title: it.title || it.name }));
-          pre = pre.concat(normalized as TMDBMovie[]);
-        }
-        const rankedPre = rankCandidates(pre, readHistory());
-        setMovies(rankedPre as TMDBMovie[]);
-        setTotalPages(Math.min(Math.max(cachedMovie?.total_pages || 1, cachedTV?.total_pages || 1), 500));
-      } else if (cachedMix?.results && movies.length === 0) {
-        const rankedPre = rankCandidates((cachedMix.results as TMDBMovie[]), readHistory());
-        setMovies(rankedPre as TMDBMovie[]);
-        setTotalPages(Math.min(cachedMix.total_pages || 1, 500));
-      }
-      const [movieData, tvData] = await Promise.all([
-        fetchFromTMDB(epMovie),
-        fetchFromTMDB(epTV)
-      ]);
-      let combined: TMDBMovie[] = [];
-      if (movieData?.results) combined = combined.concat(movieData.results as TMDBMovie[]);
-      if (tvData?.results) {
-        const normalized = (tvData.results as any[]).map(it => ({ ...it, title: it.title || it.name }));
-        combined = combined.concat(normalized as TMDBMovie[]);
+      // Mixed mode: one merged page from the edge function, with cache prefill
+      const cachedMix = await tmdb.mixedPopular(pageOverride, { cacheOnly: true, maxAgeMs: 24 * 60 * 60 * 1000 });
+      if (cachedMix && movies.length === 0) {
+        setMovies(rankCandidates(cachedMix.results, readHistory()));
+        setTotalPages(Math.min(cachedMix.total_pages, 500));
       }
-      if (combined.length === 0 && (cachedMovie?.results || cachedTV?.results)) {
-        // already set from cache above; keep UI
-        setLoading(false);
-        return;
-      }
-      // Fallback to trending if popular failed
-      if (combined.length === 0) {
-        const [trendMovie, trendTV] = await Promise.all([
-          fetchFromTMDB('trending/movie/day'),
-          fetchFromTMDB('trending/tv/day')
-        ]);
-        if (trendMovie?.results) combined = combined.concat(trendMovie.results as TMDBMovie[]);
-        if (trendTV?.results) {
-          const normalized = (trendTV.results as any[]).map(it => ({ ...it, title: it.title || it.name }));
-          combined = combined.concat(normalized as TMDBMovie[]);
-        }
-      }
-      if (combined.length === 0 && movies.length > 0) {
+      // Falls back to the stale cached page on network failure, then to trending
+      const data = await tmdb.mixedPopular(pageOverride) || await tmdb.trending('all', 'day');
+      if (!data?.results.length && movies.length > 0) {
         // Preserve previous list to avoid empty UI
         setLoading(false);
         setError('Unable to refresh content. Showing previous results.');
         return;
       }
-      if (combined.length === 0 && !movies.length && cachedMix?.results) {
-        // Use last successful mixed snapshot
-        const rankedPre = rankCandidates((cachedMix.results as TMDBMovie[]), readHistory());
-        setMovies(rankedPre as TMDBMovie[]);
-        setTotalPages(Math.min(cachedMix.total_pages || 1, 500));
-        setLoading(false);
-        setError('Working offline. Showing recent popular titles.');
-        return;
-      }
-      if (combined.length === 0) {
+      if (!data?.results.length) {
         // Nothing from live or cache; show clear error instead of empty state
         setLoading(false);
         setError('Unable to load content from TMDB. Please try again later.');
         return;
       }
-      const ranked = rankCandidates(combined, readHistory());
-      setMovies(ranked as TMDBMovie[]);
-      setTotalPages(Math.min(Math.max(movieData?.total_pages || 1, tvData?.total_pages || 1), 500));
-      try { writeCached(epMix, { results: ranked, total_pages: 1 }); } catch {}
+      setMovies(rankCandidates(data.results, readHistory()));
+      setTotalPages(Math.min(data.total_pages, 500));
       setLoading(false);
       return;
     }
-    const endpoint = genreOverride != null 
-      ? `discover/${contentType}?with_genres=${genreOverride}&page=${pageOverride}&sort_by=popularity.desc`
-      : `${contentType}/popular?page=${pageOverride}`;
-    const cachedPrefill = readCached(endpoint) || (genreOverride != null ? readCached(`${contentType}/popular?page=${pageOverride}`) : null);
+    const load = (opts?: TmdbRequestOptions) => genreOverride != null
+      ? tmdb.discover(contentType, { with_genres: genreOverride, page: pageOverride, sort_by: 'popularity.desc' }, opts)
+      : tmdb.popular(contentType, pageOverride, opts);
+    const cachedPrefill = (await load({ cacheOnly: true }))
+      || (genreOverride != null ? await tmdb.popular(contentType, pageOverride, { cacheOnly: true }) : null);
     if (cachedPrefill && movies.length === 0) {
-      const results = (cachedPrefill.results || []) as TMDBMovie[];
-      const ranked = rankCandidates(results, readHistory());
-      setMovies(ranked as TMDBMovie[]);
-      setTotalPages(Math.min(cachedPrefill.total_pages || 1, 500));
+      setMovies(rankCandidates(cachedPrefill.results, readHistory()));
+      setTotalPages(Math.min(cachedPrefill.total_pages, 500));
     }
-    let data = await fetchFromTMDB(endpoint);
+    // The client already falls back to a stale cached copy when the network fails
+    let data = await load();
     if (!data && selectedGenre) {
-      data = await fetchFromTMDB(`${contentType}/popular?page=${currentPage}`);
-    }
-    if (!data) {
-      const cached =
-        readCached(endpoint) ||
-        (selectedGenre ? readCached(`${contentType}/popular?page=${currentPage}`) : null);
-      if (cached) data = cached;
+      data = await tmdb.popular(contentType, currentPage);
     }
     if (data) {
-      const results = (data.results || []) as TMDBMovie[];
-      const ranked = rankCandidates(results, readHistory());
-      setMovies(ranked as TMDBMovie[]);
-      setTotalPages(Math.min(data.total_pages || 1, 500));
-      if (contentType === 'tv') { try { await fetchRatingsFor((ranked as TMDBMovie[]).map(m => m.id)); } catch {} }
+      const ranked = rankCandidates(data.results, readHistory());
+      setMovies(ranked);
+      setTotalPages(Math.min(data.total_pages, 500));
+      if (contentType === 'tv') { try { await fetchRatingsFor(ranked.map(m => m.id)); } catch {} }
     } else if (movies.length === 0) {
       setError('Unable to load movies. Please try again.');
       setMovies([]);
@@ -453,113 +342,54 @@ const EnhancedMovies = () => {
     setError(null);
     setLastAction("search");
     if (!contentType) {
-      // Mixed search: both movie and tv with cache prefill
-      const epMovie = `search/movie?query=${encodeURIComponent(queryOverride)}&page=${pageOverride}`;
-      const epTV = `search/tv?query=${encodeURIComponent(queryOverride)}&page=${pageOverride}`;
-      const epMixSearch = `mix/search?q=${encodeURIComponent(queryOverride)}&page=${pageOverride}`;
-      const cachedMovie = readCached(epMovie);
-      const cachedTV = readCached(epTV);
-      const cachedMixSearch = readCached(epMixSearch, 12 * 60 * 60 * 1000);
-      if ((cachedMovie?.results || cachedTV?.results) && movies.length === 0) {
-        let pre: TMDBMovie[] = [];
-        if (cachedMovie?.results) pre = pre.concat(cachedMovie.results as TMDBMovie[]);
-        if (cachedTV?.results) {
-          const normalized = (cachedTV.results as any[]).map(it => ({ ...it, title: it.title || it.name }));
-          pre = pre.concat(normalized as TMDBMovie[]);
-        }
-        const rankedPre = rankCandidates(pre, readHistory());
-        setMovies(rankedPre as TMDBMovie[]);
-        setTotalPages(Math.min(Math.max(cachedMovie?.total_pages || 1, cachedTV?.total_pages || 1), 500));
-      } else if (cachedMixSearch?.results && movies.length === 0) {
-        const rankedPre = rankCandidates((cachedMixSearch.results as TMDBMovie[]), readHistory());
-        setMovies(rankedPre as TMDBMovie[]);
-        setTotalPages(Math.min(cachedMixSearch.total_pages || 1, 500));
-      }
-      const [movieData, tvData] = await Promise.all([
-        fetchFromTMDB(epMovie),
-        fetchFromTMDB(epTV)
-      ]);
-      let results: TMDBMovie[] = [];
-      if (movieData?.results) results = results.concat(movieData.results as TMDBMovie[]);
-      if (tvData?.results) {
-        const normalized = (tvData.results as any[]).map(it => ({ ...it, title: it.title || it.name }));
-        results = results.concat(normalized as TMDBMovie[]);
-      }
-      if (results.length === 0 && (cachedMovie?.results || cachedTV?.results)) {
-        setLoading(false);
-        setError('No live results. Showing cached content.');
-        return;
+      // Mixed search: one merged page from the edge function, with cache prefill
+      const cachedMix = await tmdb.mixedSearch(queryOverride, pageOverride, { cacheOnly: true, maxAgeMs: 12 * 60 * 60 * 1000 });
+      if (cachedMix && movies.length === 0) {
+        setMovies(rankCandidates(cachedMix.results, readHistory()));
+        setTotalPages(Math.min(cachedMix.total_pages, 500));
       }
+      let data = await tmdb.mixedSearch(queryOverride, pageOverride);
       // Fallback: if no search results, try mixed popular as a graceful fallback
-      if (results.length === 0) {
-        const [moviePop, tvPop] = await Promise.all([
-          fetchFromTMDB(`movie/popular?page=${pageOverride}`),
-          fetchFromTMDB(`tv/popular?page=${pageOverride}`)
-        ]);
-        if (moviePop?.results) results = results.concat(moviePop.results as TMDBMovie[]);
-        if (tvPop?.results) {
-          const normalized = (tvPop.results as any[]).map(it => ({ ...it, title: it.title || it.name }));
-          results = results.concat(normalized as TMDBMovie[]);
-        }
+      if (!data?.results.length) {
+        data = await tmdb.mixedPopular(pageOverride) || data;
       }
-      if (results.length === 0 && movies.length > 0) {
+      if (!data?.results.length && movies.length > 0) {
         setLoading(false);
         setError('No results. Keeping previous content.');
         return;
       }
-      if (results.length === 0 && !movies.length && cachedMixSearch?.results) {
-        const rankedPre = rankCandidates((cachedMixSearch.results as TMDBMovie[]), readHistory());
-        setMovies(rankedPre as TMDBMovie[]);
-        setTotalPages(Math.min(cachedMixSearch.total_pages || 1, 500));
-        setLoading(false);
-        setError('Working offline. Showing recent search snapshot.');
-        return;
-      }
-      if (results.length === 0) {
+      if (!data?.results.length) {
         setLoading(false);
         setError('No results found or service unavailable.');
         return;
       }
-      const ranked = rankCandidates(results, readHistory());
-      setMovies(ranked as TMDBMovie[]);
-      setTotalPages(Math.min(Math.max(movieData?.total_pages || 1, tvData?.total_pages || 1), 500));
-      try { writeCached(epMixSearch, { results: ranked, total_pages: 1 }); } catch {}
+      setMovies(rankCandidates(data.results, readHistory()));
+      setTotalPages(Math.min(data.total_pages, 500));
       setLoading(false);
       return;
     }
-    const endpoint = `search/${contentType}?query=${encodeURIComponent(queryOverride)}&page=${pageOverride}`;
+    // Apply client-side genre filter during search
+    const byGenre = (list: TmdbTitle[]) =>
+      genreOverride != null ? list.filter(m => m.genre_ids.includes(genreOverride)) : list;
     // Prefill from cache for instant UI
-    const cachedPrefill = readCached(endpoint);
+    const cachedPrefill = await tmdb.search(contentType, queryOverride, pageOverride, { cacheOnly: true });
     if (cachedPrefill && movies.length === 0) {
-      let results = (cachedPrefill.results || []) as TMDBMovie[];
-      if (genreOverride != null) results = results.filter(m => m.genre_ids?.includes(genreOverride));
-      const ranked = rankCandidates(results, readHistory());
-      setMovies(ranked as TMDBMovie[]);
-      setTotalPages(Math.min(cachedPrefill.total_pages || 1, 500));
-      if (contentType === 'tv') { try { await fetchRatingsFor((ranked as TMDBMovie[]).map(m => m.id)); } catch {} }
+      const ranked = rankCandidates(byGenre(cachedPrefill.results), readHistory());
+      setMovies(ranked);
+      setTotalPages(Math.min(cachedPrefill.total_pages, 500));
+      if (contentType === 'tv') { try { await fetchRatingsFor(ranked.map(m => m.id)); } catch {} }
     }
-    let data = await fetchFromTMDB(endpoint);
+    let data = await tmdb.search(contentType, queryOverride, pageOverride);
     // Fallback to popular if search fails
     if (!data) {
-      data = await fetchFromTMDB(`${contentType}/popular?page=${currentPage}`);
-    }
-    if (!data) {
-      const cached =
-        readCached(endpoint) ||
-        readCached(`${contentType}/popular?page=${currentPage}`);
-      if (cached) data = cached;
+      data = await tmdb.popular(contentType, currentPage);
     }
     
     if (data) {
-      let results = (data.results || []) as TMDBMovie[];
-      // Apply client-side genre filter during search
-      if (genreOverride != null) {
-        results = results.filter(m => m.genre_ids?.includes(genreOverride));
-      }
-      const ranked = rankCandidates(results, readHistory());
-      setMovies(ranked as TMDBMovie[]);
-      setTotalPages(Math.min(data.total_pages || 1, 500));
-      if (contentType === 'tv') { try { await fetchRatingsFor((ranked as TMDBMovie[]).map(m => m.id)); } catch {} }
+      const ranked = rankCandidates(byGenre(data.results), readHistory());
+      setMovies(ranked);
+      setTotalPages(Math.min(data.total_pages, 500));
+      if (contentType === 'tv') { try { await fetchRatingsFor(ranked.map(m => m.id)); } catch {} }
     } else {
       if (movies.length === 0) {
         setError('Unable to load search results. Please try again.');
@@ -573,31 +403,18 @@ const EnhancedMovies = () => {
     if (!user) return;
 
     try {
-      // Fetch user favorites
-      const { data: favoritesData } = await supabase
-        .from('user_favorites')
-        .select('movie_id')
-        .eq('user_id', user.id);
-
-      if (favoritesData) {
-        setFavorites(new Set(favoritesData.map(f => parseInt(f.movie_id))));
-      }
-
-      // Fetch user watchlist
-      const { data: watchlistData } = await supabase
-        .from('user_watchlist')
-        .select('movie_id')
-        .eq('user_id', user.id);
-
-      if (watchlistData) {
-        setWatchlist(new Set(watchlistData.map(w => parseInt(w.movie_id))));
-      }
+      const [favoriteKeys, watchlistKeys] = await Promise.all([
+        fetchLibraryKeys('user_favorites', user.id),
+        fetchLibraryKeys('user_watchlist', user.id)
+      ]);
+      setFavorites(favoriteKeys);
+      setWatchlist(watchlistKeys);
     } catch (error) {
       console.error('Error fetching user preferences:', error);
     }
   };
 
-  const toggleFavorite = async (movieId: number) => {
+  const toggleFavorite = async (ref: ContentRef) => {
     if (!user) {
       toast({
         title: "Требуется вход",
@@ -608,21 +425,15 @@ const EnhancedMovies = () => {
     }
 
     try {
-      const movieIdStr = movieId.toString();
-      const isFavorited = favorites.has(movieId);
+      const key = contentKey(ref);
+      const isFavorited = favorites.has(key);
       
       if (isFavorited) {
-        const { error } = await supabase
-          .from('user_favorites')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('movie_id', movieIdStr);
-        
-        if (error) throw error;
+        await removeFromLibrary('user_favorites', user.id, ref);
         
         setFavorites(prev => {
           const newSet = new Set(prev);
-          newSet.delete(movieId);
+          newSet.delete(key);
           return newSet;
         });
         
@@ -631,18 +442,9 @@ const EnhancedMovies = () => {
           description: "Фильм успешно удален из вашего списка избранного"
         });
       } else {
-        const { error } = await supabase.from('user_favorites').upsert(
-          {
-            user_id: user.id,
-            movie_id: movieIdStr,
-            created_at: new Date().toISOString()
-          },
-          { onConflict: 'user_id,movie_id' }
-        );
+        await addToLibrary('user_favorites', user.id, ref);
         
-        if (error) throw error;
-        
-        setFavorites(prev => new Set(prev).add(movieId));
+        setFavorites(prev => new Set(prev).add(key));
         toast({ 
           title: "Добавлено в избранное",
           description: "Фильм успешно добавлен в ваш список избранного"
@@ -662,7 +464,7 @@ const EnhancedMovies = () => {
     }
   };
 
-  const toggleWatchlist = async (movieId: number) => {
+  const toggleWatchlist = async (ref: ContentRef) => {
     if (!user) {
       toast({
         title: "Требуется вход",
@@ -673,21 +475,15 @@ const EnhancedMovies = () => {
     }
 
     try {
-      const movieIdStr = movieId.toString();
-      const isInWatchlist = watchlist.has(movieId);
+      const key = contentKey(ref);
+      const isInWatchlist = watchlist.has(key);
       
       if (isInWatchlist) {
-        const { error } = await supabase
-          .from('user_watchlist')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('movie_id', movieIdStr);
-        
-        if (error) throw error;
+        await removeFromLibrary('user_watchlist', user.id, ref);
         
         setWatchlist(prev => {
           const newSet = new Set(prev);
-          newSet.delete(movieId);
+          newSet.delete(key);
           return newSet;
         });
         
@@ -696,20 +492,12 @@ const EnhancedMovies = () => {
           description: "Фильм успешно удален из вашего списка просмотра"
         });
       } else {
-        const { error } = await supabase.from('user_watchlist').upsert(
-          {
-            user_id: user.id,
-            movie_id: movieIdStr,
-            status: 'plan_to_watch',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          },
-          { onConflict: 'user_id,movie_id' }
-        );
-        
-        if (error) throw error;
+        await addToLibrary('user_watchlist', user.id, ref, {
+          status: 'plan_to_watch',
+          updated_at: new Date().toISOString()
+        });
         
-        setWatchlist(prev => new Set(prev).add(movieId));
+        setWatchlist(prev => new Set(prev).add(key));
         toast({ 
           title: "Добавлено в список просмотра",
           description: "Фильм успешно добавлен в ваш список просмотра"
@@ -736,8 +524,8 @@ const EnhancedMovies = () => {
 
   const prefillFromCurrentByGenre = (genreId: number) => {
     if (!Array.isArray(movies) || movies.length === 0) return;
-    const filtered = movies.filter(m => Array.isArray((m as any).genre_ids) && (m as any).genre_ids.includes(genreId));
-    if (filtered.length > 0) setMovies(filtered as TMDBMovie[]);
+    const filtered = movies.filter(m => m.genre_ids.includes(genreId));
+    if (filtered.length > 0) setMovies(filtered);
   };
 
   const handleSearch = (e: React.FormEvent) => {
@@ -760,14 +548,7 @@ const EnhancedMovies = () => {
       for (const movie of nextMovies) {
         if (!trailerCache.current[movie.id]) {
           try {
-            const { data } = await supabase.functions.invoke('tmdb-movies', {
-              body: { 
-                endpoint: `${contentType || 'movie'}/${movie.id}/videos`
-              }
-            });
-            const trailer = data?.results?.find((v: any) => 
-              v.site === 'YouTube' && (v.type === 'Trailer' || v.type === 'Teaser')
-            );
+            const trailer = findTrailer(await tmdb.videos(movie.media_type, movie.id));
             if (trailer) {
               trailerCache.current[movie.id] = trailer.key;
             }
@@ -799,18 +580,11 @@ const EnhancedMovies = () => {
       setIsPlayerOpen(true);
       
       // Get trailer from TMDB
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', {
-        body: { 
-          endpoint: `${contentType || 'movie'}/${id}/videos`
-        }
-      });
-      
-      if (error) throw error;
+      const videos = await tmdb.videos(contentType || 'movie', id);
+      if (!videos) throw new Error('Failed to load videos');
       
       // Find YouTube trailer
-      const trailer = data?.results?.find((v: any) => 
-        v.site === 'YouTube' && (v.type === 'Trailer' || v.type === 'Teaser')
-      );
+      const trailer = findTrailer(videos);
 
       if (trailer) {
         trailerCache.current[id] = trailer.key;
@@ -1027,12 +801,7 @@ const EnhancedMovies = () => {
             <Card key={movie.id} className="group hover:shadow-lg transition-shadow overflow-hidden">
               <div className="relative aspect-[2/3] overflow-hidden">
                 <img
-                  src={movie.poster_path 
-                    ? (movie.poster_path.startsWith('http') 
-                      ? movie.poster_path 
-                      : `https://image.tmdb.org/t/p/w500${movie.poster_path}`)
-                    : 'https://images.unsplash.com/photo-1489599735734-79b4169f2a78?w=500&h=750&fit=crop'
-                  }
+                  src={tmdbImage(movie.poster_path) || 'https://images.unsplash.com/photo-1489599735734-79b4169f2a78?w=500&h=750&fit=crop'}
                   alt={movie.title}
                   loading="lazy"
                   decoding="async"
@@ -1061,27 +830,33 @@ const EnhancedMovies = () => {
                     <Button
                       size="icon"
                       variant="secondary"
-                      onClick={() => { try { logExternalSearch(movie.title, movie.id); } catch {}; window.open(`https://www.google.com/search?q=${encodeURIComponent(`Watch ${movie.title} full movie`)}`,'_blank'); }}
+                      onClick={() => { try { logExternalSearch(movie.title, refOf(movie)); } catch {}; window.open(`https://www.google.com/search?q=${encodeURIComponent(`Watch ${movie.title} full movie`)}`,'_blank'); }}
                       title="Watch Full Movie"
                     >
                       <Globe size={16} />
                     </Button>
                     <Button 
                       size="icon" 
-                      variant={favorites.has(movie.id) ? "default" : "secondary"}
-                      onClick={() => toggleFavorite(movie.id)}
+                      variant={favorites.has(contentKey(refOf(movie))) ? "default" : "secondary"}
+                      onClick={() => toggleFavorite(refOf(movie))}
                       title="Add to Favorites"
                     >
-                      <Heart size={16} className={favorites.has(movie.id) ? "fill-current" : ""} />
+                      <Heart size={16} className={favorites.has(contentKey(refOf(movie))) ? "fill-current" : ""} />
                     </Button>
                     <Button 
                       size="icon" 
-                      variant={watchlist.has(movie.id) ? "default" : "secondary"}
-                      onClick={() => toggleWatchlist(movie.id)}
+                      variant={watchlist.has(contentKey(refOf(movie))) ? "default" : "secondary"}
+                      onClick={() => toggleWatchlist(refOf(movie))}
                       title="Add to Watchlist"
                     >
-                      <Bookmark size={16} className={watchlist.has(movie.id) ? "fill-current" : ""} />
+                      <Bookmark size={16} className={watchlist.has(contentKey(refOf(movie))) ? "fill-current" : ""} />
                     </Button>
+                    <MarkWatchedButton
+                      variant="icon"
+                      content={refOf(movie)}
+                      title={movie.title}
+                      posterPath={movie.poster_path}
+                    />
                   </div>
                 </div>
 
@@ -1092,14 +867,26 @@ const EnhancedMovies = () => {
                     {movie.vote_average.toFixed(1)}
                   </Badge>
                 </div>
+
+                <div className="absolute top-2 left-2">
+                  <FeedbackMenu
+                    content={refOf(movie)}
+                    title={movie.title}
+                    genreIds={movie.genre_ids}
+                    genreNames={movie.media_type === 'tv' ? TV_GENRES : MOVIE_GENRES}
+                    className="rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+                    onChange={() => setMovies(prev => rankCandidates(prev, readHistory()))}
+                  />
+                </div>
               </div>
 
               <CardContent className="p-4">
-                <h3 className="font-semibold mb-2 line-clamp-2">{(movie as any).title || (movie as any).name}</h3>
+                <h3 className="font-semibold mb-2 line-clamp-2">{movie.title}</h3>
+                <RecoReason explanation={explanations[contentKey(refOf(movie))]} className="mb-2" />
                 
                 <div className="flex items-center gap-2 mb-2 text-sm text-muted-foreground">
                   <Calendar size={12} />
-                  <span>{(movie as any).release_date?.split('-')[0] || (movie as any).first_air_date?.split('-')[0] || 'N/A'}</span>
+                  <span>{releaseYear(movie) || 'N/A'}</span>
                 </div>
 
                 <div className="flex flex-wrap gap-1 mb-3">
@@ -1145,7 +932,7 @@ const EnhancedMovies = () => {
 
                 {contentType === 'movie' ? (
                   <Button 
-                    onClick={() => { try { logMovieOpen(movie.id, (movie as any).title, movie.genre_ids); } catch {}; navigate(`/movie/${movie.id}`); }}
+                    onClick={() => { try { logMovieOpen(refOf(movie), movie.title, movie.genre_ids); } catch {}; navigate(contentPath(refOf(movie))); }}
                     className="w-full"
                     size="sm"
                   >
@@ -1153,7 +940,7 @@ const EnhancedMovies = () => {
                   </Button>
                 ) : (
                   <Button 
-                    onClick={() => { try { logExternalSearch((movie as any).name || (movie as any).title, movie.id); } catch {}; window.open(`https://www.google.com/search?q=${encodeURIComponent(`Watch ${(movie as any).name || (movie as any).title} full series`)}`,'_blank'); }}
+                    onClick={() => { try { logExternalSearch(movie.title, refOf(movie)); } catch {}; window.open(`https://www.google.com/search?q=${encodeURIComponent(`Watch ${movie.title} full series`)}`,'_blank'); }}
                     className="w-full"
                     size="sm"
                     variant="secondary"
@@ -23,30 +23,19 @@ type UserActivity = {
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { tmdb, tmdbImage, findTrailer, type TmdbTitle, type TrendingPeriod } from "@/lib/tmdb";
+import { contentKey, contentPath, fromRow, refOf, sameContent, type ContentRef } from "@/lib/content";
+import { addToLibrary, fetchLibraryKeys, removeFromLibrary } from "@/utils/library";
+import ContinueWatching from "@/components/ContinueWatching";
+import MarkWatchedButton from "@/components/MarkWatchedButton";
+import RecoReason from "@/components/RecoReason";
+import FeedbackMenu from "@/components/FeedbackMenu";
+import { fetchRecommendations as fetchServerRecommendations, explainRecommendation } from "@/utils/recommendations";
+import { explainCandidates, withoutHidden, type RecoExplanation } from "@/utils/reco";
+import { readHistory as readEventHistory } from "@/utils/history";
 
 // Types
-type TMDBMovie = {
-  id: number;
-  title: string;
-  name?: string;
-  overview: string;
-  poster_path: string | null;
-  backdrop_path: string | null;
-  release_date: string;
-  vote_average: number;
-  vote_count: number;
-  genre_ids: number[];
-  media_type?: 'movie' | 'tv';
-  first_air_date?: string;
-  original_title?: string;
-  original_name?: string;
-  original_language?: string;
-  adult?: boolean;
-  video?: boolean;
-  popularity?: number;
-};
-
-type TrendingPeriod = 'day' | 'week';
+type TMDBMovie = TmdbTitle;
 
 interface TrendingPeriodOption {
   label: string;
@@ -54,13 +43,8 @@ interface TrendingPeriodOption {
   icon: React.ReactNode;
 }
 
-// Cache configuration
-const CACHE_KEY = 'trending_tmdb_cache_v2';
-const CACHE_TTL = 30 * 60 * 1000; // 30 minutes
-const MAX_CACHE_SIZE = 5 * 1024 * 1024; // 5MB
-
-// In-memory cache for faster access
-const memoryCache = new Map<string, { data: any; expires: number }>();
+// Localized titles and overviews for this page
+const TMDB_OPTS = { language: 'ru-RU' };
 
 // Genre mapping
 const GENRE_MAP: Record<number, string> = {
@@ -75,10 +59,13 @@ interface MovieCardProps {
   movie: TMDBMovie;
   isFavorite: boolean;
   isInWatchlist: boolean;
-  onFavorite: (id: number) => void;
-  onWatchlist: (id: number) => void;
+  onFavorite: (ref: ContentRef) => void;
+  onWatchlist: (ref: ContentRef) => void;
   onPlay: (movie: TMDBMovie) => void;
   onViewDetails: (movie: TMDBMovie) => void;
+  explanation?: RecoExplanation;
+  // Recommendation cards also offer negative feedback
+  onFeedback?: () => void;
 }
 
 // Movie Card Component
@@ -89,7 +76,9 @@ const MovieCard: React.FC<MovieCardProps> = ({
   onFavorite,
   onWatchlist,
   onPlay,
-  onViewDetails
+  onViewDetails,
+  explanation,
+  onFeedback
 }) => (
   <div className="px-2 py-1 h-full">
     <Card className="h-full overflow-hidden transition-transform hover:scale-105 flex flex-col">
@@ -97,8 +86,8 @@ const MovieCard: React.FC<MovieCardProps> = ({
         <div className="w-full h-64 bg-gray-200 dark:bg-gray-800 flex items-center justify-center overflow-hidden">
           {movie.poster_path ? (
             <img
-              src={`https://image.tmdb.org/t/p/w500${movie.poster_path}`}
-              alt={movie.title || movie.name || 'Movie poster'}
+              src={tmdbImage(movie.poster_path) || '/placeholder.svg'}
+              alt={movie.title || 'Movie poster'}
               className="w-full h-full object-cover"
               onError={(e) => {
                 const target = e.target as HTMLImageElement;
@@ -121,7 +110,7 @@ const MovieCard: React.FC<MovieCardProps> = ({
             className="rounded-full bg-black/50 hover:bg-black/70"
             onClick={(e) => {
               e.stopPropagation();
-              onFavorite(movie.id);
+              onFavorite(refOf(movie));
             }}
           >
             <Heart className={`h-4 w-4 ${isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
@@ -132,15 +121,33 @@ const MovieCard: React.FC<MovieCardProps> = ({
             className="rounded-full bg-black/50 hover:bg-black/70"
             onClick={(e) => {
               e.stopPropagation();
-              onWatchlist(movie.id);
+              onWatchlist(refOf(movie));
             }}
           >
             <Bookmark className={`h-4 w-4 ${isInWatchlist ? 'fill-blue-500 text-blue-500' : ''}`} />
           </Button>
+          <MarkWatchedButton
+            variant="icon"
+            className="rounded-full bg-black/50 hover:bg-black/70"
+            content={refOf(movie)}
+            title={movie.title}
+            posterPath={movie.poster_path}
+          />
+          {onFeedback && (
+            <FeedbackMenu
+              content={refOf(movie)}
+              title={movie.title}
+              genreIds={movie.genre_ids}
+              genreNames={GENRE_MAP}
+              className="rounded-full bg-black/50 hover:bg-black/70"
+              onChange={onFeedback}
+            />
+          )}
         </div>
       </div>
       <CardContent className="p-4 flex-1 flex flex-col">
-        <h3 className="font-semibold line-clamp-1">{movie.title || movie.name}</h3>
+        <h3 className="font-semibold line-clamp-1">{movie.title}</h3>
+        <RecoReason explanation={explanation} className="mt-1" />
         <div className="flex items-center gap-2 mt-1 mb-2">
           <Star className="h-4 w-4 text-yellow-500" />
           <span className="text-sm">{movie.vote_average?.toFixed(1)}</span>
@@ -174,7 +181,7 @@ const MovieCard: React.FC<MovieCardProps> = ({
             className="w-full"
             onClick={(e) => {
               e.stopPropagation();
-              const searchQuery = encodeURIComponent(`${movie.title || movie.name} смотреть онлайн`);
+              const searchQuery = encodeURIComponent(`${movie.title} смотреть онлайн`);
               window.open(`https://www.google.com/search?q=${searchQuery}`, '_blank', 'noopener,noreferrer');
             }}
           >
@@ -219,9 +226,12 @@ const EnhancedTrending = () => {
   // State
   const [period, setPeriod] = useState<TrendingPeriod>('day');
   const [activeTab, setActiveTab] = useState<'movies' | 'tv' | 'recommendations'>('recommendations');
-  const [favorites, setFavorites] = useState<Set<number>>(new Set());
-  const [watchlist, setWatchlist] = useState<Set<number>>(new Set());
+  // Content keys (`movie:123`, `tv:456`)
+  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [watchlist, setWatchlist] = useState<Set<string>>(new Set());
   const [recommendedMovies, setRecommendedMovies] = useState<TMDBMovie[]>([]);
+  // Content key -> why the title is recommended
+  const [recommendationReasons, setRecommendationReasons] = useState<Record<string, RecoExplanation>>({});
   const [userHistory, setUserHistory] = useState<any[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -238,7 +248,7 @@ const EnhancedTrending = () => {
 
   // Handle view details
   const handleViewDetails = useCallback((movie: TMDBMovie) => {
-    navigate(`/movie/${movie.id}`, { state: { movie } });
+    navigate(contentPath(refOf(movie)), { state: { movie } });
   }, [navigate]);
 
   // Trending period options
@@ -253,19 +263,13 @@ const EnhancedTrending = () => {
     setError(null);
 
     try {
-      // Fetch movies
-      const moviesResponse = await fetch(
-        `https://api.themoviedb.org/3/trending/movie/${period}?api_key=${import.meta.env.VITE_TMDB_API_KEY}`
-      );
-      const moviesData = await moviesResponse.json();
-      setMovies(moviesData.results || []);
-
-      // Fetch TV shows
-      const tvResponse = await fetch(
-        `https://api.themoviedb.org/3/trending/tv/${period}?api_key=${import.meta.env.VITE_TMDB_API_KEY}`
-      );
-      const tvData = await tvResponse.json();
-      setTvShows(tvData.results || []);
+      const [moviesData, tvData] = await Promise.all([
+        tmdb.trending('movie', period),
+        tmdb.trending('tv', period)
+      ]);
+      if (!moviesData && !tvData) throw new Error('Failed to load trending content');
+      setMovies(moviesData?.results || []);
+      setTvShows(tvData?.results || []);
     } catch (err) {
       console.error('Error fetching trending content:', err);
       setError('Failed to load trending content');
@@ -281,21 +285,8 @@ const EnhancedTrending = () => {
 
   // Fetch movies and TV shows
   useEffect(() => {
-    const loadData = async () => {
-      await fetchTrending();
-      if (user?.id) {
-        try {
-          await fetchUserHistory();
-          await fetchRecommendations();
-        } catch (err) {
-          console.error('Error loading user data:', err);
-          setError(err instanceof Error ? err.message : 'An unknown error occurred');
-        }
-      }
-    };
-    
-    loadData();
-  }, [period, activeTab, user?.id]);
+    fetchTrending();
+  }, [fetchTrending, activeTab]);
   
   // Fetch user's watch history
   const fetchUserHistory = useCallback(async () => {
@@ -318,56 +309,23 @@ const EnhancedTrending = () => {
   
   // Fetch personalized recommendations
   const fetchRecommendations = useCallback(async () => {
-    const fetchWithFallback = async (url: string) => {
-      try {
-        console.log('Fetching from:', url);
-        const response = await fetch(url);
-        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-        const data = await response.json();
-        console.log('Fetched data from', url, ':', data.results?.length || 0, 'items');
-        return data.results || [];
-      } catch (error) {
-        console.error(`Failed to fetch from ${url}:`, error);
-        return [];
-      }
-    };
-
-    // Helper to normalize movie data
-    const normalizeMovie = (item: any): TMDBMovie | null => {
-      if (!item || !item.id) return null;
-      
-      return {
-        id: item.id,
-        title: item.title || item.name || 'Unknown Title',
-        overview: item.overview || '',
-        poster_path: item.poster_path || null,
-        backdrop_path: item.backdrop_path || null,
-        release_date: item.release_date || item.first_air_date || '',
-        vote_average: item.vote_average || 0,
-        vote_count: item.vote_count || 0,
-        genre_ids: item.genre_ids || [],
-        media_type: item.media_type || (item.title ? 'movie' : 'tv'),
-        popularity: item.popularity || 0
-      };
-    };
-
     try {
       setLoading(true);
       setError(null);
       
       // Common fetch operations - always fetch both to have fallbacks
-      const [popularMovies, trendingContent] = await Promise.all([
-        fetchWithFallback(`https://api.themoviedb.org/3/movie/popular?api_key=${import.meta.env.VITE_TMDB_API_KEY}&language=ru-RU&page=1`),
-        fetchWithFallback(`https://api.themoviedb.org/3/trending/all/day?api_key=${import.meta.env.VITE_TMDB_API_KEY}&language=ru-RU`)
+      const [popularPage, trendingPage] = await Promise.all([
+        tmdb.popular('movie', 1, TMDB_OPTS),
+        tmdb.trending('all', 'day', 1, TMDB_OPTS)
       ]);
+      const popularMovies = popularPage?.results || [];
+      const trendingContent = trendingPage?.results || [];
+      setRecommendationReasons({});
       
       // For non-logged in users or if we can't get user data
       if (!user?.id) {
         console.log('No user ID, showing default recommendations');
-        const combined = [
-          ...(popularMovies || []).map(normalizeMovie).filter(Boolean),
-          ...(trendingContent || []).map(normalizeMovie).filter(Boolean)
-        ];
+        const combined = [...popularMovies, ...trendingContent];
         
         console.log('Combined movies before filtering:', combined.length);
         
@@ -375,7 +333,7 @@ const EnhancedTrending = () => {
           new Map(
             combined
               .filter(movie => movie && movie.id && movie.poster_path)
-              .map(movie => [movie.id, movie])
+              .map(movie => [contentKey(refOf(movie)), movie])
           ).values()
         ) as TMDBMovie[];
         
@@ -387,10 +345,27 @@ const EnhancedTrending = () => {
         
         console.log('Final movies to show:', shuffled.length);
         setRecommendedMovies(shuffled);
+        setRecommendationReasons(explainCandidates(shuffled, readEventHistory()));
         setActiveTab('recommendations');
         return;
       }
       
+      // Server-side collaborative filtering first; an empty result means the
+      // user has no liked titles yet
+      try {
+        const server = await fetchServerRecommendations({ limit: 20, language: TMDB_OPTS.language });
+        if (server.items.length > 0) {
+          // Hidden genres are only known locally
+          setRecommendedMovies(withoutHidden(server.items, readEventHistory()));
+          setRecommendationReasons(Object.fromEntries(
+            server.items.map(item => [contentKey(refOf(item)), explainRecommendation(item)])
+          ));
+          return;
+        }
+      } catch (error) {
+        console.error('Error fetching server recommendations:', error);
+      }
+
       // For logged-in users, try to get personalized recommendations
       try {
         console.log('User is logged in, fetching personalized recommendations');
@@ -398,7 +373,7 @@ const EnhancedTrending = () => {
         // Get user's watch history
         const { data: watchHistory = [] } = await (supabase as any)
           .from('watch_history')
-          .select('movie_id, watched_at')
+          .select('movie_id, content_type, watched_at')
           .eq('user_id', user.id)
           .order('watched_at', { ascending: false })
           .limit(10)
@@ -409,39 +384,39 @@ const EnhancedTrending = () => {
         
         console.log('User watch history:', watchHistory);
         
-        let recommended = [];
+        let recommended: TMDBMovie[] = [];
         
         if (watchHistory.length > 0) {
           console.log('Found watch history, fetching similar movies');
           // Get similar movies for watched content
           const similarPromises = watchHistory.slice(0, 3).map(entry => 
-            fetchWithFallback(`https://api.themoviedb.org/3/movie/${entry.movie_id}/similar?api_key=${import.meta.env.VITE_TMDB_API_KEY}&language=ru-RU&page=1`)
+            tmdb.similar(fromRow(entry).kind, entry.movie_id, 1, TMDB_OPTS).then(page => page?.results || [])
           );
           
           const similarResults = await Promise.all(similarPromises);
-          const similarMovies = similarResults.flat().map(normalizeMovie).filter(Boolean);
+          const similarMovies = similarResults.flat();
           
           console.log('Found similar movies:', similarMovies.length);
           
           recommended = [
             ...similarMovies,
-            ...(popularMovies || []).map(normalizeMovie).filter(Boolean),
-            ...(trendingContent || []).map(normalizeMovie).filter(Boolean)
+            ...popularMovies,
+            ...trendingContent
           ];
         } else {
           console.log('No watch history, showing popular and trending');
           // For new users, show a mix of popular and trending
           recommended = [
-            ...(popularMovies || []).slice(0, 15).map(normalizeMovie).filter(Boolean),
-            ...(trendingContent || []).slice(0, 15).map(normalizeMovie).filter(Boolean)
+            ...popularMovies.slice(0, 15),
+            ...trendingContent.slice(0, 15)
           ];
         }
         
         // Filter and deduplicate
         const validMovies = recommended
-          .filter(movie => movie?.id && movie.poster_path && (movie.title || movie.name))
+          .filter(movie => movie?.id && movie.poster_path && movie.title)
           .reduce((acc: any[], movie) => {
-            if (!acc.some(m => m.id === movie.id)) {
+            if (!acc.some(m => sameContent(refOf(m), refOf(movie)))) {
               acc.push(movie);
             }
             return acc;
@@ -449,6 +424,7 @@ const EnhancedTrending = () => {
           .slice(0, 20);
         
         setRecommendedMovies(validMovies);
+        setRecommendationReasons(explainCandidates(validMovies, readEventHistory()));
       } catch (error) {
         console.error('Error in personalized recommendations:', error);
         // Fallback to basic recommendations using already fetched data
@@ -457,7 +433,7 @@ const EnhancedTrending = () => {
           ...trendingContent.slice(0, 10)
         ].filter(movie => movie?.id);
         
-        setRecommendedMovies(Array.from(new Map(fallbackMovies.map(m => [m.id, m])).values()));
+        setRecommendedMovies(Array.from(new Map(fallbackMovies.map(m => [contentKey(refOf(m)), m])).values()));
       }
     } catch (error) {
       console.error('Error in fetchRecommendations:', error);
@@ -469,8 +445,43 @@ const EnhancedTrending = () => {
     }
   }, [user, fetchTrending]);
 
+  // Personal rows and recommendations when the page opens for a user. The
+  // recommendations function rebuilds its item-item matrix on every call,
+  // so plays and tab switches do not refetch them.
+  useEffect(() => {
+    if (!user?.id) return;
+    const loadUserData = async () => {
+      try {
+        await fetchUserHistory();
+        await fetchRecommendations();
+      } catch (err) {
+        console.error('Error loading user data:', err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    };
+    loadUserData();
+  }, [user?.id, fetchUserHistory, fetchRecommendations]);
+
+  // Load favorites and watchlist for the signed-in user
+  useEffect(() => {
+    if (!user?.id) {
+      setFavorites(new Set());
+      setWatchlist(new Set());
+      return;
+    }
+    Promise.all([
+      fetchLibraryKeys('user_favorites', user.id),
+      fetchLibraryKeys('user_watchlist', user.id)
+    ])
+      .then(([favoriteKeys, watchlistKeys]) => {
+        setFavorites(favoriteKeys);
+        setWatchlist(watchlistKeys);
+      })
+      .catch(error => console.error('Error loading favorites/watchlist:', error));
+  }, [user?.id]);
+
   // Handle favorite toggle
-  const handleFavorite = useCallback(async (movieId: number) => {
+  const handleFavorite = useCallback(async (ref: ContentRef) => {
     if (!user) {
       toast({
         title: 'Please sign in',
@@ -480,34 +491,17 @@ const EnhancedTrending = () => {
       return;
     }
 
+    const key = contentKey(ref);
     const newFavorites = new Set(favorites);
-    const isFavorite = newFavorites.has(movieId);
+    const isFavorite = newFavorites.has(key);
 
     try {
       if (isFavorite) {
-        // Remove from favorites
-        await supabase
-          .from('notifications')
-          .delete()
-          .match({ 
-            user_id: user.id, 
-            content_id: movieId.toString(),
-            type: 'favorite'
-          });
-        newFavorites.delete(movieId);
+        await removeFromLibrary('user_favorites', user.id, ref);
+        newFavorites.delete(key);
       } else {
-        // Add to favorites
-        await supabase
-          .from('notifications')
-          .insert({
-            user_id: user.id,
-            content_id: movieId.toString(),
-            type: 'favorite',
-            title: 'Added to favorites',
-            message: `Added movie ${movieId} to your favorites`,
-            created_at: new Date().toISOString()
-          });
-        newFavorites.add(movieId);
+        await addToLibrary('user_favorites', user.id, ref);
+        newFavorites.add(key);
       }
       
       setFavorites(newFavorites);
@@ -522,7 +516,7 @@ const EnhancedTrending = () => {
   }, [user, favorites, toast]);
 
   // Handle watchlist toggle
-  const handleWatchlist = useCallback(async (movieId: number) => {
+  const handleWatchlist = useCallback(async (ref: ContentRef) => {
     if (!user?.id) {
       toast({
         title: 'Please sign in',
@@ -532,30 +526,27 @@ const EnhancedTrending = () => {
       return;
     }
     
-    const isInWatchlist = watchlist.has(movieId);
+    const key = contentKey(ref);
+    const isInWatchlist = watchlist.has(key);
     const updatedWatchlist = new Set(watchlist);
     
     if (isInWatchlist) {
-      updatedWatchlist.delete(movieId);
+      updatedWatchlist.delete(key);
     } else {
-      updatedWatchlist.add(movieId);
+      updatedWatchlist.add(key);
     }
     
     setWatchlist(updatedWatchlist);
     
     try {
-      await supabase
-        .from('notifications')
-        .upsert({
-          user_id: user.id,
-          content_id: movieId.toString(),
-          type: 'watchlist',
-          is_read: false,
-          data: { is_watchlist: !isInWatchlist },
+      if (isInWatchlist) {
+        await removeFromLibrary('user_watchlist', user.id, ref);
+      } else {
+        await addToLibrary('user_watchlist', user.id, ref, {
+          status: 'plan_to_watch',
           updated_at: new Date().toISOString(),
-        } as any, {
-          onConflict: 'user_id,content_id',
         });
+      }
     } catch (error) {
       console.error('Error updating watchlist:', error);
       toast({
@@ -585,14 +576,14 @@ const EnhancedTrending = () => {
           .insert([{
             user_id: user.id,
             movie_id: movie.id,
+            content_type: movie.media_type,
             watched_at: new Date().toISOString()
           }]);
         
         if (error) throw error;
         
-        // Refresh user history and recommendations
+        // Recommendations are refreshed when the page next opens
         await fetchUserHistory();
-        await fetchRecommendations();
       } catch (dbError: any) {
         console.error('Error logging activity:', dbError);
         setError(dbError.message);
@@ -602,11 +593,7 @@ const EnhancedTrending = () => {
     const fetchTrailer = async () => {
       try {
         setLoading(true);
-        const response = await fetch(
-          `https://api.themoviedb.org/3/movie/${movie.id}/videos?api_key=${process.env.VITE_TMDB_API_KEY}`
-        );
-        const data = await response.json();
-        const trailer = data.results?.find((v: any) => v.type === 'Trailer' && v.site === 'YouTube');
+        const trailer = findTrailer(await tmdb.videos(movie.media_type, movie.id));
         
         if (trailer?.key) {
           setVideoKey(trailer.key);
@@ -638,7 +625,7 @@ const EnhancedTrending = () => {
         variant: 'destructive',
       });
     }
-  }, [user, toast, fetchRecommendations]);
+  }, [user, toast, fetchUserHistory]);
 
   // Get content genres as a string
   const getContentGenres = useCallback((genreIds: number[]): string => {
@@ -708,6 +695,8 @@ const EnhancedTrending = () => {
         </div>
       </div>
 
+      <ContinueWatching />
+
       <Tabs 
         value={activeTab} 
         onValueChange={(value) => setActiveTab(value as 'movies' | 'tv' | 'recommendations')} 
@@ -737,14 +726,16 @@ const EnhancedTrending = () => {
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
               {recommendedMovies.map((movie) => (
                 <MovieCard
-                  key={`rec-${movie.id}`}
+                  key={`rec-${contentKey(refOf(movie))}`}
                   movie={movie}
-                  isFavorite={favorites.has(movie.id)}
-                  isInWatchlist={watchlist.has(movie.id)}
+                  isFavorite={favorites.has(contentKey(refOf(movie)))}
+                  isInWatchlist={watchlist.has(contentKey(refOf(movie)))}
                   onFavorite={handleFavorite}
                   onWatchlist={handleWatchlist}
                   onPlay={handlePlay}
                   onViewDetails={handleViewDetails}
+                  explanation={recommendationReasons[contentKey(refOf(movie))]}
+                  onFeedback={() => setRecommendedMovies(prev => withoutHidden(prev, readEventHistory()))}
                 />
               ))}
             </div>
@@ -761,8 +752,8 @@ const EnhancedTrending = () => {
               <MovieCard
                 key={`movie-${movie.id}`}
                 movie={movie}
-                isFavorite={favorites.has(movie.id)}
-                isInWatchlist={watchlist.has(movie.id)}
+                isFavorite={favorites.has(contentKey(refOf(movie)))}
+                isInWatchlist={watchlist.has(contentKey(refOf(movie)))}
                 onFavorite={handleFavorite}
                 onWatchlist={handleWatchlist}
                 onPlay={handlePlay}
@@ -778,8 +769,8 @@ const EnhancedTrending = () => {
               <MovieCard
                 key={`tv-${show.id}`}
                 movie={show}
-                isFavorite={favorites.has(show.id)}
-                isInWatchlist={watchlist.has(show.id)}
+                isFavorite={favorites.has(contentKey(refOf(show)))}
+                isInWatchlist={watchlist.has(contentKey(refOf(show)))}
                 onFavorite={handleFavorite}
                 onWatchlist={handleWatchlist}
                 onPlay={handlePlay}
@@ -798,7 +789,7 @@ const EnhancedTrending = () => {
           setSelectedMovie(null);
         }}
         videoKey={videoKey || null}
-        movieTitle={selectedMovie?.title || selectedMovie?.name || ''}
+        movieTitle={selectedMovie?.title || ''}
       />
 
       {selectedMovie && (
@@ -806,7 +797,7 @@ const EnhancedTrending = () => {
           <button
             className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 transition-colors"
             onClick={() => {
-              const query = `${selectedMovie.title || selectedMovie.name} full movie`;
+              const query = `${selectedMovie.title} full movie`;
               window.open(`https://www.google.com/search?q=${encodeURIComponent(query)}`, '_blank');
             }}
           >
@@ -4,45 +4,26 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { ArrowLeft, Heart, Plus, Share, Star, X, Play, Film } from 'lucide-react';
+import { ArrowLeft, Star, X, Play, Film } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader } from '@/components/ui/dialog';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { logMovieOpen, readHistory, logExternalSearch, logTrailerPlay } from '@/utils/history';
-import { rankCandidates } from '@/utils/reco';
-interface Movie {
-  id: number;
-  title: string;
-  overview: string;
-  poster_path: string;
-  backdrop_path: string;
-  release_date: string;
-  vote_average: number;
-  runtime: number;
-  genres: { id: number; name: string }[];
-  videos?: {
-    results: Array<{
-      key: string;
-      type: string;
-      site: string;
-      name: string;
-    }>;
-  };
-}
+import { contentKey, contentPath, contentRef, refOf } from '@/lib/content';
+import LibraryActions from '@/components/LibraryActions';
+import CreditsSection from '@/components/CreditsSection';
+import { scoreCandidates, type ScoredCandidate } from '@/utils/reco';
+import RecoReason from '@/components/RecoReason';
+import { tmdb, tmdbImage, type TmdbDetails, type TmdbTitle } from '@/lib/tmdb';
 
 
 const MovieDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
   const { toast } = useToast();
   
-  const [movie, setMovie] = useState<Movie | null>(null);
+  const [movie, setMovie] = useState<TmdbDetails | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isFavorite, setIsFavorite] = useState(false);
-  const [inWatchlist, setInWatchlist] = useState(false);
-  const [reco, setReco] = useState<Movie[]>([]);
+  const [reco, setReco] = useState<ScoredCandidate<TmdbTitle>[]>([]);
   const [showTrailer, setShowTrailer] = useState(false);
   const [youtubeResults, setYoutubeResults] = useState<Array<{
     id: { videoId: string };
@@ -54,11 +35,8 @@ const MovieDetails = () => {
   useEffect(() => {
     if (id) {
       fetchMovieDetails();
-      if (user) {
-        checkUserStatus();
-      }
     }
-  }, [id, user]);
+  }, [id]);
 
   const searchYoutubeVideos = async (query: string) => {
     try {
@@ -78,12 +56,11 @@ const MovieDetails = () => {
 
   const fetchMovieDetails = async () => {
     try {
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', {
-        body: { endpoint: `movie/${id}?append_to_response=videos` }
-      });
+      const data = await tmdb.details('movie', id!, ['videos', 'credits']);
+      if (!data) throw new Error('Failed to load movie details');
 
       // If no videos from TMDB, try to find on YouTube
-      if (data && (!data.videos || data.videos.results.length === 0)) {
+      if (!data.videos || data.videos.results.length === 0) {
         const query = `${data.title} ${data.release_date ? data.release_date.split('-')[0] : ''} official trailer`;
         const youtubeVideos = await searchYoutubeVideos(query);
         if (youtubeVideos.length > 0) {
@@ -100,33 +77,13 @@ const MovieDetails = () => {
         }
       }
 
-      if (error) throw error;
       setMovie(data);
-      try { logMovieOpen(Number(id), data?.title, data?.genres?.map((g: any)=>g.id)); } catch {}
+      try { logMovieOpen(contentRef('movie', id!), data.title, data.genre_ids); } catch {}
       // fetch similar and rank
       try {
-        const { data: sim, error: simErr } = await supabase.functions.invoke('tmdb-movies', {
-          body: { endpoint: `movie/${id}/similar` }
-        });
-        if (!simErr && sim?.results?.length) {
-          const ranked = rankCandidates(sim.results.map((m: any)=>({ id: m.id, title: m.title, genre_ids: m.genre_ids, vote_average: m.vote_average, popularity: m.popularity })), readHistory());
-          // Map back to minimal Movie for display (poster path via TMDB)
-          const byId: Record<number, any> = Object.fromEntries(sim.results.map((m: any)=>[m.id, m]));
-          const ordered: Movie[] = ranked.map((r:any)=>{
-            const d = byId[r.id];
-            return {
-              id: d.id,
-              title: d.title,
-              overview: d.overview,
-              poster_path: d.poster_path ? `https://image.tmdb.org/t/p/w500${d.poster_path}` : '',
-              backdrop_path: d.backdrop_path,
-              release_date: d.release_date,
-              vote_average: d.vote_average,
-              runtime: 0,
-              genres: [],
-            } as Movie;
-          }).slice(0, 8);
-          setReco(ordered);
+        const sim = await tmdb.similar('movie', id!);
+        if (sim?.results.length) {
+          setReco(scoreCandidates(sim.results, readHistory()).slice(0, 8));
         } else {
           setReco([]);
         }
@@ -143,92 +100,9 @@ const MovieDetails = () => {
     }
   };
 
-  const checkUserStatus = async () => {
-    if (!user || !id) return;
-
-    try {
-      const movieId = id;
-      const [favResponse, watchlistResponse] = await Promise.all([
-        supabase
-          .from('user_favorites')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('movie_id', movieId)
-          .single(),
-        supabase
-          .from('user_watchlist')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('movie_id', movieId)
-          .single()
-      ]);
-
-      setIsFavorite(!!favResponse.data);
-      setInWatchlist(!!watchlistResponse.data);
-    } catch (error) {
-      // User doesn't have this movie in favorites/watchlist
-    }
-  };
-
-  const toggleFavorite = async () => {
-    if (!user || !id) return;
-
-    try {
-      if (isFavorite) {
-        await supabase
-          .from('user_favorites')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('movie_id', id);
-        setIsFavorite(false);
-        toast({ title: "Removed from favorites" });
-      } else {
-        await supabase
-          .from('user_favorites')
-          .insert([{ user_id: user.id, movie_id: id }]);
-        setIsFavorite(true);
-        toast({ title: "Added to favorites" });
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update favorites",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const toggleWatchlist = async () => {
-    if (!user || !id) return;
-
-    try {
-      if (inWatchlist) {
-        await supabase
-          .from('user_watchlist')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('movie_id', id);
-        setInWatchlist(false);
-        toast({ title: "Removed from watchlist" });
-      } else {
-        await supabase
-          .from('user_watchlist')
-          .insert([{ user_id: user.id, movie_id: id }]);
-        setInWatchlist(true);
-        toast({ title: "Added to watchlist" });
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update watchlist",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleTrailerClick = (key: string, type: string) => {
     try {
-      logTrailerPlay(movie?.id || 0, movie?.title || '');
+      if (movie) logTrailerPlay(contentRef('movie', movie.id), movie.title);
       setCurrentTrailer({ key, type });
     } catch (error) {
       console.error('Error playing trailer:', error);
@@ -240,36 +114,9 @@ const MovieDetails = () => {
     }
   };
 
-  const handleShare = async () => {
-    const url = window.location.href;
-    
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: movie?.title,
-          text: `Check out this movie: ${movie?.title}`,
-          url: url,
-        });
-      } catch (error) {
-        console.log('Error sharing:', error);
-      }
-    } else {
-      try {
-        await navigator.clipboard.writeText(url);
-        toast({ title: "Link copied to clipboard!" });
-      } catch (error) {
-        toast({
-          title: "Error",
-          description: "Failed to copy link",
-          variant: "destructive",
-        });
-      }
-    }
-  };
-
   const handleWatchFullMovie = () => {
     try {
-      logExternalSearch(movie?.title || '');
+      logExternalSearch(movie?.title || '', movie ? contentRef('movie', movie.id) : undefined);
       const searchQuery = `${movie?.title} full movie`;
       window.open(`https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`, '_blank', 'noopener,noreferrer');
     } catch (error) {
@@ -477,7 +324,7 @@ const MovieDetails = () => {
           className="absolute inset-0 bg-cover bg-center"
           style={{
             backgroundImage: movie.backdrop_path
-              ? `url(https://image.tmdb.org/t/p/original${movie.backdrop_path})`
+              ? `url(${tmdbImage(movie.backdrop_path, 'original')})`
               : 'none',
           }}
         />
@@ -497,10 +344,7 @@ const MovieDetails = () => {
           <div className="flex flex-col md:flex-row gap-6">
             <div className="w-full md:w-1/3 lg:w-1/4">
               <img
-                src={movie.poster_path 
-                  ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-                  : '/placeholder.svg'
-                }
+                src={tmdbImage(movie.poster_path) || '/placeholder.svg'}
                 alt={movie.title}
                 className="w-full h-auto rounded-lg shadow-lg"
               />
@@ -550,42 +394,7 @@ const MovieDetails = () => {
               {/* Spacer to prevent content from being hidden behind fixed button */}
               <div className="h-24"></div>
               
-              <div className="flex flex-wrap gap-2">
-                {user && (
-                  <>
-                    <Button
-                      variant="outline"
-                      size="lg"
-                      onClick={toggleFavorite}
-                      className="text-white border-white hover:bg-white hover:text-black"
-                    >
-                      <Heart className={`mr-2 h-4 w-4 ${isFavorite ? 'fill-current' : ''}`} />
-                      {isFavorite ? 'Favorited' : 'Favorite'}
-                    </Button>
-                    
-                    <Button
-                      variant="outline"
-                      size="lg"
-                      onClick={toggleWatchlist}
-                      className="text-white border-white hover:bg-white hover:text-black"
-                    >
-                      <Plus className="mr-2 h-4 w-4" />
-                      {inWatchlist ? 'In Watchlist' : 'Watchlist'}
-                    </Button>
-                  </>
-                )}
-                
-                <Button
-                  variant="outline"
-                  size="lg"
-                  onClick={handleShare}
-                  className="text-white border-white hover:bg-white hover:text-black"
-                >
-                  <Share className="mr-2 h-4 w-4" />
-                  Share
-                </Button>
-
-              </div>
+              <LibraryActions content={contentRef('movie', movie.id)} title={movie.title} posterPath={movie.poster_path} />
             </div>
           </div>
         </div>
@@ -603,26 +412,29 @@ const MovieDetails = () => {
           </CardContent>
         </Card>
 
+        {movie.credits && <CreditsSection credits={movie.credits} />}
+
         <Separator className="my-8" />
         {/* Recommended for you */}
         {reco.length > 0 && (
           <div className="mb-8">
             <h2 className="text-2xl font-bold mb-4">Recommended for you</h2>
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {reco.map((m) => (
+              {reco.map(({ item: m, explanation }) => (
                 <button
-                  key={m.id}
+                  key={contentKey(refOf(m))}
                   className="text-left group"
-                  onClick={() => navigate(`/movie/${m.id}`)}
+                  onClick={() => navigate(contentPath(refOf(m)))}
                   aria-label={`Open ${m.title}`}
                 >
                   <div className="relative aspect-[2/3] overflow-hidden rounded-lg">
-                    <img src={m.poster_path || '/placeholder.svg'} alt={m.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
+                    <img src={tmdbImage(m.poster_path) || '/placeholder.svg'} alt={m.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
                     <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent text-white">
                       <div className="text-xs flex items-center gap-1"><Star className="h-3 w-3 fill-yellow-400 text-yellow-400" /> {m.vote_average?.toFixed(1)}</div>
                     </div>
                   </div>
                   <div className="mt-2 text-sm font-medium line-clamp-2">{m.title}</div>
+                  <RecoReason explanation={explanation} className="mt-1" />
                 </button>
               ))}
             </div>
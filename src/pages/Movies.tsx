@@ -7,11 +7,12 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { useLocation, useNavigate } from "react-router-dom";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { tmdb, tmdbImage, type TmdbPage, type TmdbTitle, type MediaKind } from "@/lib/tmdb";
 
 interface Movie {
   id: number;
+  media_type: MediaKind;
   title: string;
   poster_path: string;
   release_date: string;
@@ -19,6 +20,16 @@ interface Movie {
   overview: string;
 }
 
+const toMovie = (item: TmdbTitle): Movie => ({
+  id: item.id,
+  media_type: item.media_type,
+  title: item.title,
+  poster_path: tmdbImage(item.poster_path) || '/placeholder.svg',
+  release_date: item.release_date,
+  vote_average: item.vote_average,
+  overview: item.overview
+});
+
 const Movies = () => {
   const [movies, setMovies] = useState<Movie[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -90,44 +101,29 @@ const Movies = () => {
     }
   }, [searchTerm, movies]);
 
-  const buildEndpoint = (cat: 'movies' | 'series' | 'cartoons' | 'animated_series', cn: string) => {
-    let endpoint = '';
-    const origin = cn !== 'ALL' ? `with_origin_country=${cn}` : '';
+  const loadCategory = (cat: 'movies' | 'series' | 'cartoons' | 'animated_series', cn: string): Promise<TmdbPage | null> => {
+    const origin = cn !== 'ALL' ? { with_origin_country: cn, sort_by: 'popularity.desc' } : null;
     if (cat === 'movies') {
-      endpoint = origin ? `discover/movie?${origin}&sort_by=popularity.desc` : 'movie/popular';
+      return origin ? tmdb.discover('movie', origin) : tmdb.popular('movie');
     }
     if (cat === 'series') {
-      endpoint = origin ? `discover/tv?${origin}&sort_by=popularity.desc` : 'tv/popular';
+      return origin ? tmdb.discover('tv', origin) : tmdb.popular('tv');
     }
     if (cat === 'cartoons') {
       // Do not restrict by origin to ensure richer results
-      endpoint = `discover/movie?with_genres=16&sort_by=popularity.desc`;
-    }
-    if (cat === 'animated_series') {
-      // Do not restrict by origin to ensure richer results
-      endpoint = `discover/tv?with_genres=16&sort_by=popularity.desc`;
+      return tmdb.discover('movie', { with_genres: 16, sort_by: 'popularity.desc' });
     }
-    return endpoint;
+    // Do not restrict by origin to ensure richer results
+    return tmdb.discover('tv', { with_genres: 16, sort_by: 'popularity.desc' });
   };
 
   const fetchPopularMoviesFor = async (cat: 'movies' | 'series' | 'cartoons' | 'animated_series', cn: string) => {
     setLoading(true);
     try {
-      const endpoint = buildEndpoint(cat, cn);
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', {
-        body: { endpoint }
-      });
-
-      if (error) throw error;
+      const data = await loadCategory(cat, cn);
+      if (!data) throw new Error('Failed to load movies');
 
-      const normalized: Movie[] = (data.results || []).map((item: any) => ({
-        id: item.id,
-        title: item.title || item.name,
-        poster_path: item.poster_path,
-        release_date: item.release_date || item.first_air_date || '',
-        vote_average: item.vote_average || 0,
-        overview: item.overview || ''
-      }));
+      const normalized = data.results.map(toMovie);
 
       setMovies(normalized);
       setFilteredMovies(normalized);
@@ -146,19 +142,10 @@ const Movies = () => {
   const fetchPopularMovies = async () => {
     setLoading(true);
     try {
-      const endpoint = buildEndpoint(category, country);
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', { body: { endpoint } });
-
-      if (error) throw error;
+      const data = await loadCategory(category, country);
+      if (!data) throw new Error('Failed to load movies');
 
-      const normalized: Movie[] = (data.results || []).map((item: any) => ({
-        id: item.id,
-        title: item.title || item.name,
-        poster_path: item.poster_path,
-        release_date: item.release_date || item.first_air_date || '',
-        vote_average: item.vote_average || 0,
-        overview: item.overview || ''
-      }));
+      const normalized = data.results.map(toMovie);
 
       setMovies(normalized);
       setFilteredMovies(normalized);
@@ -178,28 +165,12 @@ const Movies = () => {
     if (!query.trim()) return;
 
     try {
-      let endpoint = '';
-      if (category === 'movies') endpoint = `search/movie?query=${encodeURIComponent(query.trim())}`;
-      if (category === 'series') endpoint = `search/tv?query=${encodeURIComponent(query.trim())}`;
-      if (category === 'cartoons') endpoint = `search/movie?query=${encodeURIComponent(query.trim())}`; // approximate
-      if (category === 'animated_series') endpoint = `search/tv?query=${encodeURIComponent(query.trim())}`; // approximate
+      // Cartoons / animated series search is approximate: plain movie / TV search
+      const kind = category === 'movies' || category === 'cartoons' ? 'movie' : 'tv';
+      const data = await tmdb.search(kind, query);
+      if (!data) throw new Error('Search failed');
 
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', {
-        body: { endpoint }
-      });
-
-      if (error) throw error;
-
-      const normalized: Movie[] = (data.results || []).map((item: any) => ({
-        id: item.id,
-        title: item.title || item.name,
-        poster_path: item.poster_path,
-        release_date: item.release_date || item.first_air_date || '',
-        vote_average: item.vote_average || 0,
-        overview: item.overview || ''
-      }));
-
-      setFilteredMovies(normalized);
+      setFilteredMovies(data.results.map(toMovie));
     } catch (error) {
       console.error('Error searching movies:', error);
       toast({
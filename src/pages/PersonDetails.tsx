@@ -0,0 +1,265 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Star, User, Film, Tv } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { logMovieOpen } from '@/utils/history';
+import { contentKey, contentPath, refOf } from '@/lib/content';
+import { tmdb, tmdbImage, releaseYear, type MediaKind, type TmdbPerson, type TmdbPersonCredit } from '@/lib/tmdb';
+
+type SortKey = 'year' | 'rating' | 'popularity' | 'title';
+type KindFilter = 'all' | MediaKind;
+
+const KNOWN_FOR_COUNT = 8;
+const BIO_PREVIEW_CHARS = 600;
+
+// Undated (announced) titles sort as newest
+const dateValue = (c: TmdbPersonCredit) => (c.release_date ? Date.parse(c.release_date) || 0 : Number.MAX_SAFE_INTEGER);
+
+const SORTERS: Record<SortKey, (a: TmdbPersonCredit, b: TmdbPersonCredit) => number> = {
+  year: (a, b) => dateValue(b) - dateValue(a),
+  rating: (a, b) => b.vote_average - a.vote_average,
+  popularity: (a, b) => b.popularity - a.popularity,
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+const PersonDetails = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [person, setPerson] = useState<TmdbPerson | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sortKey, setSortKey] = useState<SortKey>('year');
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [bioExpanded, setBioExpanded] = useState(false);
+
+  const fetchPerson = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await tmdb.person(id!);
+      if (!data) throw new Error('Failed to load person');
+      setPerson(data);
+    } catch (error) {
+      console.error('Error fetching person:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load person details",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => {
+    if (id) {
+      fetchPerson();
+    }
+  }, [id, fetchPerson]);
+
+  // Opening a title from a filmography counts as interest for recommendations
+  const openTitle = (credit: TmdbPersonCredit) => {
+    try { logMovieOpen(refOf(credit), credit.title, credit.genre_ids); } catch { /* history is best-effort */ }
+    navigate(contentPath(refOf(credit)));
+  };
+
+  const knownFor = useMemo(() => {
+    if (!person) return [];
+    const dept = person.known_for_department;
+    const pool = dept ? person.credits.filter(c => c.departments.includes(dept)) : person.credits;
+    return [...(pool.length ? pool : person.credits)]
+      .filter(c => c.poster_path)
+      .sort((a, b) => b.vote_count - a.vote_count)
+      .slice(0, KNOWN_FOR_COUNT);
+  }, [person]);
+
+  const filmography = useMemo(() => {
+    if (!person) return [];
+    const list = kind === 'all' ? person.credits : person.credits.filter(c => c.media_type === kind);
+    return [...list].sort(SORTERS[sortKey]);
+  }, [person, kind, sortKey]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!person) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Персона не найдена</p>
+      </div>
+    );
+  }
+
+  const movieCount = person.credits.filter(c => c.media_type === 'movie').length;
+  const tvCount = person.credits.length - movieCount;
+  const bio = person.biography;
+  const bioTruncated = !bioExpanded && bio.length > BIO_PREVIEW_CHARS;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+
+        {/* Profile */}
+        <div className="flex flex-col md:flex-row gap-6 mb-8">
+          <div className="w-full md:w-1/3 lg:w-1/4">
+            {person.profile_path ? (
+              <img
+                src={tmdbImage(person.profile_path, 'h632') || '/placeholder.svg'}
+                alt={person.name}
+                className="w-full h-auto rounded-lg shadow-lg"
+              />
+            ) : (
+              <div className="aspect-[2/3] bg-muted rounded-lg flex items-center justify-center">
+                <User className="h-16 w-16 text-muted-foreground/40" />
+              </div>
+            )}
+          </div>
+          <div className="flex-1">
+            <h1 className="text-4xl font-bold tracking-tight mb-3">{person.name}</h1>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {person.known_for_department && <Badge variant="secondary">{person.known_for_department}</Badge>}
+              {person.birthday && (
+                <Badge variant="outline">
+                  {person.birthday}{person.deathday ? ` — ${person.deathday}` : ''}
+                </Badge>
+              )}
+              {person.place_of_birth && <Badge variant="outline">{person.place_of_birth}</Badge>}
+            </div>
+
+            <h2 className="text-xl font-semibold mb-2">Биография</h2>
+            {bio ? (
+              <>
+                <p className="text-muted-foreground leading-relaxed whitespace-pre-line">
+                  {bioTruncated ? `${bio.slice(0, BIO_PREVIEW_CHARS).trimEnd()}…` : bio}
+                </p>
+                {bio.length > BIO_PREVIEW_CHARS && (
+                  <Button variant="link" className="px-0" onClick={() => setBioExpanded(x => !x)}>
+                    {bioExpanded ? 'Свернуть' : 'Читать полностью'}
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-muted-foreground">No biography available.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Known for */}
+        {knownFor.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold mb-4">Известен по</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-4">
+              {knownFor.map((c) => (
+                <button
+                  key={contentKey(refOf(c))}
+                  className="text-left group"
+                  onClick={() => openTitle(c)}
+                  aria-label={`Open ${c.title}`}
+                >
+                  <div className="aspect-[2/3] overflow-hidden rounded-lg">
+                    <img
+                      src={tmdbImage(c.poster_path, 'w342') || '/placeholder.svg'}
+                      alt={c.title}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                      loading="lazy"
+                    />
+                  </div>
+                  <div className="mt-2 text-sm font-medium line-clamp-2">{c.title}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Filmography */}
+        <div className="mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <h2 className="text-2xl font-bold">Фильмография</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" variant={kind === 'all' ? 'default' : 'outline'} onClick={() => setKind('all')}>
+                All ({person.credits.length})
+              </Button>
+              <Button size="sm" variant={kind === 'movie' ? 'default' : 'outline'} onClick={() => setKind('movie')}>
+                <Film className="mr-1 h-4 w-4" /> Movies ({movieCount})
+              </Button>
+              <Button size="sm" variant={kind === 'tv' ? 'default' : 'outline'} onClick={() => setKind('tv')}>
+                <Tv className="mr-1 h-4 w-4" /> TV ({tvCount})
+              </Button>
+              <Select value={sortKey} onValueChange={(v) => setSortKey(v as SortKey)}>
+                <SelectTrigger className="w-[160px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="year">Newest first</SelectItem>
+                  <SelectItem value="rating">Top rated</SelectItem>
+                  <SelectItem value="popularity">Most popular</SelectItem>
+                  <SelectItem value="title">Title A–Z</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {filmography.length > 0 ? (
+            <Card>
+              <CardContent className="p-0 divide-y">
+                {filmography.map((c) => (
+                  <button
+                    key={contentKey(refOf(c))}
+                    className="w-full flex items-center gap-4 p-3 text-left hover:bg-muted/50 transition-colors"
+                    onClick={() => openTitle(c)}
+                  >
+                    <span className="w-12 shrink-0 text-sm text-muted-foreground tabular-nums">
+                      {releaseYear(c) || '—'}
+                    </span>
+                    <img
+                      src={tmdbImage(c.poster_path, 'w92') || '/placeholder.svg'}
+                      alt=""
+                      className="w-10 h-[60px] shrink-0 rounded object-cover"
+                      loading="lazy"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium line-clamp-1">
+                        {c.title}
+                        <Badge variant="outline" className="ml-2 align-middle text-[10px]">
+                          {c.media_type === 'tv' ? 'TV' : 'Movie'}
+                        </Badge>
+                      </div>
+                      {c.roles.length > 0 && (
+                        <div className="text-xs text-muted-foreground line-clamp-1">
+                          {c.roles.join(', ')}
+                          {c.episode_count ? ` · ${c.episode_count} эп.` : ''}
+                        </div>
+                      )}
+                    </div>
+                    {c.vote_average > 0 && (
+                      <span className="shrink-0 flex items-center gap-1 text-sm">
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" /> {c.vote_average.toFixed(1)}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          ) : (
+            <p className="text-muted-foreground">Нет данных.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonDetails;
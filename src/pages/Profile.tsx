@@ -10,15 +10,13 @@ import { useAuth } from "../hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { Skeleton } from "../components/ui/skeleton";
+import { tmdb, tmdbImage, type TmdbTitle } from "@/lib/tmdb";
+import { contentKey, contentPath, fromRow, refOf, sameContent, type ContentRef } from "@/lib/content";
+import { removeFromLibrary } from "@/utils/library";
+import WatchDiary from "@/components/WatchDiary";
+import TasteMemories from "@/components/TasteMemories";
 
-interface Movie {
-  id: number;
-  title: string;
-  poster_path: string | null;
-  vote_average: number;
-  release_date: string;
-  [key: string]: any;
-}
+type Movie = TmdbTitle;
 
 // Database response type
 interface DatabaseProfile {
@@ -227,7 +225,7 @@ const Profile = () => {
       // Get paginated movie IDs from watchlist
       const { data: watchlistData, error, count } = await supabase
         .from('user_watchlist')
-        .select('movie_id', { count: 'exact' })
+        .select('movie_id, content_type', { count: 'exact' })
         .eq('user_id', user.id)
         .range((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE - 1);
 
@@ -243,27 +241,16 @@ const Profile = () => {
 
       // If there are movies, fetch their details in a batch
       if (watchlistData?.length > 0) {
-        const movieIds = watchlistData.map(item => item.movie_id).join(',');
-        
-        // Single API call for movies on the current page
-        const { data } = await supabase.functions.invoke('tmdb-movies', {
-          body: { 
-            endpoint: 'discover/movie',
-            params: {
-              with_ids: movieIds,
-              page: 1,
-              sort_by: 'popularity.desc',
-              language: 'ru-RU'
-            }
-          }
-        });
-
-        if (data?.results) {
-          setWatchlistMovies(prev => loadMore 
-            ? [...prev, ...data.results]
-            : data.results
-          );
-        }
+        // TMDB has no batch lookup; fetch details for the (small) page in parallel
+        const details = await Promise.all(
+          watchlistData.map(fromRow).map(ref => tmdb.details(ref.kind, ref.id, [], { language: 'ru-RU' }))
+        );
+        const results: Movie[] = details.filter((d): d is NonNullable<typeof d> => d !== null);
+
+        setWatchlistMovies(prev => loadMore 
+          ? [...prev, ...results]
+          : results
+        );
       } else if (!loadMore) {
         setWatchlistMovies([]);
       }
@@ -281,20 +268,14 @@ const Profile = () => {
   }, [user, page, toast]);
 
   // Remove movie from watchlist
-  const removeFromWatchlist = async (movieId: number) => {
+  const removeFromWatchlist = async (ref: ContentRef) => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('user_watchlist')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('movie_id', movieId.toString());
-
-      if (error) throw error;
+      await removeFromLibrary('user_watchlist', user.id, ref);
 
       // Update local state
-      setWatchlistMovies(prev => prev.filter(movie => movie.id !== movieId));
+      setWatchlistMovies(prev => prev.filter(movie => !sameContent(refOf(movie), ref)));
       
       toast({
         title: "Успех",
@@ -672,16 +653,16 @@ const Profile = () => {
             <>
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
                 {watchlistMovies.map((movie) => (
-                  <div key={movie.id} className="group relative">
+                  <div key={contentKey(refOf(movie))} className="group relative">
                     <Card className="h-full overflow-hidden transition-transform duration-200 hover:shadow-lg">
                       <div 
                         className="aspect-[2/3] bg-cover bg-center cursor-pointer"
                         style={{ 
                           backgroundImage: movie.poster_path 
-                            ? `url(https://image.tmdb.org/t/p/w500${movie.poster_path})` 
+                            ? `url(${tmdbImage(movie.poster_path)})` 
                             : 'linear-gradient(to bottom, #f3f4f6, #e5e7eb)'
                         }}
-                        onClick={() => navigate(`/movie/${movie.id}`)}
+                        onClick={() => navigate(contentPath(refOf(movie)))}
                       >
                         {!movie.poster_path && (
                           <div className="h-full flex items-center justify-center bg-muted/50">
@@ -714,7 +695,7 @@ const Profile = () => {
                           className="w-full mt-3"
                           onClick={(e) => {
                             e.stopPropagation();
-                            removeFromWatchlist(movie.id);
+                            removeFromWatchlist(refOf(movie));
                           }}
                         >
                           Удалить
@@ -760,6 +741,9 @@ const Profile = () => {
               </Button>
             </div>
           )}
+
+          {user && <WatchDiary userId={user.id} />}
+          {user && <TasteMemories userId={user.id} />}
         </div>
       </div>
     </div>
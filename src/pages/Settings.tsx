@@ -6,6 +6,12 @@ import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { clearAllHistory } from "@/utils/history";
+import HiddenContent from "@/components/HiddenContent";
+import RecoTuningPanel from "@/components/RecoTuningPanel";
+import AssistantPersonalization from "@/components/AssistantPersonalization";
+import ImportHistory from "@/components/ImportHistory";
+import DataExport from "@/components/DataExport";
+import DeleteAccount from "@/components/DeleteAccount";
 import { useNavigate } from "react-router-dom";
 
 const Settings = () => {
@@ -111,6 +117,12 @@ const Settings = () => {
             Clear all history
           </Button>
         </div>
+        <RecoTuningPanel />
+        <AssistantPersonalization />
+        <HiddenContent />
+        <ImportHistory />
+        <DataExport />
+        <DeleteAccount />
       </div>
     </div>
   );
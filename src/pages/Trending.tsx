@@ -2,11 +2,12 @@ import { useState, useEffect } from "react";
 import MovieCard from "../components/MovieCard";
 import { TrendingUp, Search } from "lucide-react";
 import { Input } from "../components/ui/input";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { tmdb, tmdbImage, type TmdbTitle, type MediaKind } from "@/lib/tmdb";
 
 interface Movie {
   id: number;
+  media_type: MediaKind;
   title: string;
   poster_path: string;
   release_date: string;
@@ -14,6 +15,16 @@ interface Movie {
   overview: string;
 }
 
+const toMovie = (item: TmdbTitle): Movie => ({
+  id: item.id,
+  media_type: item.media_type,
+  title: item.title,
+  poster_path: tmdbImage(item.poster_path) || '/placeholder.svg',
+  release_date: item.release_date,
+  vote_average: item.vote_average,
+  overview: item.overview
+});
+
 const Trending = () => {
   const [movies, setMovies] = useState<Movie[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -36,14 +47,12 @@ const Trending = () => {
 
   const fetchTrendingMovies = async () => {
     try {
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', {
-        body: { endpoint: 'trending' }
-      });
-
-      if (error) throw error;
+      const data = await tmdb.trending('movie', 'week');
+      if (!data) throw new Error('Failed to load trending movies');
 
-      setMovies(data.results || []);
-      setFilteredMovies(data.results || []);
+      const normalized = data.results.map(toMovie);
+      setMovies(normalized);
+      setFilteredMovies(normalized);
     } catch (error) {
       console.error('Error fetching trending movies:', error);
       toast({
@@ -60,16 +69,10 @@ const Trending = () => {
     if (!query.trim()) return;
 
     try {
-      const { data, error } = await supabase.functions.invoke('tmdb-movies', {
-        body: { 
-          endpoint: 'search',
-          query: query.trim()
-        }
-      });
-
-      if (error) throw error;
+      const data = await tmdb.search('movie', query);
+      if (!data) throw new Error('Search failed');
 
-      setFilteredMovies(data.results || []);
+      setFilteredMovies(data.results.map(toMovie));
     } catch (error) {
       console.error('Error searching movies:', error);
       toast({
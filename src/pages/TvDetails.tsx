@@ -0,0 +1,427 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Star, X, Play, Clock, Calendar, Check } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { logMovieOpen, readHistory, logTrailerPlay } from '@/utils/history';
+import { contentKey, contentPath, contentRef, refOf } from '@/lib/content';
+import LibraryActions from '@/components/LibraryActions';
+import CreditsSection from '@/components/CreditsSection';
+import { scoreCandidates, type ScoredCandidate } from '@/utils/reco';
+import RecoReason from '@/components/RecoReason';
+import { useEpisodeProgress } from '@/hooks/useEpisodeProgress';
+import { isEpisodeWatched, nextEpisode, seasonCompletion } from '@/utils/episodes';
+import { tmdb, tmdbImage, releaseYear, type TmdbDetails, type TmdbSeason, type TmdbTitle } from '@/lib/tmdb';
+
+const VIDEO_ORDER: Record<string, number> = { Trailer: 0, Teaser: 1, Clip: 2 };
+
+const formatAirDate = (date?: string | null) => {
+  if (!date) return null;
+  const d = new Date(date);
+  return Number.isNaN(d.getTime()) ? date : d.toLocaleDateString();
+};
+
+const TvDetails = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { progressFor, toggleEpisode, setWatched } = useEpisodeProgress();
+
+  const [show, setShow] = useState<TmdbDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reco, setReco] = useState<ScoredCandidate<TmdbTitle>[]>([]);
+  const [seasonNumber, setSeasonNumber] = useState<number | null>(null);
+  const [season, setSeason] = useState<TmdbSeason | null>(null);
+  const [loadingSeason, setLoadingSeason] = useState(false);
+  const [currentTrailer, setCurrentTrailer] = useState<string | null>(null);
+
+  const fetchShowDetails = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await tmdb.details('tv', id!, ['videos', 'credits']);
+      if (!data) throw new Error('Failed to load series details');
+
+      setShow(data);
+      // Open the first regular season; season 0 holds specials
+      const first = data.seasons.find(s => s.season_number > 0) || data.seasons[0];
+      setSeasonNumber(first ? first.season_number : null);
+      setSeason(null);
+      try { logMovieOpen(contentRef('tv', id!), data.title, data.genre_ids); } catch { /* history is best-effort */ }
+      try {
+        const sim = await tmdb.similar('tv', id!);
+        setReco(sim?.results.length ? scoreCandidates(sim.results, readHistory()).slice(0, 8) : []);
+      } catch {
+        // Recommendations are optional
+      }
+    } catch (error) {
+      console.error('Error fetching series details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load series details",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, toast]);
+
+  const fetchSeason = useCallback(async (n: number) => {
+    setLoadingSeason(true);
+    try {
+      const data = await tmdb.season(id!, n);
+      setSeason(data);
+    } finally {
+      setLoadingSeason(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchShowDetails();
+    }
+  }, [id, fetchShowDetails]);
+
+  useEffect(() => {
+    if (id && seasonNumber != null) {
+      fetchSeason(seasonNumber);
+    }
+  }, [id, seasonNumber, fetchSeason]);
+
+  const handleTrailerClick = (key: string) => {
+    if (show) logTrailerPlay(contentRef('tv', show.id), show.title, show.genre_ids);
+    setCurrentTrailer(key);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!show) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Сериал не найден</p>
+      </div>
+    );
+  }
+
+  const seriesInfo = { id: show.id, title: show.title, poster_path: show.poster_path, genre_ids: show.genre_ids };
+  const progress = progressFor(show.id);
+  const next = nextEpisode(progress, show.seasons);
+  const selectedSeason = show.seasons.find(s => s.season_number === seasonNumber);
+  const completion = selectedSeason ? seasonCompletion(progress, selectedSeason) : null;
+
+  const videos = (show.videos?.results || [])
+    .filter(v => v.site === 'YouTube' && v.type in VIDEO_ORDER)
+    .sort((a, b) => VIDEO_ORDER[a.type] - VIDEO_ORDER[b.type]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Trailer Modal */}
+      <Dialog open={!!currentTrailer} onOpenChange={(open) => !open && setCurrentTrailer(null)}>
+        <DialogContent className="max-w-4xl p-0 bg-transparent border-0 overflow-hidden">
+          <div className="relative pt-[56.25%] w-full">
+            <button
+              onClick={() => setCurrentTrailer(null)}
+              className="absolute -top-10 right-0 z-50 text-white hover:text-gray-300 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+            {currentTrailer && (
+              <iframe
+                src={`https://www.youtube.com/embed/${currentTrailer}?autoplay=1&mute=0`}
+                className="absolute top-0 left-0 w-full h-full border-0"
+                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                allowFullScreen
+                title="Series Trailer"
+              />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Hero Section */}
+      <div className="relative min-h-96 md:min-h-[500px] overflow-hidden">
+        <div
+          className="absolute inset-0 bg-cover bg-center"
+          style={{
+            backgroundImage: show.backdrop_path
+              ? `url(${tmdbImage(show.backdrop_path, 'original')})`
+              : 'none',
+          }}
+        />
+        <div className="absolute inset-0 bg-black/60" />
+
+        <div className="relative z-10 p-4 h-full flex flex-col gap-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(-1)}
+            className="self-start text-white hover:bg-white/20"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+
+          <div className="flex flex-col md:flex-row gap-6">
+            <div className="w-full md:w-1/3 lg:w-1/4">
+              <img
+                src={tmdbImage(show.poster_path) || '/placeholder.svg'}
+                alt={show.title}
+                className="w-full h-auto rounded-lg shadow-lg"
+              />
+            </div>
+            <div className="flex-1 text-white">
+              <h1 className="text-4xl md:text-5xl font-bold tracking-tight mb-4">{show.title}</h1>
+              <div className="flex flex-wrap items-center gap-2 text-white/80 mb-4">
+                {releaseYear(show) && <span>{releaseYear(show)}</span>}
+                {show.number_of_seasons != null && <span>• {show.number_of_seasons} сез.</span>}
+                {show.number_of_episodes != null && <span>• {show.number_of_episodes} эп.</span>}
+                {show.runtime && <span>• {show.runtime} min</span>}
+                {show.status && <span>• {show.status}</span>}
+                <span className="flex items-center gap-1">
+                  • <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" /> {show.vote_average.toFixed(1)}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-6">
+                {show.genres.map((genre) => (
+                  <Badge key={genre.id} variant="secondary">
+                    {genre.name}
+                  </Badge>
+                ))}
+              </div>
+
+              {progress && Object.keys(progress.watched).length > 0 && (
+                <p className="text-sm text-white/80 mb-4">
+                  {next
+                    ? <>Следующая серия: <span className="font-medium text-white">S{next.season} · E{next.episode}</span></>
+                    : 'Все вышедшие серии просмотрены'}
+                </p>
+              )}
+
+              <LibraryActions content={contentRef('tv', show.id)} title={show.title} posterPath={show.poster_path} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8">
+        {/* Overview */}
+        <Card className="mb-8">
+          <CardContent className="p-6">
+            <h2 className="text-2xl font-bold mb-4">Overview</h2>
+            <p className="text-muted-foreground leading-relaxed">
+              {show.overview || 'No overview available.'}
+            </p>
+          </CardContent>
+        </Card>
+
+        {show.credits && <CreditsSection credits={show.credits} />}
+
+        {/* Trailers */}
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Трейлеры и видео</h2>
+          {videos.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {videos.map((video) => (
+                <div
+                  key={video.key}
+                  className="relative cursor-pointer group"
+                  onClick={() => handleTrailerClick(video.key)}
+                >
+                  <div className="aspect-video bg-muted rounded-lg overflow-hidden relative">
+                    <img
+                      src={`https://img.youtube.com/vi/${video.key}/hqdefault.jpg`}
+                      alt={video.name || show.title}
+                      className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = '/placeholder.svg';
+                      }}
+                    />
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/30 group-hover:bg-black/20 transition-colors">
+                      <div className="w-16 h-16 bg-red-600 rounded-full flex items-center justify-center opacity-90 group-hover:opacity-100 transition-all transform group-hover:scale-110">
+                        <Play className="w-6 h-6 text-white ml-1" fill="currentColor" />
+                      </div>
+                    </div>
+                  </div>
+                  <h3 className="mt-2 text-sm font-medium line-clamp-2">{video.name}</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {video.type === 'Trailer' ? 'Трейлер' : video.type === 'Teaser' ? 'Тизер' : 'Клип'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="bg-muted/50 p-6 rounded-lg text-center">
+              <p className="text-muted-foreground">К сожалению, трейлеры для этого сериала пока недоступны.</p>
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => {
+                  const searchQuery = encodeURIComponent(`${show.title} ${releaseYear(show)} official trailer`);
+                  window.open(`https://www.youtube.com/results?search_query=${searchQuery}`, '_blank');
+                }}
+              >
+                Открыть YouTube
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Seasons & episodes */}
+        {show.seasons.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold mb-4">Сезоны</h2>
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+              {show.seasons.map((s) => (
+                <Button
+                  key={s.id}
+                  variant={s.season_number === seasonNumber ? 'default' : 'outline'}
+                  size="sm"
+                  className="shrink-0"
+                  onClick={() => setSeasonNumber(s.season_number)}
+                >
+                  {s.name || `Season ${s.season_number}`}
+                  {s.episode_count != null && <span className="ml-1 opacity-70">({s.episode_count})</span>}
+                </Button>
+              ))}
+            </div>
+
+            {completion && completion.total > 0 && (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+                <div className="flex-1">
+                  <Progress value={completion.ratio * 100} className="h-2" />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Просмотрено {completion.watched} из {completion.total}
+                  </p>
+                </div>
+                {season && season.episodes.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setWatched(
+                      seriesInfo,
+                      season.episodes.map(ep => ({ season: ep.season_number, episode: ep.episode_number })),
+                      completion.watched < completion.total
+                    )}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    {completion.watched < completion.total ? 'Отметить сезон' : 'Снять отметки'}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {season?.overview && (
+              <p className="text-muted-foreground mb-4">{season.overview}</p>
+            )}
+
+            {loadingSeason ? (
+              <div className="space-y-4">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-28 w-full" />
+                ))}
+              </div>
+            ) : season && season.episodes.length > 0 ? (
+              <div className="space-y-4">
+                {season.episodes.map((ep) => {
+                  const number = { season: ep.season_number, episode: ep.episode_number };
+                  const watched = isEpisodeWatched(progress, number);
+                  const isNext = !!next && next.season === number.season && next.episode === number.episode;
+                  return (
+                  <Card key={ep.id} className={isNext ? 'border-primary' : watched ? 'opacity-70' : undefined}>
+                    <CardContent className="p-4 flex flex-col sm:flex-row gap-4">
+                      <div className="w-full sm:w-48 shrink-0 aspect-video bg-muted rounded-md overflow-hidden">
+                        <img
+                          src={tmdbImage(ep.still_path, 'w300') || '/placeholder.svg'}
+                          alt={ep.name || `Episode ${ep.episode_number}`}
+                          className="w-full h-full object-cover"
+                          loading="lazy"
+                        />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between gap-2">
+                          <h3 className="font-semibold">
+                            {ep.episode_number}. {ep.name || `Episode ${ep.episode_number}`}
+                            {isNext && <Badge className="ml-2 align-middle">Next</Badge>}
+                          </h3>
+                          <Button
+                            variant={watched ? 'default' : 'outline'}
+                            size="sm"
+                            className="shrink-0"
+                            onClick={() => toggleEpisode(seriesInfo, number)}
+                            aria-pressed={watched}
+                          >
+                            <Check className="mr-1 h-4 w-4" />
+                            {watched ? 'Просмотрено' : 'Отметить'}
+                          </Button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground mt-1 mb-2">
+                          {formatAirDate(ep.air_date) && (
+                            <span className="flex items-center gap-1"><Calendar className="h-3 w-3" /> {formatAirDate(ep.air_date)}</span>
+                          )}
+                          {ep.runtime ? (
+                            <span className="flex items-center gap-1"><Clock className="h-3 w-3" /> {ep.runtime} min</span>
+                          ) : null}
+                          {ep.vote_average ? (
+                            <span className="flex items-center gap-1"><Star className="h-3 w-3 fill-yellow-400 text-yellow-400" /> {ep.vote_average.toFixed(1)}</span>
+                          ) : null}
+                        </div>
+                        {ep.overview && (
+                          <p className="text-sm text-muted-foreground line-clamp-3">{ep.overview}</p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">Нет данных об эпизодах.</p>
+            )}
+          </div>
+        )}
+
+        <Separator className="my-8" />
+        {/* Recommended for you */}
+        {reco.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold mb-4">Recommended for you</h2>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {reco.map(({ item: m, explanation }) => (
+                <button
+                  key={contentKey(refOf(m))}
+                  className="text-left group"
+                  onClick={() => navigate(contentPath(refOf(m)))}
+                  aria-label={`Open ${m.title}`}
+                >
+                  <div className="relative aspect-[2/3] overflow-hidden rounded-lg">
+                    <img src={tmdbImage(m.poster_path) || '/placeholder.svg'} alt={m.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
+                    <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent text-white">
+                      <div className="text-xs flex items-center gap-1"><Star className="h-3 w-3 fill-yellow-400 text-yellow-400" /> {m.vote_average?.toFixed(1)}</div>
+                    </div>
+                  </div>
+                  <div className="mt-2 text-sm font-medium line-clamp-2">{m.title}</div>
+                  <RecoReason explanation={explanation} className="mt-1" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TvDetails;
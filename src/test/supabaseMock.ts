@@ -0,0 +1,193 @@
+import { vi } from "vitest";
+
+// In-memory stand-in for the Supabase client. Tables are arrays of rows and
+// queries support the builder calls the app makes. Use it from a test with
+//
+//   vi.mock("@/integrations/supabase/client", async () => {
+//     const { createSupabaseMock } = await import("@/test/supabaseMock");
+//     return { supabase: createSupabaseMock() };
+//   });
+
+type Row = Record<string, unknown>;
+type QueryError = { message: string };
+type Result = { data: unknown; error: QueryError | null };
+type Op = "select" | "insert" | "upsert" | "update" | "delete";
+
+export type QueryCall = { table: string; op: Op; rows: Row[] };
+
+class QueryBuilder implements PromiseLike<Result> {
+  private op: Op = "select";
+  private rows: Row[] = [];
+  private patch: Row = {};
+  private conflict: string[] = [];
+  private filters: Array<(r: Row) => boolean> = [];
+  private sort: { column: string; ascending: boolean } | null = null;
+  private max: number | null = null;
+  private offset = 0;
+  private single = false;
+
+  constructor(private db: SupabaseMock, private table: string) {}
+
+  select() {
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.op = "insert";
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], opts: { onConflict?: string } = {}) {
+    this.op = "upsert";
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    this.conflict = opts.onConflict ? opts.onConflict.split(",") : [];
+    return this;
+  }
+
+  update(patch: Row) {
+    this.op = "update";
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.op = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(r => r[column] === value);
+    return this;
+  }
+
+  // Missing columns count as null, as they would in Postgres
+  is(column: string, value: null) {
+    this.filters.push(r => (r[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(r => values.includes(r[column]));
+    return this;
+  }
+
+  // Only `.not(column, "is", null)` is supported
+  not(column: string, _operator: "is", _value: null) {
+    this.filters.push(r => r[column] != null);
+    return this;
+  }
+
+  gte(column: string, value: string | number) {
+    this.filters.push(r => r[column] != null && (r[column] as string | number) >= value);
+    return this;
+  }
+
+  contains(column: string, values: unknown[]) {
+    this.filters.push(r => Array.isArray(r[column]) && values.every(v => (r[column] as unknown[]).includes(v)));
+    return this;
+  }
+
+  order(column: string, opts: { ascending?: boolean } = {}) {
+    this.sort = { column, ascending: opts.ascending ?? true };
+    return this;
+  }
+
+  limit(n: number) {
+    this.max = n;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.offset = from;
+    this.max = to - from + 1;
+    return this;
+  }
+
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+
+  then<A = Result, B = never>(
+    onfulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): Result {
+    this.db.calls.push({ table: this.table, op: this.op, rows: this.op === "update" ? [this.patch] : this.rows });
+    const failure = this.db.failures[this.table]?.shift();
+    if (failure) return { data: null, error: failure };
+
+    const table = this.db.rows(this.table);
+    const matches = (r: Row) => this.filters.every(f => f(r));
+    switch (this.op) {
+      case "insert":
+        table.push(...this.rows.map(r => ({ ...r })));
+        return { data: null, error: null };
+      case "upsert":
+        for (const row of this.rows) {
+          const at = this.conflict.length ? table.findIndex(r => this.conflict.every(c => r[c] === row[c])) : -1;
+          if (at >= 0) table[at] = { ...table[at], ...row };
+          else table.push({ ...row });
+        }
+        return { data: null, error: null };
+      case "update":
+        table.filter(matches).forEach(r => Object.assign(r, this.patch));
+        return { data: null, error: null };
+      case "delete":
+        this.db.tables[this.table] = table.filter(r => !matches(r));
+        return { data: null, error: null };
+      default: {
+        let found = table.filter(matches).map(r => ({ ...r }));
+        if (this.sort) {
+          const { column, ascending } = this.sort;
+          found.sort((a, b) => (a[column] === b[column] ? 0 : (a[column] as string) < (b[column] as string) ? -1 : 1) * (ascending ? 1 : -1));
+        }
+        if (this.max !== null) found = found.slice(this.offset, this.offset + this.max);
+        return { data: this.single ? found[0] ?? null : found, error: null };
+      }
+    }
+  }
+}
+
+export class SupabaseMock {
+  tables: Record<string, Row[]> = {};
+  // Errors returned by the next queries on a table, in order
+  failures: Record<string, QueryError[]> = {};
+  calls: QueryCall[] = [];
+  user: { id: string } | null = null;
+
+  auth = {
+    getUser: vi.fn(async () => ({ data: { user: this.user }, error: null })),
+  };
+
+  functions = {
+    invoke: vi.fn(async (_name: string, _opts?: unknown) => ({ data: null, error: null as QueryError | null })),
+  };
+
+  from(table: string) {
+    return new QueryBuilder(this, table);
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ||= []);
+  }
+
+  failNext(table: string, message = "mock failure") {
+    (this.failures[table] ||= []).push({ message });
+  }
+
+  reset() {
+    this.tables = {};
+    this.failures = {};
+    this.calls = [];
+    this.user = null;
+    this.auth.getUser.mockClear();
+    this.functions.invoke.mockClear();
+  }
+}
+
+export const createSupabaseMock = () => new SupabaseMock();
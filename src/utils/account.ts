@@ -0,0 +1,67 @@
+import { FunctionsHttpError, type User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Account deletion. The delete-account edge function only accepts sessions
+// signed in within the last few minutes, so the flow re-authenticates first.
+
+export const DELETE_CONFIRM_PHRASE = 'DELETE';
+
+export type DeletionReceipt = {
+  receipt_id: string;
+  user_id: string;
+  email: string | null;
+  requested_at: string;
+  completed_at: string | null;
+  tables: Array<{ table: string; deleted: number; error?: string }>;
+  auth_user_deleted: boolean;
+};
+
+// Google sign-ins have no password; they confirm with an emailed code instead
+export const hasPassword = (user: User) =>
+  user.app_metadata?.provider === 'email' || !!user.identities?.some(i => i.provider === 'email');
+
+export const reauthenticateWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+};
+
+export const sendReauthCode = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({ email, options: { shouldCreateUser: false } });
+  if (error) throw error;
+};
+
+export const verifyReauthCode = async (email: string, code: string) => {
+  const { error } = await supabase.auth.verifyOtp({ email, token: code.trim(), type: 'email' });
+  if (error) throw error;
+};
+
+// Resolves with the receipt once the auth user is gone; a partial purge
+// rejects with an Error carrying the receipt so it can still be shown.
+export const deleteAccount = async (): Promise<DeletionReceipt> => {
+  const { data, error } = await supabase.functions.invoke('delete-account', {
+    body: { confirm: DELETE_CONFIRM_PHRASE },
+  });
+  if (error) {
+    let body: { message?: string; receipt?: DeletionReceipt } = {};
+    if (error instanceof FunctionsHttpError) {
+      try {
+        body = await (error.context as Response).json();
+      } catch {
+        // Not a JSON error body; fall back to the generic message
+      }
+    }
+    throw Object.assign(new Error(body.message || 'Account deletion failed'), { receipt: body.receipt });
+  }
+  return (data as { receipt: DeletionReceipt }).receipt;
+};
+
+// Local caches that would otherwise outlive the account on this device
+export const clearLocalAccountData = (userId: string) => {
+  try {
+    for (const key of Object.keys(localStorage)) {
+      if (key.startsWith('cinepulse_') || key.endsWith(`_${userId}`)) localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage unavailable; nothing to clear
+  }
+};
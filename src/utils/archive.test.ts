@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { contentRef } from "@/lib/content";
+import { supabase } from "@/integrations/supabase/client";
+import type { SupabaseMock } from "@/test/supabaseMock";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, buildArchive, parseArchive, restoreArchive, type DataArchive } from "./archive";
+import { readFeedback, readHistory } from "./history";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseMock } = await import("@/test/supabaseMock");
+  return { supabase: createSupabaseMock() };
+});
+
+const db = supabase as unknown as SupabaseMock;
+
+const emptyArchive = (): DataArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: "2024-01-01T00:00:00.000Z",
+  profile: null,
+  preferences: null,
+  favorites: [],
+  watchlist: [],
+  ratings: [],
+  watches: [],
+  episodes: [],
+  activity: [],
+  tasteMemory: [],
+  conversation: [],
+  chatMessages: [],
+});
+
+beforeEach(() => {
+  db.reset();
+  db.user = { id: "user-1" };
+});
+
+describe("restoreArchive", () => {
+  it("brings back card feedback", async () => {
+    const archive = {
+      ...emptyArchive(),
+      activity: [
+        { type: "movie_open" as const, ts: 1, content: contentRef("movie", 438631) },
+        { type: "not_interested" as const, ts: 2, content: contentRef("movie", 550) },
+        { type: "show_fewer" as const, ts: 3, content: contentRef("tv", 94605) },
+        { type: "hide_genre" as const, ts: 4, genres: [27], title: "Horror" },
+      ],
+    };
+
+    const parsed = parseArchive(JSON.stringify(archive));
+    const summary = await restoreArchive("user-1", parsed);
+
+    expect(summary.activity).toBe(4);
+    const feedback = readFeedback(readHistory());
+    expect([...feedback.hidden]).toEqual(["movie:550"]);
+    expect([...feedback.hiddenGenres]).toEqual([27]);
+    expect(db.rows("user_activity").map(r => r.type)).toEqual(["movie_open", "not_interested", "show_fewer", "hide_genre"]);
+  });
+
+  it("restores general taste memories once, and titles with their names", async () => {
+    const archive = {
+      ...emptyArchive(),
+      tasteMemory: [
+        { kind: null, id: null, title: null, emotions: ["fear"], description: "Hates jump scares" },
+        { kind: "movie" as const, id: 949, title: "Heat", emotions: ["awe"], description: "Loves the shootout" },
+      ],
+    };
+
+    await restoreArchive("user-1", parseArchive(JSON.stringify(archive)));
+    await restoreArchive("user-1", parseArchive(JSON.stringify(archive)));
+
+    expect(db.rows("user_taste_memory")).toEqual([
+      expect.objectContaining({ movie_id: 949, content_type: "movie", title: "Heat", description: "Loves the shootout" }),
+      expect.objectContaining({ movie_id: null, title: null, emotions: ["fear"], description: "Hates jump scares" }),
+    ]);
+  });
+
+  it("accepts taste memories from archives made before titles were kept", () => {
+    const archive = { ...emptyArchive(), tasteMemory: [{ kind: "tv", id: 94605, emotions: [], description: "Rewatch" }] };
+
+    expect(parseArchive(JSON.stringify(archive)).tasteMemory).toEqual(archive.tasteMemory);
+  });
+
+  it("round-trips an exported archive", async () => {
+    db.rows("user_activity").push({
+      user_id: "user-1", type: "hide_genre", ts: "2024-01-01T00:00:00.000Z", movie_id: null, content_type: null,
+      title: "Horror", genres: [27], query: null, metadata: null,
+    });
+    db.rows("user_taste_memory").push(
+      { user_id: "user-1", movie_id: null, content_type: "movie", title: null, emotions: ["fear"], description: "Hates jump scares" },
+      { user_id: "user-1", movie_id: 949, content_type: "movie", title: "Heat", emotions: [], description: "Loves the shootout" },
+    );
+
+    const archive = parseArchive(JSON.stringify(await buildArchive("user-1")));
+
+    expect(archive.activity).toEqual([expect.objectContaining({ type: "hide_genre", genres: [27] })]);
+    expect(archive.tasteMemory).toEqual([
+      { kind: null, id: null, title: null, emotions: ["fear"], description: "Hates jump scares" },
+      { kind: "movie", id: 949, title: "Heat", emotions: [], description: "Loves the shootout" },
+    ]);
+  });
+});
@@ -0,0 +1,497 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toCsv } from '@/lib/csv';
+import { contentKey, contentRef, fromRow, type ContentRef } from '@/lib/content';
+import { releaseYear, tmdb } from '@/lib/tmdb';
+import { chunk, mapPool } from '@/lib/utils';
+import { hydrateEpisodeProgressFromSupabase } from '@/utils/episodes';
+import { FEEDBACK_TYPES, fromActivityRow, importHistoryEvents, type HistoryEvent } from '@/utils/history';
+import { addManyToLibrary } from '@/utils/library';
+import { fetchWatches, logWatches } from '@/utils/watches';
+
+// "Download my data": everything stored for an account as one versioned JSON
+// archive, plus Letterboxd-compatible CSVs. restoreArchive writes an archive
+// back into the signed-in account (typically a fresh one).
+
+export const ARCHIVE_FORMAT = 'cinepulse-archive';
+export const ARCHIVE_VERSION = 1;
+
+const WRITE_CHUNK = 500;
+const TITLE_CONCURRENCY = 4;
+
+export type ArchivedTitle = ContentRef & { addedAt: string | null };
+
+export type DataArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: { username: string | null; language: string | null; preferred_language: string | null } | null;
+  preferences: {
+    preferred_genres: string[] | null;
+    content_rating_preference: string | null;
+    language_preference: string | null;
+    notification_settings: Json | null;
+    privacy_settings: Json | null;
+    reco_config?: Json | null;
+  } | null;
+  favorites: ArchivedTitle[];
+  watchlist: ArchivedTitle[];
+  ratings: Array<ContentRef & { rating: number; ratedAt: string | null }>;
+  watches: Array<ContentRef & {
+    watchedOn: string;
+    rating: number | null;
+    notes: string | null;
+    title: string | null;
+    poster_path: string | null;
+  }>;
+  episodes: Array<{
+    seriesId: number;
+    season: number;
+    episode: number;
+    title: string | null;
+    poster_path: string | null;
+    watchedAt: string;
+  }>;
+  activity: HistoryEvent[];
+  // kind and id are null for general taste ("Hates jump scares"); title is
+  // absent from archives made before memories kept it
+  tasteMemory: Array<(ContentRef | { kind: null; id: null }) & {
+    title?: string | null;
+    emotions: string[];
+    description: string | null;
+  }>;
+  // The assistant's saved conversation (assistant_conversations.messages)
+  conversation: Json[];
+  chatMessages: Array<{
+    conversationId: string | null;
+    message: string;
+    response: string | null;
+    metadata: Json | null;
+    createdAt: string;
+  }>;
+};
+
+export type RestoreSummary = {
+  favorites: number;
+  watchlist: number;
+  ratings: number;
+  watches: number;
+  episodes: number;
+  activity: number;
+  tasteMemory: number;
+  chatMessages: number;
+  // Parts that could not be restored, in words for the user
+  warnings: string[];
+};
+
+// ---------- Export ----------
+
+const orThrow = <T,>({ data, error }: { data: T | null; error: unknown }): T => {
+  if (error) throw error;
+  return data as T;
+};
+
+export const buildArchive = async (userId: string): Promise<DataArchive> => {
+  const [
+    profile,
+    preferences,
+    favorites,
+    watchlist,
+    ratings,
+    watches,
+    episodes,
+    activity,
+    tasteMemory,
+    conversation,
+    chatMessages,
+  ] = await Promise.all([
+    supabase.from('profiles').select('username, language, preferred_language').eq('id', userId).maybeSingle().then(orThrow),
+    supabase
+      .from('user_preferences')
+      .select('preferred_genres, content_rating_preference, language_preference, notification_settings, privacy_settings, reco_config')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(orThrow),
+    supabase.from('user_favorites').select('movie_id, content_type, created_at').eq('user_id', userId).then(orThrow),
+    supabase.from('user_watchlist').select('movie_id, content_type, created_at').eq('user_id', userId).then(orThrow),
+    supabase.from('user_ratings').select('movie_id, content_type, rating, updated_at').eq('user_id', userId).then(orThrow),
+    fetchWatches(userId),
+    supabase
+      .from('user_episode_progress')
+      .select('series_id, season_number, episode_number, series_title, poster_path, watched_at')
+      .eq('user_id', userId)
+      .then(orThrow),
+    supabase
+      .from('user_activity')
+      .select('type, ts, movie_id, content_type, title, genres, query, metadata')
+      .eq('user_id', userId)
+      .order('ts', { ascending: true })
+      .then(orThrow),
+    supabase.from('user_taste_memory').select('movie_id, content_type, title, emotions, description').eq('user_id', userId).then(orThrow),
+    supabase.from('assistant_conversations').select('messages').eq('user_id', userId).maybeSingle().then(orThrow),
+    supabase
+      .from('chat_messages')
+      .select('conversation_id, message, response, metadata, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .then(orThrow),
+  ]);
+
+  const library = (rows: Array<{ movie_id: string; content_type: string; created_at: string }> | null) =>
+    (rows || []).map(r => ({ ...fromRow(r), addedAt: r.created_at }));
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profile || null,
+    preferences: preferences || null,
+    favorites: library(favorites),
+    watchlist: library(watchlist),
+    ratings: (ratings || []).map(r => ({
+      ...contentRef(r.content_type as ContentRef['kind'], r.movie_id),
+      rating: r.rating,
+      ratedAt: r.updated_at,
+    })),
+    // Oldest first, like every other list in the archive
+    watches: [...watches].reverse().map(w => ({
+      ...w.content,
+      watchedOn: w.watchedOn,
+      rating: w.rating,
+      notes: w.notes,
+      title: w.title,
+      poster_path: w.poster_path,
+    })),
+    episodes: (episodes || []).map(r => ({
+      seriesId: r.series_id,
+      season: r.season_number,
+      episode: r.episode_number,
+      title: r.series_title,
+      poster_path: r.poster_path,
+      watchedAt: r.watched_at,
+    })),
+    activity: (activity || []).map(fromActivityRow),
+    tasteMemory: (tasteMemory || []).map(r => ({
+      ...(r.movie_id != null ? contentRef(r.content_type as ContentRef['kind'], r.movie_id) : { kind: null, id: null }),
+      title: r.title,
+      emotions: r.emotions || [],
+      description: r.description,
+    })),
+    conversation: Array.isArray(conversation?.messages) ? conversation.messages : [],
+    chatMessages: (chatMessages || []).map(r => ({
+      conversationId: r.conversation_id,
+      message: r.message,
+      response: r.response,
+      metadata: r.metadata,
+      createdAt: r.created_at,
+    })),
+  };
+};
+
+// Letterboxd's importer matches on tmdbID, so Title and Year are only a
+// fallback for people reading the file. Letterboxd has no TV; series are left out.
+export const buildLetterboxdCsvs = async (
+  archive: DataArchive,
+  onProgress?: (done: number, total: number) => void
+): Promise<Record<'diary.csv' | 'ratings.csv' | 'watchlist.csv', string>> => {
+  const movies = <T extends ContentRef>(list: T[]) => list.filter(r => r.kind === 'movie');
+  const diary = movies(archive.watches);
+  const ratings = movies(archive.ratings);
+  const watchlist = movies(archive.watchlist);
+
+  const ids = [...new Set([...diary, ...ratings, ...watchlist].map(r => r.id))];
+  const known = new Map(diary.filter(w => w.title).map(w => [w.id, w.title!]));
+  const resolved = new Map<number, { title: string; year: string }>();
+  await mapPool(
+    ids,
+    TITLE_CONCURRENCY,
+    async id => {
+      const details = await tmdb.details('movie', id).catch(() => null);
+      resolved.set(id, {
+        title: details?.title || known.get(id) || '',
+        year: details ? releaseYear(details) : '',
+      });
+    },
+    onProgress
+  );
+  const title = (id: number) => resolved.get(id)?.title ?? '';
+  const year = (id: number) => resolved.get(id)?.year ?? '';
+
+  const seen = new Set<number>();
+  return {
+    'diary.csv': toCsv(
+      ['tmdbID', 'Title', 'Year', 'WatchedDate', 'Rating', 'Rewatch', 'Review'],
+      diary.map(w => {
+        const rewatch = seen.has(w.id);
+        seen.add(w.id);
+        return [w.id, title(w.id), year(w.id), w.watchedOn, w.rating, rewatch ? 'true' : 'false', w.notes];
+      })
+    ),
+    'ratings.csv': toCsv(
+      ['tmdbID', 'Title', 'Year', 'Rating'],
+      ratings.map(r => [r.id, title(r.id), year(r.id), r.rating])
+    ),
+    'watchlist.csv': toCsv(
+      ['tmdbID', 'Title', 'Year'],
+      watchlist.map(r => [r.id, title(r.id), year(r.id)])
+    ),
+  };
+};
+
+// ---------- Restore ----------
+
+const refShape = { kind: z.enum(['movie', 'tv']), id: z.number().int().positive() };
+const json = z.custom<Json>(() => true);
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1).max(ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  profile: z
+    .object({ username: z.string().nullable(), language: z.string().nullable(), preferred_language: z.string().nullable() })
+    .nullable(),
+  preferences: z
+    .object({
+      preferred_genres: z.array(z.string()).nullable(),
+      content_rating_preference: z.string().nullable(),
+      language_preference: z.string().nullable(),
+      notification_settings: json.nullable(),
+      privacy_settings: json.nullable(),
+      // Absent from archives made before recommendation tuning
+      reco_config: json.nullable().optional(),
+    })
+    .nullable(),
+  favorites: z.array(z.object({ ...refShape, addedAt: z.string().nullable() })),
+  watchlist: z.array(z.object({ ...refShape, addedAt: z.string().nullable() })),
+  ratings: z.array(z.object({ ...refShape, rating: z.number().int().min(1).max(5), ratedAt: z.string().nullable() })),
+  watches: z.array(
+    z.object({
+      ...refShape,
+      watchedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      rating: z.number().int().min(1).max(5).nullable(),
+      notes: z.string().nullable(),
+      title: z.string().nullable(),
+      poster_path: z.string().nullable(),
+    })
+  ),
+  episodes: z.array(
+    z.object({
+      seriesId: z.number().int().positive(),
+      season: z.number().int().min(0),
+      episode: z.number().int().positive(),
+      title: z.string().nullable(),
+      poster_path: z.string().nullable(),
+      watchedAt: z.string(),
+    })
+  ),
+  activity: z.array(
+    z
+      .object({
+        type: z.enum([
+          'movie_open', 'trailer_play', 'external_search', 'query', 'episode_watched', 'movie_watched', 'movie_rated',
+          ...FEEDBACK_TYPES,
+        ]),
+        ts: z.number(),
+        content: z.object(refShape).optional(),
+      })
+      .passthrough()
+  ),
+  tasteMemory: z.array(
+    z.object({
+      kind: refShape.kind.nullable(),
+      id: refShape.id.nullable(),
+      title: z.string().nullable().optional(),
+      emotions: z.array(z.string()),
+      description: z.string().nullable(),
+    }).refine(m => (m.kind === null) === (m.id === null), 'kind and id must both be set or both be null')
+  ),
+  conversation: z.array(json),
+  chatMessages: z.array(
+    z.object({
+      conversationId: z.string().nullable(),
+      message: z.string(),
+      response: z.string().nullable(),
+      metadata: json.nullable(),
+      createdAt: z.string(),
+    })
+  ),
+});
+
+// Throws with a readable message when the file is not an archive we can restore
+export const parseArchive = (text: string): DataArchive => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const result = archiveSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a valid data archive (${issue.path.join('.') || 'root'}: ${issue.message})`);
+  }
+  return result.data as DataArchive;
+};
+
+// Additive: rows already in the account are kept, nothing is deleted
+export const restoreArchive = async (userId: string, archive: DataArchive): Promise<RestoreSummary> => {
+  const warnings: string[] = [];
+
+  if (archive.profile) {
+    const { language, preferred_language, username } = archive.profile;
+    const { error } = await supabase.from('profiles').update({ language, preferred_language }).eq('id', userId);
+    if (error) warnings.push('Profile language could not be restored');
+    if (username) {
+      // Usernames are unique; the old account may still hold it
+      const { error: nameError } = await supabase.from('profiles').update({ username }).eq('id', userId);
+      if (nameError) warnings.push(`Username "${username}" is taken`);
+    }
+  }
+
+  if (archive.preferences) {
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({ ...archive.preferences, user_id: userId }, { onConflict: 'user_id' });
+    if (error) throw error;
+  }
+
+  for (const part of chunk(archive.favorites, WRITE_CHUNK)) {
+    await addManyToLibrary('user_favorites', userId, part.map(r => contentRef(r.kind, r.id)));
+  }
+  for (const part of chunk(archive.watchlist, WRITE_CHUNK)) {
+    await addManyToLibrary('user_watchlist', userId, part.map(r => contentRef(r.kind, r.id)), { status: 'plan_to_watch' });
+  }
+
+  for (const part of chunk(archive.ratings, WRITE_CHUNK)) {
+    const { error } = await supabase
+      .from('user_ratings')
+      .upsert(
+        part.map(r => ({ user_id: userId, movie_id: r.id, content_type: r.kind, rating: r.rating })),
+        { onConflict: 'user_id,movie_id,content_type', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  }
+
+  const existingWatches = new Set((await fetchWatches(userId)).map(w => `${contentKey(w.content)}|${w.watchedOn}`));
+  const watches = archive.watches.filter(w => {
+    const key = `${contentKey(w)}|${w.watchedOn}`;
+    if (existingWatches.has(key)) return false;
+    existingWatches.add(key);
+    return true;
+  });
+  for (const part of chunk(watches, WRITE_CHUNK)) {
+    await logWatches(userId, part.map(({ kind, id, ...input }) => ({ content: contentRef(kind, id), ...input })));
+  }
+
+  for (const part of chunk(archive.episodes, WRITE_CHUNK)) {
+    const { error } = await supabase.from('user_episode_progress').upsert(
+      part.map(e => ({
+        user_id: userId,
+        series_id: e.seriesId,
+        season_number: e.season,
+        episode_number: e.episode,
+        series_title: e.title,
+        poster_path: e.poster_path,
+        watched_at: e.watchedAt,
+      })),
+      { onConflict: 'user_id,series_id,season_number,episode_number', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  }
+  if (archive.episodes.length) await hydrateEpisodeProgressFromSupabase();
+
+  const activity = await importHistoryEvents(archive.activity);
+
+  const titleMemories = archive.tasteMemory.filter((m): m is ContentRef & DataArchive['tasteMemory'][number] => m.id != null);
+  for (const part of chunk(titleMemories, WRITE_CHUNK)) {
+    const { error } = await supabase.from('user_taste_memory').upsert(
+      part.map(m => ({
+        user_id: userId,
+        movie_id: m.id,
+        content_type: m.kind,
+        title: m.title ?? null,
+        emotions: m.emotions,
+        description: m.description,
+      })),
+      { onConflict: 'user_id,movie_id,content_type', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  }
+
+  // General memories have no movie_id for the upsert key to match, so
+  // they are inserted unless the account already has the same note
+  const { data: existingGeneral, error: generalError } = await supabase
+    .from('user_taste_memory')
+    .select('description')
+    .eq('user_id', userId)
+    .is('movie_id', null);
+  if (generalError) throw generalError;
+  const seenGeneral = new Set((existingGeneral || []).map(r => r.description));
+  const generalMemories = archive.tasteMemory.filter(m => {
+    if (m.id != null || seenGeneral.has(m.description)) return false;
+    seenGeneral.add(m.description);
+    return true;
+  });
+  for (const part of chunk(generalMemories, WRITE_CHUNK)) {
+    const { error } = await supabase.from('user_taste_memory').insert(
+      part.map(m => ({
+        user_id: userId,
+        movie_id: null,
+        content_type: 'movie',
+        title: null,
+        emotions: m.emotions,
+        description: m.description,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  if (archive.conversation.length) {
+    const current = await supabase.from('assistant_conversations').select('messages').eq('user_id', userId).maybeSingle();
+    const hasMessages = Array.isArray(current.data?.messages) && current.data.messages.length > 0;
+    if (hasMessages) {
+      warnings.push('Assistant conversation kept as is; this account already has one');
+    } else {
+      const { error } = await supabase
+        .from('assistant_conversations')
+        .upsert({ user_id: userId, messages: archive.conversation }, { onConflict: 'user_id' });
+      if (error) throw error;
+    }
+  }
+
+  const { data: existingChat, error: chatError } = await supabase
+    .from('chat_messages')
+    .select('created_at, message')
+    .eq('user_id', userId);
+  if (chatError) throw chatError;
+  // Timestamps come back normalized by Postgres, so compare instants
+  const chatKey = (createdAt: string, message: string) => `${Date.parse(createdAt)}|${message}`;
+  const seenChat = new Set((existingChat || []).map(r => chatKey(r.created_at, r.message)));
+  const chatMessages = archive.chatMessages.filter(m => !seenChat.has(chatKey(m.createdAt, m.message)));
+  for (const part of chunk(chatMessages, WRITE_CHUNK)) {
+    const { error } = await supabase.from('chat_messages').insert(
+      part.map(m => ({
+        user_id: userId,
+        conversation_id: m.conversationId,
+        message: m.message,
+        response: m.response,
+        metadata: m.metadata,
+        created_at: m.createdAt,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  return {
+    favorites: archive.favorites.length,
+    watchlist: archive.watchlist.length,
+    ratings: archive.ratings.length,
+    watches: watches.length,
+    episodes: archive.episodes.length,
+    activity,
+    tasteMemory: archive.tasteMemory.length,
+    chatMessages: chatMessages.length,
+    warnings,
+  };
+};
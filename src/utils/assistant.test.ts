@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import type { SupabaseMock } from "@/test/supabaseMock";
+import { describeAction, readPersonalization, savePersonalization, streamAssistantReply } from "./assistant";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseMock } = await import("@/test/supabaseMock");
+  return { supabase: createSupabaseMock() };
+});
+
+const db = supabase as unknown as SupabaseMock;
+
+const event = (name: string, data: unknown) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// An event-stream response whose chunks arrive one read at a time; with
+// `open`, the stream stays open after the last chunk until it is aborted
+const sseResponse = (chunks: string[], { open = false, signal }: { open?: boolean; signal?: AbortSignal } = {}) => {
+  const encoder = new TextEncoder();
+  let i = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (i < chunks.length) controller.enqueue(encoder.encode(chunks[i++]));
+      else if (!open) controller.close();
+      else return new Promise((_, reject) => signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError"))));
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+};
+
+beforeEach(() => {
+  db.reset();
+});
+
+describe("streamAssistantReply", () => {
+  it("requests a stream and reports the text as tokens arrive", async () => {
+    db.functions.invoke.mockResolvedValueOnce({
+      data: sseResponse([
+        event("meta", { provider: "xai" }),
+        event("token", { content: "Hello" }),
+        // An event split across reads
+        'event: token\ndata: {"content"',
+        ': " there"}\n\n',
+        event("done", { message: "Hello there" }),
+      ]),
+      error: null,
+    });
+    const texts: string[] = [];
+    const onMeta = vi.fn();
+
+    const reply = await streamAssistantReply("groq-assistant", { message: "hi" }, { onText: t => texts.push(t), onMeta });
+
+    expect(reply).toEqual({ message: "Hello there", cancelled: false, blocks: [] });
+    expect(texts).toEqual(["Hello", "Hello there"]);
+    expect(onMeta).toHaveBeenCalledWith({ provider: "xai" });
+    expect(db.functions.invoke).toHaveBeenCalledWith("groq-assistant", expect.objectContaining({
+      body: { message: "hi", stream: true },
+      headers: { Accept: "text/event-stream" },
+    }));
+  });
+
+  it("reports the tools the assistant runs", async () => {
+    const added = { tool: "add_to_watchlist", arguments: { kind: "movie", id: 872585 }, ok: true, result: { title: "Oppenheimer", year: "2023" } };
+    db.functions.invoke.mockResolvedValueOnce({
+      data: sseResponse([event("tool", added), event("token", { content: "Done." }), event("done", { message: "Done." })]),
+      error: null,
+    });
+    const onTool = vi.fn();
+
+    await streamAssistantReply("groq-assistant", {}, { onTool });
+
+    expect(onTool).toHaveBeenCalledWith(added);
+    expect(describeAction(added)).toBe("Added Oppenheimer (2023) to your watchlist");
+    expect(describeAction({ ...added, tool: "mark_favorite", ok: false, result: { error: "Nothing found at movie/1" } }))
+      .toBe("Could not add to your favorites: Nothing found at movie/1");
+    expect(describeAction({ tool: "search_titles", arguments: {}, ok: true, result: { results: [] } })).toBeNull();
+  });
+
+  it("turns the reply's title cards into a block, dropping malformed ones", async () => {
+    const heat = { id: 949, kind: "movie", title: "Heat", year: "1995", rating: 7.9, poster_path: "/heat.jpg" };
+    db.functions.invoke.mockResolvedValueOnce({
+      data: sseResponse([event("done", { message: "Heat (1995).", cards: [heat, { id: "x", kind: "movie", title: "Bad" }, { ...heat, kind: "book" }] })]),
+      error: null,
+    });
+
+    const reply = await streamAssistantReply("groq-assistant", {});
+
+    expect(reply.blocks).toEqual([{ type: "titles", cards: [heat] }]);
+  });
+
+  it("lists the taste notes the assistant kept", async () => {
+    db.functions.invoke.mockResolvedValueOnce({
+      data: sseResponse([event("done", {
+        message: "Noted.",
+        cards: [],
+        memories: [{ description: "Hates jump scares", emotions: ["fear"], title: null }, { emotions: [] }],
+      })]),
+      error: null,
+    });
+
+    const reply = await streamAssistantReply("groq-assistant", {});
+
+    expect(reply.blocks).toEqual([{ type: "memories", notes: ["Hates jump scares"] }]);
+  });
+
+  it("accepts a plain JSON reply", async () => {
+    db.functions.invoke.mockResolvedValueOnce({ data: { message: "Fallback" }, error: null });
+
+    expect(await streamAssistantReply("groq-assistant", {})).toEqual({ message: "Fallback", cancelled: false, blocks: [] });
+  });
+
+  it("returns the partial text when aborted mid-stream", async () => {
+    const controller = new AbortController();
+    db.functions.invoke.mockResolvedValueOnce({
+      data: sseResponse([event("token", { content: "Par" })], { open: true, signal: controller.signal }),
+      error: null,
+    });
+
+    const reply = await streamAssistantReply("groq-assistant", {}, {
+      signal: controller.signal,
+      onText: () => controller.abort(),
+    });
+
+    expect(reply).toEqual({ message: "Par", cancelled: true, blocks: [] });
+  });
+
+  it("throws on error events and failed requests", async () => {
+    db.functions.invoke.mockResolvedValueOnce({ data: sseResponse([event("error", { error: "xAI error: 500" })]), error: null });
+    await expect(streamAssistantReply("groq-assistant", {})).rejects.toThrow("xAI error: 500");
+
+    db.functions.invoke.mockResolvedValueOnce({ data: null, error: { message: "Edge Function returned a non-2xx status code" } });
+    await expect(streamAssistantReply("groq-assistant", {})).rejects.toMatchObject({ message: "Edge Function returned a non-2xx status code" });
+  });
+});
+
+describe("assistant personalization", () => {
+  it("is on unless the user turned it off", async () => {
+    expect(await readPersonalization("user-1")).toBe(true);
+
+    db.rows("user_preferences").push({ user_id: "user-1", privacy_settings: { assistant_personalization: false } });
+    expect(await readPersonalization("user-1")).toBe(false);
+  });
+
+  it("keeps the other privacy settings when saving", async () => {
+    db.rows("user_preferences").push({ user_id: "user-1", privacy_settings: { public_profile: false }, reco_config: { eraWeight: 1 } });
+    await savePersonalization("user-1", false);
+
+    expect(db.rows("user_preferences")).toEqual([{
+      user_id: "user-1",
+      privacy_settings: { public_profile: false, assistant_personalization: false },
+      reco_config: { eraWeight: 1 },
+    }]);
+  });
+
+  it("starts from the default privacy settings for a new user", async () => {
+    await savePersonalization("user-2", false);
+
+    expect(db.rows("user_preferences")).toEqual([{
+      user_id: "user-2",
+      privacy_settings: { public_profile: true, show_activity: true, assistant_personalization: false },
+    }]);
+  });
+});
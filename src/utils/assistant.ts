@@ -0,0 +1,194 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { isMediaKind } from '@/lib/content';
+import type { MediaKind } from '@/lib/tmdb';
+
+// Client for the assistant edge functions. Replies are requested as
+// server-sent events (`meta`, `token`, `tool`, `done`, `error`) so they can be
+// rendered while they arrive; a plain JSON reply is accepted too.
+
+export type AssistantFunction = 'groq-assistant' | 'enhanced-ai-assistant';
+
+// A title the reply mentions, resolved to TMDB by the function
+export type TitleCard = {
+  id: number;
+  kind: MediaKind;
+  title: string;
+  year: string | null;
+  rating: number | null;
+  poster_path: string | null;
+};
+
+// Rich content shown with a message's text: title cards, and the taste notes
+// the assistant kept from the exchange
+export type MessageBlock =
+  | { type: 'titles'; cards: TitleCard[] }
+  | { type: 'memories'; notes: string[] };
+
+export type AssistantReply = {
+  message: string;
+  // Stopped by the caller before the reply was complete
+  cancelled: boolean;
+  blocks: MessageBlock[];
+};
+
+// A tool the assistant ran on the server, such as a catalog search or a
+// watchlist update
+export type AssistantAction = {
+  tool: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  result: unknown;
+};
+
+export type StreamOptions = {
+  signal?: AbortSignal;
+  // Called with the reply so far after every token
+  onText?: (text: string) => void;
+  // Extra fields of the `meta` event, such as the conversation id
+  onMeta?: (meta: Record<string, unknown>) => void;
+  // Called after each tool the assistant runs
+  onTool?: (action: AssistantAction) => void;
+};
+
+type SseMessage = { event: string; data: string };
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length) yield { event: event || 'message', data: data.join('\n') };
+          event = '';
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const isAbort = (e: unknown) => e instanceof Error && e.name === 'AbortError';
+
+const isCard = (c: unknown): c is TitleCard => {
+  const card = c as Partial<TitleCard> | null;
+  return !!card && Number.isInteger(card.id) && isMediaKind(card.kind) && typeof card.title === 'string';
+};
+
+// Cards and memories from the reply, dropping any that are malformed
+const blocksOf = (reply: { cards?: unknown; memories?: unknown } | null): MessageBlock[] => {
+  const cards = Array.isArray(reply?.cards) ? reply.cards.filter(isCard) : [];
+  const notes = (Array.isArray(reply?.memories) ? reply.memories : [])
+    .map(m => (m as { description?: unknown } | null)?.description)
+    .filter((d): d is string => typeof d === 'string' && d !== '');
+  return [
+    ...(cards.length ? [{ type: 'titles' as const, cards }] : []),
+    ...(notes.length ? [{ type: 'memories' as const, notes }] : []),
+  ];
+};
+
+export const streamAssistantReply = async (
+  fn: AssistantFunction,
+  body: Record<string, unknown>,
+  opts: StreamOptions = {}
+): Promise<AssistantReply> => {
+  const { signal, onText, onMeta, onTool } = opts;
+  const { data, error } = await supabase.functions.invoke(fn, {
+    body: { ...body, stream: true },
+    headers: { Accept: 'text/event-stream' },
+    signal,
+  });
+  if (error) {
+    if (signal?.aborted) return { message: '', cancelled: true, blocks: [] };
+    throw error;
+  }
+  if (!(data instanceof Response)) {
+    const reply = data as { message?: string; cards?: unknown; memories?: unknown; actions?: AssistantAction[] } | null;
+    const message = reply?.message ?? '';
+    reply?.actions?.forEach(action => onTool?.(action));
+    onText?.(message);
+    return { message, cancelled: false, blocks: blocksOf(reply) };
+  }
+
+  let text = '';
+  try {
+    for await (const { event, data: raw } of readEvents(data.body!)) {
+      const payload = JSON.parse(raw);
+      if (event === 'token') {
+        text += payload.content ?? '';
+        onText?.(text);
+      } else if (event === 'meta') {
+        onMeta?.(payload);
+      } else if (event === 'tool') {
+        onTool?.(payload);
+      } else if (event === 'done') {
+        return { message: payload.message ?? text, cancelled: false, blocks: blocksOf(payload) };
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'The assistant stopped unexpectedly');
+      }
+    }
+  } catch (e) {
+    if (signal?.aborted || isAbort(e)) return { message: text, cancelled: true, blocks: [] };
+    throw e;
+  }
+  // The connection closed without a `done` event
+  if (signal?.aborted) return { message: text, cancelled: true, blocks: [] };
+  throw new Error('The assistant stopped unexpectedly');
+};
+
+const LIST_NAMES: Record<string, string> = {
+  add_to_watchlist: 'your watchlist',
+  mark_favorite: 'your favorites',
+};
+
+// One line for an action that changed something or failed; lookups that
+// worked go unmentioned
+export const describeAction = (action: AssistantAction): string | null => {
+  const list = LIST_NAMES[action.tool];
+  if (!action.ok) {
+    const error = (action.result as { error?: string } | null)?.error;
+    return list ? `Could not add to ${list}${error ? `: ${error}` : ''}` : null;
+  }
+  if (!list) return null;
+  const { title, year } = (action.result ?? {}) as { title?: string; year?: string | null };
+  return `Added ${title ?? 'a title'}${year ? ` (${year})` : ''} to ${list}`;
+};
+
+// Whether the assistant may use the user's history, ratings, lists and taste
+// memory. Stored in `user_preferences.privacy_settings`; on unless turned off.
+const PERSONALIZATION = 'assistant_personalization';
+// The column default, for users without a preferences row yet
+const DEFAULT_PRIVACY_SETTINGS: Record<string, Json> = { public_profile: true, show_activity: true };
+
+const privacySettingsOf = async (userId: string): Promise<Record<string, Json>> => {
+  const { data, error } = await supabase.from('user_preferences').select('privacy_settings').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  if (!data) return DEFAULT_PRIVACY_SETTINGS;
+  const settings = data.privacy_settings;
+  return settings && typeof settings === 'object' && !Array.isArray(settings) ? settings : {};
+};
+
+export const readPersonalization = async (userId: string): Promise<boolean> =>
+  (await privacySettingsOf(userId))[PERSONALIZATION] !== false;
+
+// Keeps the other privacy settings as they are
+export const savePersonalization = async (userId: string, enabled: boolean) => {
+  const privacy_settings = { ...(await privacySettingsOf(userId)), [PERSONALIZATION]: enabled };
+  const { error } = await supabase.from('user_preferences').upsert({ user_id: userId, privacy_settings }, { onConflict: 'user_id' });
+  if (error) throw error;
+};
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import type { SupabaseMock } from "@/test/supabaseMock";
+import { hydrateEpisodeProgressFromSupabase, readEpisodeProgress, setEpisodesWatched } from "./episodes";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseMock } = await import("@/test/supabaseMock");
+  return { supabase: createSupabaseMock() };
+});
+
+const db = supabase as unknown as SupabaseMock;
+const TABLE = "user_episode_progress";
+const arcane = { id: 94605, title: "Arcane" };
+
+const row = (season: number, episode: number) => ({
+  user_id: "user-1",
+  series_id: arcane.id,
+  season_number: season,
+  episode_number: episode,
+  series_title: "Arcane",
+  poster_path: null,
+  watched_at: "2024-01-01T00:00:00.000Z",
+});
+
+const watchedKeys = () => Object.keys(readEpisodeProgress()[String(arcane.id)]?.watched || {}).sort();
+const remoteKeys = () => db.rows(TABLE).map(r => `${r.season_number}:${r.episode_number}`).sort();
+
+// Lets the fire-and-forget Supabase writes settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  db.reset();
+  db.user = { id: "user-1" };
+});
+
+describe("hydrateEpisodeProgressFromSupabase", () => {
+  it("drops synced episodes that were unmarked on another device", async () => {
+    setEpisodesWatched(arcane, [{ season: 1, episode: 1 }, { season: 1, episode: 2 }], true);
+    await flush();
+    expect(remoteKeys()).toEqual(["1:1", "1:2"]);
+
+    // Another device unmarks 1:2
+    db.tables[TABLE] = db.rows(TABLE).filter(r => r.episode_number !== 2);
+    await hydrateEpisodeProgressFromSupabase();
+
+    expect(watchedKeys()).toEqual(["1:1"]);
+    expect(remoteKeys()).toEqual(["1:1"]);
+  });
+
+  it("pushes changes that failed to sync and keeps them over the server", async () => {
+    db.rows(TABLE).push(row(1, 1), row(1, 2));
+    await hydrateEpisodeProgressFromSupabase();
+
+    db.failNext(TABLE);
+    setEpisodesWatched(arcane, [{ season: 1, episode: 3 }], true);
+    await flush();
+    db.failNext(TABLE);
+    setEpisodesWatched(arcane, [{ season: 1, episode: 1 }], false);
+    await flush();
+    expect(remoteKeys()).toEqual(["1:1", "1:2"]);
+
+    await hydrateEpisodeProgressFromSupabase();
+
+    expect(watchedKeys()).toEqual(["1:2", "1:3"]);
+    expect(remoteKeys()).toEqual(["1:2", "1:3"]);
+  });
+
+  it("pushes progress made while signed out", async () => {
+    db.user = null;
+    setEpisodesWatched(arcane, [{ season: 2, episode: 1 }], true);
+    await flush();
+
+    db.user = { id: "user-1" };
+    db.rows(TABLE).push(row(1, 1));
+    await hydrateEpisodeProgressFromSupabase();
+
+    expect(watchedKeys()).toEqual(["1:1", "2:1"]);
+    expect(remoteKeys()).toEqual(["1:1", "2:1"]);
+  });
+
+  it("treats progress kept before changes were tracked as unsynced", async () => {
+    localStorage.setItem("cinepulse_episodes_v1", JSON.stringify({
+      [arcane.id]: { seriesId: arcane.id, title: "Arcane", watched: { "1:1": 1, "1:4": 1 }, updatedAt: 1 },
+    }));
+    db.rows(TABLE).push(row(1, 1));
+
+    await hydrateEpisodeProgressFromSupabase();
+
+    expect(watchedKeys()).toEqual(["1:1", "1:4"]);
+    expect(remoteKeys()).toEqual(["1:1", "1:4"]);
+  });
+});
@@ -0,0 +1,281 @@
+import { supabase } from '@/integrations/supabase/client';
+import { contentRef } from '@/lib/content';
+import { logEpisodeWatched } from '@/utils/history';
+
+// Per-episode watch progress for series. Local-first like history: every
+// change lands in localStorage and is mirrored to Supabase for signed-in users.
+
+export type EpisodeNumber = { season: number; episode: number };
+
+export type SeriesInfo = {
+  id: number;
+  title?: string;
+  poster_path?: string | null;
+  genre_ids?: number[];
+};
+
+export type SeriesProgress = {
+  seriesId: number;
+  title?: string;
+  poster_path?: string | null;
+  watched: Record<string, number>; // episodeKey -> watched ts
+  updatedAt: number;
+};
+
+// Series id -> progress
+export type EpisodeProgressState = Record<string, SeriesProgress>;
+
+// Only the parts of a TMDB season summary the progress math needs
+export type SeasonShape = { season_number?: number | null; episode_count?: number | null };
+
+const KEY = 'cinepulse_episodes_v1';
+// Changes Supabase has not confirmed yet: `seriesId/season:episode` -> watched
+const PENDING_KEY = 'cinepulse_episodes_pending_v1';
+const TABLE = 'user_episode_progress';
+export const EPISODES_CHANGED_EVENT = 'cinepulse_episodes_changed';
+
+export const episodeKey = ({ season, episode }: EpisodeNumber) => `${season}:${episode}`;
+
+const parseEpisodeKey = (key: string): EpisodeNumber | null => {
+  const m = /^(\d+):(\d+)$/.exec(key);
+  return m ? { season: Number(m[1]), episode: Number(m[2]) } : null;
+};
+
+const compareEpisodes = (a: EpisodeNumber, b: EpisodeNumber) => a.season - b.season || a.episode - b.episode;
+
+export const readEpisodeProgress = (): EpisodeProgressState => {
+  try {
+    const raw = localStorage.getItem(KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeEpisodeProgress = (state: EpisodeProgressState) => {
+  try {
+    localStorage.setItem(KEY, JSON.stringify(state));
+    window.dispatchEvent(new Event(EPISODES_CHANGED_EVENT));
+  } catch {
+    // Storage unavailable (private mode or quota); progress is not kept
+  }
+};
+
+type PendingChanges = Record<string, boolean>;
+
+const pendingKey = (seriesId: number | string, ep: EpisodeNumber) => `${seriesId}/${episodeKey(ep)}`;
+
+// Null until the first change is tracked, so progress kept before that can be told apart
+const readPending = (): PendingChanges | null => {
+  try {
+    const raw = localStorage.getItem(PENDING_KEY);
+    if (raw === null) return null;
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const writePending = (pending: PendingChanges) => {
+  try {
+    localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  } catch {
+    // Storage unavailable (private mode or quota); the change is not retried
+  }
+};
+
+const markPending = (seriesId: number, episodes: EpisodeNumber[], watched: boolean) => {
+  const pending = readPending() || {};
+  for (const ep of episodes) pending[pendingKey(seriesId, ep)] = watched;
+  writePending(pending);
+};
+
+// Leaves entries the user changed again while the request was in flight
+const clearPending = (seriesId: number, episodes: EpisodeNumber[], watched: boolean) => {
+  const pending = readPending() || {};
+  for (const ep of episodes) {
+    const key = pendingKey(seriesId, ep);
+    if (pending[key] === watched) delete pending[key];
+  }
+  writePending(pending);
+};
+
+export const seriesProgress = (state: EpisodeProgressState, seriesId: number): SeriesProgress | null =>
+  state[String(seriesId)] || null;
+
+export const isEpisodeWatched = (progress: SeriesProgress | null, ep: EpisodeNumber) =>
+  !!progress?.watched[episodeKey(ep)];
+
+// Furthest episode marked watched, by season then episode number
+export const lastWatchedEpisode = (progress: SeriesProgress | null): EpisodeNumber | null => {
+  let last: EpisodeNumber | null = null;
+  for (const key of Object.keys(progress?.watched || {})) {
+    const ep = parseEpisodeKey(key);
+    if (ep && (!last || compareEpisodes(ep, last) > 0)) last = ep;
+  }
+  return last;
+};
+
+// Episode after the furthest watched one, or the pilot when nothing is
+// watched yet. Null once the last known episode has been watched.
+// Season 0 (specials) never counts toward "next".
+export const nextEpisode = (progress: SeriesProgress | null, seasons: SeasonShape[]): EpisodeNumber | null => {
+  const regular = seasons
+    .filter(s => (s.season_number || 0) > 0 && (s.episode_count || 0) > 0)
+    .sort((a, b) => a.season_number - b.season_number);
+  const last = lastWatchedEpisode(progress);
+  for (const s of regular) {
+    const count = s.episode_count || 0;
+    if (!last || s.season_number > last.season) return { season: s.season_number, episode: 1 };
+    if (s.season_number === last.season && last.episode < count) {
+      return { season: s.season_number, episode: last.episode + 1 };
+    }
+  }
+  return null;
+};
+
+export const seasonCompletion = (progress: SeriesProgress | null, season: SeasonShape) => {
+  const total = season.episode_count || 0;
+  let watched = 0;
+  for (const key of Object.keys(progress?.watched || {})) {
+    const ep = parseEpisodeKey(key);
+    if (ep && ep.season === season.season_number && ep.episode <= total) watched += 1;
+  }
+  return { watched, total, ratio: total ? watched / total : 0 };
+};
+
+// Series with at least one watched episode, most recently active first
+export const followedSeries = (state: EpisodeProgressState = readEpisodeProgress()) =>
+  Object.values(state)
+    .filter(p => Object.keys(p.watched).length > 0)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+const getCurrentUserId = async (): Promise<string | null> => {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data.user?.id || null;
+  } catch {
+    return null;
+  }
+};
+
+const toProgressRow = (userId: string, progress: SeriesProgress, ep: EpisodeNumber, ts: number) => ({
+  user_id: userId,
+  series_id: progress.seriesId,
+  season_number: ep.season,
+  episode_number: ep.episode,
+  series_title: progress.title ?? null,
+  poster_path: progress.poster_path ?? null,
+  watched_at: new Date(ts).toISOString(),
+});
+
+const persistToSupabase = async (progress: SeriesProgress, episodes: EpisodeNumber[], watched: boolean) => {
+  const userId = await getCurrentUserId();
+  if (!userId || episodes.length === 0) return;
+  try {
+    if (watched) {
+      const rows = episodes.map(ep => toProgressRow(userId, progress, ep, progress.watched[episodeKey(ep)] || Date.now()));
+      const { error } = await supabase
+        .from(TABLE)
+        .upsert(rows, { onConflict: 'user_id,series_id,season_number,episode_number' });
+      if (!error) clearPending(progress.seriesId, episodes, true);
+    } else {
+      for (const ep of episodes) {
+        const { error } = await supabase
+          .from(TABLE)
+          .delete()
+          .eq('user_id', userId)
+          .eq('series_id', progress.seriesId)
+          .eq('season_number', ep.season)
+          .eq('episode_number', ep.episode);
+        if (!error) clearPending(progress.seriesId, [ep], false);
+      }
+    }
+  } catch {
+    // Local state is authoritative; the change stays pending and the next hydrate pushes it
+  }
+};
+
+// Mark or unmark a batch of episodes (a single episode or a whole season).
+// Marking logs one `episode_watched` history event for the furthest episode.
+export const setEpisodesWatched = (series: SeriesInfo, episodes: EpisodeNumber[], watched: boolean) => {
+  if (episodes.length === 0) return;
+  const state = readEpisodeProgress();
+  const now = Date.now();
+  const prev = seriesProgress(state, series.id);
+  const progress: SeriesProgress = {
+    seriesId: series.id,
+    title: series.title ?? prev?.title,
+    poster_path: series.poster_path ?? prev?.poster_path,
+    watched: { ...(prev?.watched || {}) },
+    updatedAt: now,
+  };
+  for (const ep of episodes) {
+    if (watched) progress.watched[episodeKey(ep)] = progress.watched[episodeKey(ep)] || now;
+    else delete progress.watched[episodeKey(ep)];
+  }
+  writeEpisodeProgress({ ...state, [String(series.id)]: progress });
+  markPending(series.id, episodes, watched);
+  void persistToSupabase(progress, episodes, watched);
+  if (watched) {
+    const furthest = [...episodes].sort(compareEpisodes)[episodes.length - 1];
+    logEpisodeWatched(contentRef('tv', series.id), furthest, series.title, series.genre_ids);
+  }
+};
+
+// Server rows are the truth for everything synced before, so episodes
+// unmarked on another device stay unmarked here. Changes still pending
+// locally are applied on top and pushed up.
+export const hydrateEpisodeProgressFromSupabase = async () => {
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+  try {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('series_id, season_number, episode_number, series_title, poster_path, watched_at')
+      .eq('user_id', userId);
+    if (error || !data) return;
+    const local = readEpisodeProgress();
+    const remote = new Set(data.map(r => pendingKey(r.series_id, { season: r.season_number, episode: r.episode_number })));
+    // Progress kept before changes were tracked: whatever the server lacks was never pushed
+    const pending = readPending() || Object.fromEntries(
+      Object.entries(local).flatMap(([id, p]) =>
+        Object.keys(p.watched).map(k => `${id}/${k}`).filter(k => !remote.has(k)).map(k => [k, true])),
+    );
+    const state: EpisodeProgressState = {};
+    for (const [id, p] of Object.entries(local)) state[id] = { ...p, watched: {} };
+    for (const r of data) {
+      const id = String(r.series_id);
+      const key = episodeKey({ season: Number(r.season_number), episode: Number(r.episode_number) });
+      const ts = Date.parse(r.watched_at) || Date.now();
+      const p = state[id] || { seriesId: Number(r.series_id), watched: {}, updatedAt: 0 };
+      p.title = p.title ?? r.series_title ?? undefined;
+      p.poster_path = p.poster_path ?? r.poster_path ?? null;
+      p.watched[key] = local[id]?.watched[key] || ts;
+      p.updatedAt = Math.max(p.updatedAt, ts);
+      state[id] = p;
+    }
+    const changes = new Map<string, { watched: boolean; episodes: EpisodeNumber[] }>();
+    for (const [k, watched] of Object.entries(pending)) {
+      const [id, key] = k.split('/');
+      const ep = parseEpisodeKey(key);
+      if (!ep) continue;
+      const p = state[id] || { seriesId: Number(id), watched: {}, updatedAt: 0 };
+      if (watched) p.watched[key] = local[id]?.watched[key] || Date.now();
+      else delete p.watched[key];
+      state[id] = p;
+      const group = changes.get(`${id}/${watched}`) || { watched, episodes: [] };
+      group.episodes.push(ep);
+      changes.set(`${id}/${watched}`, group);
+    }
+    writeEpisodeProgress(state);
+    writePending(pending);
+    for (const [k, { watched, episodes }] of changes) {
+      await persistToSupabase(state[k.split('/')[0]], episodes, watched);
+    }
+  } catch {
+    // Offline or signed out mid-request; keep local progress as is
+  }
+};
@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { contentKey, contentRef } from "@/lib/content";
+import { supabase } from "@/integrations/supabase/client";
+import type { SupabaseMock } from "@/test/supabaseMock";
+import {
+  deleteEventAt,
+  deleteEventsWhere,
+  hydrateHistoryFromSupabase,
+  logExternalSearch,
+  logMovieOpen,
+  logMovieWatched,
+  logQuery,
+  markNotInterested,
+  readFeedback,
+  readHistory,
+  setHistory,
+  summarize,
+  syncLocalHistoryToSupabase,
+  undoFeedback,
+  type HistoryEvent,
+} from "./history";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseMock } = await import("@/test/supabaseMock");
+  return { supabase: createSupabaseMock() };
+});
+
+const db = supabase as unknown as SupabaseMock;
+const dune = contentRef("movie", 438631);
+const arcane = contentRef("tv", 94605);
+
+const at = (ts: number) => vi.setSystemTime(ts);
+
+beforeEach(() => {
+  db.reset();
+  vi.useRealTimers();
+});
+
+describe("upsert aggregates", () => {
+  it("tracks the last time each title was seen", () => {
+    vi.useFakeTimers();
+    at(1_000);
+    logMovieOpen(dune, "Dune", [878]);
+    at(2_000);
+    logMovieWatched(dune, "Dune", [878]);
+    at(3_000);
+    logMovieOpen(arcane, "Arcane", [16]);
+
+    const s = readHistory();
+    expect(s.events.map(e => e.type)).toEqual(["movie_open", "movie_watched", "movie_open"]);
+    expect(s.seen).toEqual({ [contentKey(dune)]: 2_000, [contentKey(arcane)]: 3_000 });
+  });
+
+  it("counts queries case-insensitively and ignores blank ones", () => {
+    logQuery("Dune ");
+    logQuery("dune");
+    logQuery("   ");
+    expect(readHistory().queryCounts).toEqual({ dune: 2 });
+  });
+
+  it("counts external searches", () => {
+    logExternalSearch("Dune", dune);
+    logExternalSearch("Arcane");
+    expect(readHistory().externalSearchCount).toBe(2);
+  });
+
+  it("does not treat feedback as a visit", () => {
+    markNotInterested(dune, "Dune", [878]);
+    expect(readHistory().seen).toEqual({});
+    expect(readFeedback().hidden.has(contentKey(dune))).toBe(true);
+  });
+
+  it("never trims feedback when the log is full", () => {
+    markNotInterested(dune, "Dune");
+    const events: HistoryEvent[] = Array.from({ length: 500 }, (_, i) => ({ type: "query", ts: i + 10, query: `q${i}` }));
+    setHistory(summarize([...readHistory().events, ...events]));
+    logQuery("one more");
+
+    const s = readHistory();
+    expect(s.events).toHaveLength(500);
+    expect(s.events[0].type).toBe("not_interested");
+    expect(s.events[s.events.length - 1].query).toBe("one more");
+  });
+});
+
+describe("deleteEventAt", () => {
+  it("falls back to the previous visit of the same title", () => {
+    vi.useFakeTimers();
+    at(1_000);
+    logMovieOpen(dune, "Dune");
+    at(2_000);
+    logMovieOpen(dune, "Dune");
+
+    deleteEventAt(1);
+    expect(readHistory().seen[contentKey(dune)]).toBe(1_000);
+    deleteEventAt(0);
+    expect(readHistory().seen).toEqual({});
+  });
+
+  it("does not count feedback as a visit", () => {
+    vi.useFakeTimers();
+    at(1_000);
+    logMovieOpen(dune, "Dune");
+    at(2_000);
+    markNotInterested(dune, "Dune");
+
+    deleteEventAt(0);
+    expect(readHistory().seen).toEqual({});
+    expect(readFeedback().hidden.has(contentKey(dune))).toBe(true);
+  });
+
+  it("decrements query counts and external searches", () => {
+    logQuery("dune");
+    logQuery("dune");
+    logExternalSearch("Dune");
+
+    deleteEventAt(2);
+    deleteEventAt(1);
+    const s = readHistory();
+    expect(s.queryCounts).toEqual({ dune: 1 });
+    expect(s.externalSearchCount).toBe(0);
+  });
+
+  it("ignores out-of-range indexes", () => {
+    logQuery("dune");
+    deleteEventAt(5);
+    deleteEventAt(-1);
+    expect(readHistory().events).toHaveLength(1);
+  });
+});
+
+describe("deleteEventsWhere", () => {
+  it("rebuilds every aggregate from the remaining events", () => {
+    logMovieOpen(dune, "Dune");
+    logQuery("dune");
+    logExternalSearch("Dune", dune);
+    logMovieOpen(arcane, "Arcane");
+
+    deleteEventsWhere(e => e.title === "Dune" || e.type === "query");
+    const s = readHistory();
+    expect(s.events.map(e => e.title)).toEqual(["Arcane"]);
+    expect(Object.keys(s.seen)).toEqual([contentKey(arcane)]);
+    expect(s.queryCounts).toEqual({});
+    expect(s.externalSearchCount).toBe(0);
+  });
+});
+
+describe("Supabase round-trips", () => {
+  beforeEach(() => {
+    db.user = { id: "user-1" };
+  });
+
+  it("persists new events for signed-in users", async () => {
+    logMovieWatched(arcane, "Arcane", [16]);
+    await vi.waitFor(() => expect(db.rows("user_activity")).toHaveLength(1));
+    expect(db.rows("user_activity")[0]).toMatchObject({
+      user_id: "user-1",
+      type: "movie_watched",
+      movie_id: arcane.id,
+      content_type: "tv",
+      title: "Arcane",
+      genres: [16],
+    });
+  });
+
+  it("uploads only events newer than the server's latest", async () => {
+    db.rows("user_activity").push({ user_id: "user-1", type: "query", ts: new Date(2_000).toISOString(), query: "old" });
+    setHistory(summarize([
+      { type: "query", ts: 1_000, query: "older" },
+      { type: "query", ts: 3_000, query: "newer" },
+    ]));
+
+    await syncLocalHistoryToSupabase();
+    expect(db.rows("user_activity").map(r => r.query)).toEqual(["old", "newer"]);
+  });
+
+  it("hydrates the local cache from the server", async () => {
+    db.rows("user_activity").push(
+      { user_id: "user-1", type: "movie_open", ts: new Date(2_000).toISOString(), movie_id: 1, content_type: "movie", title: "B", genres: [18], query: null, metadata: null },
+      { user_id: "user-1", type: "movie_rated", ts: new Date(1_000).toISOString(), movie_id: 2, content_type: "tv", title: "A", genres: null, query: null, metadata: { rating: 4 } },
+      { user_id: "someone-else", type: "query", ts: new Date(500).toISOString(), query: "not mine" }
+    );
+
+    await hydrateHistoryFromSupabase();
+    const s = readHistory();
+    expect(s.events.map(e => e.title)).toEqual(["A", "B"]);
+    expect(s.events[0]).toMatchObject({ content: contentRef("tv", 2), rating: 4 });
+    expect(s.seen).toEqual({ "tv:2": 1_000, "movie:1": 2_000 });
+  });
+
+  it("round-trips: sync then hydrate keeps the same events", async () => {
+    db.user = null;
+    logMovieOpen(dune, "Dune", [878]);
+    logQuery("dune");
+    const before = readHistory().events;
+
+    db.user = { id: "user-1" };
+    await syncLocalHistoryToSupabase();
+    localStorage.clear();
+    await hydrateHistoryFromSupabase();
+
+    // toEqual ignores the undefined fields a server row brings back
+    expect(readHistory().events).toEqual(before);
+  });
+
+  it("undoes feedback locally and on the server", async () => {
+    markNotInterested(dune, "Dune");
+    await vi.waitFor(() => expect(db.rows("user_activity")).toHaveLength(1));
+
+    await undoFeedback(readHistory().events[0]);
+    expect(readFeedback().hidden.size).toBe(0);
+    expect(db.rows("user_activity")).toHaveLength(0);
+  });
+
+  it("keeps local events when the server is unreachable", async () => {
+    db.failNext("user_activity");
+    setHistory(summarize([{ type: "query", ts: 1_000, query: "dune" }]));
+    await syncLocalHistoryToSupabase();
+    expect(db.rows("user_activity")).toHaveLength(0);
+    expect(readHistory().events).toHaveLength(1);
+  });
+});
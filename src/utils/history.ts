@@ -1,12 +1,19 @@
 import { supabase } from '@/integrations/supabase/client';
+import { contentKey, contentRef, parseContentKey, type ContentRef } from '@/lib/content';
+
+// Negative signals for the ranker. `hide_genre` carries the genre in
+// `genres` and its display name in `title`; the others name a title.
+export type FeedbackType = 'not_interested' | 'show_fewer' | 'hide_genre';
 
 export type HistoryEvent = {
-  type: 'movie_open' | 'trailer_play' | 'external_search' | 'query';
+  type: 'movie_open' | 'trailer_play' | 'external_search' | 'query' | 'episode_watched' | 'movie_watched' | 'movie_rated' | FeedbackType;
   ts: number;
-  movieId?: number;
+  content?: ContentRef;
+  episode?: { season: number; episode: number };
   title?: string;
   genres?: number[];
   query?: string;
+  rating?: number; // 1..5, on movie_rated
 };
 
 // Push local events created when user was offline/not signed-in to Supabase.
@@ -26,15 +33,7 @@ export const syncLocalHistoryToSupabase = async () => {
     const { events } = readHistory();
     const pending = events.filter(e => e.ts > latestTs);
     if (pending.length === 0) return;
-    const rows = pending.map(e => ({
-      user_id: userId,
-      type: e.type,
-      ts: new Date(e.ts).toISOString(),
-      movie_id: e.movieId ?? null,
-      title: e.title ?? null,
-      genres: e.genres ?? null,
-      query: e.query ?? null,
-    }));
+    const rows = pending.map(e => toActivityRow(userId, e));
     await (supabase as any).from(TABLE).insert(rows);
   } catch {}
 };
@@ -42,7 +41,7 @@ export const syncLocalHistoryToSupabase = async () => {
 export type HistoryState = {
   events: HistoryEvent[];
   // quick aggregates
-  seenMovieIds: Record<string, number>; // movieId -> last ts
+  seen: Record<string, number>; // contentKey -> last ts
   queryCounts: Record<string, number>;
   externalSearchCount: number;
 };
@@ -55,22 +54,32 @@ const safeParse = <T,>(raw: string | null, fallback: T): T => {
   try { return JSON.parse(raw) as T; } catch { return fallback; }
 };
 
+// Events stored before TV support carry a bare `movieId`
+type StoredEvent = HistoryEvent & { movieId?: number };
+
+const upgradeEvent = ({ movieId, ...e }: StoredEvent): HistoryEvent =>
+  e.content || movieId == null ? e : { ...e, content: contentRef('movie', movieId) };
+
 export const readHistory = (): HistoryState => {
-  const state = safeParse<HistoryState>(localStorage.getItem(KEY), {
-    events: [],
-    seenMovieIds: {},
-    queryCounts: {},
-    externalSearchCount: 0,
-  });
+  const state = safeParse<Partial<HistoryState> & { seenMovieIds?: Record<string, number> }>(localStorage.getItem(KEY), {});
   // guard shape
+  const events = Array.isArray(state.events) ? (state.events as StoredEvent[]).map(upgradeEvent) : [];
+  const seen: Record<string, number> = {};
+  for (const [k, ts] of Object.entries(state.seen || state.seenMovieIds || {})) {
+    const ref = parseContentKey(k);
+    if (ref) seen[contentKey(ref)] = ts;
+  }
   return {
-    events: Array.isArray(state.events) ? state.events : [],
-    seenMovieIds: state.seenMovieIds || {},
+    events,
+    seen,
     queryCounts: state.queryCounts || {},
     externalSearchCount: typeof state.externalSearchCount === 'number' ? state.externalSearchCount : 0,
   };
 };
 
+// Last time a title appeared in history, or 0
+export const lastSeenAt = (state: HistoryState, ref: ContentRef) => state.seen[contentKey(ref)] || 0;
+
 const writeHistory = (state: HistoryState) => {
   try { localStorage.setItem(KEY, JSON.stringify(state)); } catch {}
 };
@@ -79,9 +88,15 @@ export const setHistory = (state: HistoryState) => {
   writeHistory(state);
 };
 
+export const FEEDBACK_TYPES: FeedbackType[] = ['not_interested', 'show_fewer', 'hide_genre'];
+
+export const isFeedbackEvent = (e: HistoryEvent) => (FEEDBACK_TYPES as string[]).includes(e.type);
+
+// Feedback is a standing preference rather than history, so it is never trimmed
 const clampEvents = (events: HistoryEvent[], max = 500) => {
   if (events.length <= max) return events;
-  return events.slice(events.length - max);
+  let drop = events.length - max;
+  return events.filter(e => isFeedbackEvent(e) || drop-- <= 0);
 };
 
 const getCurrentUserId = async (): Promise<string | null> => {
@@ -93,28 +108,76 @@ const getCurrentUserId = async (): Promise<string | null> => {
   }
 };
 
+const toActivityRow = (userId: string, e: HistoryEvent) => ({
+  user_id: userId,
+  type: e.type,
+  ts: new Date(e.ts).toISOString(),
+  movie_id: e.content?.id ?? null,
+  content_type: e.content?.kind ?? null,
+  title: e.title ?? null,
+  genres: e.genres ?? null,
+  query: e.query ?? null,
+  metadata: e.episode || e.rating != null ? { episode: e.episode, rating: e.rating } : null,
+});
+
+export type ActivityRow = {
+  type: string;
+  ts: string | number;
+  movie_id: number | null;
+  content_type: string | null;
+  title: string | null;
+  genres: number[] | null;
+  query: string | null;
+  metadata: unknown;
+};
+
+export const fromActivityRow = (r: ActivityRow): HistoryEvent => {
+  const meta = (r.metadata && typeof r.metadata === 'object' ? r.metadata : {}) as Pick<HistoryEvent, 'episode' | 'rating'>;
+  return {
+    type: r.type as HistoryEvent['type'],
+    ts: typeof r.ts === 'string' ? Date.parse(r.ts) : Number(r.ts) || Date.now(),
+    content: r.movie_id != null ? contentRef(r.content_type as ContentRef['kind'], r.movie_id) : undefined,
+    title: r.title ?? undefined,
+    genres: r.genres ?? undefined,
+    query: r.query ?? undefined,
+    episode: meta.episode ?? undefined,
+    rating: meta.rating ?? undefined,
+  };
+};
+
 const persistToSupabase = async (evt: HistoryEvent) => {
   const userId = await getCurrentUserId();
   if (!userId) return;
   try {
-    await (supabase as any).from(TABLE).insert({
-      user_id: userId,
-      type: evt.type,
-      ts: new Date(evt.ts).toISOString(),
-      movie_id: evt.movieId ?? null,
-      title: evt.title ?? null,
-      genres: evt.genres ?? null,
-      query: evt.query ?? null,
-    });
+    await (supabase as any).from(TABLE).insert(toActivityRow(userId, evt));
   } catch {}
 };
 
+// Recompute aggregates from a full event list
+export const summarize = (events: HistoryEvent[]): HistoryState => {
+  const seen: Record<string, number> = {};
+  const queryCounts: Record<string, number> = {};
+  let externalSearchCount = 0;
+  for (const e of events) {
+    if (e.content && !isFeedbackEvent(e)) {
+      const k = contentKey(e.content);
+      seen[k] = Math.max(seen[k] || 0, e.ts);
+    }
+    if (e.type === 'query' && e.query) {
+      const k = e.query.trim().toLowerCase();
+      queryCounts[k] = (queryCounts[k] || 0) + 1;
+    }
+    if (e.type === 'external_search') externalSearchCount += 1;
+  }
+  return { events, seen, queryCounts, externalSearchCount };
+};
+
 const upsert = (evt: HistoryEvent) => {
   const s = readHistory();
   const events = clampEvents([...s.events, evt]);
-  const seenMovieIds = { ...s.seenMovieIds };
-  if (evt.movieId != null) {
-    seenMovieIds[String(evt.movieId)] = evt.ts;
+  const seen = { ...s.seen };
+  if (evt.content && !isFeedbackEvent(evt)) {
+    seen[contentKey(evt.content)] = evt.ts;
   }
   const queryCounts = { ...s.queryCounts };
   if (evt.type === 'query' && evt.query) {
@@ -122,21 +185,108 @@ const upsert = (evt: HistoryEvent) => {
     queryCounts[key] = (queryCounts[key] || 0) + 1;
   }
   const externalSearchCount = s.externalSearchCount + (evt.type === 'external_search' ? 1 : 0);
-  writeHistory({ events, seenMovieIds, queryCounts, externalSearchCount });
+  writeHistory({ events, seen, queryCounts, externalSearchCount });
   // Fire-and-forget remote persist for signed-in users
   try { void persistToSupabase(evt); } catch {}
 };
 
-export const logMovieOpen = (movieId: number, title?: string, genres?: number[]) => {
-  upsert({ type: 'movie_open', ts: Date.now(), movieId, title, genres });
+export const logMovieOpen = (content: ContentRef, title?: string, genres?: number[]) => {
+  upsert({ type: 'movie_open', ts: Date.now(), content, title, genres });
+};
+
+export const logTrailerPlay = (content: ContentRef, title?: string, genres?: number[]) => {
+  upsert({ type: 'trailer_play', ts: Date.now(), content, title, genres });
 };
 
-export const logTrailerPlay = (movieId: number, title?: string, genres?: number[]) => {
-  upsert({ type: 'trailer_play', ts: Date.now(), movieId, title, genres });
+export const logExternalSearch = (title?: string, content?: ContentRef) => {
+  upsert({ type: 'external_search', ts: Date.now(), title, content });
 };
 
-export const logExternalSearch = (title?: string, movieId?: number) => {
-  upsert({ type: 'external_search', ts: Date.now(), title, movieId });
+export const logEpisodeWatched = (
+  content: ContentRef,
+  episode: { season: number; episode: number },
+  title?: string,
+  genres?: number[]
+) => {
+  upsert({ type: 'episode_watched', ts: Date.now(), content, episode, title, genres });
+};
+
+export const logMovieWatched = (content: ContentRef, title?: string, genres?: number[], ts = Date.now()) => {
+  upsert({ type: 'movie_watched', ts, content, title, genres });
+};
+
+// Merge a batch of past events (e.g. from a CSV import) into history.
+// Events already present (same type, title and time) are skipped; the rest
+// are written locally in time order and pushed to Supabase in one insert.
+export const importHistoryEvents = async (incoming: HistoryEvent[]) => {
+  const s = readHistory();
+  const sig = (e: HistoryEvent) => `${e.type}|${e.content ? contentKey(e.content) : ''}|${e.ts}`;
+  const existing = new Set(s.events.map(sig));
+  const fresh = incoming.filter(e => !existing.has(sig(e)));
+  if (fresh.length === 0) return 0;
+  const events = clampEvents([...s.events, ...fresh].sort((a, b) => a.ts - b.ts));
+  writeHistory(summarize(events));
+  window.dispatchEvent(new Event('cinepulse_history_changed'));
+  const userId = await getCurrentUserId();
+  if (userId) {
+    const { error } = await supabase.from(TABLE).insert(fresh.map(e => toActivityRow(userId, e)));
+    // Local history keeps the events even if the upload fails
+    if (error) console.warn('Failed to upload imported history', error);
+  }
+  return fresh.length;
+};
+
+export const markNotInterested = (content: ContentRef, title?: string, genres?: number[]) => {
+  upsert({ type: 'not_interested', ts: Date.now(), content, title, genres });
+};
+
+export const showFewerLike = (content: ContentRef, title?: string, genres?: number[]) => {
+  upsert({ type: 'show_fewer', ts: Date.now(), content, title, genres });
+};
+
+export const hideGenre = (genre: number, name?: string) => {
+  upsert({ type: 'hide_genre', ts: Date.now(), genres: [genre], title: name });
+};
+
+export type Feedback = {
+  // contentKeys the user is not interested in
+  hidden: Set<string>;
+  hiddenGenres: Set<number>;
+  // Titles to show fewer of, with their genres
+  fewer: HistoryEvent[];
+};
+
+export const readFeedback = (state: HistoryState = readHistory()): Feedback => {
+  const hidden = new Set<string>();
+  const hiddenGenres = new Set<number>();
+  const fewer: HistoryEvent[] = [];
+  for (const e of state.events) {
+    if (e.type === 'not_interested' && e.content) hidden.add(contentKey(e.content));
+    if (e.type === 'hide_genre') for (const g of e.genres || []) hiddenGenres.add(g);
+    if (e.type === 'show_fewer' && e.content) fewer.push(e);
+  }
+  return { hidden, hiddenGenres, fewer };
+};
+
+// Withdraw a feedback event, along with any duplicates for the same title or genre
+export const undoFeedback = async (evt: HistoryEvent) => {
+  const genre = evt.genres?.[0];
+  const sameTarget = (e: HistoryEvent) =>
+    e.type === evt.type &&
+    (evt.type === 'hide_genre'
+      ? e.genres?.[0] === genre
+      : !!e.content && !!evt.content && contentKey(e.content) === contentKey(evt.content));
+  const s = readHistory();
+  writeHistory(summarize(s.events.filter(e => !sameTarget(e))));
+  window.dispatchEvent(new Event('cinepulse_history_changed'));
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+  let query = supabase.from(TABLE).delete().eq('user_id', userId).eq('type', evt.type);
+  query = evt.type === 'hide_genre'
+    ? query.contains('genres', [genre])
+    : query.eq('movie_id', evt.content?.id).eq('content_type', evt.content?.kind);
+  const { error } = await query;
+  if (error) console.warn('Failed to remove feedback from activity', error);
 };
 
 export const logQuery = (query: string) => {
@@ -159,18 +309,19 @@ export const deleteEventAt = (index: number) => {
   const s = readHistory();
   if (index < 0 || index >= s.events.length) return;
   const events = [...s.events.slice(0, index), ...s.events.slice(index + 1)];
-  const seenMovieIds = { ...s.seenMovieIds };
+  const seen = { ...s.seen };
   const queryCounts = { ...s.queryCounts };
   const removed = s.events[index];
-  if (removed?.movieId != null) {
+  if (removed?.content) {
+    const key = contentKey(removed.content);
     const lastTs = Math.max(
       0,
-      ...events.filter(e => e.movieId === removed.movieId).map(e => e.ts)
+      ...events.filter(e => e.content && !isFeedbackEvent(e) && contentKey(e.content) === key).map(e => e.ts)
     );
     if (lastTs > 0) {
-      seenMovieIds[String(removed.movieId)] = lastTs;
+      seen[key] = lastTs;
     } else {
-      delete seenMovieIds[String(removed.movieId)];
+      delete seen[key];
     }
   }
   if (removed?.type === 'query' && removed.query) {
@@ -179,24 +330,12 @@ export const deleteEventAt = (index: number) => {
     if (c > 0) queryCounts[key] = c; else delete queryCounts[key];
   }
   const externalSearchCount = s.externalSearchCount - (removed?.type === 'external_search' ? 1 : 0);
-  writeHistory({ events, seenMovieIds, queryCounts, externalSearchCount: Math.max(0, externalSearchCount) });
+  writeHistory({ events, seen, queryCounts, externalSearchCount: Math.max(0, externalSearchCount) });
 };
 
 export const deleteEventsWhere = (predicate: (e: HistoryEvent) => boolean) => {
   const s = readHistory();
-  const events = s.events.filter(e => !predicate(e));
-  const seenMovieIds: Record<string, number> = {};
-  const queryCounts: Record<string, number> = {};
-  let externalSearchCount = 0;
-  for (const e of events) {
-    if (e.movieId != null) seenMovieIds[String(e.movieId)] = Math.max(seenMovieIds[String(e.movieId)] || 0, e.ts);
-    if (e.type === 'query' && e.query) {
-      const k = e.query.trim().toLowerCase();
-      queryCounts[k] = (queryCounts[k] || 0) + 1;
-    }
-    if (e.type === 'external_search') externalSearchCount += 1;
-  }
-  writeHistory({ events, seenMovieIds, queryCounts, externalSearchCount });
+  writeHistory(summarize(s.events.filter(e => !predicate(e))));
 };
 
 export const getTopGenresFromHistory = (fallback: number[] = []) => {
@@ -204,7 +343,7 @@ export const getTopGenresFromHistory = (fallback: number[] = []) => {
   const { events } = readHistory();
   const counts: Record<string, number> = {};
   for (const e of events) {
-    if (e.genres && e.genres.length) {
+    if (e.genres && e.genres.length && !isFeedbackEvent(e)) {
       for (const g of e.genres) counts[String(g)] = (counts[String(g)] || 0) + 1;
     }
   }
@@ -219,31 +358,13 @@ export const hydrateHistoryFromSupabase = async () => {
   try {
     const { data, error } = await (supabase as any)
       .from(TABLE)
-      .select('type, ts, movie_id, title, genres, query')
+      .select('type, ts, movie_id, content_type, title, genres, query, metadata')
       .eq('user_id', userId)
       .order('ts', { ascending: true });
     if (error || !data) return;
-    const events: HistoryEvent[] = data.map((r: any) => ({
-      type: r.type,
-      ts: typeof r.ts === 'string' ? Date.parse(r.ts) : Number(r.ts) || Date.now(),
-      movieId: r.movie_id ?? undefined,
-      title: r.title ?? undefined,
-      genres: r.genres ?? undefined,
-      query: r.query ?? undefined,
-    }));
+    const events: HistoryEvent[] = (data as ActivityRow[]).map(fromActivityRow);
     // Recompute aggregates and write
-    const seenMovieIds: Record<string, number> = {};
-    const queryCounts: Record<string, number> = {};
-    let externalSearchCount = 0;
-    for (const e of events) {
-      if (e.movieId != null) seenMovieIds[String(e.movieId)] = e.ts;
-      if (e.type === 'query' && e.query) {
-        const k = e.query.trim().toLowerCase();
-        queryCounts[k] = (queryCounts[k] || 0) + 1;
-      }
-      if (e.type === 'external_search') externalSearchCount += 1;
-    }
-    writeHistory({ events, seenMovieIds, queryCounts, externalSearchCount });
+    writeHistory(summarize(events));
     try { window.dispatchEvent(new Event('cinepulse_history_changed')); } catch {}
   } catch {}
 };
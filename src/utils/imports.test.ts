@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import type { TmdbTitle } from "@/lib/tmdb";
+import type { SupabaseMock } from "@/test/supabaseMock";
+import { readHistory } from "./history";
+import { applyImport, parseImportFile, type MatchGroup } from "./imports";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseMock } = await import("@/test/supabaseMock");
+  return { supabase: createSupabaseMock() };
+});
+
+const db = supabase as unknown as SupabaseMock;
+
+const LIST_CSV = [
+  "Date,Name,Year,Letterboxd URI",
+  "2023-05-01,Heat,1995,https://boxd.it/2bHw",
+  "2023-06-01,Arrival,2016,https://boxd.it/bqrE",
+].join("\n");
+
+const heat = { id: 949, title: "Heat", release_date: "1995-12-15", genre_ids: [80], poster_path: "/heat.jpg", vote_count: 7000 } as TmdbTitle;
+
+const group = (file: string): MatchGroup => {
+  const { rows } = parseImportFile(file, LIST_CSV);
+  return { key: "heat", title: "Heat", year: 1995, kind: "movie", rows: rows.slice(0, 1), candidates: [], chosen: heat, status: "matched" };
+};
+
+beforeEach(() => {
+  db.reset();
+  db.user = { id: "user-1" };
+});
+
+describe("parseImportFile", () => {
+  it("tells watched.csv and watchlist.csv apart by name", () => {
+    expect(parseImportFile("watched.csv", LIST_CSV)).toMatchObject({ source: "letterboxd_watched", skipped: 0 });
+    expect(parseImportFile("letterboxd/watchlist.csv", LIST_CSV)).toMatchObject({ source: "letterboxd_watchlist", skipped: 0 });
+    expect(parseImportFile("watched.csv", LIST_CSV).rows[0]).toMatchObject({ title: "Heat", year: 1995, watchedOn: null, loggedOn: "2023-05-01" });
+  });
+
+  it("asks for the original name when the headers are ambiguous", () => {
+    expect(() => parseImportFile("export.csv", LIST_CSV)).toThrow("watched.csv or watchlist.csv");
+  });
+});
+
+describe("applyImport", () => {
+  it("puts watched films in history rather than the watchlist", async () => {
+    const summary = await applyImport("user-1", [group("watched.csv")]);
+
+    expect(summary).toEqual({ watches: 0, ratings: 0, watchlist: 0, history: 1 });
+    expect(db.rows("user_watchlist")).toEqual([]);
+    expect(readHistory().events).toEqual([
+      expect.objectContaining({ type: "movie_watched", ts: Date.parse("2023-05-01T12:00:00"), content: { kind: "movie", id: 949 } }),
+    ]);
+
+    // Re-importing adds nothing
+    expect((await applyImport("user-1", [group("watched.csv")])).history).toBe(0);
+  });
+
+  it("adds watchlist.csv to the watchlist", async () => {
+    const summary = await applyImport("user-1", [group("watchlist.csv")]);
+
+    expect(summary.watchlist).toBe(1);
+    expect(db.rows("user_watchlist")).toEqual([expect.objectContaining({ user_id: "user-1", movie_id: "949", content_type: "movie" })]);
+  });
+});
@@ -0,0 +1,339 @@
+import { supabase } from '@/integrations/supabase/client';
+import { parseCsv, type CsvRecord } from '@/lib/csv';
+import { contentKey, refOf, type ContentRef } from '@/lib/content';
+import { tmdb, releaseYear, type MediaKind, type TmdbTitle } from '@/lib/tmdb';
+import { chunk, mapPool } from '@/lib/utils';
+import { importHistoryEvents, type HistoryEvent } from '@/utils/history';
+import { addManyToLibrary } from '@/utils/library';
+import { fetchWatches, logWatches, type WatchInput } from '@/utils/watches';
+
+// Importer for Letterboxd and IMDb CSV exports. Everything runs in the
+// browser: parse -> match against TMDB -> let the user review -> write.
+
+export type ImportSource =
+  | 'letterboxd_diary'
+  | 'letterboxd_ratings'
+  | 'letterboxd_watched'
+  | 'letterboxd_watchlist'
+  | 'imdb_ratings';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  letterboxd_diary: 'Letterboxd diary',
+  letterboxd_ratings: 'Letterboxd ratings',
+  letterboxd_watched: 'Letterboxd watched films',
+  letterboxd_watchlist: 'Letterboxd watchlist',
+  imdb_ratings: 'IMDb ratings',
+};
+
+export type ImportRow = {
+  source: ImportSource;
+  title: string;
+  year: number | null;
+  kind: MediaKind;
+  imdbId: string | null;
+  rating: number | null; // normalized to 1..5
+  watchedOn: string | null; // YYYY-MM-DD
+  loggedOn: string | null; // when the row was created on the other service
+};
+
+export type ImportFile = { name: string; source: ImportSource; rows: ImportRow[]; skipped: number };
+
+export type MatchCandidate = { title: TmdbTitle; confidence: number };
+
+// Rows that refer to the same film are matched once, as a group
+export type MatchGroup = {
+  key: string;
+  title: string;
+  year: number | null;
+  kind: MediaKind;
+  rows: ImportRow[];
+  candidates: MatchCandidate[];
+  chosen: TmdbTitle | null;
+  status: 'matched' | 'review' | 'unmatched';
+};
+
+export type ImportSummary = { watches: number; ratings: number; watchlist: number; history: number };
+
+// Auto-accept only clear winners; everything else goes to the review screen
+const AUTO_ACCEPT = 0.9;
+const AUTO_MARGIN = 0.15;
+const MIN_CANDIDATE = 0.35;
+const MAX_CANDIDATES = 5;
+const MATCH_CONCURRENCY = 4;
+const WRITE_CHUNK = 500;
+
+// ---------- Parsing ----------
+
+// watched.csv and watchlist.csv share their headers (Date, Name, Year,
+// Letterboxd URI), so only the file name tells them apart
+const detectSource = (name: string, headers: string[]): ImportSource | null => {
+  const has = (h: string) => headers.includes(h);
+  if (has('Const') && has('Your Rating')) return 'imdb_ratings';
+  if (has('Letterboxd URI') && has('Name')) {
+    if (has('Watched Date')) return 'letterboxd_diary';
+    if (has('Rating')) return 'letterboxd_ratings';
+    const base = name.split(/[\\/]/).pop()!.toLowerCase();
+    if (base.startsWith('watchlist')) return 'letterboxd_watchlist';
+    if (base.startsWith('watched')) return 'letterboxd_watched';
+    throw new Error(`${name}: import it as watched.csv or watchlist.csv, as Letterboxd named it, so we know which list it is`);
+  }
+  return null;
+};
+
+const toYear = (v: string | undefined) => {
+  const n = parseInt(v || '', 10);
+  return Number.isFinite(n) && n > 1850 ? n : null;
+};
+
+const toDate = (v: string | undefined) => (v && /^\d{4}-\d{2}-\d{2}/.test(v) ? v.slice(0, 10) : null);
+
+// Letterboxd uses 0.5..5 stars, IMDb 1..10
+const toRating = (v: string | undefined, scale: 5 | 10) => {
+  const n = parseFloat(v || '');
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.min(5, Math.max(1, Math.round(scale === 10 ? n / 2 : n)));
+};
+
+// IMDb title types; episodes, games and podcasts are not titles we track
+const imdbKind = (type: string | undefined): MediaKind | null => {
+  const t = (type || '').toLowerCase().replace(/\s+/g, '');
+  if (t === 'tvepisode' || t === 'videogame' || t.startsWith('podcast')) return null;
+  if (t === 'tvseries' || t === 'tvminiseries' || t === 'tvmini-series') return 'tv';
+  return 'movie';
+};
+
+const fromLetterboxd = (source: ImportSource, r: CsvRecord): ImportRow | null => {
+  if (!r['Name']) return null;
+  return {
+    source,
+    title: r['Name'],
+    year: toYear(r['Year']),
+    kind: 'movie',
+    imdbId: null,
+    rating: source === 'letterboxd_watchlist' || source === 'letterboxd_watched' ? null : toRating(r['Rating'], 5),
+    watchedOn: source === 'letterboxd_diary' ? toDate(r['Watched Date']) || toDate(r['Date']) : null,
+    loggedOn: toDate(r['Date']),
+  };
+};
+
+const fromImdb = (r: CsvRecord): ImportRow | null => {
+  const kind = imdbKind(r['Title Type']);
+  if (!kind || !r['Title']) return null;
+  return {
+    source: 'imdb_ratings',
+    title: r['Title'],
+    year: toYear(r['Year']),
+    kind,
+    imdbId: /^tt\d+$/.test(r['Const']) ? r['Const'] : null,
+    rating: toRating(r['Your Rating'], 10),
+    watchedOn: null,
+    loggedOn: toDate(r['Date Rated']),
+  };
+};
+
+export const parseImportFile = (name: string, text: string): ImportFile => {
+  const { headers, records } = parseCsv(text);
+  const source = detectSource(name, headers);
+  if (!source) {
+    throw new Error(`${name}: not a Letterboxd (diary, ratings, watched, watchlist) or IMDb ratings export`);
+  }
+  const rows: ImportRow[] = [];
+  let skipped = 0;
+  for (const r of records) {
+    const row = source === 'imdb_ratings' ? fromImdb(r) : fromLetterboxd(source, r);
+    if (row) rows.push(row);
+    else skipped += 1;
+  }
+  return { name, source, rows, skipped };
+};
+
+// ---------- Matching ----------
+
+const normalizeTitle = (s: string) =>
+  s
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+
+const bigrams = (s: string) => {
+  const t = s.replace(/ /g, '');
+  const out = new Set<string>();
+  for (let i = 0; i < t.length - 1; i++) out.add(t.slice(i, i + 2));
+  return out;
+};
+
+// Dice coefficient over character bigrams; 1 for identical normalized titles
+export const titleSimilarity = (a: string, b: string) => {
+  const na = normalizeTitle(a);
+  const nb = normalizeTitle(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  const A = bigrams(na);
+  const B = bigrams(nb);
+  if (A.size === 0 || B.size === 0) return 0;
+  let inter = 0;
+  for (const g of A) if (B.has(g)) inter += 1;
+  return (2 * inter) / (A.size + B.size);
+};
+
+const yearScore = (wanted: number | null, candidate: TmdbTitle) => {
+  if (wanted == null) return 0.5;
+  const y = parseInt(releaseYear(candidate), 10);
+  if (!Number.isFinite(y)) return 0.3;
+  const diff = Math.abs(y - wanted);
+  return diff === 0 ? 1 : diff === 1 ? 0.7 : 0;
+};
+
+// 0..1; title carries most of the weight, the year breaks remakes apart
+export const matchConfidence = (title: string, year: number | null, candidate: TmdbTitle) =>
+  0.65 * titleSimilarity(title, candidate.title) + 0.35 * yearScore(year, candidate);
+
+const groupKey = (row: ImportRow) =>
+  row.imdbId || `${row.kind}|${normalizeTitle(row.title)}|${row.year ?? ''}`;
+
+export const groupRows = (rows: ImportRow[]): MatchGroup[] => {
+  const groups = new Map<string, MatchGroup>();
+  for (const row of rows) {
+    const key = groupKey(row);
+    const g = groups.get(key);
+    if (g) {
+      g.rows.push(row);
+    } else {
+      groups.set(key, {
+        key,
+        title: row.title,
+        year: row.year,
+        kind: row.kind,
+        rows: [row],
+        candidates: [],
+        chosen: null,
+        status: 'unmatched',
+      });
+    }
+  }
+  return [...groups.values()];
+};
+
+const matchGroup = async (group: MatchGroup): Promise<MatchGroup> => {
+  const imdbId = group.rows.find(r => r.imdbId)?.imdbId;
+  if (imdbId) {
+    const found = (await tmdb.findByImdbId(imdbId)) || [];
+    const exact = found.find(t => t.media_type === group.kind) || found[0];
+    if (exact) {
+      return { ...group, candidates: [{ title: exact, confidence: 1 }], chosen: exact, status: 'matched' };
+    }
+  }
+
+  const page = await tmdb.search(group.kind, group.title);
+  const candidates = (page?.results || [])
+    .map(title => ({ title, confidence: matchConfidence(group.title, group.year, title) }))
+    .filter(c => c.confidence >= MIN_CANDIDATE)
+    .sort((a, b) => b.confidence - a.confidence || b.title.vote_count - a.title.vote_count)
+    .slice(0, MAX_CANDIDATES);
+
+  const [best, second] = candidates;
+  if (!best) return { ...group, candidates, chosen: null, status: 'unmatched' };
+  const clear = best.confidence >= AUTO_ACCEPT && (!second || best.confidence - second.confidence >= AUTO_MARGIN);
+  return { ...group, candidates, chosen: clear ? best.title : null, status: clear ? 'matched' : 'review' };
+};
+
+// Match all groups against TMDB with a small worker pool
+export const matchGroups = (
+  groups: MatchGroup[],
+  onProgress?: (done: number, total: number) => void
+): Promise<MatchGroup[]> =>
+  mapPool(
+    groups,
+    MATCH_CONCURRENCY,
+    group => matchGroup(group).catch((): MatchGroup => ({ ...group, status: 'unmatched' })),
+    onProgress
+  );
+
+// ---------- Writing ----------
+
+// Null when the file has no usable date; such rows stay out of history, since
+// a made-up time would not match on re-import and would duplicate the event
+const dateTs = (date: string | null) => (date ? Date.parse(`${date}T12:00:00`) || null : null);
+
+// Write accepted matches into the diary, ratings, watchlist and history.
+// Watched films without a diary entry only go to history.
+// Safe to re-run: existing diary entries, ratings and watchlist rows are kept,
+// and history events are deduplicated by their date.
+export const applyImport = async (userId: string, groups: MatchGroup[]): Promise<ImportSummary> => {
+  const accepted = groups.filter(g => g.chosen);
+  const existingWatches = new Set(
+    (await fetchWatches(userId)).map(w => `${contentKey(w.content)}|${w.watchedOn}`)
+  );
+
+  const watches: Array<{ content: ContentRef } & WatchInput> = [];
+  const ratings = new Map<string, { ref: ContentRef; title: TmdbTitle; rating: number; on: string | null }>();
+  const watchlist = new Map<string, ContentRef>();
+  // Films from watched.csv, which has no watch dates, only when they were logged
+  const watchedOnly = new Map<string, { ref: ContentRef; title: TmdbTitle; on: string | null }>();
+  const events: HistoryEvent[] = [];
+
+  for (const g of accepted) {
+    const t = g.chosen!;
+    const ref = refOf(t);
+    const key = contentKey(ref);
+    for (const row of g.rows) {
+      if (row.source === 'letterboxd_watchlist') {
+        watchlist.set(key, ref);
+        continue;
+      }
+      if (row.source === 'letterboxd_watched') {
+        watchedOnly.set(key, { ref, title: t, on: row.loggedOn });
+        continue;
+      }
+      if (row.source === 'letterboxd_diary' && row.watchedOn) {
+        const watchKey = `${key}|${row.watchedOn}`;
+        if (!existingWatches.has(watchKey)) {
+          existingWatches.add(watchKey);
+          watches.push({ content: ref, watchedOn: row.watchedOn, rating: row.rating, title: t.title, poster_path: t.poster_path });
+          const ts = dateTs(row.watchedOn);
+          if (ts) events.push({ type: 'movie_watched', ts, content: ref, title: t.title, genres: t.genre_ids });
+        }
+      }
+      if (row.rating != null) {
+        // Keep the most recent rating when several files rate the same title
+        const on = row.loggedOn || row.watchedOn;
+        const prev = ratings.get(key);
+        if (!prev || (on || '') >= (prev.on || '')) ratings.set(key, { ref, title: t, rating: row.rating, on });
+      }
+    }
+  }
+
+  // The diary already puts these films in history when they are in it
+  const inDiary = new Set([...existingWatches].map(k => k.split('|')[0]));
+  for (const [key, { ref, title, on }] of watchedOnly) {
+    const ts = dateTs(on);
+    if (ts && !inDiary.has(key)) events.push({ type: 'movie_watched', ts, content: ref, title: title.title, genres: title.genre_ids });
+  }
+
+  for (const { ref, title, rating, on } of ratings.values()) {
+    const ts = dateTs(on);
+    if (ts) events.push({ type: 'movie_rated', ts, content: ref, title: title.title, genres: title.genre_ids, rating });
+  }
+
+  for (const part of chunk(watches, WRITE_CHUNK)) await logWatches(userId, part);
+  for (const part of chunk([...ratings.values()], WRITE_CHUNK)) {
+    const { error } = await supabase
+      .from('user_ratings')
+      .upsert(
+        part.map(r => ({ user_id: userId, movie_id: r.ref.id, content_type: r.ref.kind, rating: r.rating })),
+        // Ratings changed in the app since the first import win
+        { onConflict: 'user_id,movie_id,content_type', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  }
+  for (const part of chunk([...watchlist.values()], WRITE_CHUNK)) {
+    await addManyToLibrary('user_watchlist', userId, part, { status: 'plan_to_watch' });
+  }
+  const history = await importHistoryEvents(events);
+
+  return { watches: watches.length, ratings: ratings.size, watchlist: watchlist.size, history };
+};
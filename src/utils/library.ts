@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+import { contentKey, fromRow, toRow, type ContentRef } from '@/lib/content';
+
+// Favorites and watchlist share one shape: a row per (user, title, kind).
+export type LibraryList = 'user_favorites' | 'user_watchlist';
+
+// Content keys (see contentKey) of everything in the list
+export const fetchLibraryKeys = async (list: LibraryList, userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from(list)
+    .select('movie_id, content_type')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return new Set((data || []).map(row => contentKey(fromRow(row))));
+};
+
+export const fetchLibrary = async (list: LibraryList, userId: string): Promise<ContentRef[]> => {
+  const { data, error } = await supabase
+    .from(list)
+    .select('movie_id, content_type')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const isInLibrary = async (list: LibraryList, userId: string, ref: ContentRef) => {
+  const { movie_id, content_type } = toRow(ref);
+  const { data } = await supabase
+    .from(list)
+    .select('id')
+    .eq('user_id', userId)
+    .eq('movie_id', movie_id)
+    .eq('content_type', content_type)
+    .maybeSingle();
+  return !!data;
+};
+
+// `extra` carries list-specific columns such as the watchlist status
+export const addToLibrary = async (
+  list: LibraryList,
+  userId: string,
+  ref: ContentRef,
+  extra: Record<string, unknown> = {}
+) => {
+  const { error } = await supabase
+    .from(list)
+    .upsert({ ...extra, user_id: userId, ...toRow(ref) }, { onConflict: 'user_id,movie_id,content_type' });
+  if (error) throw error;
+};
+
+// Bulk variant for imports; rows already in the list are left as they are
+export const addManyToLibrary = async (
+  list: LibraryList,
+  userId: string,
+  refs: ContentRef[],
+  extra: Record<string, unknown> = {}
+) => {
+  if (refs.length === 0) return;
+  const rows = refs.map(ref => ({ ...extra, user_id: userId, ...toRow(ref) }));
+  const { error } = await supabase
+    .from(list)
+    .upsert(rows, { onConflict: 'user_id,movie_id,content_type', ignoreDuplicates: true });
+  if (error) throw error;
+};
+
+export const removeFromLibrary = async (list: LibraryList, userId: string, ref: ContentRef) => {
+  const { movie_id, content_type } = toRow(ref);
+  const { error } = await supabase
+    .from(list)
+    .delete()
+    .eq('user_id', userId)
+    .eq('movie_id', movie_id)
+    .eq('content_type', content_type);
+  if (error) throw error;
+};
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import type { SupabaseMock } from "@/test/supabaseMock";
+import { OfflineSyncManager, offlineSyncManager } from "./offlineSync";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseMock } = await import("@/test/supabaseMock");
+  return { supabase: createSupabaseMock() };
+});
+
+const db = supabase as unknown as SupabaseMock;
+const QUEUE_KEY = "cineflix_sync_queue";
+
+const setOnline = (online: boolean) => {
+  Object.defineProperty(navigator, "onLine", { value: online, configurable: true });
+};
+
+const storedQueue = () => JSON.parse(localStorage.getItem(QUEUE_KEY) || "[]");
+
+const comment = { type: "comment" as const, userId: "user-1", payload: { videoId: "v1", content: "Great" } };
+
+let managers: OfflineSyncManager[] = [];
+const createManager = () => {
+  const m = new OfflineSyncManager();
+  managers.push(m);
+  return m;
+};
+
+beforeEach(() => {
+  db.reset();
+  setOnline(true);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  managers.forEach(m => m.destroy());
+  managers = [];
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+// The module-level singleton would otherwise react to the events tests dispatch
+offlineSyncManager.destroy();
+
+describe("OfflineSyncManager", () => {
+  it("syncs a new action right away when online", async () => {
+    const m = createManager();
+    m.addAction(comment);
+
+    await vi.waitFor(() => expect(db.rows("video_comments")).toHaveLength(1));
+    expect(db.rows("video_comments")[0]).toMatchObject({ video_id: "v1", user_id: "user-1", content: "Great" });
+    expect(m.getPendingCount()).toBe(0);
+    expect(storedQueue()[0].status).toBe("synced");
+  });
+
+  it("queues while offline and flushes when the browser comes back online", async () => {
+    setOnline(false);
+    const m = createManager();
+    m.addAction(comment);
+    expect(m.getPendingCount()).toBe(1);
+    expect(db.calls).toHaveLength(0);
+
+    setOnline(true);
+    window.dispatchEvent(new Event("online"));
+    await vi.waitFor(() => expect(db.rows("video_comments")).toHaveLength(1));
+    expect(m.getPendingCount()).toBe(0);
+  });
+
+  it("retries a failing action and gives up after three attempts", async () => {
+    setOnline(false);
+    const m = createManager();
+    m.addAction(comment);
+    db.failNext("video_comments");
+    db.failNext("video_comments");
+    db.failNext("video_comments");
+
+    await m.syncPendingActions();
+    expect(storedQueue()[0]).toMatchObject({ status: "pending", retryCount: 1 });
+    await m.syncPendingActions();
+    expect(storedQueue()[0]).toMatchObject({ status: "pending", retryCount: 2 });
+    await m.syncPendingActions();
+    expect(storedQueue()[0]).toMatchObject({ status: "failed", retryCount: 3 });
+    expect(m.getFailedCount()).toBe(1);
+    expect(m.getPendingCount()).toBe(0);
+  });
+
+  it("resets failed actions on retry and syncs them", async () => {
+    setOnline(false);
+    const m = createManager();
+    for (let i = 0; i < 3; i++) db.failNext("video_comments");
+    m.addAction(comment);
+    for (let i = 0; i < 3; i++) await m.syncPendingActions();
+    expect(m.getFailedCount()).toBe(1);
+
+    setOnline(true);
+    window.dispatchEvent(new Event("online"));
+    m.retryFailedActions();
+    await vi.waitFor(() => expect(db.rows("video_comments")).toHaveLength(1));
+    expect(m.getFailedCount()).toBe(0);
+  });
+
+  it("drops failed actions on clear", async () => {
+    setOnline(false);
+    const m = createManager();
+    for (let i = 0; i < 3; i++) db.failNext("video_comments");
+    m.addAction(comment);
+    for (let i = 0; i < 3; i++) await m.syncPendingActions();
+
+    m.clearFailedActions();
+    expect(m.getFailedCount()).toBe(0);
+    expect(storedQueue()).toEqual([]);
+  });
+
+  it("cleans up synced actions older than an hour", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.UTC(2025, 0, 1, 12));
+    setOnline(false);
+    const m = createManager();
+    m.addAction(comment);
+    await m.syncPendingActions();
+    expect(storedQueue()).toHaveLength(1);
+
+    vi.setSystemTime(Date.UTC(2025, 0, 1, 13, 1));
+    m.addAction({ ...comment, payload: { videoId: "v2", content: "Again" } });
+    await m.syncPendingActions();
+    const queue = storedQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload.videoId).toBe("v2");
+  });
+
+  it("restores its queue from storage", () => {
+    setOnline(false);
+    createManager().addAction(comment);
+
+    const restored = createManager();
+    expect(restored.getPendingCount()).toBe(1);
+  });
+
+  it("syncs favorites through the library helpers", async () => {
+    const m = createManager();
+    m.addAction({ type: "favorite", userId: "user-1", payload: { movieId: 42, isFavorite: true } });
+    await vi.waitFor(() => expect(db.rows("user_favorites")).toHaveLength(1));
+    expect(db.rows("user_favorites")[0]).toMatchObject({ user_id: "user-1", movie_id: "42", content_type: "movie" });
+
+    m.addAction({ type: "favorite", userId: "user-1", payload: { movieId: 42, isFavorite: false } });
+    await vi.waitFor(() => expect(db.rows("user_favorites")).toHaveLength(0));
+  });
+});
@@ -1,4 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
+import { contentRef, type ContentRef } from '@/lib/content';
+import { addToLibrary, removeFromLibrary } from '@/utils/library';
 
 export interface OfflineAction {
   id: string;
@@ -15,6 +17,19 @@ export class OfflineSyncManager {
   private queue: OfflineAction[] = [];
   private isOnline = navigator.onLine;
   private syncInterval: number | null = null;
+  private handleOnline = () => {
+    this.isOnline = true;
+    this.syncPendingActions();
+  };
+  private handleOffline = () => {
+    this.isOnline = false;
+  };
+  // Sync when page becomes visible (user returns to tab)
+  private handleVisibility = () => {
+    if (!document.hidden && this.isOnline) {
+      this.syncPendingActions();
+    }
+  };
 
   static getInstance(): OfflineSyncManager {
     if (!OfflineSyncManager.instance) {
@@ -30,21 +45,9 @@ export class OfflineSyncManager {
   }
 
   private setupEventListeners() {
-    window.addEventListener('online', () => {
-      this.isOnline = true;
-      this.syncPendingActions();
-    });
-
-    window.addEventListener('offline', () => {
-      this.isOnline = false;
-    });
-
-    // Sync when page becomes visible (user returns to tab)
-    document.addEventListener('visibilitychange', () => {
-      if (!document.hidden && this.isOnline) {
-        this.syncPendingActions();
-      }
-    });
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    document.addEventListener('visibilitychange', this.handleVisibility);
   }
 
   private startSyncInterval() {
@@ -202,23 +205,14 @@ export class OfflineSyncManager {
   }
 
   private async syncFavorite(action: OfflineAction) {
-    const { movieId, isFavorite } = action.payload;
+    const { content, movieId, isFavorite } = action.payload;
+    // Actions queued before TV support only carry a movie id
+    const ref: ContentRef = content ?? contentRef('movie', movieId);
     
     if (isFavorite) {
-      const { error } = await supabase
-        .from('user_favorites')
-        .insert({
-          movie_id: movieId,
-          user_id: action.userId
-        });
-      if (error) throw error;
+      await addToLibrary('user_favorites', action.userId, ref);
     } else {
-      const { error } = await supabase
-        .from('user_favorites')
-        .delete()
-        .eq('movie_id', movieId)
-        .eq('user_id', action.userId);
-      if (error) throw error;
+      await removeFromLibrary('user_favorites', action.userId, ref);
     }
   }
 
@@ -269,6 +263,9 @@ export class OfflineSyncManager {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
     }
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    document.removeEventListener('visibilitychange', this.handleVisibility);
   }
 }
 
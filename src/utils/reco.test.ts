@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { contentRef } from "@/lib/content";
+import { summarize, type HistoryEvent } from "./history";
+import { explainCandidates, rankCandidates, scoreCandidates, type Candidate } from "./reco";
+import { DEFAULT_RECO_CONFIG } from "./recoConfig";
+
+const NOW = Date.UTC(2025, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const title = (id: number, extra: Partial<Candidate> = {}): Candidate => ({
+  id,
+  media_type: "movie",
+  title: `Title ${id}`,
+  genre_ids: [18],
+  vote_average: 7,
+  popularity: 50,
+  release_date: "2015-06-01",
+  ...extra,
+});
+
+const history = (events: HistoryEvent[] = []) => summarize(events);
+const ids = (list: Candidate[]) => list.map(c => c.id);
+const score = (cands: Candidate[], events: HistoryEvent[], id: number) =>
+  scoreCandidates(cands, history(events), DEFAULT_RECO_CONFIG).find(s => s.item.id === id)?.score ?? NaN;
+
+describe("rankCandidates", () => {
+  it("returns a permutation of its input without feedback", () => {
+    const cands = [1, 2, 3, 4, 5].map(id => title(id, { vote_average: id }));
+    const ranked = rankCandidates(cands, history(), DEFAULT_RECO_CONFIG);
+    expect([...ids(ranked)].sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("ranks better-rated titles first when nothing else differs", () => {
+    const cands = [title(1, { vote_average: 6 }), title(2, { vote_average: 8 })];
+    expect(ids(rankCandidates(cands, history(), DEFAULT_RECO_CONFIG))).toEqual([2, 1]);
+  });
+
+  it("is deterministic", () => {
+    const cands = [1, 2, 3].map(id => title(id, { genre_ids: [id] }));
+    const events: HistoryEvent[] = [{ type: "movie_open", ts: NOW - DAY, content: contentRef("movie", 9), genres: [1] }];
+    expect(rankCandidates(cands, history(events), DEFAULT_RECO_CONFIG)).toEqual(rankCandidates(cands, history(events), DEFAULT_RECO_CONFIG));
+  });
+
+  it("drops titles marked not interested and hidden genres", () => {
+    const cands = [title(1), title(2, { genre_ids: [27] }), title(3)];
+    const events: HistoryEvent[] = [
+      { type: "not_interested", ts: NOW, content: contentRef("movie", 1) },
+      { type: "hide_genre", ts: NOW, genres: [27], title: "Horror" },
+    ];
+    expect(ids(rankCandidates(cands, history(events), DEFAULT_RECO_CONFIG))).toEqual([3]);
+  });
+
+  it("keeps the same id of the other kind when one is hidden", () => {
+    const cands = [title(1), title(1, { media_type: "tv" })];
+    const events: HistoryEvent[] = [{ type: "not_interested", ts: NOW, content: contentRef("movie", 1) }];
+    expect(rankCandidates(cands, history(events), DEFAULT_RECO_CONFIG).map(c => c.media_type)).toEqual(["tv"]);
+  });
+
+  it("down-weights titles like a show-fewer one", () => {
+    const cands = [title(1, { genre_ids: [35] }), title(2, { genre_ids: [99] })];
+    const fewer: HistoryEvent[] = [{ type: "show_fewer", ts: NOW, content: contentRef("movie", 50), genres: [35] }];
+    expect(score(cands, fewer, 1)).toBeLessThan(score(cands, [], 1));
+    expect(score(cands, fewer, 2)).toBeCloseTo(score(cands, [], 2));
+  });
+
+  it("penalizes recently seen titles less as time passes", () => {
+    const cands = [title(1)];
+    const seen = (daysAgo: number): HistoryEvent[] => [{ type: "movie_open", ts: Date.now() - daysAgo * DAY, content: contentRef("movie", 1), genres: [99] }];
+    expect(score(cands, seen(1), 1)).toBeLessThan(score(cands, seen(10), 1));
+    expect(score(cands, seen(10), 1)).toBeLessThan(score(cands, [], 1));
+  });
+
+  it("boosts titles matching frequent searches", () => {
+    const cands = [title(1, { title: "Dune" }), title(2, { title: "Heat" })];
+    const events: HistoryEvent[] = [{ type: "query", ts: NOW, query: "dune" }];
+    expect(ids(rankCandidates(cands, history(events), DEFAULT_RECO_CONFIG))).toEqual([1, 2]);
+  });
+
+  it("prefers classics or new releases per the era weight", () => {
+    const cands = [title(1, { release_date: "1975-01-01" }), title(2, { release_date: `${new Date().getFullYear()}-01-01` })];
+    expect(ids(rankCandidates(cands, history(), { ...DEFAULT_RECO_CONFIG, eraWeight: 1 }))).toEqual([1, 2]);
+    expect(ids(rankCandidates(cands, history(), { ...DEFAULT_RECO_CONFIG, eraWeight: -1 }))).toEqual([2, 1]);
+  });
+});
+
+describe("scoreCandidates", () => {
+  it("breaks every score down into its factors", () => {
+    const events: HistoryEvent[] = [
+      { type: "movie_open", ts: Date.now() - DAY, content: contentRef("movie", 1), title: "Title 1", genres: [18] },
+      { type: "show_fewer", ts: NOW, content: contentRef("movie", 7), genres: [18] },
+    ];
+    for (const s of scoreCandidates([title(1), title(2, { genre_ids: [18, 80] })], history(events), DEFAULT_RECO_CONFIG)) {
+      const sum = Object.values(s.breakdown).reduce((a, b) => a + b, 0);
+      expect(s.score).toBeCloseTo(sum);
+      for (const f of s.explanation.factors) expect(f.value).not.toBe(0);
+    }
+  });
+
+  it("names a recent similar title in the reason", () => {
+    const events: HistoryEvent[] = [{ type: "movie_watched", ts: NOW, content: contentRef("movie", 9), title: "Heat", genres: [80, 18] }];
+    const reasons = explainCandidates([title(1, { genre_ids: [80, 18] })], history(events), DEFAULT_RECO_CONFIG);
+    expect(reasons["movie:1"].reason).toBe("Because you watched Heat");
+  });
+});
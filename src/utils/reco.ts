@@ -1,11 +1,76 @@
-import type { HistoryState } from './history';
+import { isFeedbackEvent, lastSeenAt, readFeedback, type HistoryEvent, type HistoryState } from './history';
+import { contentKey, refOf } from '@/lib/content';
+import type { MediaKind } from '@/lib/tmdb';
+import { readRecoConfig, type RecoConfig } from './recoConfig';
 
 export type Candidate = {
   id: number;
+  // Untagged candidates are treated as movies
+  media_type?: MediaKind;
   title: string;
   genre_ids?: number[];
   vote_average?: number;
   popularity?: number;
+  release_date?: string | null;
+};
+
+// Signed contribution of each term to a candidate's score
+export type ScoreBreakdown = {
+  popularity: number;
+  genreNovelty: number;
+  recentSimilarity: number;
+  queryBoost: number;
+  seenPenalty: number;
+  fewerPenalty: number;
+  era: number;
+};
+
+// What a card shows: one short reason plus the factors behind it
+export type RecoExplanation = {
+  reason: string;
+  factors: Array<{ label: string; value: number }>;
+};
+
+export type ScoredCandidate<T> = {
+  item: T;
+  score: number;
+  breakdown: ScoreBreakdown;
+  explanation: RecoExplanation;
+};
+
+const FACTOR_LABELS: Record<keyof ScoreBreakdown, string> = {
+  popularity: 'Rating and popularity',
+  genreNovelty: 'Genre novelty',
+  recentSimilarity: 'Variety vs. recent activity',
+  queryBoost: 'Matches your searches',
+  seenPenalty: 'Seen recently',
+  fewerPenalty: 'You asked for fewer like this',
+  era: 'Release era',
+};
+
+const EVENT_VERBS: Partial<Record<HistoryEvent['type'], string>> = {
+  movie_open: 'opened',
+  trailer_play: 'watched the trailer for',
+  movie_watched: 'watched',
+  episode_watched: 'watched',
+  movie_rated: 'rated',
+};
+
+// A recent event this close in genres is named in the reason
+const REASON_SIMILARITY = 0.5;
+// Score taken off a candidate that matches a "show fewer" title exactly;
+// titles sharing genres with it lose a proportional part
+const FEWER_PENALTY = 0.8;
+// Titles this many years old or more count as fully "classic"
+const CLASSIC_AGE_YEARS = 30;
+// An era contribution this large is named in the reason
+const REASON_ERA = 0.3;
+
+// -1 for this year's releases up to 1 for classics; 0 when the date is unknown
+const eraScore = (releaseDate: string | null | undefined, year: number) => {
+  const released = Number(releaseDate?.slice(0, 4));
+  if (!released) return 0;
+  return Math.min(1, Math.max(0, (year - released) / CLASSIC_AGE_YEARS)) * 2 - 1;
 };
 
 const jaccard = (a: number[] = [], b: number[] = []) => {
@@ -16,8 +81,64 @@ const jaccard = (a: number[] = [], b: number[] = []) => {
   return inter / uni;
 };
 
-export const rankCandidates = (cands: Candidate[], history: HistoryState) => {
-  const seen = history.seenMovieIds || {};
+const explain = (
+  m: Candidate,
+  breakdown: ScoreBreakdown,
+  last: HistoryEvent[],
+  topQueries: string[],
+  genreCounts: Record<string, number>,
+  year: number
+): RecoExplanation => {
+  const factors = (Object.keys(FACTOR_LABELS) as Array<keyof ScoreBreakdown>)
+    .filter(k => breakdown[k] !== 0)
+    .map(k => ({ label: FACTOR_LABELS[k], value: breakdown[k] }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  const ownKey = contentKey(refOf(m));
+  const closest = last
+    .filter(e => e.title && EVENT_VERBS[e.type] && (!e.content || contentKey(e.content) !== ownKey))
+    .map(e => ({ e, sim: jaccard(m.genre_ids, e.genres || []) }))
+    .sort((a, b) => b.sim - a.sim || b.e.ts - a.e.ts)[0];
+
+  let reason: string;
+  if (closest && closest.sim >= REASON_SIMILARITY) {
+    reason = `Because you ${EVENT_VERBS[closest.e.type]} ${closest.e.title}`;
+  } else if (breakdown.queryBoost > 0) {
+    const q = topQueries.find(q => m.title?.toLowerCase().includes(q));
+    reason = `Matches your search "${q}"`;
+  } else if (
+    Object.keys(genreCounts).length > 0 &&
+    (m.genre_ids || []).some(g => !genreCounts[String(g)])
+  ) {
+    reason = 'New genre for you';
+  } else if (breakdown.seenPenalty < 0) {
+    reason = 'You looked at this recently';
+  } else if (breakdown.era >= REASON_ERA) {
+    reason = eraScore(m.release_date, year) > 0 ? 'A classic pick' : 'New release';
+  } else {
+    reason = (m.vote_average || 0) >= 7.5 ? 'Highly rated' : 'Popular right now';
+  }
+  return { reason, factors };
+};
+
+// "Not interested" titles and hidden genres never come back
+export const withoutHidden = <T extends Candidate>(cands: T[], history: HistoryState): T[] => {
+  const { hidden, hiddenGenres } = readFeedback(history);
+  return cands.filter(m =>
+    !hidden.has(contentKey(refOf(m))) && !(m.genre_ids || []).some(g => hiddenGenres.has(g))
+  );
+};
+
+export const scoreCandidates = <T extends Candidate>(
+  cands: T[],
+  history: HistoryState,
+  config: RecoConfig = readRecoConfig()
+): ScoredCandidate<T>[] => {
+  const feedback = readFeedback(history);
+  const visible = withoutHidden(cands, history);
+  // Only positive interactions describe taste
+  const events = history.events.filter(e => !isFeedbackEvent(e));
+
   const topQueries = Object.entries(history.queryCounts || {})
     .sort((a,b) => b[1]-a[1])
     .slice(0, 5)
@@ -25,7 +146,7 @@ export const rankCandidates = (cands: Candidate[], history: HistoryState) => {
 
   // genre preferences from events
   const genreCounts: Record<string, number> = {};
-  for (const e of history.events) {
+  for (const e of events) {
     if (e.genres) for (const g of e.genres) genreCounts[String(g)] = (genreCounts[String(g)] || 0) + 1;
   }
   const totalGenre = Object.values(genreCounts).reduce((a,b)=>a+b,0) || 1;
@@ -40,28 +161,54 @@ export const rankCandidates = (cands: Candidate[], history: HistoryState) => {
       // Encourage diversity: use 1 - freq but keep floor
       w += Math.max(0.15, 1 - freq);
     }
-    return w / gids.length;
+    return (w / gids.length) * config.noveltyWeight;
   };
 
   const timeNow = Date.now();
+  const year = new Date(timeNow).getFullYear();
+  const last = events.slice(-10);
 
-  const scored = cands.map((m) => {
-    const base = (m.vote_average || 0) * 0.4 + (Math.log((m.popularity || 1) + 1)) * 0.15;
+  const scored = visible.map((m) => {
+    const base = (m.vote_average || 0) * config.voteWeight + (Math.log((m.popularity || 1) + 1)) * config.popularityWeight;
     const novelty = genreWeight(m.genre_ids);
-    const seenPenalty = seen[String(m.id)] ? Math.max(0.2, 1 - (timeNow - seen[String(m.id)]) / (14*24*3600*1000)) : 0; // penalize items seen recently (2 weeks decay)
+    const seenAt = lastSeenAt(history, refOf(m));
+    const seenPenalty = seenAt ? Math.max(0.2, 1 - (timeNow - seenAt) / (config.seenDecayDays*24*3600*1000)) : 0; // penalize items seen recently
 
     const queryBoost = topQueries.some(q => m.title?.toLowerCase().includes(q)) ? 0.2 : 0;
 
     // Similarity to last 10 items but with repulsion to avoid loops
-    const last = history.events.slice(-10);
     const sim = last.reduce((acc, e) => acc + jaccard(m.genre_ids, e.genres || []), 0) / Math.max(1, last.length);
-    const diversity = 0.25 * (1 - sim);
+    const diversity = config.diversityWeight * (1 - sim);
+
+    const ownKey = contentKey(refOf(m));
+    const fewer = feedback.fewer.reduce((acc, e) =>
+      Math.max(acc, e.content && contentKey(e.content) === ownKey ? 1 : jaccard(m.genre_ids, e.genres || [])), 0);
 
-    const score = base + novelty + diversity + queryBoost - 0.5 * seenPenalty;
-    return { m, score };
+    const era = config.eraWeight * eraScore(m.release_date, year);
+
+    const breakdown: ScoreBreakdown = {
+      popularity: base,
+      genreNovelty: novelty,
+      recentSimilarity: diversity,
+      queryBoost,
+      seenPenalty: -config.seenPenalty * seenPenalty,
+      fewerPenalty: -FEWER_PENALTY * fewer,
+      era,
+    };
+    const score = Object.values(breakdown).reduce((a, b) => a + b, 0);
+    return { item: m, score, breakdown, explanation: explain(m, breakdown, last, topQueries, genreCounts, year) };
   });
 
-  return scored
-    .sort((a,b) => b.score - a.score)
-    .map(({ m }) => m);
+  return scored.sort((a,b) => b.score - a.score);
 };
+
+export const rankCandidates = <T extends Candidate>(cands: T[], history: HistoryState, config?: RecoConfig): T[] =>
+  scoreCandidates(cands, history, config).map(({ item }) => item);
+
+// Explanations keyed by contentKey, for lists that are already ordered
+export const explainCandidates = <T extends Candidate>(
+  cands: T[],
+  history: HistoryState,
+  config?: RecoConfig
+): Record<string, RecoExplanation> =>
+  Object.fromEntries(scoreCandidates(cands, history, config).map(s => [contentKey(refOf(s.item)), s.explanation]));
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+// Weights used by the local ranker in utils/reco. Local-first like history:
+// the config lives in localStorage so ranking stays synchronous, and is
+// mirrored to `user_preferences.reco_config` for signed-in users.
+
+export type RecoConfig = {
+  // Per point of TMDB vote average (0..10)
+  voteWeight: number;
+  // Per unit of log(popularity)
+  popularityWeight: number;
+  // Multiplier on the genre novelty term (1 - share of the genre in history)
+  noveltyWeight: number;
+  // Bonus for differing from the last few titles in genres
+  diversityWeight: number;
+  // Score taken off a title seen just now; fades over seenDecayDays
+  seenPenalty: number;
+  seenDecayDays: number;
+  // Positive favors older titles, negative favors new releases
+  eraWeight: number;
+};
+
+// The three Settings sliders, each -1..1 with 0 at the defaults
+export type RecoTuning = {
+  // Familiar (-1) <-> Adventurous (1)
+  adventurous: number;
+  // Popular (-1) <-> Hidden gems (1)
+  hiddenGems: number;
+  // Recent (-1) <-> Classic (1)
+  classic: number;
+};
+
+export const DEFAULT_RECO_CONFIG: RecoConfig = {
+  voteWeight: 0.4,
+  popularityWeight: 0.15,
+  noveltyWeight: 1,
+  diversityWeight: 0.25,
+  seenPenalty: 0.5,
+  seenDecayDays: 14,
+  eraWeight: 0,
+};
+
+export const NEUTRAL_TUNING: RecoTuning = { adventurous: 0, hiddenGems: 0, classic: 0 };
+
+const KEY = 'cinepulse_reco_config_v1';
+const TABLE = 'user_preferences';
+export const RECO_CONFIG_CHANGED_EVENT = 'cinepulse_reco_config_changed';
+
+const clamp = (n: number) => Math.max(-1, Math.min(1, n));
+
+// Each slider moves a few weights linearly, so tuningOf can invert it
+export const tuneRecoConfig = (t: RecoTuning): RecoConfig => {
+  const a = clamp(t.adventurous);
+  const h = clamp(t.hiddenGems);
+  const c = clamp(t.classic);
+  return {
+    ...DEFAULT_RECO_CONFIG,
+    noveltyWeight: DEFAULT_RECO_CONFIG.noveltyWeight + 0.6 * a,
+    diversityWeight: DEFAULT_RECO_CONFIG.diversityWeight + 0.2 * a,
+    // Familiar keeps recently seen titles around, adventurous moves on
+    seenPenalty: DEFAULT_RECO_CONFIG.seenPenalty + 0.3 * a,
+    // Hidden gems lean on ratings and turn popularity into a small penalty
+    voteWeight: DEFAULT_RECO_CONFIG.voteWeight + 0.1 * h,
+    popularityWeight: DEFAULT_RECO_CONFIG.popularityWeight - 0.25 * h,
+    eraWeight: 0.6 * c,
+  };
+};
+
+export const tuningOf = (config: RecoConfig): RecoTuning => ({
+  adventurous: clamp((config.diversityWeight - DEFAULT_RECO_CONFIG.diversityWeight) / 0.2),
+  hiddenGems: clamp((DEFAULT_RECO_CONFIG.popularityWeight - config.popularityWeight) / 0.25),
+  classic: clamp(config.eraWeight / 0.6),
+});
+
+const configSchema = z.object({
+  voteWeight: z.number(),
+  popularityWeight: z.number(),
+  noveltyWeight: z.number(),
+  diversityWeight: z.number(),
+  seenPenalty: z.number(),
+  seenDecayDays: z.number().positive(),
+  eraWeight: z.number(),
+}).partial();
+
+// Unknown or missing fields fall back to the defaults
+export const parseRecoConfig = (raw: unknown): RecoConfig => {
+  const parsed = configSchema.safeParse(raw);
+  return { ...DEFAULT_RECO_CONFIG, ...(parsed.success ? parsed.data : {}) };
+};
+
+export const readRecoConfig = (): RecoConfig => {
+  try {
+    const raw = localStorage.getItem(KEY);
+    return parseRecoConfig(raw ? JSON.parse(raw) : null);
+  } catch {
+    return DEFAULT_RECO_CONFIG;
+  }
+};
+
+const writeRecoConfig = (config: RecoConfig) => {
+  try {
+    localStorage.setItem(KEY, JSON.stringify(config));
+    window.dispatchEvent(new Event(RECO_CONFIG_CHANGED_EVENT));
+  } catch {
+    // Storage unavailable (private mode or quota); defaults apply
+  }
+};
+
+export const saveRecoConfig = async (userId: string | null, config: RecoConfig) => {
+  writeRecoConfig(config);
+  if (!userId) return;
+  const { error } = await supabase
+    .from(TABLE)
+    .upsert({ user_id: userId, reco_config: config as unknown as Json }, { onConflict: 'user_id' });
+  if (error) throw error;
+};
+
+// Replace the local copy with the account's saved config, if it has one
+export const hydrateRecoConfigFromSupabase = async (userId: string) => {
+  const { data, error } = await supabase.from(TABLE).select('reco_config').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  if (data?.reco_config) writeRecoConfig(parseRecoConfig(data.reco_config));
+};
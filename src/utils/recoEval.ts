@@ -0,0 +1,220 @@
+import { contentKey, refOf } from '@/lib/content';
+import { fromActivityRow, summarize, type ActivityRow, type HistoryEvent, type HistoryState } from './history';
+import { rankCandidates, type Candidate } from './reco';
+import { DEFAULT_RECO_CONFIG, NEUTRAL_TUNING, tuneRecoConfig } from './recoConfig';
+
+// Offline evaluation for the local ranker. Each user's most recent strong
+// interactions are held out, everything before them is replayed as history,
+// and every ranker is scored on how well its top k recovers the held-out
+// titles. Runs under Node via scripts/reco-eval.mjs; nothing here touches the
+// network or browser storage.
+
+export type EvalUser = { id: string; history: HistoryState };
+
+export type EvalFixture = {
+  // Clock the fixture was recorded at; rankers see it as "now"
+  now: number;
+  catalog: Candidate[];
+  users: EvalUser[];
+};
+
+export type Ranker = (cands: Candidate[], history: HistoryState) => Candidate[];
+
+export type EvalOptions = {
+  k?: number;
+  // Titles held out per user
+  holdout?: number;
+};
+
+export type EvalMetrics = {
+  precision: number;
+  recall: number;
+  ndcg: number;
+  // Share of the catalog that appears in anyone's top k
+  coverage: number;
+  // Mean pairwise genre distance inside a top k list
+  diversity: number;
+  // Users with enough history to evaluate
+  users: number;
+};
+
+export type EvalResult = { name: string; metrics: EvalMetrics };
+
+const DEFAULT_K = 10;
+
+// Interactions that show the user actually wanted the title
+const isStrong = (e: HistoryEvent) =>
+  !!e.content &&
+  (e.type === 'movie_watched' || e.type === 'episode_watched' || (e.type === 'movie_rated' && (e.rating ?? 0) >= 4));
+
+type Split = { history: HistoryState; relevant: Set<string> };
+
+// Leave-last-out: the last `holdout` distinct strongly liked titles become
+// the targets, and history is cut before the first event touching any of
+// them, so opening a title before watching it does not leak the answer
+export const leaveLastOut = (history: HistoryState, holdout = 1): Split | null => {
+  const events = [...history.events].sort((a, b) => a.ts - b.ts);
+  const relevant = new Set<string>();
+  for (let i = events.length - 1; i >= 0 && relevant.size < holdout; i--) {
+    if (isStrong(events[i])) relevant.add(contentKey(events[i].content!));
+  }
+  if (relevant.size < holdout) return null;
+  const splitAt = events.findIndex(e => e.content && relevant.has(contentKey(e.content)));
+  const train = events.slice(0, splitAt);
+  return train.length > 0 ? { history: summarize(train), relevant } : null;
+};
+
+const genreDistance = (a: number[] = [], b: number[] = []) => {
+  const union = new Set([...a, ...b]).size;
+  if (union === 0) return 0;
+  return 1 - a.filter(g => b.includes(g)).length / union;
+};
+
+export const intraListDiversity = (list: Candidate[]) => {
+  let sum = 0;
+  let pairs = 0;
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      sum += genreDistance(list[i].genre_ids, list[j].genre_ids);
+      pairs += 1;
+    }
+  }
+  return pairs ? sum / pairs : 0;
+};
+
+const dcg = (hits: boolean[]) => hits.reduce((acc, hit, i) => acc + (hit ? 1 / Math.log2(i + 2) : 0), 0);
+
+export const ndcgAt = (ranked: string[], relevant: Set<string>, k: number) => {
+  const ideal = dcg(Array.from({ length: Math.min(k, relevant.size) }, () => true));
+  return ideal ? dcg(ranked.slice(0, k).map(key => relevant.has(key))) / ideal : 0;
+};
+
+// Date.now() is what the ranker uses for recency, so pin it to the fixture
+const withClock = <T>(now: number, fn: () => T): T => {
+  const realNow = Date.now;
+  Date.now = () => now;
+  try {
+    return fn();
+  } finally {
+    Date.now = realNow;
+  }
+};
+
+export const evaluate = (fixture: EvalFixture, rankers: Record<string, Ranker>, opts: EvalOptions = {}): EvalResult[] => {
+  const k = opts.k ?? DEFAULT_K;
+  const splits = fixture.users
+    .map(u => leaveLastOut(u.history, opts.holdout ?? 1))
+    .filter((s): s is Split => s !== null);
+
+  return withClock(fixture.now, () =>
+    Object.entries(rankers).map(([name, rank]) => {
+      let precision = 0;
+      let recall = 0;
+      let ndcg = 0;
+      let diversity = 0;
+      const shown = new Set<string>();
+      for (const split of splits) {
+        // Titles already in the replayed history are not candidates
+        const known = new Set(split.history.events.filter(e => e.content).map(e => contentKey(e.content!)));
+        const cands = fixture.catalog.filter(c => !known.has(contentKey(refOf(c))));
+        const top = rank(cands, split.history).slice(0, k);
+        const keys = top.map(c => contentKey(refOf(c)));
+        const hits = keys.filter(key => split.relevant.has(key)).length;
+        precision += hits / k;
+        recall += hits / split.relevant.size;
+        ndcg += ndcgAt(keys, split.relevant, k);
+        diversity += intraListDiversity(top);
+        keys.forEach(key => shown.add(key));
+      }
+      const n = splits.length || 1;
+      return {
+        name,
+        metrics: {
+          precision: precision / n,
+          recall: recall / n,
+          ndcg: ndcg / n,
+          coverage: fixture.catalog.length ? shown.size / fixture.catalog.length : 0,
+          diversity: diversity / n,
+          users: splits.length,
+        },
+      };
+    })
+  );
+};
+
+// Small seeded PRNG (mulberry32) so baselines and fixtures are reproducible
+export const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// The shipped ranker at its defaults, at the slider extremes, and two baselines
+export const standardRankers = (seed = 1): Record<string, Ranker> => {
+  const random = seededRandom(seed);
+  return {
+    rankCandidates: (c, h) => rankCandidates(c, h, DEFAULT_RECO_CONFIG),
+    adventurous: (c, h) => rankCandidates(c, h, tuneRecoConfig({ ...NEUTRAL_TUNING, adventurous: 1 })),
+    familiar: (c, h) => rankCandidates(c, h, tuneRecoConfig({ ...NEUTRAL_TUNING, adventurous: -1 })),
+    hiddenGems: (c, h) => rankCandidates(c, h, tuneRecoConfig({ ...NEUTRAL_TUNING, hiddenGems: 1 })),
+    popularity: c => [...c].sort((a, b) => (b.popularity || 0) - (a.popularity || 0)),
+    random: c => c.map(x => ({ x, r: random() })).sort((a, b) => a.r - b.r).map(({ x }) => x),
+  };
+};
+
+// Build a fixture from exported `user_activity` rows. Titles and genres come
+// from the rows; popularity is the number of users who touched a title.
+export const fixtureFromActivity = (rows: Array<ActivityRow & { user_id: string }>): EvalFixture => {
+  const byUser = new Map<string, HistoryEvent[]>();
+  const catalog = new Map<string, Candidate>();
+  const audience = new Map<string, Set<string>>();
+  let now = 0;
+  for (const row of rows) {
+    const e = fromActivityRow(row);
+    const events = byUser.get(row.user_id) || [];
+    events.push(e);
+    byUser.set(row.user_id, events);
+    now = Math.max(now, e.ts);
+    if (!e.content) continue;
+    const key = contentKey(e.content);
+    audience.set(key, (audience.get(key) || new Set<string>()).add(row.user_id));
+    const known = catalog.get(key);
+    if (!known || (!known.genre_ids?.length && e.genres?.length)) {
+      catalog.set(key, { id: e.content.id, media_type: e.content.kind, title: e.title || key, genre_ids: e.genres || [] });
+    }
+  }
+  return {
+    now: now || Date.now(),
+    catalog: [...catalog.entries()].map(([key, c]) => ({ ...c, popularity: audience.get(key)?.size || 0 })),
+    users: [...byUser.entries()].map(([id, events]) => ({ id, history: summarize(events.sort((a, b) => a.ts - b.ts)) })),
+  };
+};
+
+// Accepts a fixture whose histories may be raw `cinepulse_history_v1` values
+export const normalizeFixture = (raw: EvalFixture): EvalFixture => ({
+  ...raw,
+  users: raw.users.map(u => ({ id: u.id, history: summarize(u.history.events || []) })),
+});
+
+const pct = (n: number) => n.toFixed(4);
+
+export const formatTable = (results: EvalResult[], k = DEFAULT_K) => {
+  const header = ['ranker', `P@${k}`, `R@${k}`, `NDCG@${k}`, 'coverage', 'diversity', 'users'];
+  const rows = results.map(({ name, metrics: m }) => [
+    name,
+    pct(m.precision),
+    pct(m.recall),
+    pct(m.ndcg),
+    pct(m.coverage),
+    pct(m.diversity),
+    String(m.users),
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+  return [line(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+};
@@ -0,0 +1,103 @@
+import { refOf } from '@/lib/content';
+import { summarize, type HistoryEvent } from './history';
+import type { Candidate } from './reco';
+import { seededRandom, type EvalFixture } from './recoEval';
+
+// Synthetic evaluation data: a catalog with TMDB-like genres, ratings,
+// popularity and release dates, and users whose histories follow a couple of
+// favourite genres. Same options, same fixture, with no network access.
+
+export type FixtureOptions = {
+  seed?: number;
+  users?: number;
+  titles?: number;
+  // Titles each user interacts with
+  titlesPerUser?: number;
+  // Clock the fixture is recorded at; events span the DAYS before it
+  now?: number;
+};
+
+const DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Share of the catalog that is TV
+const TV_SHARE = 0.2;
+
+const GENRES = [28, 12, 16, 35, 80, 99, 18, 10751, 14, 36, 27, 10402, 9648, 10749, 878, 53, 10752, 37];
+const WORDS = [
+  'Night', 'River', 'Shadow', 'Garden', 'Iron', 'Silent', 'Winter', 'Last', 'Golden', 'Broken',
+  'City', 'Storm', 'Empire', 'Echo', 'Signal', 'Harbor', 'Glass', 'Wild', 'Hidden', 'Red',
+];
+
+export const generateFixture = (opts: FixtureOptions = {}): EvalFixture => {
+  const {
+    seed = 42,
+    users = 100,
+    titles = 300,
+    titlesPerUser = 15,
+    now = Date.UTC(2025, 0, 1),
+  } = opts;
+  const rand = seededRandom(seed);
+  const pick = <T,>(list: T[]) => list[Math.floor(rand() * list.length)];
+  const nowYear = new Date(now).getUTCFullYear();
+
+  const catalog: Candidate[] = Array.from({ length: titles }, (_, i) => {
+    const genres = new Set([pick(GENRES)]);
+    while (genres.size < 3 && rand() < 0.5) genres.add(pick(GENRES));
+    const year = nowYear - Math.floor(Math.pow(rand(), 2) * 60);
+    return {
+      id: i + 1,
+      media_type: rand() < TV_SHARE ? 'tv' : 'movie',
+      title: `${pick(WORDS)} ${pick(WORDS)}`,
+      genre_ids: [...genres],
+      vote_average: Math.round((5 + rand() * 3.8) * 10) / 10,
+      // Long tail: a few blockbusters, many small titles
+      popularity: Math.round(Math.exp(rand() * 7) * 10) / 10,
+      release_date: `${year}-${String(1 + Math.floor(rand() * 12)).padStart(2, '0')}-15`,
+    };
+  });
+
+  const fixtureUsers = Array.from({ length: users }, (_, u) => {
+    const liked = new Set([pick(GENRES), pick(GENRES), pick(GENRES)]);
+    const affinity = (c: Candidate) => (c.genre_ids || []).filter(g => liked.has(g)).length;
+    // Taste-weighted sampling without replacement
+    const weights = catalog.map(c => (0.05 + affinity(c)) * Math.sqrt(c.popularity || 1));
+    const chosen: Candidate[] = [];
+    for (let n = 0; n < titlesPerUser; n++) {
+      const total = weights.reduce((a, b) => a + b, 0);
+      let r = rand() * total;
+      const idx = weights.findIndex(w => (r -= w) <= 0);
+      const at = idx < 0 ? weights.length - 1 : idx;
+      chosen.push(catalog[at]);
+      weights[at] = 0;
+    }
+
+    const events: HistoryEvent[] = [];
+    let ts = now - DAYS * DAY_MS;
+    const step = (DAYS * DAY_MS) / (titlesPerUser + 1);
+    for (const c of chosen) {
+      ts += step * (0.5 + rand());
+      const content = refOf(c);
+      const base = { content, title: c.title, genres: c.genre_ids };
+      if (rand() < 0.2) events.push({ type: 'query', ts: ts - 60_000, query: c.title.split(' ')[0].toLowerCase() });
+      events.push({ type: 'movie_open', ts, ...base });
+      if (rand() < 0.4) events.push({ type: 'trailer_play', ts: ts + 30_000, ...base });
+      const likes = affinity(c) > 0 || rand() < 0.2;
+      if (!likes && rand() < 0.3) {
+        events.push({ type: 'not_interested', ts: ts + 60_000, ...base });
+        continue;
+      }
+      if (rand() < 0.7) {
+        const type = content.kind === 'tv' ? 'episode_watched' : 'movie_watched';
+        events.push({ type, ts: ts + 3_600_000, ...base, ...(type === 'episode_watched' ? { episode: { season: 1, episode: 1 } } : {}) });
+      }
+      if (rand() < 0.4) {
+        const rating = likes ? 4 + Math.round(rand()) : 1 + Math.round(rand() * 2);
+        events.push({ type: 'movie_rated', ts: ts + 7_200_000, ...base, rating });
+      }
+    }
+    return { id: `user-${String(u + 1).padStart(3, '0')}`, history: summarize(events.sort((a, b) => a.ts - b.ts)) };
+  });
+
+  return { now, catalog, users: fixtureUsers };
+};
+
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { contentRef, type ContentRef } from '@/lib/content';
+import { normalizeTitle, type TmdbTitle } from '@/lib/tmdb';
+import type { RecoExplanation } from '@/utils/reco';
+
+// Client for the `recommendations` edge function: collaborative filtering
+// across all users blended with TMDB `similar`, computed server-side.
+
+export type RecommendationReason =
+  | { type: 'co_liked'; seed: ContentRef & { title: string | null }; users: number; score: number }
+  | { type: 'tmdb_similar'; seed: ContentRef & { title: string | null }; score: number };
+
+export type Recommendation = TmdbTitle & {
+  score: number;
+  sources: { collaborative: number; tmdb_similar: number };
+  reasons: RecommendationReason[];
+};
+
+export type RecommendationsResult = {
+  items: Recommendation[];
+  // No liked titles yet; callers fall back to popular content
+  coldStart: boolean;
+};
+
+const seedSchema = z.object({ kind: z.string(), id: z.number(), title: z.string().nullable() });
+
+const responseSchema = z.object({
+  items: z.array(
+    z.object({
+      title: z.unknown(),
+      score: z.number(),
+      sources: z.object({ collaborative: z.number(), tmdb_similar: z.number() }),
+      reasons: z.array(
+        z.discriminatedUnion('type', [
+          z.object({ type: z.literal('co_liked'), seed: seedSchema, users: z.number(), score: z.number() }),
+          z.object({ type: z.literal('tmdb_similar'), seed: seedSchema, score: z.number() }),
+        ])
+      ),
+    })
+  ),
+  cold_start: z.boolean(),
+});
+
+export const fetchRecommendations = async (
+  opts: { limit?: number; language?: string } = {}
+): Promise<RecommendationsResult> => {
+  const { data, error } = await supabase.functions.invoke('recommendations', { body: opts });
+  if (error) throw error;
+  const parsed = responseSchema.parse(data);
+  const items: Recommendation[] = [];
+  for (const item of parsed.items) {
+    const title = normalizeTitle(item.title);
+    if (!title) continue;
+    items.push({
+      ...title,
+      score: item.score,
+      sources: { collaborative: item.sources.collaborative, tmdb_similar: item.sources.tmdb_similar },
+      reasons: item.reasons.map((r): RecommendationReason => {
+        const seed = { ...contentRef(r.seed.kind as ContentRef['kind'], r.seed.id), title: r.seed.title };
+        return r.type === 'co_liked'
+          ? { type: 'co_liked', seed, users: r.users, score: r.score }
+          : { type: 'tmdb_similar', seed, score: r.score };
+      }),
+    });
+  }
+  return { items, coldStart: parsed.cold_start };
+};
+
+const reasonText = (reason: RecommendationReason) => {
+  const title = reason.seed.title || 'titles you like';
+  return reason.type === 'co_liked' ? `Popular with people who liked ${title}` : `Because you liked ${title}`;
+};
+
+// Same shape as the local ranker's explanations, so cards render both alike
+export const explainRecommendation = (item: Recommendation): RecoExplanation => ({
+  reason: item.reasons[0] ? reasonText(item.reasons[0]) : 'Recommended for you',
+  factors: [
+    ...item.reasons.map(r => ({ label: reasonText(r), value: r.score })),
+    ...(item.reasons.length === 0
+      ? [
+          { label: 'Liked by similar users', value: item.sources.collaborative },
+          { label: 'Similar titles on TMDB', value: item.sources.tmdb_similar },
+        ].filter(f => f.value > 0)
+      : []),
+  ],
+});
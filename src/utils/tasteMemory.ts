@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { contentRef, type ContentRef } from '@/lib/content';
+
+// What the assistant remembers about the user's taste. The assistant
+// functions write these from chats; the Profile page lets the user edit or
+// delete them.
+
+export type TasteMemory = {
+  id: string;
+  // The title the memory is about; null for general taste ("Hates jump scares")
+  content: ContentRef | null;
+  title: string | null;
+  description: string;
+  emotions: string[];
+  createdAt: string;
+};
+
+export type TasteMemoryPatch = { description?: string; emotions?: string[] };
+
+const TABLE = 'user_taste_memory';
+
+type TasteMemoryRow = {
+  id: string;
+  movie_id: number | null;
+  content_type: string | null;
+  title: string | null;
+  description: string | null;
+  emotions: string[] | null;
+  created_at: string;
+};
+
+const toMemory = (row: TasteMemoryRow): TasteMemory => ({
+  id: row.id,
+  content: row.movie_id != null ? contentRef(row.content_type as ContentRef['kind'], row.movie_id) : null,
+  title: row.title,
+  description: row.description || '',
+  emotions: row.emotions || [],
+  createdAt: row.created_at,
+});
+
+// Lowercase single tags without repeats, as the functions store them
+export const parseEmotions = (text: string): string[] =>
+  [...new Set(text.split(',').map(e => e.trim().toLowerCase()).filter(Boolean))];
+
+// Newest first
+export const fetchTasteMemories = async (userId: string): Promise<TasteMemory[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('id, movie_id, content_type, title, description, emotions, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toMemory);
+};
+
+export const updateTasteMemory = async (id: string, patch: TasteMemoryPatch) => {
+  const update: { description?: string; emotions?: string[] } = {};
+  if (patch.description !== undefined) update.description = patch.description.trim();
+  if (patch.emotions !== undefined) update.emotions = patch.emotions;
+  const { error } = await supabase.from(TABLE).update(update).eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteTasteMemory = async (id: string) => {
+  const { error } = await supabase.from(TABLE).delete().eq('id', id);
+  if (error) throw error;
+};
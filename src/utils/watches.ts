@@ -0,0 +1,152 @@
+import { supabase } from '@/integrations/supabase/client';
+import { contentKey, contentRef, type ContentRef } from '@/lib/content';
+
+// Watch diary: every viewing is its own row, so a rewatch is simply a later
+// entry for the same title.
+
+export type WatchEntry = {
+  id: string;
+  content: ContentRef;
+  watchedOn: string; // YYYY-MM-DD
+  rating: number | null; // 1..5
+  notes: string | null;
+  title: string | null;
+  poster_path: string | null;
+  // True for every viewing after the earliest one of the same title
+  rewatch: boolean;
+};
+
+export type WatchInput = {
+  watchedOn?: string;
+  rating?: number | null;
+  notes?: string | null;
+  title?: string | null;
+  poster_path?: string | null;
+};
+
+export type WatchPatch = Pick<WatchInput, 'watchedOn' | 'rating' | 'notes'>;
+
+export type DiaryMonth = { month: string; entries: WatchEntry[] };
+
+const TABLE = 'user_watches';
+const COLUMNS = 'id, movie_id, content_type, watched_on, rating, notes, title, poster_path, created_at';
+
+type WatchRow = {
+  id: string;
+  movie_id: number;
+  content_type: string;
+  watched_on: string;
+  rating: number | null;
+  notes: string | null;
+  title: string | null;
+  poster_path: string | null;
+  created_at: string;
+};
+
+// Local calendar date, not the UTC one toISOString would give
+export const todayIso = () => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const toEntry = (row: WatchRow): WatchEntry => ({
+  id: row.id,
+  content: contentRef(row.content_type as ContentRef['kind'], row.movie_id),
+  watchedOn: row.watched_on,
+  rating: row.rating,
+  notes: row.notes,
+  title: row.title,
+  poster_path: row.poster_path,
+  rewatch: false,
+});
+
+// Flag rewatches; rows must cover every viewing of the titles involved
+const markRewatches = (rows: WatchRow[]): WatchEntry[] => {
+  const chronological = [...rows].sort((a, b) =>
+    a.watched_on.localeCompare(b.watched_on) || a.created_at.localeCompare(b.created_at)
+  );
+  const seen = new Set<string>();
+  const rewatchIds = new Set<string>();
+  for (const row of chronological) {
+    const key = contentKey(toEntry(row).content);
+    if (seen.has(key)) rewatchIds.add(row.id);
+    seen.add(key);
+  }
+  return rows.map(row => ({ ...toEntry(row), rewatch: rewatchIds.has(row.id) }));
+};
+
+// Full diary, newest first
+export const fetchWatches = async (userId: string): Promise<WatchEntry[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(COLUMNS)
+    .eq('user_id', userId)
+    .order('watched_on', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return markRewatches(data || []);
+};
+
+// Every viewing of one title, newest first
+export const fetchWatchesFor = async (userId: string, ref: ContentRef): Promise<WatchEntry[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(COLUMNS)
+    .eq('user_id', userId)
+    .eq('movie_id', ref.id)
+    .eq('content_type', ref.kind)
+    .order('watched_on', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return markRewatches(data || []);
+};
+
+const toInsert = (userId: string, ref: ContentRef, input: WatchInput) => ({
+  user_id: userId,
+  movie_id: ref.id,
+  content_type: ref.kind,
+  watched_on: input.watchedOn || todayIso(),
+  rating: input.rating ?? null,
+  notes: input.notes?.trim() || null,
+  title: input.title ?? null,
+  poster_path: input.poster_path ?? null,
+});
+
+export const logWatch = async (userId: string, ref: ContentRef, input: WatchInput = {}) => {
+  const { error } = await supabase.from(TABLE).insert(toInsert(userId, ref, input));
+  if (error) throw error;
+};
+
+// Bulk insert for imports
+export const logWatches = async (userId: string, items: Array<{ content: ContentRef } & WatchInput>) => {
+  if (items.length === 0) return;
+  const { error } = await supabase.from(TABLE).insert(items.map(({ content, ...input }) => toInsert(userId, content, input)));
+  if (error) throw error;
+};
+
+export const updateWatch = async (id: string, patch: WatchPatch) => {
+  const update: { watched_on?: string; rating?: number | null; notes?: string | null } = {};
+  if (patch.watchedOn !== undefined) update.watched_on = patch.watchedOn;
+  if (patch.rating !== undefined) update.rating = patch.rating;
+  if (patch.notes !== undefined) update.notes = patch.notes?.trim() || null;
+  const { error } = await supabase.from(TABLE).update(update).eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteWatch = async (id: string) => {
+  const { error } = await supabase.from(TABLE).delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Group a newest-first diary by calendar month (`YYYY-MM`)
+export const groupByMonth = (entries: WatchEntry[]): DiaryMonth[] => {
+  const months: DiaryMonth[] = [];
+  for (const entry of entries) {
+    const month = entry.watchedOn.slice(0, 7);
+    const last = months[months.length - 1];
+    if (last && last.month === month) last.entries.push(entry);
+    else months.push({ month, entries: [entry] });
+  }
+  return months;
+};
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, type SupabaseMock } from '../../../src/test/supabaseMock.ts';
+import { fakeFetch } from '../_testing/harness.ts';
+import { LlmFake } from '../_testing/llmFake.ts';
+import { TmdbFake } from '../_testing/tmdbFake.ts';
+import { runAgent } from './agent.ts';
+import { providersFromEnv, type ChatMessage, type Provider } from './llm.ts';
+import { toolsFor, type ToolContext } from './tools.ts';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Tell me about Dark' }];
+
+describe('runAgent', () => {
+  let llm: LlmFake;
+  let tmdb: TmdbFake;
+  let db: SupabaseMock;
+  let providers: Provider[];
+  let context: ToolContext;
+
+  beforeEach(() => {
+    llm = new LlmFake();
+    tmdb = new TmdbFake('tmdb-test');
+    db = createSupabaseMock();
+    providers = providersFromEnv(['openai'], key => (key === 'OPENAI_API_KEY' ? 'sk-test' : undefined));
+    context = { tmdbApiKey: 'tmdb-test', db: db as unknown as SupabaseClient, userId: 'user-1' };
+    vi.stubGlobal('fetch', fakeFetch({ 'api.openai.com': llm.handle, 'api.themoviedb.org': tmdb.handle }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(console.log).mockRestore();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('runs the tools the model calls and hands the results back', async () => {
+    llm.reply({ toolCalls: [{ name: 'search_titles', arguments: { query: 'Dark', kind: 'tv' } }] }, 'Dark is a German mystery.');
+    const result = await runAgent(providers, messages, { tools: toolsFor(context), context });
+
+    expect(result).toMatchObject({ content: 'Dark is a German mystery.', provider: 'openai' });
+    expect(result.steps).toEqual([{
+      tool: 'search_titles',
+      arguments: { query: 'Dark', kind: 'tv' },
+      ok: true,
+      result: { results: [expect.objectContaining({ id: 70523, kind: 'tv', title: 'Dark', year: '2017' })] },
+    }]);
+    expect(tmdb.requestsFor('search/tv')[0].searchParams.get('query')).toBe('Dark');
+
+    const [first, second] = llm.calls;
+    expect(first.body.tools!.map(t => t.function.name)).toEqual([
+      'search_titles', 'discover', 'get_details', 'add_to_watchlist', 'mark_favorite', 'get_my_history',
+    ]);
+    const [assistant, tool] = second.body.messages.slice(-2);
+    expect(assistant).toMatchObject({ role: 'assistant', content: null, tool_calls: [expect.objectContaining({ type: 'function' })] });
+    expect(tool.tool_call_id).toBe(assistant.tool_calls![0].id);
+    expect(JSON.parse(tool.content!).results[0].title).toBe('Dark');
+  });
+
+  it('feeds bad arguments and failed lookups back to the model', async () => {
+    llm.reply({
+      toolCalls: [
+        { name: 'get_details', arguments: { kind: 'film', id: 70523 } },
+        { name: 'get_details', arguments: { kind: 'movie', id: 999 } },
+        { name: 'discover', arguments: '{"kind": "movie", "genres": [' },
+        { name: 'delete_account', arguments: {} },
+      ],
+    }, 'Sorry, I could not find that.');
+    const result = await runAgent(providers, messages, { tools: toolsFor(context), context });
+
+    expect(result.steps.map(s => [s.ok, (s.result as { error: string }).error])).toEqual([
+      [false, '"kind" must be "movie" or "tv"'],
+      [false, 'Nothing found at movie/999'],
+      [false, expect.stringContaining('JSON')],
+      [false, 'Unknown tool "delete_account"'],
+    ]);
+    const toolMessages = llm.lastCall!.body.messages.filter(m => m.role === 'tool');
+    expect(toolMessages).toHaveLength(4);
+    expect(JSON.parse(toolMessages[0].content!)).toEqual({ error: '"kind" must be "movie" or "tv"' });
+  });
+
+  it('hides unexpected failures from the model', async () => {
+    tmdb.failNext(500);
+    llm.reply({ toolCalls: [{ name: 'search_titles', arguments: { query: 'Dark' } }] }, 'Try again later.');
+    const result = await runAgent(providers, messages, { tools: toolsFor(context), context });
+
+    expect(result.steps[0]).toMatchObject({ ok: false, result: { error: 'The tool failed; try again later' } });
+    expect(vi.mocked(console.error)).toHaveBeenCalledWith('Tool search_titles failed:', expect.any(Error));
+  });
+
+  it('streams the text of every round and assembles streamed tool calls', async () => {
+    llm.reply({ content: 'Let me check.', toolCalls: [{ name: 'get_details', arguments: { kind: 'tv', id: 70523 } }] }, 'It is German.');
+    const tokens: string[] = [];
+    const onProvider = vi.fn();
+    const onStep = vi.fn();
+    const result = await runAgent(providers, messages, {
+      tools: toolsFor(context),
+      context,
+      onToken: token => tokens.push(token),
+      onProvider,
+      onStep,
+    });
+
+    expect(tokens.join('')).toBe('Let me check.\n\nIt is German.');
+    expect(result.content).toBe('Let me check.\n\nIt is German.');
+    expect(onProvider).toHaveBeenCalledOnce();
+    expect(onProvider).toHaveBeenCalledWith('openai', 'gpt-4o-mini');
+    expect(onStep).toHaveBeenCalledWith(expect.objectContaining({ tool: 'get_details', ok: true, arguments: { kind: 'tv', id: 70523 } }));
+    expect(llm.calls.every(c => c.body.stream)).toBe(true);
+  });
+
+  it('withholds the tools in the last round so the model has to answer', async () => {
+    llm.reply(...Array.from({ length: 6 }, () => (body: { tools?: unknown }) =>
+      body.tools ? { toolCalls: [{ name: 'search_titles', arguments: { query: 'Dark' } }] } : 'Here is what I found.'));
+    const result = await runAgent(providers, messages, { tools: toolsFor(context), context });
+
+    expect(result.content).toBe('Here is what I found.');
+    expect(result.steps).toHaveLength(5);
+    expect(llm.calls).toHaveLength(6);
+    expect(llm.lastCall!.body.tools).toBeUndefined();
+  });
+
+  it('stays with the provider that answered the first round', async () => {
+    providers = providersFromEnv(['groq', 'openai'], key => ({ GROQ_API_KEY: 'gsk-test', OPENAI_API_KEY: 'sk-test' })[key]);
+    vi.stubGlobal('fetch', fakeFetch({ 'api.groq.com': llm.handle, 'api.openai.com': llm.handle, 'api.themoviedb.org': tmdb.handle }));
+    // Groq answers the first round, then fails
+    llm.reply(() => {
+      llm.failNext(503);
+      return { toolCalls: [{ name: 'search_titles', arguments: { query: 'Dark' } }] };
+    });
+
+    await expect(runAgent(providers, messages, { tools: toolsFor(context), context })).rejects.toThrow('Groq error: 503');
+    expect(llm.calls.map(c => c.url.host)).toEqual(['api.groq.com', 'api.groq.com']);
+  });
+});
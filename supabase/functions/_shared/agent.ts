@@ -0,0 +1,106 @@
+import {
+  chatCompletion,
+  chatCompletionStream,
+  LlmError,
+  type ChatMessage,
+  type ChatOptions,
+  type Provider,
+  type ProviderName,
+  type ToolCall,
+} from './llm.ts';
+import { ToolError, type Tool, type ToolContext } from './tools.ts';
+
+// The tool-calling loop: ask the model, run the tools it calls, hand the
+// results back, and repeat until it answers in prose. The provider that
+// answers the first round handles the rest, since tool call ids do not carry
+// across providers.
+
+export type AgentStep = {
+  tool: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  result: unknown;
+};
+
+export type AgentOptions = Omit<ChatOptions, 'tools'> & {
+  tools: Tool[];
+  context: ToolContext;
+  signal?: AbortSignal;
+  // Streams the reply's content when set
+  onToken?: (token: string) => void;
+  onStep?: (step: AgentStep) => void;
+  // Called once the first provider accepts the request
+  onProvider?: (provider: ProviderName, model: string) => void;
+};
+
+export type AgentResult = {
+  // Text of every round, paragraphs apart
+  content: string;
+  provider: ProviderName;
+  model: string;
+  steps: AgentStep[];
+};
+
+// Enough for a search, a few list updates and a reply
+const MAX_ROUNDS = 6;
+
+async function runTool(call: ToolCall, tools: Tool[], ctx: ToolContext): Promise<AgentStep> {
+  const tool = tools.find(t => t.spec.name === call.function.name);
+  let args: Record<string, unknown> = {};
+  try {
+    args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    if (!tool) throw new ToolError(`Unknown tool "${call.function.name}"`);
+    return { tool: tool.spec.name, arguments: args, ok: true, result: await tool.run(args, ctx) };
+  } catch (error) {
+    if (!(error instanceof ToolError) && !(error instanceof SyntaxError)) {
+      console.error(`Tool ${call.function.name} failed:`, error);
+    }
+    const message = error instanceof ToolError || error instanceof SyntaxError ? error.message : 'The tool failed; try again later';
+    return { tool: call.function.name, arguments: args, ok: false, result: { error: message } };
+  }
+}
+
+export async function runAgent(providers: Provider[], messages: ChatMessage[], opts: AgentOptions): Promise<AgentResult> {
+  const { tools, context, signal, onToken, onStep, onProvider, ...chat } = opts;
+  const specs = tools.map(t => t.spec);
+  const conversation = [...messages];
+  const steps: AgentStep[] = [];
+  let candidates = providers;
+  let text = '';
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    // The last round gets no tools so the model has to answer
+    const options = { ...chat, tools: round < MAX_ROUNDS - 1 ? specs : undefined };
+    let content = '';
+    let toolCalls: ToolCall[];
+    let provider: ProviderName;
+    let model: string;
+    const separator = text ? '\n\n' : '';
+
+    if (onToken) {
+      const reply = await chatCompletionStream(candidates, conversation, { ...options, signal });
+      if (round === 0) onProvider?.(reply.provider, reply.model);
+      for await (const token of reply.tokens) {
+        onToken(content || !separator ? token : separator + token);
+        content += token;
+      }
+      ({ toolCalls, provider, model } = reply);
+    } else {
+      ({ content, toolCalls, provider, model } = await chatCompletion(candidates, conversation, options));
+      if (round === 0) onProvider?.(provider, model);
+    }
+    candidates = providers.filter(p => p.name === provider);
+    if (content) text += separator + content;
+
+    if (!toolCalls.length) return { content: text, provider, model, steps };
+
+    conversation.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      const step = await runTool(call, tools, context);
+      steps.push(step);
+      onStep?.(step);
+      conversation.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(step.result) });
+    }
+  }
+  throw new LlmError('The assistant did not finish answering');
+}
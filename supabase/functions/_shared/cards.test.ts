@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeFetch } from '../_testing/harness.ts';
+import { TmdbFake } from '../_testing/tmdbFake.ts';
+import type { AgentStep } from './agent.ts';
+import { titleCards } from './cards.ts';
+
+const searched = (...results: Array<Record<string, unknown>>): AgentStep => ({
+  tool: 'search_titles',
+  arguments: {},
+  ok: true,
+  result: { results },
+});
+
+const inception = { id: 27205, kind: 'movie', title: 'Inception', year: '2010', rating: 8.4, overview: '…', poster_path: '/inception.jpg' };
+
+describe('titleCards', () => {
+  let tmdb: TmdbFake;
+
+  beforeEach(() => {
+    tmdb = new TmdbFake('tmdb-test');
+    vi.stubGlobal('fetch', fakeFetch({ 'api.themoviedb.org': tmdb.handle }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it("uses the tools' results for titles the reply names", async () => {
+    const cards = await titleCards('Inception (2010) bends dreams.', [searched(inception)], 'tmdb-test');
+
+    expect(cards).toEqual([{ id: 27205, kind: 'movie', title: 'Inception', year: '2010', rating: 8.4, poster_path: '/inception.jpg' }]);
+    expect(tmdb.requests).toHaveLength(0);
+  });
+
+  it('ignores short titles in prose and matches names case-sensitively', async () => {
+    const itFilm = { id: 346364, kind: 'movie', title: 'It', year: '2017', rating: 7.2, poster_path: '/it.jpg' };
+    const up = { id: 14160, kind: 'movie', title: 'Up', year: '2009', rating: 7.9, poster_path: '/up.jpg' };
+    const fightClub = { id: 550, kind: 'movie', title: 'Fight Club', year: '1999', rating: 8.4, poster_path: '/fc.jpg' };
+    const cards = await titleCards(
+      'It is a fun pick if you are up for horror, unlike fight club nights. Up (2009) is gentler.',
+      [searched(itFilm, up, fightClub)],
+      undefined,
+    );
+
+    expect(cards.map(c => c.title)).toEqual(['Up']);
+  });
+
+  it('gives one card per mention when results share a name', async () => {
+    const dune1984 = { id: 841, kind: 'movie', title: 'Dune', year: '1984', rating: 6.3, poster_path: '/dune84.jpg' };
+    const dune2021 = { id: 438631, kind: 'movie', title: 'Dune', year: '2021', rating: 7.8, poster_path: '/dune21.jpg' };
+    const blade = { id: 78, kind: 'movie', title: 'Blade Runner', year: '1982', rating: 7.9, poster_path: '/br.jpg' };
+
+    const cards = await titleCards('**Dune** (1984) pairs well with Blade Runner.', [searched(dune2021, dune1984, blade)], undefined);
+
+    expect(cards.map(c => [c.id, c.title])).toEqual([[841, 'Dune'], [78, 'Blade Runner']]);
+  });
+
+  it('looks up other "Title (Year)" mentions, in the order they appear', async () => {
+    const cards = await titleCards(
+      'Try The Matrix (1999), then **Parasite** (2019) and Chernobyl (2019). Skip Inception.',
+      [],
+      'tmdb-test',
+    );
+
+    expect(cards.map(c => [c.kind, c.id, c.title])).toEqual([
+      ['movie', 603, 'The Matrix'],
+      ['movie', 496243, 'Parasite'],
+      ['tv', 87108, 'Chernobyl'],
+    ]);
+    // "Try The Matrix" first, then with the leading word dropped
+    expect(tmdb.requestsFor('search/movie').map(url => url.searchParams.get('query'))).toContain('The Matrix');
+  });
+
+  it('skips mentions that do not match a title and year', async () => {
+    const cards = await titleCards('Heat (1995) and Inception (1975) are both great.', [], 'tmdb-test');
+
+    expect(cards).toEqual([]);
+  });
+
+  it('keeps the cards it could resolve when a lookup fails', async () => {
+    tmdb.failNext(500);
+    const cards = await titleCards('Dark (2017) or Fight Club (1999).', [], 'tmdb-test');
+
+    expect(cards.map(c => c.title)).toEqual(['Fight Club']);
+    expect(vi.mocked(console.error)).toHaveBeenCalledWith('Title lookup failed:', expect.any(Error));
+  });
+});
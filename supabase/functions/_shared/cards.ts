@@ -0,0 +1,163 @@
+import type { AgentStep } from './agent.ts';
+
+// Title cards for the titles an assistant reply mentions, so the client can
+// show each one with its poster and link to its page. Titles the tools
+// already returned are matched by name; other "Title (Year)" mentions are
+// looked up on TMDB.
+
+export type TitleCard = {
+  id: number;
+  kind: 'movie' | 'tv';
+  title: string;
+  year: string | null;
+  rating: number | null;
+  poster_path: string | null;
+};
+
+const MAX_CARDS = 6;
+// Leading words dropped from a mention before giving up, for sentences such
+// as "Try Heat (1995)"
+const MAX_TRIMS = 2;
+
+const isTitle = (value: unknown): value is TitleCard =>
+  typeof value === 'object' && value !== null && 'id' in value && 'kind' in value && 'title' in value;
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const cardOf = (t: TitleCard): TitleCard => ({
+  id: t.id,
+  kind: t.kind,
+  title: t.title,
+  year: t.year,
+  rating: t.rating,
+  poster_path: t.poster_path ?? null,
+});
+
+// Titles the tools returned, in order and without repeats: search results
+// first, then anything looked up or added to a list
+export function titlesFrom(steps: AgentStep[]): TitleCard[] {
+  const seen = new Map<string, TitleCard>();
+  for (const step of steps) {
+    if (!step.ok) continue;
+    const result = step.result as { results?: unknown[] };
+    for (const title of Array.isArray(result.results) ? result.results : [result]) {
+      if (isTitle(title) && !seen.has(`${title.kind}:${title.id}`)) seen.set(`${title.kind}:${title.id}`, cardOf(title));
+    }
+  }
+  return [...seen.values()];
+}
+
+// `at` and `end` delimit the mention in the reply
+type Mention = { at: number; end: number; words: string[]; year: string; exact: boolean };
+
+// "**Heat** (1995)", "\"Heat\" (1995)" and bare "Heat (1995)", where a bare
+// mention is the run of capitalised words before the year
+const QUOTED = /(?:\*\*|\*|"|“)([^*"“”\n]{1,80})(?:\*\*|\*|"|”)\s*\((\d{4})\)/g;
+const BARE = /((?:[\p{Lu}\p{N}][\p{L}\p{N}'’:&.-]*)(?:\s+(?:(?:of|the|a|an|and|in|on|to|for|at|from|with)\s+)*[\p{Lu}\p{N}][\p{L}\p{N}'’:&.-]*)*)\s*\((\d{4})\)/gu;
+
+function mentions(text: string): Mention[] {
+  const found: Mention[] = [];
+  const taken = new Set<number>();
+  for (const m of text.matchAll(QUOTED)) {
+    const end = m.index! + m[0].length;
+    found.push({ at: m.index!, end, words: [m[1].trim()], year: m[2], exact: true });
+    taken.add(end);
+  }
+  for (const m of text.matchAll(BARE)) {
+    const end = m.index! + m[0].length;
+    if (taken.has(end)) continue;
+    found.push({ at: m.index!, end, words: m[1].split(/\s+/), year: m[2], exact: false });
+  }
+  return found.sort((a, b) => a.at - b.at);
+}
+
+type SearchHit = { id: number; title?: string; name?: string; release_date?: string; first_air_date?: string; vote_average?: number; poster_path?: string | null };
+
+async function search(apiKey: string, kind: 'movie' | 'tv', query: string, year: string): Promise<TitleCard | null> {
+  const url = new URL(`https://api.themoviedb.org/3/search/${kind}`);
+  url.searchParams.set('query', query);
+  url.searchParams.set(kind === 'movie' ? 'year' : 'first_air_date_year', year);
+  url.searchParams.set('api_key', apiKey);
+  const response = await fetch(url.toString());
+  if (!response.ok) throw new Error(`TMDB API error: ${response.status}`);
+  const { results = [] } = await response.json() as { results?: SearchHit[] };
+  // Exact title, and a year at most one off for festival vs. wide releases
+  const hit = results.find(r => {
+    const hitYear = Number(String(r.release_date || r.first_air_date || '').slice(0, 4));
+    return normalize(r.title ?? r.name ?? '') === normalize(query) && Math.abs(hitYear - Number(year)) <= 1;
+  });
+  if (!hit) return null;
+  return {
+    id: hit.id,
+    kind,
+    title: String(hit.title ?? hit.name),
+    year: String(hit.release_date || hit.first_air_date || '').slice(0, 4) || null,
+    rating: hit.vote_average ?? null,
+    poster_path: hit.poster_path ?? null,
+  };
+}
+
+// A movie, or failing that a series, with exactly this title from about that
+// year; `kind` narrows the search to one of them
+export async function findTitle(apiKey: string, title: string, year: string, kind?: 'movie' | 'tv'): Promise<TitleCard | null> {
+  if (kind) return search(apiKey, kind, title, year);
+  return await search(apiKey, 'movie', title, year) ?? await search(apiKey, 'tv', title, year);
+}
+
+async function lookup(apiKey: string, mention: Mention): Promise<TitleCard | null> {
+  const trims = mention.exact ? 0 : Math.min(MAX_TRIMS, mention.words.length - 1);
+  for (let trim = 0; trim <= trims; trim++) {
+    const card = await findTitle(apiKey, mention.words.slice(trim).join(' '), mention.year);
+    if (card) return card;
+  }
+  return null;
+}
+
+// Where the reply names a title the tools returned, case-sensitively so "It"
+// or "Up" in prose does not count. "Heat (1995)" is found for any title; the
+// bare name only for titles of more than one word.
+function titleAt(text: string, title: TitleCard, withYear: boolean): number | null {
+  const escaped = title.title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (withYear) {
+    if (!title.year) return null;
+    const match = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?:\\*\\*|\\*|"|”)?\\s*\\(${title.year}\\)`, 'u').exec(text);
+    return match ? match.index : null;
+  }
+  if (title.title.trim().split(/\s+/).length < 2) return null;
+  const match = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u').exec(text);
+  return match ? match.index : null;
+}
+
+// Cards in the order the reply mentions the titles, at most one per
+// mention. Lookup failures only cost the card.
+export async function titleCards(text: string, steps: AgentStep[], tmdbApiKey: string | undefined): Promise<TitleCard[]> {
+  const placed: Array<{ at: number; card: TitleCard }> = [];
+  const has = (card: TitleCard) => placed.some(p => p.card.kind === card.kind && p.card.id === card.id);
+
+  // Mentions with the year first, so "Dune (1984)" goes to the 1984 film
+  // rather than a later one with the same name
+  const titles = titlesFrom(steps).filter(t => t.title);
+  for (const withYear of [true, false]) {
+    for (const title of titles) {
+      if (has(title)) continue;
+      const at = titleAt(text, title, withYear);
+      if (at !== null && !placed.some(p => p.at === at)) placed.push({ at, card: title });
+    }
+  }
+
+  if (tmdbApiKey) {
+    for (const mention of mentions(text)) {
+      if (placed.length >= MAX_CARDS) break;
+      // Already matched from the tools' results
+      if (placed.some(p => p.at >= mention.at && p.at < mention.end)) continue;
+      try {
+        const card = await lookup(tmdbApiKey, mention);
+        if (card && !has(card)) placed.push({ at: mention.at, card });
+      } catch (error) {
+        console.error('Title lookup failed:', error);
+      }
+    }
+  }
+
+  return placed.sort((a, b) => a.at - b.at).slice(0, MAX_CARDS).map(p => p.card);
+}
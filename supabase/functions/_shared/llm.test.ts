@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeFetch } from '../_testing/harness.ts';
+import { LlmFake } from '../_testing/llmFake.ts';
+import { chatCompletion, LlmError, providersFromEnv, type ChatMessage } from './llm.ts';
+
+const envOf = (vars: Record<string, string>) => (key: string) => vars[key];
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'hello' }];
+
+describe('providersFromEnv', () => {
+  it('uses the default order and skips providers without a key', () => {
+    const providers = providersFromEnv(['groq', 'openai'], envOf({ OPENAI_API_KEY: 'sk-test' }));
+
+    expect(providers).toEqual([
+      { name: 'openai', label: 'OpenAI', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', apiKey: 'sk-test' },
+    ]);
+  });
+
+  it('lets LLM_PROVIDERS and per-provider variables override the defaults', () => {
+    const providers = providersFromEnv(['openai'], envOf({
+      LLM_PROVIDERS: ' local, XAI ',
+      LOCAL_LLM_BASE_URL: 'http://host.docker.internal:8080/v1/',
+      LOCAL_LLM_MODEL: 'qwen2.5:7b',
+      XAI_API_KEY: 'xai-test',
+      XAI_MODEL: 'grok-3-mini',
+    }));
+
+    expect(providers.map(p => [p.name, p.baseUrl, p.model])).toEqual([
+      ['local', 'http://host.docker.internal:8080/v1', 'qwen2.5:7b'],
+      ['xai', 'https://api.x.ai/v1', 'grok-3-mini'],
+    ]);
+  });
+
+  it('rejects unknown names and configurations without any provider', () => {
+    expect(() => providersFromEnv(['openai'], envOf({ LLM_PROVIDERS: 'openai,claude' })))
+      .toThrow('Unknown LLM provider(s) in LLM_PROVIDERS: claude');
+    expect(() => providersFromEnv(['groq', 'xai'], envOf({})))
+      .toThrow('No LLM provider configured; set GROQ_API_KEY or XAI_API_KEY');
+  });
+});
+
+describe('chatCompletion', () => {
+  let llm: LlmFake;
+
+  beforeEach(() => {
+    llm = new LlmFake();
+    vi.stubGlobal('fetch', fakeFetch({ 'api.groq.com': llm.handle, 'api.openai.com': llm.handle, 'localhost:11434': llm.handle }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(console.log).mockRestore();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  const env = envOf({ LLM_PROVIDERS: 'groq,openai', GROQ_API_KEY: 'gsk-test', OPENAI_API_KEY: 'sk-test' });
+
+  it('sends one OpenAI-style request to the first provider', async () => {
+    llm.reply('Hi there');
+    const result = await chatCompletion(providersFromEnv([], env), messages, { temperature: 0.5, maxTokens: 64 });
+
+    expect(result).toEqual({ content: 'Hi there', toolCalls: [], provider: 'groq', model: 'llama-3.3-70b-versatile' });
+    expect(llm.calls).toHaveLength(1);
+    const [{ url, headers, body }] = llm.calls;
+    expect(url.href).toBe('https://api.groq.com/openai/v1/chat/completions');
+    expect(headers.get('Authorization')).toBe('Bearer gsk-test');
+    expect(body).toEqual({ model: 'llama-3.3-70b-versatile', messages, temperature: 0.5, max_tokens: 64 });
+  });
+
+  it('falls back to the next provider when one errors', async () => {
+    llm.failNext(503);
+    llm.reply('From OpenAI');
+    const result = await chatCompletion(providersFromEnv([], env), messages);
+
+    expect(result.provider).toBe('openai');
+    expect(result.content).toBe('From OpenAI');
+    expect(llm.calls.map(c => c.url.host)).toEqual(['api.groq.com', 'api.openai.com']);
+  });
+
+  it('falls back when a provider cannot be reached', async () => {
+    vi.stubGlobal('fetch', fakeFetch({ 'api.openai.com': llm.handle }));
+    const result = await chatCompletion(providersFromEnv([], env), messages);
+
+    expect(result.provider).toBe('openai');
+  });
+
+  it('reports every failure when all providers fail', async () => {
+    llm.failNext(429);
+    llm.failNext(500);
+    const error = await chatCompletion(providersFromEnv([], env), messages).catch(e => e);
+
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error.message).toBe('Groq error: 429; OpenAI error: 500');
+  });
+
+  it('calls a local server without an API key', async () => {
+    await chatCompletion(providersFromEnv(['local'], envOf({})), messages);
+
+    expect(llm.lastCall!.url.href).toBe('http://localhost:11434/v1/chat/completions');
+    expect(llm.lastCall!.headers.has('Authorization')).toBe(false);
+    expect(llm.lastCall!.body.model).toBe('llama3.1');
+  });
+});
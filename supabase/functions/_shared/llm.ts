@@ -0,0 +1,230 @@
+import { readSse } from './sse.ts';
+
+// Chat completion providers shared by the assistant functions. Every
+// provider speaks the OpenAI chat completions API, so one request shape works
+// for OpenAI, Groq, xAI and a local Ollama or llama.cpp server.
+//
+// LLM_PROVIDERS (e.g. "groq,openai") picks the providers and the order they
+// are tried in; without it each function uses its own default order. Each
+// provider reads <PREFIX>_API_KEY, <PREFIX>_BASE_URL and <PREFIX>_MODEL.
+// Providers without a key are skipped, except the local one.
+
+export type ProviderName = 'openai' | 'groq' | 'xai' | 'local';
+
+// A tool call requested by the model, in the wire format
+export type ToolCall = { id: string; type: 'function'; function: { name: string; arguments: string } };
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  // Assistant turns that call tools
+  tool_calls?: ToolCall[];
+  // Tool results answer one call
+  tool_call_id?: string;
+};
+
+// A function the model may call; `parameters` is a JSON schema
+export type ToolSpec = { name: string; description: string; parameters: Record<string, unknown> };
+
+export type ChatOptions = {
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolSpec[];
+};
+
+export interface Provider {
+  name: ProviderName;
+  // Used in logs and error messages
+  label: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export type ChatResult = { content: string; toolCalls: ToolCall[]; provider: ProviderName; model: string };
+
+type ProviderDef = {
+  label: string;
+  envPrefix: string;
+  baseUrl: string;
+  model: string;
+  needsKey: boolean;
+};
+
+const PROVIDERS: Record<ProviderName, ProviderDef> = {
+  openai: { label: 'OpenAI', envPrefix: 'OPENAI', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', needsKey: true },
+  groq: { label: 'Groq', envPrefix: 'GROQ', baseUrl: 'https://api.groq.com/openai/v1', model: 'llama-3.3-70b-versatile', needsKey: true },
+  xai: { label: 'xAI', envPrefix: 'XAI', baseUrl: 'https://api.x.ai/v1', model: 'grok-4-latest', needsKey: true },
+  // Ollama's default port; llama.cpp's server exposes the same /v1 API
+  local: { label: 'Local LLM', envPrefix: 'LOCAL_LLM', baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', needsKey: false },
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export class LlmError extends Error {
+  constructor(message: string, public provider?: ProviderName, public status?: number) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+type ReadEnv = (key: string) => string | undefined;
+
+const isProviderName = (name: string): name is ProviderName => name in PROVIDERS;
+
+// Providers to try, in order. Throws when none of them is configured.
+export function providersFromEnv(defaults: ProviderName[], readEnv: ReadEnv = key => Deno.env.get(key)): Provider[] {
+  const listed = readEnv('LLM_PROVIDERS');
+  const names = listed ? listed.split(',').map(n => n.trim().toLowerCase()).filter(Boolean) : defaults;
+
+  const unknown = names.filter(n => !isProviderName(n));
+  if (unknown.length) {
+    throw new LlmError(`Unknown LLM provider(s) in LLM_PROVIDERS: ${unknown.join(', ')}`);
+  }
+
+  const providers = (names as ProviderName[]).flatMap((name): Provider[] => {
+    const def = PROVIDERS[name];
+    const apiKey = readEnv(`${def.envPrefix}_API_KEY`);
+    if (def.needsKey && !apiKey) return [];
+    return [{
+      name,
+      label: def.label,
+      baseUrl: (readEnv(`${def.envPrefix}_BASE_URL`) || def.baseUrl).replace(/\/+$/, ''),
+      model: readEnv(`${def.envPrefix}_MODEL`) || def.model,
+      apiKey,
+    }];
+  });
+
+  if (!providers.length) {
+    const keys = (names as ProviderName[]).map(n => `${PROVIDERS[n].envPrefix}_API_KEY`);
+    throw new LlmError(`No LLM provider configured; set ${keys.join(' or ')}`);
+  }
+  return providers;
+}
+
+// POST a chat completion request. The timeout covers waiting for the
+// response headers only, so long streams are not cut off.
+async function post(provider: Provider, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+  const connect = new AbortController();
+  const timer = setTimeout(() => connect.abort(new Error('timed out')), DEFAULT_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${provider.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(provider.apiKey ? { 'Authorization': `Bearer ${provider.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: provider.model, ...body }),
+      signal: signal ? AbortSignal.any([signal, connect.signal]) : connect.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${provider.label} error:`, response.status, errorText);
+      throw new LlmError(`${provider.label} error: ${response.status}`, provider.name, response.status);
+    }
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const requestBody = (messages: ChatMessage[], opts: ChatOptions) => ({
+  messages,
+  temperature: opts.temperature,
+  max_tokens: opts.maxTokens,
+  // Some providers reject an empty tool list
+  ...(opts.tools?.length ? { tools: opts.tools.map(tool => ({ type: 'function', function: tool })) } : {}),
+});
+
+async function complete(provider: Provider, messages: ChatMessage[], opts: ChatOptions): Promise<ChatResult> {
+  const response = await post(provider, requestBody(messages, opts));
+  const data = await response.json();
+  if (!Array.isArray(data?.choices)) {
+    throw new LlmError(`${provider.label} returned an unexpected response`, provider.name);
+  }
+  const message = data.choices[0]?.message;
+  return {
+    content: message?.content || '',
+    toolCalls: Array.isArray(message?.tool_calls) ? message.tool_calls : [],
+    provider: provider.name,
+    model: provider.model,
+  };
+}
+
+// Try each provider in turn until one answers; the error thrown when all of
+// them fail lists every provider's failure
+async function firstAnswer<T>(providers: Provider[], attempt: (provider: Provider) => Promise<T>): Promise<T> {
+  const failures: string[] = [];
+  for (const provider of providers) {
+    try {
+      console.log(`Calling ${provider.label} (${provider.model})`);
+      return await attempt(provider);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`LLM provider ${provider.name} failed:`, message);
+      failures.push(error instanceof LlmError ? message : `${provider.label} request failed: ${message}`);
+    }
+  }
+  throw new LlmError(failures.join('; ') || 'No LLM provider configured');
+}
+
+export function chatCompletion(
+  providers: Provider[],
+  messages: ChatMessage[],
+  opts: ChatOptions = {},
+): Promise<ChatResult> {
+  return firstAnswer(providers, provider => complete(provider, messages, opts));
+}
+
+export type ChatStream = {
+  provider: ProviderName;
+  model: string;
+  // Content deltas as the provider sends them
+  tokens: AsyncGenerator<string>;
+  // Tool calls assembled from the stream; complete once `tokens` is done
+  toolCalls: ToolCall[];
+};
+
+type ToolCallDelta = { index: number; id?: string; function?: { name?: string; arguments?: string } };
+
+type StreamChunk = {
+  choices?: Array<{ delta?: { content?: string | null; tool_calls?: ToolCallDelta[] } }>;
+};
+
+async function* deltas(provider: Provider, body: ReadableStream<Uint8Array>, toolCalls: ToolCall[]): AsyncGenerator<string> {
+  for await (const { data } of readSse(body)) {
+    if (data === '[DONE]') return;
+    let chunk: StreamChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      throw new LlmError(`${provider.label} sent an unreadable stream chunk`, provider.name);
+    }
+    const delta = chunk.choices?.[0]?.delta;
+    // Tool calls arrive in pieces keyed by index; arguments are concatenated
+    for (const part of delta?.tool_calls || []) {
+      const call = (toolCalls[part.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    }
+    if (delta?.content) yield delta.content;
+  }
+}
+
+// Streaming variant of chatCompletion. Providers fall back only until one
+// accepts the request; an error after that ends the token stream. Aborting
+// `signal` cancels the upstream request.
+export function chatCompletionStream(
+  providers: Provider[],
+  messages: ChatMessage[],
+  opts: ChatOptions & { signal?: AbortSignal } = {},
+): Promise<ChatStream> {
+  return firstAnswer(providers, async provider => {
+    const response = await post(provider, { ...requestBody(messages, opts), stream: true }, opts.signal);
+    if (!response.body) throw new LlmError(`${provider.label} returned an empty stream`, provider.name);
+    const toolCalls: ToolCall[] = [];
+    return { provider: provider.name, model: provider.model, tokens: deltas(provider, response.body, toolCalls), toolCalls };
+  });
+}
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, type SupabaseMock } from '../../../src/test/supabaseMock.ts';
+import { fakeFetch } from '../_testing/harness.ts';
+import { LlmFake } from '../_testing/llmFake.ts';
+import { TmdbFake } from '../_testing/tmdbFake.ts';
+import { providersFromEnv, type Provider } from './llm.ts';
+import { parseMemories, rememberExchange } from './memory.ts';
+import type { ToolContext } from './tools.ts';
+
+const exchange = { message: 'Interstellar (2014) wrecked me, I love slow-burn sci-fi', reply: 'Then try Arrival (2016).' };
+
+const answer = (...memories: Array<Record<string, unknown>>) => JSON.stringify({ memories });
+
+describe('parseMemories', () => {
+  it('reads the JSON out of fences and prose', () => {
+    expect(parseMemories('Sure!\n```json\n{"memories": [{"description": " Loves heists ", "emotions": ["Joy", "joy", "thrill"], "title": "null", "year": 1995, "kind": "film"}]}\n```'))
+      .toEqual([{ description: 'Loves heists', emotions: ['joy', 'thrill'], title: null, year: '1995', kind: null }]);
+  });
+
+  it('finds nothing to remember in anything else', () => {
+    expect(parseMemories('Nothing worth keeping here.')).toEqual([]);
+    expect(parseMemories('{"memories": "none"}')).toEqual([]);
+    expect(parseMemories('{"memories": [{"emotions": ["joy"]}, null]}')).toEqual([]);
+  });
+});
+
+describe('rememberExchange', () => {
+  let llm: LlmFake;
+  let tmdb: TmdbFake;
+  let db: SupabaseMock;
+  let providers: Provider[];
+  let context: ToolContext;
+
+  beforeEach(() => {
+    llm = new LlmFake();
+    tmdb = new TmdbFake('tmdb-test');
+    db = createSupabaseMock();
+    providers = providersFromEnv(['openai'], key => (key === 'OPENAI_API_KEY' ? 'sk-test' : undefined));
+    context = { tmdbApiKey: 'tmdb-test', db: db as unknown as SupabaseClient, userId: 'user-1' };
+    vi.stubGlobal('fetch', fakeFetch({ 'api.openai.com': llm.handle, 'api.themoviedb.org': tmdb.handle }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(console.log).mockRestore();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('stores memories about titles and general taste', async () => {
+    llm.reply(answer(
+      { description: 'Cried at the docking scene', emotions: ['awe', 'sadness'], title: 'Interstellar', year: '2014', kind: 'movie' },
+      { description: 'Loves slow-burn sci-fi', emotions: [], title: null, year: null, kind: null },
+    ));
+    const memories = await rememberExchange(providers, context, exchange);
+
+    expect(memories).toEqual([
+      { description: 'Cried at the docking scene', emotions: ['awe', 'sadness'], title: { kind: 'movie', id: 157336, title: 'Interstellar' } },
+      { description: 'Loves slow-burn sci-fi', emotions: [], title: null },
+    ]);
+    expect(db.rows('user_taste_memory')).toEqual([
+      { id: expect.any(String), user_id: 'user-1', movie_id: 157336, content_type: 'movie', title: 'Interstellar', description: 'Cried at the docking scene', emotions: ['awe', 'sadness'] },
+      { id: expect.any(String), user_id: 'user-1', movie_id: null, content_type: 'movie', title: null, description: 'Loves slow-burn sci-fi', emotions: [] },
+    ]);
+    expect(llm.lastCall!.body).toMatchObject({ temperature: 0 });
+  });
+
+  it('merges into what it already remembers', async () => {
+    db.rows('user_taste_memory').push(
+      { id: 'm1', user_id: 'user-1', movie_id: 157336, content_type: 'movie', title: 'Interstellar', description: 'Loved the music', emotions: ['awe'] },
+      { id: 'm2', user_id: 'user-1', movie_id: null, content_type: 'movie', title: null, description: 'Loves slow-burn sci-fi!', emotions: [] },
+    );
+    llm.reply(answer(
+      { description: 'Cried at the docking scene', emotions: ['sadness'], title: 'Interstellar', year: '2014', kind: 'movie' },
+      { description: 'loves slow-burn sci-fi', emotions: ['calm'], title: null, year: null, kind: null },
+    ));
+    await rememberExchange(providers, context, exchange);
+
+    expect(db.rows('user_taste_memory').map(row => [row.id, row.description, row.emotions])).toEqual([
+      ['m1', 'Cried at the docking scene', ['awe', 'sadness']],
+      ['m2', 'loves slow-burn sci-fi', ['calm']],
+    ]);
+  });
+
+  it('merges memories about the same title from one exchange', async () => {
+    llm.reply(answer(
+      { description: 'Loved the music', emotions: ['awe'], title: 'Interstellar', year: '2014', kind: 'movie' },
+      { description: 'Cried at the docking scene', emotions: ['sadness'], title: 'Interstellar', year: '2014', kind: 'movie' },
+    ));
+    const memories = await rememberExchange(providers, context, exchange);
+
+    expect(memories).toHaveLength(2);
+    expect(db.rows('user_taste_memory').map(row => [row.movie_id, row.description, row.emotions])).toEqual([
+      [157336, 'Cried at the docking scene', ['awe', 'sadness']],
+    ]);
+  });
+
+  it('keeps a memory about a title TMDB does not know as a general one', async () => {
+    llm.reply(answer({ description: 'Grew up on Kin-dza-dza', emotions: ['nostalgia'], title: 'Kin-dza-dza!', year: '1986', kind: 'movie' }));
+    const [memory] = await rememberExchange(providers, context, exchange);
+
+    expect(memory.title).toBeNull();
+    expect(db.rows('user_taste_memory')[0]).toMatchObject({ movie_id: null, description: 'Grew up on Kin-dza-dza' });
+  });
+
+  it('remembers nothing for anonymous callers or users who opted out', async () => {
+    expect(await rememberExchange(providers, { ...context, userId: null }, exchange)).toEqual([]);
+
+    db.rows('user_preferences').push({ user_id: 'user-1', privacy_settings: { assistant_personalization: false } });
+    expect(await rememberExchange(providers, context, exchange)).toEqual([]);
+    expect(llm.calls).toHaveLength(0);
+  });
+
+  it('logs failures and carries on', async () => {
+    llm.reply(answer({ description: 'Hates jump scares', emotions: ['fear'], title: null, year: null, kind: null }));
+    db.failNext('user_taste_memory', 'insert failed');
+
+    expect(await rememberExchange(providers, context, exchange)).toEqual([]);
+    expect(vi.mocked(console.error)).toHaveBeenCalledWith('Memory extraction failed:', expect.any(Error));
+  });
+});
@@ -0,0 +1,142 @@
+import { findTitle } from './cards.ts';
+import { chatCompletion, type Provider } from './llm.ts';
+import { personalizationEnabled } from './profile.ts';
+import type { ToolContext } from './tools.ts';
+
+// Durable taste the user reveals in a chat ("hates jump scares", "Dark gave
+// them chills"), pulled out of each exchange by a second model call and kept
+// in user_taste_memory with emotion tags. The taste profile feeds memories
+// back into later chats; users review and edit them on their Profile.
+
+export type Memory = {
+  description: string;
+  emotions: string[];
+  // The title the memory is about, when the model named one TMDB knows
+  title: { kind: 'movie' | 'tv'; id: number; title: string } | null;
+};
+
+// A memory as the model wrote it, before its title is looked up
+export type ExtractedMemory = {
+  description: string;
+  emotions: string[];
+  title: string | null;
+  year: string | null;
+  kind: 'movie' | 'tv' | null;
+};
+
+type StoredRow = { id: string; movie_id: number | null; content_type: string | null; description: string | null; emotions: string[] | null };
+
+const TABLE = 'user_taste_memory';
+const MAX_MEMORIES = 3;
+const MAX_EMOTIONS = 4;
+const MAX_DESCRIPTION = 200;
+
+const EXTRACT_PROMPT = `You keep notes on a movie fan's lasting taste. From the exchange below, note what the USER revealed about their taste that will still be true next month: what they love or can't stand ("Hates jump scares", "Loves slow-burn sci-fi") and how specific titles made them feel. Ignore requests, questions, passing moods and anything only the assistant said.
+
+Answer with JSON only:
+{"memories": [{"description": "short note without a subject, in the user's language", "emotions": ["one-word feelings such as awe, joy, nostalgia, fear, sadness, boredom"], "title": "the title it is about, or null", "year": "its release year, or null", "kind": "movie, tv or null"}]}
+Answer {"memories": []} when there is nothing worth keeping.`;
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const textOf = (value: unknown) => (typeof value === 'string' && value.trim() && value.trim() !== 'null' ? value.trim() : null);
+
+const emotionsOf = (value: unknown): string[] =>
+  [...new Set((Array.isArray(value) ? value : []).map(textOf).filter((e): e is string => !!e).map(e => e.toLowerCase()))]
+    .slice(0, MAX_EMOTIONS);
+
+// The model's answer, leniently: code fences and prose around the JSON are
+// fine, anything else means there is nothing to remember
+export function parseMemories(content: string): ExtractedMemory[] {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end < start) return [];
+  let parsed: { memories?: unknown };
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    // Not JSON after all
+    return [];
+  }
+  if (!Array.isArray(parsed?.memories)) return [];
+  return parsed.memories.flatMap((item: Record<string, unknown> | null): ExtractedMemory[] => {
+    const description = textOf(item?.description);
+    if (!item || !description) return [];
+    const year = String(item.year ?? '').match(/\d{4}/)?.[0] ?? null;
+    return [{
+      description: description.slice(0, MAX_DESCRIPTION),
+      emotions: emotionsOf(item.emotions),
+      title: textOf(item.title),
+      year,
+      kind: item.kind === 'movie' || item.kind === 'tv' ? item.kind : null,
+    }];
+  }).slice(0, MAX_MEMORIES);
+}
+
+export async function extractMemories(providers: Provider[], exchange: { message: string; reply: string }): Promise<ExtractedMemory[]> {
+  const result = await chatCompletion(providers, [
+    { role: 'system', content: EXTRACT_PROMPT },
+    { role: 'user', content: `User: ${exchange.message}\n\nAssistant: ${exchange.reply}` },
+  ], { temperature: 0, maxTokens: 400 });
+  return parseMemories(result.content);
+}
+
+// Adds the memory, or merges it into the one already kept about the same
+// title (or with the same wording), so repeating yourself does not pile up rows
+async function store(ctx: ToolContext, existing: StoredRow[], memory: ExtractedMemory): Promise<Memory> {
+  const card = memory.title && memory.year && ctx.tmdbApiKey
+    ? await findTitle(ctx.tmdbApiKey, memory.title, memory.year, memory.kind ?? undefined)
+    : null;
+  const title = card ? { kind: card.kind, id: card.id, title: card.title } : null;
+  const match = existing.find(row => title
+    ? row.movie_id === title.id && row.content_type === title.kind
+    : row.movie_id === null && normalize(row.description ?? '') === normalize(memory.description));
+  const emotions = [...new Set([...(match?.emotions ?? []), ...memory.emotions])];
+
+  if (match) {
+    const { error } = await ctx.db.from(TABLE).update({ description: memory.description, emotions }).eq('id', match.id);
+    if (error) throw new Error(error.message);
+    Object.assign(match, { description: memory.description, emotions });
+  } else {
+    // The id is set here so a later memory from the same exchange can merge into this row
+    const row = {
+      id: crypto.randomUUID(),
+      movie_id: title?.id ?? null,
+      content_type: title?.kind ?? 'movie',
+      description: memory.description,
+      emotions,
+    };
+    const { error } = await ctx.db.from(TABLE).insert({ ...row, user_id: ctx.userId, title: title?.title ?? null });
+    if (error) throw new Error(error.message);
+    existing.push(row);
+  }
+  return { description: memory.description, emotions, title };
+}
+
+// Memories kept from one exchange. Anonymous callers and users who turned
+// personalization off are skipped, and failures only cost the memories.
+export async function rememberExchange(
+  providers: Provider[],
+  ctx: ToolContext,
+  exchange: { message: string; reply: string },
+): Promise<Memory[]> {
+  if (!ctx.userId || !exchange.message || !exchange.reply) return [];
+  try {
+    if (!(await personalizationEnabled(ctx))) return [];
+    const extracted = await extractMemories(providers, exchange);
+    if (!extracted.length) return [];
+
+    const { data, error } = await ctx.db
+      .from(TABLE)
+      .select('id, movie_id, content_type, description, emotions')
+      .eq('user_id', ctx.userId);
+    if (error) throw new Error(error.message);
+    const existing = (data || []) as StoredRow[];
+    const memories: Memory[] = [];
+    for (const memory of extracted) memories.push(await store(ctx, existing, memory));
+    return memories;
+  } catch (error) {
+    console.error('Memory extraction failed:', error);
+    return [];
+  }
+}
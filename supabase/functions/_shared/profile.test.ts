@@ -0,0 +1,124 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, type SupabaseMock } from '../../../src/test/supabaseMock.ts';
+import { fakeFetch } from '../_testing/harness.ts';
+import { TmdbFake } from '../_testing/tmdbFake.ts';
+import { describeProfile, loadTasteProfile, profilePrompt } from './profile.ts';
+import type { ToolContext } from './tools.ts';
+
+const activity = (type: string, movie_id: number | null, extra: Record<string, unknown> = {}) => ({
+  user_id: 'user-1',
+  type,
+  movie_id,
+  content_type: 'movie',
+  title: null,
+  genres: [],
+  metadata: null,
+  ...extra,
+});
+
+describe('loadTasteProfile', () => {
+  let tmdb: TmdbFake;
+  let db: SupabaseMock;
+  let context: ToolContext;
+
+  beforeEach(() => {
+    tmdb = new TmdbFake('tmdb-test');
+    db = createSupabaseMock();
+    context = { tmdbApiKey: 'tmdb-test', db: db as unknown as SupabaseClient, userId: 'user-1' };
+    vi.stubGlobal('fetch', fakeFetch({ 'api.themoviedb.org': tmdb.handle }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('sums up activity, ratings, lists and taste memory', async () => {
+    db.rows('user_activity').push(
+      activity('movie_open', 27205, { title: 'Inception', genres: [28, 878, 12], ts: '2026-10-03' }),
+      activity('movie_open', 603, { title: 'The Matrix', genres: [28, 878], ts: '2026-10-02' }),
+      activity('movie_rated', 550, { title: 'Fight Club', genres: [18], metadata: { rating: 2 }, ts: '2026-10-01' }),
+      activity('not_interested', 129, { title: 'Spirited Away', genres: [16], ts: '2026-09-30' }),
+      activity('hide_genre', null, { title: 'Horror', genres: [27], ts: '2026-09-29' }),
+      // Someone else's activity stays out of it
+      activity('movie_open', 2316, { user_id: 'user-2', title: 'The Office', genres: [35], ts: '2026-10-04' }),
+    );
+    db.rows('user_ratings').push(
+      { user_id: 'user-1', movie_id: 157336, content_type: 'movie', rating: 5, updated_at: '2026-10-01' },
+      { user_id: 'user-1', movie_id: 550, content_type: 'movie', rating: 2, updated_at: '2026-09-01' },
+    );
+    db.rows('user_favorites').push({ user_id: 'user-1', movie_id: '70523', content_type: 'tv', created_at: '2026-10-01' });
+    db.rows('user_watchlist').push({ user_id: 'user-1', movie_id: '496243', content_type: 'movie', created_at: '2026-10-01' });
+    db.rows('user_taste_memory').push({
+      user_id: 'user-1', movie_id: 157336, content_type: 'movie', emotions: ['awe'], description: 'Made me call my dad', created_at: '2026-10-01',
+    });
+
+    expect(await loadTasteProfile(context)).toEqual({
+      topGenres: ['Action', 'Science Fiction', 'Adventure'],
+      recentOpens: ['Inception', 'The Matrix'],
+      liked: ['Interstellar (2014)'],
+      disliked: ['Fight Club', 'Spirited Away'],
+      avoidGenres: ['Horror'],
+      favorites: ['Dark (2017)'],
+      watchlist: ['Parasite (2019)'],
+      notes: ['Interstellar (2014): Made me call my dad (awe)'],
+    });
+    // Titles the activity log names are not looked up again
+    expect(tmdb.requestsFor('movie/550')).toHaveLength(0);
+  });
+
+  it('returns nothing when the user turned personalization off', async () => {
+    db.rows('user_preferences').push({ user_id: 'user-1', privacy_settings: { public_profile: true, assistant_personalization: false } });
+    db.rows('user_activity').push(activity('movie_open', 27205, { title: 'Inception', genres: [28] }));
+
+    expect(await loadTasteProfile(context)).toBeNull();
+    expect(await loadTasteProfile({ ...context, userId: null })).toBeNull();
+  });
+
+  it('returns nothing for a user without history', async () => {
+    db.rows('user_preferences').push({ user_id: 'user-1', privacy_settings: { public_profile: true } });
+
+    expect(await loadTasteProfile(context)).toBeNull();
+  });
+
+  it('leaves out titles it cannot look up', async () => {
+    tmdb.failNext(500);
+    db.rows('user_favorites').push({ user_id: 'user-1', movie_id: '603', content_type: 'movie', created_at: '2026-10-01' });
+    db.rows('user_watchlist').push({ user_id: 'user-1', movie_id: '550', content_type: 'movie', created_at: '2026-10-01' });
+
+    const profile = await loadTasteProfile(context);
+
+    expect([...profile!.favorites, ...profile!.watchlist]).toHaveLength(1);
+    expect(vi.mocked(console.error)).toHaveBeenCalledWith('Taste profile lookup failed:', expect.any(String), expect.any(Error));
+  });
+
+  it('falls back to no profile when the database fails', async () => {
+    db.failNext('user_preferences');
+
+    expect(await profilePrompt(context)).toBeNull();
+    expect(vi.mocked(console.error)).toHaveBeenCalledWith('Taste profile error:', expect.any(Error));
+  });
+});
+
+describe('describeProfile', () => {
+  it('lists only the sections with something in them', () => {
+    const prompt = describeProfile({
+      topGenres: ['Drama', 'Crime'],
+      recentOpens: [],
+      liked: ['Heat (1995)'],
+      disliked: [],
+      avoidGenres: ['Horror'],
+      favorites: [],
+      watchlist: [],
+      notes: [],
+    });
+
+    expect(prompt.split('\n').slice(1)).toEqual([
+      '- Favourite genres: Drama; Crime',
+      '- Rated highly: Heat (1995)',
+      '- Genres they hid: Horror',
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { lookupTitle, tmdb, type ToolContext } from './tools.ts';
+
+// A compact picture of the caller's taste for the assistant's system prompt,
+// built from their activity, ratings, lists and taste memory. Users can turn
+// it off in Settings, which stores `assistant_personalization: false` in
+// `user_preferences.privacy_settings`.
+
+export type TasteProfile = {
+  topGenres: string[];
+  recentOpens: string[];
+  liked: string[];
+  disliked: string[];
+  avoidGenres: string[];
+  favorites: string[];
+  watchlist: string[];
+  // From user_taste_memory: what the user said a title meant to them
+  notes: string[];
+};
+
+type Kind = 'movie' | 'tv';
+type Ref = { kind: Kind; id: number };
+type Row = Record<string, unknown>;
+
+const LIST_SIZE = 5;
+const ACTIVITY_ROWS = 200;
+// TMDB lookups for titles the activity log does not name
+const MAX_LOOKUPS = 10;
+
+// Activity that counts towards the top genres
+const INTERESTED = new Set(['movie_open', 'trailer_play', 'movie_watched', 'episode_watched']);
+const NOT_INTERESTED = new Set(['not_interested', 'show_fewer']);
+
+const refOf = (row: Row): Ref | null => {
+  const id = Number(row.movie_id);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  return { kind: row.content_type === 'tv' ? 'tv' : 'movie', id };
+};
+
+const keyOf = (ref: Ref) => `${ref.kind}:${ref.id}`;
+
+const ratingOf = (row: Row) => {
+  const metadata = row.metadata as { rating?: unknown } | null;
+  return typeof metadata?.rating === 'number' ? metadata.rating : null;
+};
+
+const unique = <T>(items: T[]) => [...new Set(items)];
+
+async function rows(query: PromiseLike<{ data: unknown; error: { message: string } | null }>): Promise<Row[]> {
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data as Row[] | null) || [];
+}
+
+export async function personalizationEnabled(ctx: ToolContext): Promise<boolean> {
+  const { data, error } = await ctx.db
+    .from('user_preferences')
+    .select('privacy_settings')
+    .eq('user_id', ctx.userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.privacy_settings?.assistant_personalization !== false;
+}
+
+// Null for anonymous callers, users who turned personalization off, and
+// users with nothing to go on yet
+export async function loadTasteProfile(ctx: ToolContext): Promise<TasteProfile | null> {
+  if (!ctx.userId || !(await personalizationEnabled(ctx))) return null;
+  const byUser = (table: string, columns: string, order: string) =>
+    rows(ctx.db.from(table).select(columns).eq('user_id', ctx.userId).order(order, { ascending: false }));
+
+  const [activity, ratings, favorites, watchlist, memories] = await Promise.all([
+    rows(ctx.db
+      .from('user_activity')
+      .select('type, movie_id, content_type, title, genres, metadata, ts')
+      .eq('user_id', ctx.userId)
+      .order('ts', { ascending: false })
+      .limit(ACTIVITY_ROWS)),
+    byUser('user_ratings', 'movie_id, content_type, rating, updated_at', 'updated_at'),
+    byUser('user_favorites', 'movie_id, content_type, created_at', 'created_at'),
+    byUser('user_watchlist', 'movie_id, content_type, created_at', 'created_at'),
+    byUser('user_taste_memory', 'movie_id, content_type, title, emotions, description, created_at', 'created_at'),
+  ]);
+
+  // Titles the activity log and taste memory already name; the rest are
+  // looked up
+  const titles = new Map<string, string>();
+  for (const row of [...activity, ...memories]) {
+    const ref = refOf(row);
+    if (ref && typeof row.title === 'string' && row.title && !titles.has(keyOf(ref))) titles.set(keyOf(ref), row.title);
+  }
+
+  const refsOf = (list: Row[], keep: (row: Row) => boolean = () => true) =>
+    list.filter(keep).map(refOf).filter((ref): ref is Ref => ref !== null).slice(0, LIST_SIZE);
+  const liked = refsOf(ratings, row => Number(row.rating) >= 4);
+  const disliked = [
+    ...refsOf(ratings, row => Number(row.rating) <= 2),
+    ...refsOf(activity, row => NOT_INTERESTED.has(String(row.type))),
+  ];
+  const favoriteRefs = refsOf(favorites);
+  const watchlistRefs = refsOf(watchlist);
+  const memoryRefs = refsOf(memories);
+
+  const missing = unique([...liked, ...disliked, ...favoriteRefs, ...watchlistRefs, ...memoryRefs].map(keyOf))
+    .filter(key => !titles.has(key))
+    .slice(0, MAX_LOOKUPS);
+  await Promise.all(missing.map(async key => {
+    const [kind, id] = key.split(':');
+    try {
+      const title = await lookupTitle(ctx, kind as Kind, Number(id));
+      titles.set(key, title.year ? `${title.title} (${title.year})` : title.title);
+    } catch (error) {
+      console.error('Taste profile lookup failed:', key, error);
+    }
+  }));
+  const named = (refs: Ref[]) =>
+    unique(refs.map(ref => titles.get(keyOf(ref))).filter((t): t is string => !!t)).slice(0, LIST_SIZE);
+
+  const profile: TasteProfile = {
+    topGenres: await topGenres(ctx, activity),
+    recentOpens: unique(activity.filter(row => row.type === 'movie_open' && row.title).map(row => String(row.title))).slice(0, LIST_SIZE),
+    liked: named(liked),
+    disliked: named(disliked),
+    // hide_genre events carry the genre's display name in `title`
+    avoidGenres: unique(activity.filter(row => row.type === 'hide_genre' && row.title).map(row => String(row.title))).slice(0, LIST_SIZE),
+    favorites: named(favoriteRefs),
+    watchlist: named(watchlistRefs),
+    notes: memories.slice(0, LIST_SIZE).flatMap(row => {
+      const ref = refOf(row);
+      const title = ref ? titles.get(keyOf(ref)) : undefined;
+      const emotions = Array.isArray(row.emotions) && row.emotions.length ? ` (${row.emotions.join(', ')})` : '';
+      const text = `${row.description ?? ''}${emotions}`.trim();
+      if (!text) return [];
+      return [title ? `${title}: ${text}` : text];
+    }),
+  };
+  return Object.values(profile).some(list => list.length) ? profile : null;
+}
+
+// Genres of the titles the user engaged with, most frequent first. Ratings of
+// 4 and up count double; titles rated 2 or less do not count.
+async function topGenres(ctx: ToolContext, activity: Row[]): Promise<string[]> {
+  const counts = new Map<number, number>();
+  for (const row of activity) {
+    const rating = row.type === 'movie_rated' ? ratingOf(row) : null;
+    const weight = INTERESTED.has(String(row.type)) ? 1 : rating !== null && rating >= 4 ? 2 : 0;
+    if (!weight || !Array.isArray(row.genres)) continue;
+    for (const genre of row.genres) counts.set(Number(genre), (counts.get(Number(genre)) ?? 0) + weight);
+  }
+  if (!counts.size) return [];
+
+  const lists = await Promise.all((['movie', 'tv'] as const).map(kind => tmdb(ctx, `genre/${kind}/list`)));
+  const names = new Map<number, string>();
+  for (const list of lists) {
+    for (const genre of (list.genres as Array<{ id: number; name: string }>) || []) names.set(genre.id, genre.name);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => names.get(id))
+    .filter((name): name is string => !!name)
+    .slice(0, LIST_SIZE);
+}
+
+const SECTIONS: Array<[keyof TasteProfile, string]> = [
+  ['topGenres', 'Favourite genres'],
+  ['recentOpens', 'Recently looked at'],
+  ['liked', 'Rated highly'],
+  ['favorites', 'Favorites'],
+  ['watchlist', 'On their watchlist already'],
+  ['disliked', 'Disliked'],
+  ['avoidGenres', 'Genres they hid'],
+  ['notes', 'In their own words'],
+];
+
+export const describeProfile = (profile: TasteProfile) => [
+  "What you know about this user's taste. Use it to tailor suggestions and to avoid titles they disliked or already have; do not recite it unless they ask.",
+  ...SECTIONS.filter(([key]) => profile[key].length).map(([key, label]) => `- ${label}: ${profile[key].join('; ')}`),
+].join('\n');
+
+// The profile as a system prompt section, or null. Failures only cost the
+// personalization.
+export async function profilePrompt(ctx: ToolContext): Promise<string | null> {
+  try {
+    const profile = await loadTasteProfile(ctx);
+    return profile ? describeProfile(profile) : null;
+  } catch (error) {
+    console.error('Taste profile error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,77 @@
+// Server-sent events in both directions: reading an upstream provider's
+// stream and streaming events back to the app.
+
+export type SseMessage = { event: string; data: string };
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// Messages of an event stream, dispatched at each blank line
+export async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length) yield { event: event || 'message', data: data.join('\n') };
+          event = '';
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Stream the events `run` sends. `onCancel` runs when the client goes away
+// before `run` finishes; nothing is sent after that. A failure inside `run`
+// becomes an `error` event, since the status line has already gone out.
+export function sseResponse(
+  headers: Record<string, string>,
+  run: (send: SendEvent) => Promise<void>,
+  onCancel?: () => void,
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (!closed) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      run(send)
+        .catch(error => {
+          if (closed) return;
+          console.error('Stream failed:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Unknown error occurred' });
+        })
+        .finally(() => {
+          if (closed) return;
+          closed = true;
+          controller.close();
+        });
+    },
+    cancel() {
+      closed = true;
+      onCancel?.();
+    },
+  });
+  return new Response(body, { headers: { ...headers, ...SSE_HEADERS } });
+}
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, type SupabaseMock } from '../../../src/test/supabaseMock.ts';
+import { fakeFetch } from '../_testing/harness.ts';
+import { TmdbFake } from '../_testing/tmdbFake.ts';
+import { resolveCaller, TOOLS, toolsFor, type ToolContext } from './tools.ts';
+
+const tool = (name: string) => TOOLS.find(t => t.spec.name === name)!;
+
+describe('tools', () => {
+  let tmdb: TmdbFake;
+  let db: SupabaseMock;
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    tmdb = new TmdbFake('tmdb-test');
+    db = createSupabaseMock();
+    ctx = { tmdbApiKey: 'tmdb-test', db: db as unknown as SupabaseClient, userId: 'user-1' };
+    vi.stubGlobal('fetch', fakeFetch({ 'api.themoviedb.org': tmdb.handle }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('offers the list tools to signed-in callers only', () => {
+    const names = (userId: string | null) => toolsFor({ ...ctx, userId }).map(t => t.spec.name);
+
+    expect(names('user-1')).toContain('add_to_watchlist');
+    expect(names(null)).toEqual(['search_titles', 'discover', 'get_details']);
+  });
+
+  it('resolves the caller from the JWT, not from anything in the request body', async () => {
+    const req = (auth?: string) => new Request('http://fn.test', { method: 'POST', headers: auth ? { Authorization: auth } : {} });
+    const client = db as unknown as SupabaseClient;
+
+    expect(await resolveCaller(req(), client)).toBeNull();
+    expect(await resolveCaller(req('Bearer anon-key'), client)).toBeNull();
+    db.user = { id: 'user-1' };
+    expect(await resolveCaller(req('Bearer user-jwt'), client)).toBe('user-1');
+    expect(db.auth.getUser).toHaveBeenLastCalledWith('user-jwt');
+  });
+
+  it('discovers titles by person, newest first', async () => {
+    const result = await tool('discover').run({ kind: 'movie', person: 'christopher nolan', sort: 'newest' }, ctx) as {
+      person: string;
+      results: Array<{ title: string }>;
+    };
+
+    expect(result.person).toBe('Christopher Nolan');
+    expect(result.results.map(r => r.title)).toEqual(['Oppenheimer', 'Tenet', 'Dunkirk', 'Interstellar', 'Inception']);
+    expect(tmdb.requestsFor('discover/movie')[0].searchParams.get('with_people')).toBe('525');
+  });
+
+  it('names the valid genres when the model invents one', async () => {
+    await expect(tool('discover').run({ kind: 'movie', genres: ['Space Opera'] }, ctx))
+      .rejects.toThrow(/Unknown genre "Space Opera"; use one of Action, Adventure/);
+  });
+
+  it('reports the director and adds titles to the list once', async () => {
+    const details = await tool('get_details').run({ kind: 'movie', id: 872585 }, ctx);
+    await tool('add_to_watchlist').run({ kind: 'movie', id: 872585 }, ctx);
+    const added = await tool('add_to_watchlist').run({ kind: 'movie', id: 872585 }, ctx);
+
+    expect(details).toMatchObject({ title: 'Oppenheimer', directors: ['Christopher Nolan'], genres: ['Drama'] });
+    expect(added).toEqual({ ok: true, id: 872585, kind: 'movie', title: 'Oppenheimer', year: '2023' });
+    expect(db.rows('user_watchlist')).toEqual([{ user_id: 'user-1', movie_id: '872585', content_type: 'movie' }]);
+  });
+
+  it("reads only the caller's history, newest first", async () => {
+    db.rows('user_activity').push(
+      { user_id: 'user-1', type: 'view', movie_id: 603, content_type: 'movie', title: 'The Matrix', metadata: {}, ts: '2025-01-01T10:00:00Z' },
+      { user_id: 'user-2', type: 'search', query: 'not mine', metadata: {}, ts: '2025-01-01T11:00:00Z' },
+      { user_id: 'user-1', type: 'rate', movie_id: 1396, content_type: 'tv', title: 'Breaking Bad', metadata: { rating: 5 }, ts: '2025-01-02T10:00:00Z' },
+    );
+    const result = await tool('get_my_history').run({ limit: 10 }, ctx);
+
+    expect(result).toEqual({
+      events: [
+        { type: 'rate', id: 1396, kind: 'tv', title: 'Breaking Bad', rating: 5, at: '2025-01-02T10:00:00Z' },
+        { type: 'view', id: 603, kind: 'movie', title: 'The Matrix', at: '2025-01-01T10:00:00Z' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ToolSpec } from './llm.ts';
+
+// Tools the assistant can call: catalog lookups against TMDB, and reads and
+// writes of the caller's own lists. List tools are only offered to a
+// signed-in caller, and always act as the user resolved from the request's
+// JWT, never as a user named by the model or the request body.
+
+export type ToolContext = {
+  tmdbApiKey: string | undefined;
+  // Service-role client; every query is scoped to `userId` explicitly
+  db: SupabaseClient;
+  userId: string | null;
+};
+
+export interface Tool {
+  spec: ToolSpec;
+  requiresUser?: boolean;
+  run: (args: Record<string, unknown>, ctx: ToolContext) => Promise<unknown>;
+}
+
+// Thrown for bad arguments or failed lookups; the message goes back to the
+// model so it can correct itself
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+type Kind = 'movie' | 'tv';
+type TmdbTitle = Record<string, unknown> & { id: number };
+
+const MAX_RESULTS = 10;
+const MAX_HISTORY = 50;
+const OVERVIEW_CHARS = 200;
+
+const SORTS: Record<string, (kind: Kind) => string> = {
+  popular: () => 'popularity.desc',
+  top_rated: () => 'vote_average.desc',
+  newest: kind => (kind === 'movie' ? 'primary_release_date.desc' : 'first_air_date.desc'),
+  oldest: kind => (kind === 'movie' ? 'primary_release_date.asc' : 'first_air_date.asc'),
+};
+
+const kindSchema = { type: 'string', enum: ['movie', 'tv'] };
+
+export async function tmdb(ctx: ToolContext, path: string, params: Record<string, string | number | undefined> = {}) {
+  if (!ctx.tmdbApiKey) throw new ToolError('The catalog is not available right now');
+  const url = new URL(`https://api.themoviedb.org/3/${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') url.searchParams.set(key, String(value));
+  }
+  url.searchParams.set('api_key', ctx.tmdbApiKey);
+  const response = await fetch(url.toString());
+  if (response.status === 404) throw new ToolError(`Nothing found at ${path}`);
+  if (!response.ok) throw new Error(`TMDB API error: ${response.status}`);
+  return await response.json() as Record<string, unknown>;
+}
+
+const kindOf = (value: unknown): Kind => {
+  if (value === 'movie' || value === 'tv') return value;
+  throw new ToolError('"kind" must be "movie" or "tv"');
+};
+
+const idOf = (value: unknown): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) throw new ToolError('"id" must be a TMDB id');
+  return id;
+};
+
+const yearOf = (t: TmdbTitle) => String(t.release_date || t.first_air_date || '').slice(0, 4) || null;
+
+// The fields the model needs to refer to a title and talk about it
+const summary = (t: TmdbTitle, kind: Kind) => ({
+  id: t.id,
+  kind,
+  title: String(t.title ?? t.name ?? ''),
+  year: yearOf(t),
+  rating: t.vote_average ?? null,
+  overview: String(t.overview ?? '').slice(0, OVERVIEW_CHARS),
+  poster_path: t.poster_path ?? null,
+});
+
+const results = (page: Record<string, unknown>, kind?: Kind) =>
+  ((page.results as TmdbTitle[]) || [])
+    .filter(t => kind || t.media_type === 'movie' || t.media_type === 'tv')
+    .slice(0, MAX_RESULTS)
+    .map(t => summary(t, kind ?? (t.media_type as Kind)));
+
+const genreIds = async (ctx: ToolContext, kind: Kind, names: unknown): Promise<string | undefined> => {
+  if (!Array.isArray(names) || names.length === 0) return undefined;
+  const { genres = [] } = await tmdb(ctx, `genre/${kind}/list`) as { genres?: Array<{ id: number; name: string }> };
+  return names.map(name => {
+    const genre = genres.find(g => g.name.toLowerCase() === String(name).toLowerCase());
+    if (!genre) throw new ToolError(`Unknown genre "${name}"; use one of ${genres.map(g => g.name).join(', ')}`);
+    return genre.id;
+  }).join(',');
+};
+
+const findPerson = async (ctx: ToolContext, name: unknown) => {
+  if (typeof name !== 'string' || !name.trim()) return undefined;
+  const page = await tmdb(ctx, 'search/person', { query: name });
+  const person = ((page.results as TmdbTitle[]) || [])[0];
+  if (!person) throw new ToolError(`No person called "${name}"`);
+  return person;
+};
+
+// Confirms the title exists and returns its name for the reply
+export const lookupTitle = async (ctx: ToolContext, kind: Kind, id: number) => summary(await tmdb(ctx, `${kind}/${id}`) as TmdbTitle, kind);
+
+const addToList = async (ctx: ToolContext, list: 'user_watchlist' | 'user_favorites', args: Record<string, unknown>) => {
+  const kind = kindOf(args.kind);
+  const title = await lookupTitle(ctx, kind, idOf(args.id));
+  const { error } = await ctx.db
+    .from(list)
+    .upsert({ user_id: ctx.userId, movie_id: String(title.id), content_type: kind }, { onConflict: 'user_id,movie_id,content_type' });
+  if (error) throw new Error(`Could not update ${list}: ${error.message}`);
+  return { ok: true, id: title.id, kind, title: title.title, year: title.year };
+};
+
+export const TOOLS: Tool[] = [
+  {
+    spec: {
+      name: 'search_titles',
+      description: 'Search movies and TV shows by title or keywords. Returns TMDB ids to use with the other tools.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          kind: { ...kindSchema, description: 'Restrict to movies or TV; searches both when omitted' },
+          year: { type: 'integer' },
+        },
+        required: ['query'],
+      },
+    },
+    run: async (args, ctx) => {
+      const query = typeof args.query === 'string' ? args.query.trim() : '';
+      if (!query) throw new ToolError('"query" is required');
+      const kind = args.kind === undefined ? undefined : kindOf(args.kind);
+      const yearParam = kind === 'tv' ? 'first_air_date_year' : 'year';
+      const page = await tmdb(ctx, `search/${kind ?? 'multi'}`, { query, [yearParam]: kind ? (args.year as number | undefined) : undefined });
+      return { results: results(page, kind) };
+    },
+  },
+  {
+    spec: {
+      name: 'discover',
+      description: 'Browse the catalog by genre, person (actor or director), year and rating. Use this for requests such as "recent Nolan films" or "90s comedies".',
+      parameters: {
+        type: 'object',
+        properties: {
+          kind: kindSchema,
+          genres: { type: 'array', items: { type: 'string' }, description: 'Genre names, e.g. ["Comedy", "Drama"]' },
+          person: { type: 'string', description: 'Name of an actor or director' },
+          year: { type: 'integer' },
+          min_rating: { type: 'number', description: 'Minimum TMDB rating, 0-10' },
+          sort: { type: 'string', enum: Object.keys(SORTS) },
+        },
+        required: ['kind'],
+      },
+    },
+    run: async (args, ctx) => {
+      const kind = kindOf(args.kind);
+      const sort = SORTS[String(args.sort ?? 'popular')];
+      if (!sort) throw new ToolError(`"sort" must be one of ${Object.keys(SORTS).join(', ')}`);
+      const person = await findPerson(ctx, args.person);
+      const page = await tmdb(ctx, `discover/${kind}`, {
+        sort_by: sort(kind),
+        with_genres: await genreIds(ctx, kind, args.genres),
+        with_people: person?.id,
+        [kind === 'movie' ? 'primary_release_year' : 'first_air_date_year']: args.year as number | undefined,
+        'vote_average.gte': args.min_rating as number | undefined,
+        // Keeps obscure titles with a handful of votes out of rating sorts
+        'vote_count.gte': args.sort === 'top_rated' ? 200 : undefined,
+      });
+      return { ...(person ? { person: person.name } : {}), results: results(page, kind) };
+    },
+  },
+  {
+    spec: {
+      name: 'get_details',
+      description: 'Full details of one title: genres, runtime, director or creators, main cast and overview.',
+      parameters: {
+        type: 'object',
+        properties: { kind: kindSchema, id: { type: 'integer' } },
+        required: ['kind', 'id'],
+      },
+    },
+    run: async (args, ctx) => {
+      const kind = kindOf(args.kind);
+      const t = await tmdb(ctx, `${kind}/${idOf(args.id)}`, { append_to_response: 'credits' }) as TmdbTitle & {
+        genres?: Array<{ name: string }>;
+        credits?: { cast?: Array<{ name: string }>; crew?: Array<{ name: string; job: string }> };
+        created_by?: Array<{ name: string }>;
+      };
+      return {
+        ...summary(t, kind),
+        overview: t.overview ?? '',
+        genres: (t.genres || []).map(g => g.name),
+        runtime: t.runtime ?? t.episode_run_time ?? null,
+        directors: (t.credits?.crew || []).filter(c => c.job === 'Director').map(c => c.name),
+        creators: (t.created_by || []).map(c => c.name),
+        cast: (t.credits?.cast || []).slice(0, 5).map(c => c.name),
+      };
+    },
+  },
+  {
+    spec: {
+      name: 'add_to_watchlist',
+      description: "Add a title to the user's watchlist. Call once per title.",
+      parameters: {
+        type: 'object',
+        properties: { kind: kindSchema, id: { type: 'integer' } },
+        required: ['kind', 'id'],
+      },
+    },
+    requiresUser: true,
+    run: (args, ctx) => addToList(ctx, 'user_watchlist', args),
+  },
+  {
+    spec: {
+      name: 'mark_favorite',
+      description: "Add a title to the user's favorites. Call once per title.",
+      parameters: {
+        type: 'object',
+        properties: { kind: kindSchema, id: { type: 'integer' } },
+        required: ['kind', 'id'],
+      },
+    },
+    requiresUser: true,
+    run: (args, ctx) => addToList(ctx, 'user_favorites', args),
+  },
+  {
+    spec: {
+      name: 'get_my_history',
+      description: 'What the user recently opened, watched, rated (1-5 stars) and searched for, newest first.',
+      parameters: {
+        type: 'object',
+        properties: { limit: { type: 'integer', description: `At most ${MAX_HISTORY}` } },
+      },
+    },
+    requiresUser: true,
+    run: async (args, ctx) => {
+      const limit = Math.min(MAX_HISTORY, Math.max(1, Number(args.limit) || 20));
+      const { data, error } = await ctx.db
+        .from('user_activity')
+        .select('type, movie_id, content_type, title, query, metadata, ts')
+        .eq('user_id', ctx.userId)
+        .order('ts', { ascending: false })
+        .limit(limit);
+      if (error) throw new Error(`Could not load history: ${error.message}`);
+      return {
+        events: (data || []).map(row => ({
+          type: row.type,
+          ...(row.movie_id ? { id: row.movie_id, kind: row.content_type ?? 'movie' } : {}),
+          ...(row.title ? { title: row.title } : {}),
+          ...(row.query ? { query: row.query } : {}),
+          ...(typeof row.metadata?.rating === 'number' ? { rating: row.metadata.rating } : {}),
+          at: row.ts,
+        })),
+      };
+    },
+  },
+];
+
+export const toolsFor = (ctx: ToolContext) => TOOLS.filter(tool => !tool.requiresUser || ctx.userId);
+
+// The caller's user id from the request's JWT; null for anonymous callers
+// and the anon key itself
+export async function resolveCaller(req: Request, db: SupabaseClient): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const { data, error } = await db.auth.getUser(token);
+  return error || !data?.user ? null : data.user.id;
+}
@@ -0,0 +1,115 @@
+// Boots an edge function in-process for a Vitest test. The function's module
+// is evaluated fresh against a fake Deno global, the TMDB and LLM fakes and
+// an in-memory Supabase client; any other outgoing request fails the test.
+//
+//   const fn = await bootFunction('tmdb-movies');
+//   const res = await fn.call({ query: { endpoint: 'movie/popular' } });
+//   expect(fn.tmdb.requests).toHaveLength(1);
+
+import { onTestFinished, vi } from 'vitest';
+import { createSupabaseMock, type SupabaseMock } from '../../../src/test/supabaseMock.ts';
+import { readSse } from '../_shared/sse.ts';
+import { LlmFake } from './llmFake.ts';
+import { takeHandler, registerHandler, installDatabase, type Handler } from './runtime.ts';
+import { TmdbFake, type TmdbFixture } from './tmdbFake.ts';
+
+const FUNCTIONS = {
+  'tmdb-movies': () => import('../tmdb-movies/index.ts'),
+  'enhanced-ai-assistant': () => import('../enhanced-ai-assistant/index.ts'),
+  'groq-assistant': () => import('../groq-assistant/index.ts'),
+};
+
+export type FunctionName = keyof typeof FUNCTIONS;
+
+export const TEST_ENV: Record<string, string> = {
+  TMDB_API_KEY: 'test-tmdb-key',
+  OPENAI_API_KEY: 'test-openai-key',
+  XAI_API_KEY: 'test-xai-key',
+  SUPABASE_URL: 'http://supabase.test',
+  SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+};
+
+export type BootOptions = {
+  // Overrides TEST_ENV; `undefined` unsets a variable
+  env?: Record<string, string | undefined>;
+  fixture?: TmdbFixture;
+};
+
+export type CallOptions = {
+  method?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON, strings as-is
+  body?: unknown;
+};
+
+export type BootedFunction = {
+  handler: Handler;
+  call: (opts?: CallOptions) => Promise<Response>;
+  tmdb: TmdbFake;
+  llm: LlmFake;
+  db: SupabaseMock;
+  // console.log/console.error output of the function, one entry per call
+  logs: unknown[][];
+  errors: unknown[][];
+};
+
+export const fakeFetch = (hosts: Record<string, Handler>) =>
+  async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const req = new Request(input, init);
+    const handler = hosts[new URL(req.url).host];
+    if (!handler) throw new TypeError(`Unexpected network request to ${req.url}`);
+    return handler(req);
+  };
+
+// Every event of a streamed reply, with its data parsed
+export const readEvents = async (res: Response) => {
+  const events: Array<{ event: string; data: Record<string, unknown> }> = [];
+  for await (const { event, data } of readSse(res.body!)) events.push({ event, data: JSON.parse(data) });
+  return events;
+};
+
+export async function bootFunction(name: FunctionName, opts: BootOptions = {}): Promise<BootedFunction> {
+  const env = { ...TEST_ENV, ...opts.env };
+  const tmdb = new TmdbFake(TEST_ENV.TMDB_API_KEY, opts.fixture);
+  const llm = new LlmFake();
+  const db = createSupabaseMock();
+
+  vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] }, serve: registerHandler });
+  vi.stubGlobal('fetch', fakeFetch({
+    'api.themoviedb.org': tmdb.handle,
+    'api.openai.com': llm.handle,
+    'api.groq.com': llm.handle,
+    'api.x.ai': llm.handle,
+    'localhost:11434': llm.handle,
+  }));
+  installDatabase(db);
+
+  const logs: unknown[][] = [];
+  const errors: unknown[][] = [];
+  const log = vi.spyOn(console, 'log').mockImplementation((...args) => { logs.push(args); });
+  const error = vi.spyOn(console, 'error').mockImplementation((...args) => { errors.push(args); });
+  onTestFinished(() => {
+    log.mockRestore();
+    error.mockRestore();
+    vi.unstubAllGlobals();
+  });
+
+  // Module-level state (clients, caches) starts empty on every boot
+  vi.resetModules();
+  await FUNCTIONS[name]();
+  const handler = takeHandler();
+
+  const call = ({ method, query, headers, body }: CallOptions = {}) => {
+    const url = new URL(`http://localhost/functions/v1/${name}`);
+    Object.entries(query || {}).forEach(([key, value]) => url.searchParams.set(key, value));
+    const payload = body === undefined || typeof body === 'string' ? body : JSON.stringify(body);
+    return Promise.resolve(handler(new Request(url, {
+      method: method || (payload === undefined ? 'GET' : 'POST'),
+      headers: { ...(payload === undefined ? {} : { 'Content-Type': 'application/json' }), ...headers },
+      body: payload,
+    })));
+  };
+
+  return { handler, call, tmdb, llm, db, logs, errors };
+}
@@ -0,0 +1,168 @@
+// OpenAI-compatible stand-in for the chat completions API, mounted for every
+// provider host in _shared/llm.ts. Replies come from a queue the test fills, or
+// echo the last user message, and every request body is recorded. Requests
+// with `stream: true` get the reply as SSE chunks, one word at a time. A
+// reply can call tools instead of, or as well as, answering in prose.
+
+type ToolCall = { id: string; type: 'function'; function: { name: string; arguments: string } };
+
+export type ChatMessage = { role: string; content: string | null; tool_calls?: ToolCall[]; tool_call_id?: string };
+
+export type ChatCompletionRequest = {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  tools?: Array<{ type: 'function'; function: { name: string; description: string; parameters: unknown } }>;
+  [key: string]: unknown;
+};
+
+export type LlmCall = { url: URL; headers: Headers; body: ChatCompletionRequest; signal: AbortSignal };
+
+// Arguments may be given as an object, or as a string to send malformed JSON
+export type ScriptedReply = {
+  content?: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> | string }>;
+};
+
+export type LlmReply = string | ScriptedReply | ((body: ChatCompletionRequest) => string | ScriptedReply);
+
+const ROLES = ['system', 'user', 'assistant', 'tool'];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const openAiError = (status: number, message: string, type = 'invalid_request_error', param: string | null = null) =>
+  json({ error: { message, type, param, code: null } }, status);
+
+// Rough token count, enough for usage numbers to be plausible
+const tokens = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export class LlmFake {
+  calls: LlmCall[] = [];
+  private replies: LlmReply[] = [];
+  private failures: Array<{ status: number; message: string }> = [];
+  private stalls = 0;
+
+  // Queue the content of upcoming completions, in order
+  reply(...replies: LlmReply[]) {
+    this.replies.push(...replies);
+  }
+
+  failNext(status = 500, message = 'The server had an error while processing your request.') {
+    this.failures.push({ status, message });
+  }
+
+  // The next streamed reply sends its chunks, then keeps the connection open
+  // until the caller aborts it
+  stallNext() {
+    this.stalls += 1;
+  }
+
+  get lastCall(): LlmCall | undefined {
+    return this.calls[this.calls.length - 1];
+  }
+
+  handle = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    if (req.method !== 'POST' || !url.pathname.endsWith('/v1/chat/completions')) {
+      return openAiError(404, `Unknown request URL: ${req.method} ${url.pathname}`);
+    }
+    // Local servers (Ollama, llama.cpp) take requests without a key
+    if (url.hostname !== 'localhost' && !/^Bearer \S+$/.test(req.headers.get('Authorization') || '')) {
+      return openAiError(401, "You didn't provide an API key.");
+    }
+
+    let body: ChatCompletionRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return openAiError(400, 'We could not parse the JSON body of your request.');
+    }
+    this.calls.push({ url, headers: req.headers, body, signal: req.signal });
+
+    if (typeof body?.model !== 'string' || !body.model) {
+      return openAiError(400, 'you must provide a model parameter', 'invalid_request_error', 'model');
+    }
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      return openAiError(400, "'messages' must contain at least one message", 'invalid_request_error', 'messages');
+    }
+    const bad = body.messages.findIndex(m => !ROLES.includes(m?.role) || (m.content !== null && typeof m.content !== 'string'));
+    if (bad >= 0) {
+      return openAiError(400, `Invalid message at messages[${bad}]`, 'invalid_request_error', `messages[${bad}]`);
+    }
+    // Like OpenAI, every tool message has to answer a call made earlier
+    const callIds = body.messages.flatMap(m => (m.tool_calls || []).map(call => call.id));
+    const orphan = body.messages.findIndex(m => m.role === 'tool' && !callIds.includes(m.tool_call_id ?? ''));
+    if (orphan >= 0) {
+      return openAiError(400, `messages[${orphan}] does not answer a preceding tool call`, 'invalid_request_error', `messages[${orphan}]`);
+    }
+
+    const failure = this.failures.shift();
+    if (failure) return openAiError(failure.status, failure.message, 'server_error');
+
+    const next = this.replies.shift();
+    const lastUser = [...body.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const scripted = next === undefined ? `Mock reply to: ${lastUser}` : typeof next === 'function' ? next(body) : next;
+    const { content = '', toolCalls: calls = [] } = typeof scripted === 'string' ? { content: scripted } : scripted;
+    if (calls.length && !Array.isArray(body.tools)) {
+      throw new Error('LlmFake: a reply calls tools but the request offered none');
+    }
+    const toolCalls: ToolCall[] = calls.map((call, i) => ({
+      id: `call_mock_${this.calls.length}_${i}`,
+      type: 'function',
+      function: { name: call.name, arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments) },
+    }));
+    const finish = toolCalls.length ? 'tool_calls' : 'stop';
+    const prompt = body.messages.reduce((n, m) => n + tokens(m.content ?? ''), 0);
+
+    if (body.stream) return this.stream(req, body.model, content, toolCalls, finish);
+
+    return json({
+      id: `chatcmpl-mock-${this.calls.length}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: body.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: content || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) },
+        finish_reason: finish,
+      }],
+      usage: { prompt_tokens: prompt, completion_tokens: tokens(content), total_tokens: prompt + tokens(content) },
+    });
+  };
+
+  private stream(req: Request, model: string, content: string, toolCalls: ToolCall[], finish: string): Response {
+    const id = `chatcmpl-mock-${this.calls.length}`;
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+      `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', model, choices: [{ index: 0, delta, finish_reason: finishReason }] })}\n\n`;
+    const parts = [
+      chunk({ role: 'assistant' }),
+      ...(content.match(/\S+\s*|\s+/g) || []).map(word => chunk({ content: word })),
+      // Like OpenAI: the id and name first, then the arguments in pieces
+      ...toolCalls.flatMap((call, index) => {
+        const args = call.function.arguments;
+        const half = Math.ceil(args.length / 2);
+        return [
+          chunk({ tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } }] }),
+          ...[args.slice(0, half), args.slice(half)].filter(Boolean)
+            .map(piece => chunk({ tool_calls: [{ index, function: { arguments: piece } }] })),
+        ];
+      }),
+    ];
+    const stall = this.stalls > 0;
+    if (stall) this.stalls -= 1;
+    else parts.push(chunk({}, finish), 'data: [DONE]\n\n');
+
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        parts.forEach(part => controller.enqueue(encoder.encode(part)));
+        if (!stall) controller.close();
+        else req.signal.addEventListener('abort', () => controller.error(req.signal.reason));
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+}
@@ -0,0 +1,42 @@
+// State shared between the harness and the shims that stand in for the
+// functions' remote imports. It lives on globalThis because every boot
+// resets the module registry, so each function instance gets fresh copies
+// of these modules while the harness keeps its own.
+
+import type { SupabaseMock } from '../../../src/test/supabaseMock.ts';
+
+export type Handler = (req: Request) => Response | Promise<Response>;
+
+type RuntimeState = {
+  handler: Handler | null;
+  db: SupabaseMock | null;
+};
+
+const KEY = Symbol.for('cinepulse.edge-runtime');
+
+const state = (): RuntimeState => {
+  const g = globalThis as unknown as Record<symbol, RuntimeState | undefined>;
+  return (g[KEY] ??= { handler: null, db: null });
+};
+
+// Called by serve()/Deno.serve() instead of opening a port
+export const registerHandler = (handler: Handler) => {
+  state().handler = handler;
+};
+
+export const takeHandler = (): Handler => {
+  const { handler } = state();
+  if (!handler) throw new Error('The function did not call serve()');
+  state().handler = null;
+  return handler;
+};
+
+export const installDatabase = (db: SupabaseMock) => {
+  state().db = db;
+};
+
+export const currentDatabase = (): SupabaseMock => {
+  const { db } = state();
+  if (!db) throw new Error('No database installed; boot the function through the harness');
+  return db;
+};
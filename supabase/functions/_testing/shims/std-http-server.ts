@@ -0,0 +1,6 @@
+// Stand-in for https://deno.land/std@0.168.0/http/server.ts
+import { registerHandler, type Handler } from '../runtime.ts';
+
+export function serve(handler: Handler): void {
+  registerHandler(handler);
+}
@@ -0,0 +1,5 @@
+// Stand-in for https://esm.sh/@supabase/supabase-js@2: every client is the
+// in-memory database the harness installed for the current boot
+import { currentDatabase } from '../runtime.ts';
+
+export const createClient = (_url: string, _key: string) => currentDatabase();
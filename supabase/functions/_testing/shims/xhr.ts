@@ -0,0 +1,2 @@
+// Stand-in for https://deno.land/x/xhr@0.1.0/mod.ts; Node already has fetch
+export {};
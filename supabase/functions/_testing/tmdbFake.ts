@@ -0,0 +1,175 @@
+// Fixture-backed stand-in for api.themoviedb.org/3. It answers the routes the
+// functions use from fixtures/tmdb.json, with TMDB's paging and error
+// bodies, and records every request so tests can assert how calls were shaped.
+
+import defaultFixture from './fixtures/tmdb.json';
+
+type Kind = 'movie' | 'tv';
+
+export type FixtureTitle = {
+  id: number;
+  title?: string;
+  name?: string;
+  genre_ids: number[];
+  popularity: number;
+  vote_average: number;
+  [key: string]: unknown;
+};
+
+// Directors, with the titles they directed for credits and `with_people`
+export type FixturePerson = {
+  id: number;
+  name: string;
+  known_for_department: string;
+  popularity: number;
+  directed: Record<Kind, number[]>;
+};
+
+export type TmdbFixture = {
+  genres: Record<Kind, Array<{ id: number; name: string }>>;
+  movie: FixtureTitle[];
+  tv: FixtureTitle[];
+  people: FixturePerson[];
+};
+
+const PAGE_SIZE = 20;
+
+const ERRORS = {
+  unauthorized: { status_code: 7, status_message: 'Invalid API key: You must be granted a valid key.', success: false },
+  notFound: { status_code: 34, status_message: 'The resource you requested could not be found.', success: false },
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json;charset=utf-8' } });
+
+const nameOf = (t: { title?: string; name?: string }) => (t.title ?? t.name ?? '').toLowerCase();
+
+const dateOf = (t: FixtureTitle) => String(t.release_date ?? t.first_air_date ?? '');
+
+// The discover sorts the functions ask for
+const SORTS: Record<string, (a: FixtureTitle, b: FixtureTitle) => number> = {
+  'popularity.desc': (a, b) => b.popularity - a.popularity,
+  'vote_average.desc': (a, b) => b.vote_average - a.vote_average,
+  'primary_release_date.desc': (a, b) => dateOf(b).localeCompare(dateOf(a)),
+  'primary_release_date.asc': (a, b) => dateOf(a).localeCompare(dateOf(b)),
+  'first_air_date.desc': (a, b) => dateOf(b).localeCompare(dateOf(a)),
+  'first_air_date.asc': (a, b) => dateOf(a).localeCompare(dateOf(b)),
+};
+
+export class TmdbFake {
+  requests: URL[] = [];
+  private failures: Array<{ status: number; body: unknown }> = [];
+
+  constructor(public apiKey: string, public fixture: TmdbFixture = defaultFixture as TmdbFixture) {}
+
+  // Answer the next request with an error instead of fixture data
+  failNext(status = 503, body: unknown = { status_code: 11, status_message: 'Internal error', success: false }) {
+    this.failures.push({ status, body });
+  }
+
+  // Requests for a path such as `movie/popular`, ignoring the query
+  requestsFor(path: string) {
+    return this.requests.filter(url => url.pathname === `/3/${path}`);
+  }
+
+  handle = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    this.requests.push(url);
+
+    const failure = this.failures.shift();
+    if (failure) return json(failure.body, failure.status);
+    if (url.searchParams.get('api_key') !== this.apiKey) return json(ERRORS.unauthorized, 401);
+    if (req.method !== 'GET') return json(ERRORS.notFound, 404);
+
+    const body = this.route(url.pathname.replace(/^\/3\//, ''), url.searchParams);
+    return body === null ? json(ERRORS.notFound, 404) : json(body);
+  };
+
+  private route(path: string, query: URLSearchParams): unknown {
+    const page = Number(query.get('page') || 1);
+    let m: RegExpMatchArray | null;
+
+    if ((m = path.match(/^(movie|tv)\/(popular|top_rated|now_playing|upcoming|on_the_air|airing_today)$/))) {
+      const kind = m[1] as Kind;
+      const key = m[2] === 'top_rated' ? 'vote_average' : 'popularity';
+      return this.paged([...this.fixture[kind]].sort((a, b) => b[key] - a[key]), page);
+    }
+    if ((m = path.match(/^trending\/(all|movie|tv)\/(day|week)$/))) {
+      const kinds: Kind[] = m[1] === 'all' ? ['movie', 'tv'] : [m[1] as Kind];
+      const titles = kinds.flatMap(kind => this.tagged(kind, this.fixture[kind]));
+      return this.paged(titles.sort((a, b) => b.popularity - a.popularity), page);
+    }
+    if ((m = path.match(/^discover\/(movie|tv)$/))) {
+      const kind = m[1] as Kind;
+      const genres = (query.get('with_genres') || '').split(/[,|]/).filter(Boolean).map(Number);
+      const people = (query.get('with_people') || '').split(/[,|]/).filter(Boolean).map(Number);
+      const directed = (t: FixtureTitle) =>
+        people.every(id => this.fixture.people.find(p => p.id === id)?.directed[kind].includes(t.id));
+      const titles = this.fixture[kind].filter(t => genres.every(g => t.genre_ids.includes(g)) && directed(t));
+      const sort = SORTS[query.get('sort_by') || 'popularity.desc'];
+      if (!sort) return null;
+      return this.paged(titles.sort(sort), page);
+    }
+    if (path === 'search/person') {
+      const q = (query.get('query') || '').toLowerCase().trim();
+      const people = this.fixture.people.filter(p => !!q && nameOf(p).includes(q));
+      return this.paged(people.map(({ id, name, known_for_department, popularity }) => ({ id, name, known_for_department, popularity })), page);
+    }
+    if ((m = path.match(/^search\/(movie|tv|multi)$/))) {
+      // Titles containing the query, or mentioned by name inside it
+      const q = (query.get('query') || '').toLowerCase().trim();
+      const hit = (t: FixtureTitle) => !!q && (nameOf(t).includes(q) || q.includes(nameOf(t)));
+      const kinds: Kind[] = m[1] === 'multi' ? ['movie', 'tv'] : [m[1] as Kind];
+      return this.paged(kinds.flatMap(kind => this.tagged(kind, this.fixture[kind].filter(hit))), page);
+    }
+    if ((m = path.match(/^genre\/(movie|tv)\/list$/))) {
+      return { genres: this.fixture.genres[m[1] as Kind] };
+    }
+    if ((m = path.match(/^(movie|tv)\/(\d+)(?:\/(videos|similar|recommendations|credits))?$/))) {
+      const kind = m[1] as Kind;
+      const id = Number(m[2]);
+      const title = this.fixture[kind].find(t => t.id === id);
+      if (!title) return null;
+      switch (m[3]) {
+        case undefined: {
+          const { genre_ids, ...rest } = title;
+          const appended = (query.get('append_to_response') || '').split(',');
+          return {
+            ...rest,
+            genres: this.fixture.genres[kind].filter(g => genre_ids.includes(g.id)),
+            ...(appended.includes('credits') ? { credits: this.credits(kind, id) } : {}),
+          };
+        }
+        case 'videos':
+          return { id, results: [] };
+        case 'credits':
+          return this.credits(kind, id);
+        default: {
+          const related = this.fixture[kind].filter(t => t.id !== id && t.genre_ids.some(g => title.genre_ids.includes(g)));
+          return this.paged(related, page);
+        }
+      }
+    }
+    return null;
+  }
+
+  private credits(kind: Kind, id: number) {
+    const crew = this.fixture.people
+      .filter(p => p.directed[kind].includes(id))
+      .map(p => ({ id: p.id, name: p.name, job: 'Director', department: 'Directing' }));
+    return { id, cast: [], crew };
+  }
+
+  private tagged(kind: Kind, titles: FixtureTitle[]) {
+    return titles.map(t => ({ ...t, media_type: kind }));
+  }
+
+  private paged<T>(titles: T[], page: number) {
+    return {
+      page,
+      results: titles.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+      total_pages: Math.max(1, Math.ceil(titles.length / PAGE_SIZE)),
+      total_results: titles.length,
+    };
+  }
+}
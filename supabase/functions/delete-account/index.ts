@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { purgeUser } from "./purge.ts";
+
+// Deletes the caller's account and all of their data, then returns a receipt.
+// The caller must have signed in (password or email code) within the last
+// few minutes and must send the confirmation phrase.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const CONFIRM_PHRASE = 'DELETE';
+const REAUTH_WINDOW_SECONDS = 5 * 60;
+
+type AmrEntry = { method?: string; timestamp?: number };
+
+// Most recent authentication time from the JWT's `amr` claim. Refreshing a
+// session keeps these timestamps, so they reflect an actual sign-in.
+const lastSignInAt = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload)) as { amr?: AmrEntry[] };
+    const times = (claims.amr || []).map(a => a.timestamp).filter((t): t is number => typeof t === 'number');
+    return times.length ? Math.max(...times) : null;
+  } catch {
+    return null;
+  }
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed', message: `Method ${req.method} is not supported` }, 405);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return json({ error: 'unauthorized', message: 'Sign in to delete your account' }, 401);
+  }
+
+  let body: { confirm?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'bad_request', message: 'Request body must be JSON' }, 400);
+  }
+  if (body?.confirm !== CONFIRM_PHRASE) {
+    return json({ error: 'confirmation_required', message: `Type ${CONFIRM_PHRASE} to confirm` }, 400);
+  }
+
+  try {
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    // Verifies the signature and expiry; the anon key alone is not a user
+    const { data, error } = await admin.auth.getUser(token);
+    if (error || !data.user) {
+      return json({ error: 'unauthorized', message: 'Your session has expired, sign in again' }, 401);
+    }
+
+    const signedInAt = lastSignInAt(token);
+    if (!signedInAt || Date.now() / 1000 - signedInAt > REAUTH_WINDOW_SECONDS) {
+      return json({ error: 'reauthentication_required', message: 'Confirm your identity again to delete your account' }, 403);
+    }
+
+    const receipt = await purgeUser(admin, data.user);
+    console.log('Account deletion', receipt.receipt_id, receipt.user_id, receipt.auth_user_deleted ? 'completed' : 'incomplete');
+    return json({ receipt }, receipt.auth_user_deleted ? 200 : 500);
+  } catch (error) {
+    console.error('Error in delete-account function:', error);
+    return json({ error: 'internal_error', message: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,28 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { USER_TABLES } from './purge.ts';
+
+const TYPES = new URL('../../../src/integrations/supabase/types.ts', import.meta.url);
+
+// Tables whose generated Row type has a `user_id` column
+const tablesWithUserId = () => {
+  const source = readFileSync(TYPES, 'utf8');
+  const tables = source.slice(source.indexOf('Tables: {'), source.indexOf('Views: {'));
+  return [...tables.matchAll(/\n {6}(\w+): \{\n {8}Row: \{\n([\s\S]*?)\n {8}\}/g)]
+    .filter(([, , row]) => /^\s+user_id:/m.test(row))
+    .map(([, table]) => table);
+};
+
+describe('USER_TABLES', () => {
+  it('covers every table with a user_id column', () => {
+    const found = tablesWithUserId();
+    expect(found.length).toBeGreaterThan(0);
+    const purged = USER_TABLES.filter(([, column]) => column === 'user_id').map(([table]) => table);
+
+    expect([...purged].sort()).toEqual([...found].sort());
+  });
+
+  it('deletes profiles last', () => {
+    expect(USER_TABLES.at(-1)).toEqual(['profiles', 'id']);
+  });
+});
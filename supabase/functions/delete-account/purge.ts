@@ -0,0 +1,81 @@
+// Deletes everything stored for one user. Runs with the service role, so every
+// query is scoped by the user id explicitly rather than by RLS.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Table -> column holding the owner's id. Children before parents; profiles
+// go last so a failed run still leaves the account usable for a retry.
+export const USER_TABLES: ReadonlyArray<readonly [table: string, column: string]> = [
+  ['user_favorites', 'user_id'],
+  ['user_watchlist', 'user_id'],
+  ['user_ratings', 'user_id'],
+  ['user_watches', 'user_id'],
+  ['user_episode_progress', 'user_id'],
+  ['user_activity', 'user_id'],
+  ['chat_messages', 'user_id'],
+  ['assistant_conversations', 'user_id'],
+  ['user_taste_memory', 'user_id'],
+  ['user_preferences', 'user_id'],
+  ['watch_history', 'user_id'],
+  ['offline_sync_queue', 'user_id'],
+  ['notifications', 'user_id'],
+  ['voice_transcriptions', 'user_id'],
+  ['video_comments', 'user_id'],
+  ['video_likes', 'user_id'],
+  ['videos', 'user_id'],
+  ['reactions', 'user_id'],
+  ['posts', 'user_id'],
+  ['goals', 'user_id'],
+  ['capsules', 'user_id'],
+  ['transactions', 'user_id'],
+  ['content_reports', 'reporter_user_id'],
+  ['profiles', 'id'],
+];
+
+export interface TableResult {
+  table: string;
+  deleted: number;
+  error?: string;
+}
+
+export interface DeletionReceipt {
+  receipt_id: string;
+  user_id: string;
+  email: string | null;
+  requested_at: string;
+  completed_at: string | null;
+  tables: TableResult[];
+  auth_user_deleted: boolean;
+}
+
+export const purgeUser = async (
+  admin: SupabaseClient,
+  user: { id: string; email?: string | null }
+): Promise<DeletionReceipt> => {
+  const receipt: DeletionReceipt = {
+    receipt_id: crypto.randomUUID(),
+    user_id: user.id,
+    email: user.email ?? null,
+    requested_at: new Date().toISOString(),
+    completed_at: null,
+    tables: [],
+    auth_user_deleted: false,
+  };
+
+  for (const [table, column] of USER_TABLES) {
+    const { count, error } = await admin.from(table).delete({ count: 'exact' }).eq(column, user.id);
+    receipt.tables.push(error ? { table, deleted: 0, error: error.message } : { table, deleted: count ?? 0 });
+  }
+
+  // Keep the auth user while any table still holds data, so the request can be retried
+  if (receipt.tables.some(t => t.error)) return receipt;
+
+  const { error } = await admin.auth.admin.deleteUser(user.id);
+  if (error) {
+    console.error('Failed to delete auth user', user.id, error.message);
+    return receipt;
+  }
+  receipt.auth_user_deleted = true;
+  receipt.completed_at = new Date().toISOString();
+  return receipt;
+};
@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from 'vitest';
+import { bootFunction, readEvents } from '../_testing/harness.ts';
+
+describe('enhanced-ai-assistant', () => {
+  it('answers CORS preflight', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    const res = await fn.call({ method: 'OPTIONS' });
+
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(fn.llm.calls).toHaveLength(0);
+  });
+
+  it('looks titles up with tools and stores the exchange', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.llm.reply(
+      { toolCalls: [{ name: 'search_titles', arguments: { query: 'Inception', kind: 'movie' } }] },
+      'Try Interstellar (2014) next.',
+    );
+    const res = await fn.call({ body: { message: 'Recommend a movie like Inception', userId: 'user-1' } });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(fn.tmdb.requestsFor('search/movie')[0].searchParams.get('query')).toBe('Inception');
+
+    const { headers, body: sent } = fn.llm.lastCall!;
+    expect(headers.get('Authorization')).toBe('Bearer test-openai-key');
+    expect(sent).toMatchObject({ model: 'gpt-4o-mini', max_tokens: 500, temperature: 0.8 });
+    expect(sent.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool']);
+    expect(sent.messages[0].content).toContain('Use the tools');
+
+    expect(body.message).toBe('Try Interstellar (2014) next.');
+    expect(body.actions).toEqual([expect.objectContaining({ tool: 'search_titles', ok: true })]);
+    expect(body.movieSuggestions).toEqual([
+      { id: 27205, title: 'Inception', year: '2010', rating: 8.4, poster: 'https://image.tmdb.org/t/p/w200/inception.jpg' },
+    ]);
+    // The reply names Interstellar, which the search did not return
+    expect(body.cards).toEqual([
+      { id: 157336, kind: 'movie', title: 'Interstellar', year: '2014', rating: 8.4, poster_path: '/interstellar.jpg' },
+    ]);
+    expect(fn.db.rows('chat_messages')).toEqual([
+      {
+        user_id: 'user-1',
+        message: 'Recommend a movie like Inception',
+        response: 'Try Interstellar (2014) next.',
+        conversation_id: body.conversationId,
+        metadata: {
+          provider: 'openai',
+          model: 'gpt-4o-mini',
+          movie_context: true,
+          tmdb_movies: [{ id: 27205, title: 'Inception' }],
+          tools: [{ tool: 'search_titles', arguments: { query: 'Inception', kind: 'movie' }, ok: true }],
+        },
+      },
+    ]);
+  });
+
+  it('acts as the user in the JWT rather than the userId in the body', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.db.user = { id: 'user-1' };
+    fn.llm.reply(
+      { toolCalls: [{ name: 'mark_favorite', arguments: { kind: 'tv', id: 70523 } }] },
+      'Dark is now in your favorites.',
+    );
+    const res = await fn.call({
+      headers: { Authorization: 'Bearer user-jwt' },
+      body: { message: 'Favorite Dark for me', userId: 'user-2' },
+    });
+
+    expect((await res.json()).message).toBe('Dark is now in your favorites.');
+    expect(fn.db.rows('user_favorites')).toEqual([{ user_id: 'user-1', movie_id: '70523', content_type: 'tv' }]);
+  });
+
+  it("personalizes the system prompt from the signed-in caller's history only", async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.db.rows('user_ratings').push({ user_id: 'user-1', movie_id: 1396, content_type: 'tv', rating: 5, updated_at: '2026-10-01' });
+
+    await fn.call({ body: { message: 'What should I watch?', userId: 'user-1' } });
+    expect(fn.llm.lastCall!.body.messages[0].content).not.toContain('Breaking Bad');
+
+    fn.db.user = { id: 'user-1' };
+    await fn.call({ headers: { Authorization: 'Bearer user-jwt' }, body: { message: 'What should I watch?', userId: 'user-1' } });
+    expect(fn.llm.calls[1].body.messages[0].content).toContain('- Rated highly: Breaking Bad (2008)');
+  });
+
+  it('does not offer list tools without a signed-in caller', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    await fn.call({ body: { message: 'add Dark to my watchlist', userId: 'user-1' } });
+    const { body } = fn.llm.lastCall!;
+
+    expect(body.tools!.map(t => t.function.name)).not.toContain('add_to_watchlist');
+    expect(body.messages[0].content).not.toContain('watchlist');
+  });
+
+  it('replays earlier turns of the conversation for the same user', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.db.rows('chat_messages').push(
+      { conversation_id: 'conv-1', user_id: 'user-1', message: 'first', response: 'first reply', created_at: '2025-01-01T10:00:00Z' },
+      { conversation_id: 'conv-1', user_id: 'user-1', message: 'second', response: 'second reply', created_at: '2025-01-01T10:05:00Z' },
+      { conversation_id: 'conv-1', user_id: 'user-2', message: 'not mine', response: 'nope', created_at: '2025-01-01T10:06:00Z' },
+    );
+    const body = await (await fn.call({ body: { message: 'and then?', conversationId: 'conv-1', userId: 'user-1' } })).json();
+
+    expect(fn.llm.lastCall!.body.messages.slice(1).map(m => m.content)).toEqual([
+      'first', 'first reply', 'second', 'second reply', 'and then?',
+    ]);
+    expect(body.conversationId).toBe('conv-1');
+    expect(fn.db.rows('chat_messages')).toHaveLength(4);
+  });
+
+  it('requires a user id', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    const res = await fn.call({ body: { message: 'hello' } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: 'Authentication required' });
+    expect(fn.llm.calls).toHaveLength(0);
+  });
+
+  it('explains itself without an OpenAI key', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant', { env: { OPENAI_API_KEY: undefined } });
+    const res = await fn.call({ body: { message: 'hello', userId: 'user-1' } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ error: 'AI assistant temporarily unavailable' });
+    expect(fn.llm.calls).toHaveLength(0);
+  });
+
+  it('returns a canned reply and stores nothing when OpenAI fails', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.llm.failNext(429, 'Rate limit reached');
+    const res = await fn.call({ body: { message: 'recommend a comedy', userId: 'user-1' } });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.movieSuggestions).toEqual([]);
+    expect(body.message).toMatch(/Popular|Trending/);
+    expect(fn.db.rows('chat_messages')).toHaveLength(0);
+    expect(fn.errors[0]).toEqual(['OpenAI error:', 429, expect.stringContaining('Rate limit reached')]);
+  });
+
+  it('still answers when the conversation cannot be stored', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.db.failNext('chat_messages');
+    fn.db.failNext('chat_messages', 'insert failed');
+    const res = await fn.call({ body: { message: 'hi', conversationId: 'conv-1', userId: 'user-1' } });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).message).toBe('Mock reply to: hi');
+    expect(fn.errors).toContainEqual(['Database error:', { message: 'insert failed' }]);
+  });
+
+  it('streams the reply and stores it once complete', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.llm.reply({ toolCalls: [{ name: 'search_titles', arguments: { query: 'Inception' } }] }, 'Inception (2010).');
+    const res = await fn.call({ body: { message: 'a movie like Inception', userId: 'user-1', stream: true } });
+    const events = await readEvents(res);
+
+    expect(events.map(e => e.event)).toEqual(['meta', 'tool', 'token', 'token', 'done']);
+    expect(events[0].data).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini' });
+    expect(events[1].data).toMatchObject({ tool: 'search_titles', ok: true });
+    expect(events[4].data).toEqual({
+      message: 'Inception (2010).',
+      movieSuggestions: [expect.objectContaining({ id: 27205, title: 'Inception' })],
+      cards: [expect.objectContaining({ id: 27205, kind: 'movie', poster_path: '/inception.jpg' })],
+      memories: [],
+    });
+    expect(fn.db.rows('chat_messages')).toEqual([
+      expect.objectContaining({ response: 'Inception (2010).', conversation_id: events[0].data.conversationId }),
+    ]);
+  });
+
+  it('stores the partial reply when the client cancels the stream', async () => {
+    const fn = await bootFunction('enhanced-ai-assistant');
+    fn.llm.reply('Watch');
+    fn.llm.stallNext();
+    const res = await fn.call({ body: { message: 'hi', userId: 'user-1', stream: true } });
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes('event: token')) received += decoder.decode((await reader.read()).value);
+    await reader.cancel();
+    await vi.waitFor(() => expect(fn.db.rows('chat_messages')).toHaveLength(1));
+
+    expect(fn.llm.lastCall!.signal.aborted).toBe(true);
+    expect(fn.db.rows('chat_messages')[0]).toMatchObject({
+      response: 'Watch',
+      metadata: expect.objectContaining({ cancelled: true }),
+    });
+  });
+});
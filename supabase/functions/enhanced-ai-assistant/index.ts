@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runAgent, type AgentStep } from '../_shared/agent.ts';
+import { titleCards, titlesFrom, type TitleCard } from '../_shared/cards.ts';
+import { providersFromEnv, type ChatMessage, type Provider } from '../_shared/llm.ts';
+import { sseResponse } from '../_shared/sse.ts';
+import { rememberExchange } from '../_shared/memory.ts';
+import { profilePrompt } from '../_shared/profile.ts';
+import { resolveCaller, toolsFor, type ToolContext } from '../_shared/tools.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,80 +24,65 @@ interface ChatRequest {
   message: string;
   conversationId?: string;
   userId: string;
+  // Reply with server-sent events instead of one JSON body
+  stream?: boolean;
 }
 
-interface TMDBMovie {
-  id: number;
-  title: string;
-  overview: string;
-  release_date: string;
-  vote_average: number;
-  poster_path: string;
-}
-
-// Fetch movie data from TMDB
-async function searchTMDBMovies(query: string): Promise<TMDBMovie[]> {
-  const TMDB_API_KEY = Deno.env.get('TMDB_API_KEY');
-  if (!TMDB_API_KEY) return [];
-
-  try {
-    const response = await fetch(
-      `https://api.themoviedb.org/3/search/movie?api_key=${TMDB_API_KEY}&query=${encodeURIComponent(query)}&language=en-US&page=1`
-    );
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    return data.results?.slice(0, 5) || [];
-  } catch (error) {
-    console.error('TMDB search error:', error);
-    return [];
-  }
-}
-
-// Get trending movies from TMDB
-async function getTrendingMovies(): Promise<TMDBMovie[]> {
-  const TMDB_API_KEY = Deno.env.get('TMDB_API_KEY');
-  if (!TMDB_API_KEY) return [];
-
-  try {
-    const response = await fetch(
-      `https://api.themoviedb.org/3/trending/movie/week?api_key=${TMDB_API_KEY}`
-    );
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    return data.results?.slice(0, 5) || [];
-  } catch (error) {
-    console.error('TMDB trending error:', error);
-    return [];
-  }
-}
-
-// Enhanced prompt with movie context
-function createEnhancedPrompt(userMessage: string, movieContext: TMDBMovie[]): string {
-  const movieData = movieContext.map(movie => 
-    `${movie.title} (${movie.release_date?.split('-')[0]}) - Rating: ${movie.vote_average}/10 - ${movie.overview}`
-  ).join('\n');
-
-  return `You are CineFlix's AI movie assistant. You help users discover amazing movies and shows.
-
-Current trending movies for reference:
-${movieData}
-
-User message: "${userMessage}"
+const SYSTEM_PROMPT = `You are CineFlix's AI movie assistant. You help users discover amazing movies and shows.
 
 Guidelines:
+- Use the tools to find titles instead of relying on memory, and only mention ids the tools return
 - If user asks for recommendations, provide 3-5 specific movie titles with brief reasons
 - Include release years when mentioning movies
 - If user mentions mood/genre, suggest movies that match
 - For "hello" or greetings, respond warmly and ask about their movie preferences
 - Keep responses conversational but informative
 - If you mention a movie, briefly explain why it's good
-- Focus on popular and well-regarded films
+- Focus on popular and well-regarded films`;
+
+const LISTS_PROMPT = `
+- You can add titles to the user's watchlist and favorites and read their history; when you change a list, say exactly which titles you added`;
 
-Respond naturally and enthusiastically about movies:`;
+const movieSuggestions = (titles: TitleCard[]) =>
+  titles.slice(0, 3).map(title => ({
+    id: title.id,
+    title: title.title,
+    year: title.year,
+    rating: title.rating,
+    poster: title.poster_path ? `https://image.tmdb.org/t/p/w200${title.poster_path}` : null
+  }));
+
+// Store one exchange in chat_messages; failures are logged, not surfaced
+async function storeExchange(exchange: {
+  userId: string;
+  conversationId: string;
+  message: string;
+  response: string;
+  steps: AgentStep[];
+  provider: string;
+  model: string;
+  cancelled?: boolean;
+}) {
+  const { error: dbError } = await supabase
+    .from('chat_messages')
+    .insert({
+      user_id: exchange.userId,
+      message: exchange.message,
+      response: exchange.response,
+      conversation_id: exchange.conversationId,
+      metadata: {
+        provider: exchange.provider,
+        model: exchange.model,
+        movie_context: titlesFrom(exchange.steps).length > 0,
+        tmdb_movies: titlesFrom(exchange.steps).map(t => ({ id: t.id, title: t.title })),
+        tools: exchange.steps.map(step => ({ tool: step.tool, arguments: step.arguments, ok: step.ok })),
+        ...(exchange.cancelled ? { cancelled: true } : {}),
+      }
+    });
+
+  if (dbError) {
+    console.error('Database error:', dbError);
+  }
 }
 
 serve(async (req) => {
@@ -100,8 +92,11 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
+    let providers: Provider[];
+    try {
+      providers = providersFromEnv(['openai']);
+    } catch (configError) {
+      console.error('LLM configuration error:', configError);
       return new Response(JSON.stringify({ 
         error: 'AI assistant temporarily unavailable',
         message: 'Hi! I\'m having trouble connecting right now, but I\'d love to help you find great movies. Try browsing our Popular and Trending sections for amazing recommendations!'
@@ -111,7 +106,7 @@ serve(async (req) => {
       });
     }
 
-    const { message, conversationId, userId }: ChatRequest = await req.json();
+    const { message, conversationId, userId, stream }: ChatRequest = await req.json();
 
     if (!userId) {
       return new Response(JSON.stringify({ 
@@ -124,7 +119,7 @@ serve(async (req) => {
     }
 
     // Get conversation history from database
-    let conversationHistory: any[] = [];
+    let conversationHistory: ChatMessage[] = [];
     if (conversationId) {
       const { data: historyData } = await supabase
         .from('chat_messages')
@@ -135,100 +130,112 @@ serve(async (req) => {
         .limit(10);
 
       if (historyData) {
-        conversationHistory = historyData.flatMap(row => [
+        conversationHistory = historyData.flatMap((row): ChatMessage[] => [
           { role: 'user', content: row.message },
           { role: 'assistant', content: row.response }
         ]).filter(msg => msg.content);
       }
     }
 
-    // Get movie context for enhanced responses
-    let movieContext: TMDBMovie[] = [];
-    
-    // Extract movie-related keywords for TMDB search
-    const movieKeywords = message.toLowerCase().match(/\b(?:movie|film|show|series|watch|recommend|comedy|drama|action|horror|sci-fi|romance|thriller|documentary)\b/g);
-    
-    if (movieKeywords) {
-      // Search for movies based on user input
-      const searchResults = await searchTMDBMovies(message);
-      if (searchResults.length > 0) {
-        movieContext = searchResults;
-      } else {
-        // Fallback to trending movies
-        movieContext = await getTrendingMovies();
-      }
-    } else if (message.toLowerCase().includes('hello') || message.toLowerCase().includes('hi')) {
-      // For greetings, include trending context
-      movieContext = await getTrendingMovies();
-    }
-
-    // Create enhanced prompt with movie context
-    const enhancedPrompt = createEnhancedPrompt(message, movieContext);
+    // The body's userId only files the conversation; the list tools act as
+    // the user the JWT belongs to
+    const context: ToolContext = {
+      tmdbApiKey: Deno.env.get('TMDB_API_KEY'),
+      db: supabase,
+      userId: await resolveCaller(req, supabase),
+    };
+    // Signed-in callers get a taste profile unless they turned it off
+    const profile = context.userId ? await profilePrompt(context) : null;
 
-    const messages = [
+    const messages: ChatMessage[] = [
       {
         role: 'system',
-        content: enhancedPrompt
+        content: (context.userId ? SYSTEM_PROMPT + LISTS_PROMPT : SYSTEM_PROMPT) + (profile ? `\n\n${profile}` : '')
       },
       ...conversationHistory.slice(-10), // Keep last 10 messages for context
       { role: 'user', content: message }
     ];
+    const options = { maxTokens: 500, temperature: 0.8, tools: toolsFor(context), context };
 
-    console.log('Sending request to OpenAI with', messages.length, 'messages');
+    const currentConversationId = conversationId || crypto.randomUUID();
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: messages,
-        max_tokens: 500,
-        temperature: 0.8,
-      }),
-    });
+    if (stream) {
+      // `meta` carries the conversation id, `token` events the reply as it
+      // arrives, `tool` events each tool the assistant ran, and `done` the
+      // reply with suggestions from the tools' results and the taste memories
+      // kept from it. The exchange is stored when the reply completes, or
+      // with what was received if the client cancels.
+      const upstream = new AbortController();
+      let text = '';
+      const steps: AgentStep[] = [];
+      let answeredBy = { provider: '', model: '' };
+      let stored: Promise<void> | null = null;
+      const store = (cancelled: boolean) => (stored ??= storeExchange({
+        userId,
+        conversationId: currentConversationId,
+        message,
+        response: text,
+        steps,
+        ...answeredBy,
+        cancelled,
+      }));
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+      return sseResponse(corsHeaders, async send => {
+        await runAgent(providers, messages, {
+          ...options,
+          signal: upstream.signal,
+          onProvider: (provider, model) => {
+            answeredBy = { provider, model };
+            send('meta', { conversationId: currentConversationId, provider, model });
+          },
+          onToken: token => {
+            text += token;
+            send('token', { content: token });
+          },
+          onStep: step => {
+            steps.push(step);
+            send('tool', step);
+          },
+        });
+        await store(false);
+        const [cards, memories] = await Promise.all([
+          titleCards(text, steps, context.tmdbApiKey),
+          rememberExchange(providers, context, { message, reply: text }),
+        ]);
+        send('done', { message: text, movieSuggestions: movieSuggestions(titlesFrom(steps)), cards, memories });
+      }, () => {
+        upstream.abort();
+        void store(true);
+      });
     }
 
-    const data = await response.json();
-    const assistantMessage = data.choices[0].message.content;
+    const result = await runAgent(providers, messages, options);
+    const assistantMessage = result.content;
 
-    console.log('AI Assistant response:', assistantMessage);
+    console.log('AI Assistant response from', result.provider, ':', assistantMessage);
 
-    // Store conversation in database
-    const currentConversationId = conversationId || crypto.randomUUID();
-    
-    const { error: dbError } = await supabase
-      .from('chat_messages')
-      .insert({
-        user_id: userId,
-        message: message,
-        response: assistantMessage,
-        conversation_id: currentConversationId,
-        metadata: {
-          movie_context: movieContext.length > 0,
-          tmdb_movies: movieContext.map(m => ({ id: m.id, title: m.title }))
-        }
-      });
+    await storeExchange({
+      userId,
+      conversationId: currentConversationId,
+      message,
+      response: assistantMessage,
+      steps: result.steps,
+      provider: result.provider,
+      model: result.model,
+    });
 
-    if (dbError) {
-      console.error('Database error:', dbError);
-    }
+    const [cards, memories] = await Promise.all([
+      titleCards(assistantMessage, result.steps, context.tmdbApiKey),
+      rememberExchange(providers, context, { message, reply: assistantMessage }),
+    ]);
 
     return new Response(JSON.stringify({ 
       message: assistantMessage,
       conversationId: currentConversationId,
-      movieSuggestions: movieContext.slice(0, 3).map(movie => ({
-        id: movie.id,
-        title: movie.title,
-        year: movie.release_date?.split('-')[0],
-        rating: movie.vote_average,
-        poster: movie.poster_path ? `https://image.tmdb.org/t/p/w200${movie.poster_path}` : null
-      }))
+      movieSuggestions: movieSuggestions(titlesFrom(result.steps)),
+      cards,
+      memories,
+      actions: result.steps
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
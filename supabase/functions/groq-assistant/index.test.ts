@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { bootFunction, readEvents } from '../_testing/harness.ts';
+
+describe('groq-assistant', () => {
+  it('answers CORS preflight', async () => {
+    const fn = await bootFunction('groq-assistant');
+    const res = await fn.call({ method: 'OPTIONS' });
+
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(res.headers.get('Access-Control-Allow-Headers')).toContain('authorization');
+  });
+
+  it('sends the conversation to xAI after the system prompt', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.llm.reply('Heat (1995) is a great pick.');
+    const conversation = [
+      { role: 'user', content: 'I liked Collateral' },
+      { role: 'assistant', content: 'Michael Mann made that one.' },
+    ];
+    const res = await fn.call({ body: { message: 'What else did he direct?', conversation } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ message: 'Heat (1995) is a great pick.', cards: [], memories: [], actions: [] });
+    const { url, headers, body } = fn.llm.lastCall!;
+    expect(url.host).toBe('api.x.ai');
+    expect(headers.get('Authorization')).toBe('Bearer test-xai-key');
+    expect(body).toMatchObject({ model: 'grok-4-latest', temperature: 0.7, max_tokens: 1024 });
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages.slice(1)).toEqual([...conversation, { role: 'user', content: 'What else did he direct?' }]);
+  });
+
+  it('falls back to a default message when xAI returns no choices', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.llm.reply('');
+    const res = await fn.call({ body: { message: 'hi', conversation: [] } });
+
+    expect(await res.json()).toEqual({ message: 'Sorry, I could not generate a response.', cards: [], memories: [], actions: [] });
+  });
+
+  it("acts on the signed-in caller's lists", async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.db.user = { id: 'user-1' };
+    fn.llm.reply(
+      { toolCalls: [{ name: 'discover', arguments: { kind: 'movie', person: 'Christopher Nolan', sort: 'newest' } }] },
+      { toolCalls: [872585, 577922, 374720].map(id => ({ name: 'add_to_watchlist', arguments: { kind: 'movie', id } })) },
+      'Added Oppenheimer, Tenet and Dunkirk to your watchlist.',
+    );
+    const res = await fn.call({
+      headers: { Authorization: 'Bearer user-jwt' },
+      body: { message: 'Add the last three Nolan films to my watchlist', conversation: [] },
+    });
+    const body = await res.json();
+
+    expect(body.message).toBe('Added Oppenheimer, Tenet and Dunkirk to your watchlist.');
+    expect(body.actions.map((a: { tool: string; ok: boolean }) => [a.tool, a.ok])).toEqual([
+      ['discover', true],
+      ['add_to_watchlist', true],
+      ['add_to_watchlist', true],
+      ['add_to_watchlist', true],
+    ]);
+    expect(fn.db.rows('user_watchlist')).toEqual([
+      { user_id: 'user-1', movie_id: '872585', content_type: 'movie' },
+      { user_id: 'user-1', movie_id: '577922', content_type: 'movie' },
+      { user_id: 'user-1', movie_id: '374720', content_type: 'movie' },
+    ]);
+    expect(fn.db.auth.getUser).toHaveBeenCalledWith('user-jwt');
+  });
+
+  it("tells the model about the caller's taste unless they opted out", async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.db.user = { id: 'user-1' };
+    fn.db.rows('user_activity').push({ user_id: 'user-1', type: 'movie_open', movie_id: 70523, content_type: 'tv', title: 'Dark', genres: [9648], ts: '2026-10-01' });
+    fn.llm.reply('Try Chernobyl (2019).', 'Try Chernobyl (2019).');
+    const ask = () => fn.call({ headers: { Authorization: 'Bearer user-jwt' }, body: { message: 'Something like Dark?', conversation: [] } });
+
+    // The first call of each request answers; a second one extracts memories
+    await ask();
+    const prompt = fn.llm.calls[0].body.messages[0].content;
+    expect(prompt).toContain('- Favourite genres: Mystery');
+    expect(prompt).toContain('- Recently looked at: Dark');
+
+    fn.db.rows('user_preferences').push({ user_id: 'user-1', privacy_settings: { assistant_personalization: false } });
+    await ask();
+    expect(fn.llm.calls).toHaveLength(3);
+    expect(fn.llm.lastCall!.body.messages[0].content).not.toContain('Dark');
+  });
+
+  it('remembers the taste the caller reveals', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.db.user = { id: 'user-1' };
+    fn.llm.reply(
+      'Noted! Try Arrival (2016).',
+      '```json\n{"memories": [{"description": "Hates jump scares", "emotions": ["Fear"], "title": null, "year": null, "kind": null}]}\n```',
+    );
+    const res = await fn.call({
+      headers: { Authorization: 'Bearer user-jwt' },
+      body: { message: 'Something tense, but I hate jump scares', conversation: [] },
+    });
+
+    expect((await res.json()).memories).toEqual([{ description: 'Hates jump scares', emotions: ['fear'], title: null }]);
+    expect(fn.db.rows('user_taste_memory')).toEqual([
+      { id: expect.any(String), user_id: 'user-1', movie_id: null, content_type: 'movie', title: null, description: 'Hates jump scares', emotions: ['fear'] },
+    ]);
+    const extraction = fn.llm.lastCall!.body;
+    expect(extraction.tools).toBeUndefined();
+    expect(extraction.messages[1].content).toBe('User: Something tense, but I hate jump scares\n\nAssistant: Noted! Try Arrival (2016).');
+  });
+
+  it('offers anonymous callers the catalog tools only', async () => {
+    const fn = await bootFunction('groq-assistant');
+    await fn.call({ body: { message: 'hi', conversation: [] } });
+    const { body } = fn.llm.lastCall!;
+
+    expect(body.tools!.map(t => t.function.name)).toEqual(['search_titles', 'discover', 'get_details']);
+    expect(body.messages[0].content).not.toContain('watchlist');
+  });
+
+  it('reports upstream errors with a 500 body', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.llm.failNext(429, 'Too many requests');
+    const res = await fn.call({ body: { message: 'hi', conversation: [] } });
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ error: 'xAI error: 429' });
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(fn.errors[0]).toEqual(['xAI error:', 429, expect.stringContaining('Too many requests')]);
+  });
+
+  it('reports a missing API key', async () => {
+    const fn = await bootFunction('groq-assistant', { env: { XAI_API_KEY: undefined } });
+    const res = await fn.call({ body: { message: 'hi', conversation: [] } });
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ error: 'No LLM provider configured; set XAI_API_KEY' });
+    expect(fn.llm.calls).toHaveLength(0);
+  });
+
+  it('streams tokens as server-sent events when asked to', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.llm.reply('Try Heat next.');
+    const res = await fn.call({ body: { message: 'hi', conversation: [], stream: true } });
+
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(await readEvents(res)).toEqual([
+      { event: 'meta', data: { provider: 'xai', model: 'grok-4-latest' } },
+      { event: 'token', data: { content: 'Try ' } },
+      { event: 'token', data: { content: 'Heat ' } },
+      { event: 'token', data: { content: 'next.' } },
+      { event: 'done', data: { message: 'Try Heat next.', cards: [], memories: [] } },
+    ]);
+    expect(fn.llm.lastCall!.body.stream).toBe(true);
+  });
+
+  it('streams the tools the assistant runs', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.llm.reply({ toolCalls: [{ name: 'search_titles', arguments: { query: 'Dark', kind: 'tv' } }] }, 'Try Dark (2017).');
+    const events = await readEvents(await fn.call({ body: { message: 'what is Dark?', conversation: [], stream: true } }));
+
+    expect(events.map(e => e.event)).toEqual(['meta', 'tool', 'token', 'token', 'token', 'done']);
+    expect(events[1].data).toMatchObject({ tool: 'search_titles', ok: true, result: { results: [expect.objectContaining({ title: 'Dark' })] } });
+    expect(events[5].data).toEqual({
+      message: 'Try Dark (2017).',
+      cards: [{ id: 70523, kind: 'tv', title: 'Dark', year: '2017', rating: 8.4, poster_path: '/dark.jpg' }],
+      memories: [],
+    });
+  });
+
+  it('falls back to the next provider before the stream starts', async () => {
+    const fn = await bootFunction('groq-assistant', { env: { LLM_PROVIDERS: 'xai,openai', OPENAI_API_KEY: 'test-openai-key' } });
+    fn.llm.failNext(503);
+    const events = await readEvents(await fn.call({ body: { message: 'hi', conversation: [], stream: true } }));
+
+    expect(events[0]).toEqual({ event: 'meta', data: { provider: 'openai', model: 'gpt-4o-mini' } });
+    expect(events[events.length - 1]).toEqual({ event: 'done', data: { message: 'Mock reply to: hi', cards: [], memories: [] } });
+  });
+
+  it('aborts the upstream request when the client cancels', async () => {
+    const fn = await bootFunction('groq-assistant');
+    fn.llm.stallNext();
+    const res = await fn.call({ body: { message: 'hi', conversation: [], stream: true } });
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(fn.llm.lastCall!.signal.aborted).toBe(true);
+  });
+});
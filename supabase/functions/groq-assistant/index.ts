@@ -1,3 +1,12 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runAgent } from '../_shared/agent.ts';
+import { titleCards } from '../_shared/cards.ts';
+import { providersFromEnv, type ChatMessage } from '../_shared/llm.ts';
+import { sseResponse } from '../_shared/sse.ts';
+import { rememberExchange } from '../_shared/memory.ts';
+import { profilePrompt } from '../_shared/profile.ts';
+import { resolveCaller, toolsFor, type ToolContext } from '../_shared/tools.ts';
+
 declare const Deno: {
   env: { get(key: string): string | undefined };
   serve: (handler: (req: Request) => Response | Promise<Response>) => void;
@@ -8,55 +17,88 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Service-role client for the list tools; they scope every query to the caller
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const EMPTY_REPLY = 'Sorry, I could not generate a response.';
+
+const SYSTEM_PROMPT = 'You are a helpful movie assistant. You help users discover movies, explain plots, discuss actors and directors, and provide information about films. Be friendly, concise, and knowledgeable about cinema.';
+
+const TOOLS_PROMPT = 'Use the tools to look up titles instead of relying on memory when the user asks about specific films, people or release dates. Only use the ids the tools return, and write every title you mention as Title (Year).';
+
+const LISTS_PROMPT = "You can also add titles to the user's watchlist and favorites and read their history. When you change a list, say exactly which titles you added.";
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { message, conversation } = await req.json();
-    const xaiApiKey = Deno.env.get('XAI_API_KEY');
+    const { message, conversation, stream } = await req.json();
+    const providers = providersFromEnv(['xai']);
 
-    if (!xaiApiKey) {
-      throw new Error('XAI_API_KEY not configured');
-    }
-
-    console.log('Calling xAI with message:', message);
+    const context: ToolContext = {
+      tmdbApiKey: Deno.env.get('TMDB_API_KEY'),
+      db: supabase,
+      userId: await resolveCaller(req, supabase),
+    };
+    const tools = toolsFor(context);
+    const profile = context.userId ? await profilePrompt(context) : null;
 
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${xaiApiKey}`,
-        'Content-Type': 'application/json',
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: [
+          [SYSTEM_PROMPT, TOOLS_PROMPT, ...(context.userId ? [LISTS_PROMPT] : [])].join(' '),
+          ...(profile ? [profile] : []),
+        ].join('\n\n')
       },
-      body: JSON.stringify({
-        model: 'grok-4-latest',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful movie assistant. You help users discover movies, explain plots, discuss actors and directors, and provide information about films. Be friendly, concise, and knowledgeable about cinema.'
-          },
-          ...conversation,
-          { role: 'user', content: message }
-        ],
-        temperature: 0.7,
-        max_tokens: 1024,
-      }),
-    });
+      ...conversation,
+      { role: 'user', content: message }
+    ];
+    const options = { temperature: 0.7, maxTokens: 1024, tools, context };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('xAI error:', response.status, errorText);
-      throw new Error(`xAI error: ${response.status}`);
+    if (stream) {
+      // `token` events carry deltas as they arrive, `tool` events each tool
+      // the assistant ran, and `done` the full reply with its title cards and
+      // the taste memories kept from it
+      const upstream = new AbortController();
+      return sseResponse(corsHeaders, async send => {
+        const result = await runAgent(providers, messages, {
+          ...options,
+          signal: upstream.signal,
+          onProvider: (provider, model) => send('meta', { provider, model }),
+          onToken: token => send('token', { content: token }),
+          onStep: step => send('tool', step),
+        });
+        const [cards, memories] = await Promise.all([
+          titleCards(result.content, result.steps, context.tmdbApiKey),
+          rememberExchange(providers, context, { message, reply: result.content }),
+        ]);
+        send('done', { message: result.content || EMPTY_REPLY, cards, memories });
+      }, () => upstream.abort());
     }
 
-    const data = await response.json();
-    const aiMessage = data.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+    const result = await runAgent(providers, messages, options);
+    const aiMessage = result.content || EMPTY_REPLY;
 
-    console.log('xAI response received');
+    console.log('Response received from', result.provider, 'after', result.steps.length, 'tool calls');
+
+    const [cards, memories] = await Promise.all([
+      titleCards(result.content, result.steps, context.tmdbApiKey),
+      rememberExchange(providers, context, { message, reply: result.content }),
+    ]);
 
     return new Response(
-      JSON.stringify({ message: aiMessage }),
+      JSON.stringify({
+        message: aiMessage,
+        cards,
+        memories,
+        actions: result.steps,
+      }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -0,0 +1,185 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { itemKey, loadSignals, parseItemKey, type ItemKey } from "./signals.ts";
+import { collaborativeScores, seedsFor } from "./similarity.ts";
+
+// Personal recommendations for the signed-in caller: item-item collaborative
+// filtering over all users' ratings, favorites and activity, blended with
+// TMDB's `similar` lists for the caller's strongest titles.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+// How many of the caller's titles get a TMDB `similar` lookup
+const TMDB_SEEDS = 5;
+// Share of the final score from each source, after normalizing both to 0..1
+const CF_WEIGHT = 0.6;
+const TMDB_WEIGHT = 0.4;
+const MAX_REASONS = 3;
+
+type TmdbItem = Record<string, unknown> & { id: number; media_type?: string };
+
+type Reason =
+  | { type: 'co_liked'; seed: { kind: string; id: number; title: string | null }; users: number; score: number }
+  | { type: 'tmdb_similar'; seed: { kind: string; id: number; title: string | null }; score: number };
+
+const tmdbFetch = async (path: string, apiKey: string, language?: string): Promise<Record<string, unknown> | null> => {
+  const url = new URL(`https://api.themoviedb.org/3/${path}`);
+  url.searchParams.set('api_key', apiKey);
+  if (language) url.searchParams.set('language', language);
+  try {
+    const response = await fetch(url.toString());
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error('TMDB request failed:', path, error);
+    return null;
+  }
+};
+
+const maxScore = (scores: Map<ItemKey, number>) => Math.max(0, ...scores.values()) || 1;
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed', message: `Method ${req.method} is not supported` }, 405);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return json({ error: 'unauthorized', message: 'Sign in to get recommendations' }, 401);
+  }
+
+  let body: { limit?: unknown; language?: unknown } = {};
+  try {
+    body = await req.json();
+  } catch {
+    // Empty body: defaults apply
+  }
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(body.limit) || DEFAULT_LIMIT));
+  const language = typeof body.language === 'string' ? body.language : undefined;
+
+  try {
+    const TMDB_API_KEY = Deno.env.get('TMDB_API_KEY');
+    if (!TMDB_API_KEY) {
+      throw new Error('TMDB API key not configured');
+    }
+    const db = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+    const { data: auth, error: authError } = await db.auth.getUser(token);
+    if (authError || !auth.user) {
+      return json({ error: 'unauthorized', message: 'Your session has expired, sign in again' }, 401);
+    }
+    const userId = auth.user.id;
+
+    const { prefs, titles } = await loadSignals(db);
+    const own = prefs.get(userId) || new Map<ItemKey, number>();
+    const seeds = seedsFor(prefs, userId);
+    if (seeds.length === 0) {
+      return json({ items: [], cold_start: true, generated_at: new Date().toISOString() });
+    }
+
+    // Collaborative part
+    const cf = collaborativeScores(prefs, userId);
+    const cfRaw = new Map(cf.map(c => [c.item, c.score]));
+    const cfMax = maxScore(cfRaw);
+    const cfByItem = new Map(cf.map(c => [c.item, c]));
+
+    // TMDB part: rank-weighted similar lists of the strongest seeds
+    const payloads = new Map<ItemKey, TmdbItem>();
+    const tmdbRaw = new Map<ItemKey, number>();
+    const tmdbSeeds = new Map<ItemKey, Array<{ seed: ItemKey; score: number }>>();
+    const topSeeds = seeds.slice(0, TMDB_SEEDS);
+    const topWeight = topSeeds[0][1];
+    const similarLists = await Promise.all(
+      topSeeds.map(([seed]) => {
+        const { kind, id } = parseItemKey(seed);
+        return tmdbFetch(`${kind}/${id}/similar`, TMDB_API_KEY, language);
+      })
+    );
+    similarLists.forEach((page, i) => {
+      const [seed, weight] = topSeeds[i];
+      const { kind } = parseItemKey(seed);
+      const results = (Array.isArray(page?.results) ? page!.results : []) as TmdbItem[];
+      results.forEach((raw, rank) => {
+        const key = itemKey(kind, raw.id);
+        if (own.has(key)) return;
+        const score = (weight / topWeight) * (1 - rank / results.length);
+        tmdbRaw.set(key, (tmdbRaw.get(key) || 0) + score);
+        tmdbSeeds.set(key, [...(tmdbSeeds.get(key) || []), { seed, score }]);
+        if (!payloads.has(key)) payloads.set(key, { ...raw, media_type: kind });
+      });
+    });
+    const tmdbMax = maxScore(tmdbRaw);
+
+    const ranked = [...new Set([...cfRaw.keys(), ...tmdbRaw.keys()])]
+      .map(item => ({
+        item,
+        cf: (cfRaw.get(item) || 0) / cfMax,
+        tmdb: (tmdbRaw.get(item) || 0) / tmdbMax,
+      }))
+      .map(s => ({ ...s, score: CF_WEIGHT * s.cf + TMDB_WEIGHT * s.tmdb }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    // Each reason's score is its share of the blended score
+    const reasonsFor = (item: ItemKey) => {
+      const cfReasons = (cfByItem.get(item)?.contributions || [])
+        .map(c => ({ type: 'co_liked' as const, ...c, score: (CF_WEIGHT * c.score) / cfMax }));
+      const tmdbReasons = (tmdbSeeds.get(item) || [])
+        .map(c => ({ type: 'tmdb_similar' as const, ...c, score: (TMDB_WEIGHT * c.score) / tmdbMax }));
+      return [...cfReasons, ...tmdbReasons].sort((a, b) => b.score - a.score).slice(0, MAX_REASONS);
+    };
+
+    // Collaborative-only titles and unnamed seeds need a details lookup
+    const missing = ranked.filter(r => !payloads.has(r.item)).map(r => r.item);
+    const seedKeys = new Set(ranked.flatMap(r => reasonsFor(r.item).map(c => c.seed)));
+    const unnamed = [...seedKeys].filter(k => !titles.has(k) && !payloads.has(k));
+    await Promise.all(
+      [...new Set([...missing, ...unnamed])].map(async key => {
+        const { kind, id } = parseItemKey(key);
+        const details = await tmdbFetch(`${kind}/${id}`, TMDB_API_KEY, language);
+        if (details) payloads.set(key, { ...(details as TmdbItem), media_type: kind });
+      })
+    );
+    const titleOf = (key: ItemKey): string | null => {
+      const p = payloads.get(key);
+      return titles.get(key) || (p ? String(p.title ?? p.name ?? '') || null : null);
+    };
+
+    const items = ranked
+      .filter(r => payloads.has(r.item))
+      .map(r => ({
+        title: payloads.get(r.item)!,
+        score: r.score,
+        sources: { collaborative: r.cf, tmdb_similar: r.tmdb },
+        reasons: reasonsFor(r.item).map((c): Reason => {
+          const { kind, id } = parseItemKey(c.seed);
+          const seed = { kind, id, title: titleOf(c.seed) };
+          return c.type === 'co_liked'
+            ? { type: 'co_liked', seed, users: c.users, score: c.score }
+            : { type: 'tmdb_similar', seed, score: c.score };
+        }),
+      }));
+
+    return json({ items, cold_start: false, generated_at: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error in recommendations function:', error);
+    return json({ error: 'internal_error', message: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
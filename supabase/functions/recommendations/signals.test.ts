@@ -0,0 +1,60 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createSupabaseMock, type SupabaseMock } from '../../../src/test/supabaseMock.ts';
+import { decay, itemKey, loadSignals } from './signals.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-06-01T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+describe('signals', () => {
+  let db: SupabaseMock;
+  const load = () => loadSignals(db as unknown as SupabaseClient, NOW);
+
+  beforeEach(() => {
+    db = createSupabaseMock();
+  });
+
+  it('halves a signal every 120 days', () => {
+    expect(decay(NOW, NOW)).toBe(1);
+    expect(decay(NOW - 120 * DAY_MS, NOW)).toBeCloseTo(0.5);
+    expect(decay(NOW + DAY_MS, NOW)).toBe(1);
+  });
+
+  it('keys titles like contentKey, treating a missing kind as a movie', () => {
+    expect(itemKey('tv', '94605')).toBe('tv:94605');
+    expect(itemKey(null, 550)).toBe('movie:550');
+  });
+
+  it('weights ratings, favorites and activity and adds them up', async () => {
+    db.rows('user_ratings').push({ user_id: 'u1', movie_id: 1, content_type: 'movie', rating: 5, updated_at: daysAgo(0) });
+    db.rows('user_favorites').push({ user_id: 'u1', movie_id: '1', content_type: 'movie', created_at: daysAgo(120) });
+    db.rows('user_activity').push(
+      { user_id: 'u1', type: 'movie_open', movie_id: 2, content_type: 'tv', title: 'Arcane', ts: daysAgo(0) },
+      { user_id: 'u1', type: 'query', movie_id: 3, content_type: 'movie', title: null, ts: daysAgo(0) },
+      // Outside the one-year window
+      { user_id: 'u1', type: 'movie_watched', movie_id: 4, content_type: 'movie', title: 'Old', ts: daysAgo(400) },
+    );
+
+    const { prefs, titles } = await load();
+
+    const u1 = prefs.get('u1')!;
+    expect(u1.get('movie:1')).toBeCloseTo(1 + 0.5);
+    expect(u1.get('tv:2')).toBeCloseTo(0.15);
+    expect([...u1.keys()].sort()).toEqual(['movie:1', 'tv:2']);
+    expect(titles).toEqual(new Map([['tv:2', 'Arcane']]));
+  });
+
+  it('lets a low rating or "not interested" override browsing the same title', async () => {
+    db.rows('user_ratings').push({ user_id: 'u1', movie_id: 1, content_type: 'movie', rating: 1, updated_at: daysAgo(0) });
+    db.rows('user_activity').push(
+      { user_id: 'u1', type: 'movie_watched', movie_id: 1, content_type: 'movie', title: 'Bad', ts: daysAgo(0) },
+      { user_id: 'u1', type: 'trailer_play', movie_id: 2, content_type: 'movie', title: 'Meh', ts: daysAgo(0) },
+      { user_id: 'u1', type: 'not_interested', movie_id: 2, content_type: 'movie', title: 'Meh', ts: daysAgo(0) },
+    );
+
+    const { prefs } = await load();
+
+    expect(prefs.get('u1')).toEqual(new Map([['movie:1', -1], ['movie:2', -1]]));
+  });
+});
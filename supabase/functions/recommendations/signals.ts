@@ -0,0 +1,125 @@
+// Loads every user's interactions and folds them into one preference weight
+// per (user, title). Reads with the service role, across all users.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// `movie:123` / `tv:456`, same as contentKey on the client
+export type ItemKey = string;
+
+// userId -> item -> weight; negative weights are dislikes
+export type Prefs = Map<string, Map<ItemKey, number>>;
+
+export interface Signals {
+  prefs: Prefs;
+  // Titles seen in activity rows, used to explain recommendations
+  titles: Map<ItemKey, string>;
+}
+
+const PAGE_SIZE = 1000;
+// Hard cap per table so one request cannot pull an unbounded amount of rows
+const MAX_ROWS = 50_000;
+const ACTIVITY_WINDOW_DAYS = 365;
+const HALF_LIFE_DAYS = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ratings are 1..5; low ratings count against a title
+const RATING_WEIGHT: Record<number, number> = { 1: -1, 2: -0.6, 3: 0.2, 4: 0.8, 5: 1 };
+const FAVORITE_WEIGHT = 1;
+const ACTIVITY_WEIGHT: Record<string, number> = {
+  movie_watched: 0.8,
+  episode_watched: 0.5,
+  trailer_play: 0.3,
+  movie_open: 0.15,
+  // Explicit negative feedback from recommendation cards
+  show_fewer: -0.6,
+  not_interested: -1,
+};
+
+export const itemKey = (kind: string | null | undefined, id: number | string) =>
+  `${kind === 'tv' ? 'tv' : 'movie'}:${Number(id)}`;
+
+export const parseItemKey = (key: ItemKey) => {
+  const [kind, id] = key.split(':');
+  return { kind: kind as 'movie' | 'tv', id: Number(id) };
+};
+
+// Older interactions count less: a signal loses half its weight every HALF_LIFE_DAYS
+export const decay = (at: number, now = Date.now()) =>
+  Math.pow(0.5, Math.max(0, now - at) / DAY_MS / HALF_LIFE_DAYS);
+
+const timeOf = (value: string | null | undefined, now: number) => {
+  const t = value ? Date.parse(value) : NaN;
+  return Number.isFinite(t) ? t : now;
+};
+
+// PostgREST caps a single response, so read in pages
+const selectAll = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
+
+type RatingRow = { user_id: string; movie_id: number; content_type: string | null; rating: number; updated_at: string };
+type FavoriteRow = { user_id: string; movie_id: string; content_type: string | null; created_at: string };
+type ActivityRow = { user_id: string; type: string; movie_id: number; content_type: string | null; title: string | null; ts: string };
+
+export const loadSignals = async (db: SupabaseClient, now = Date.now()): Promise<Signals> => {
+  const since = new Date(now - ACTIVITY_WINDOW_DAYS * DAY_MS).toISOString();
+  const [ratings, favorites, activity] = await Promise.all([
+    selectAll<RatingRow>((from, to) =>
+      db.from('user_ratings').select('user_id, movie_id, content_type, rating, updated_at').range(from, to)
+    ),
+    selectAll<FavoriteRow>((from, to) =>
+      db.from('user_favorites').select('user_id, movie_id, content_type, created_at').range(from, to)
+    ),
+    selectAll<ActivityRow>((from, to) =>
+      db
+        .from('user_activity')
+        .select('user_id, type, movie_id, content_type, title, ts')
+        .in('type', Object.keys(ACTIVITY_WEIGHT))
+        .not('movie_id', 'is', null)
+        .gte('ts', since)
+        .order('ts', { ascending: false })
+        .range(from, to)
+    ),
+  ]);
+
+  const positive: Prefs = new Map();
+  const disliked = new Map<string, Map<ItemKey, number>>();
+  const titles = new Map<ItemKey, string>();
+  const add = (target: Prefs, userId: string, item: ItemKey, weight: number) => {
+    const items = target.get(userId) || new Map<ItemKey, number>();
+    items.set(item, (items.get(item) || 0) + weight);
+    target.set(userId, items);
+  };
+
+  for (const r of ratings) {
+    const weight = RATING_WEIGHT[r.rating] ?? 0;
+    const w = weight * decay(timeOf(r.updated_at, now), now);
+    add(weight < 0 ? disliked : positive, r.user_id, itemKey(r.content_type, r.movie_id), w);
+  }
+  for (const r of favorites) {
+    add(positive, r.user_id, itemKey(r.content_type, r.movie_id), FAVORITE_WEIGHT * decay(timeOf(r.created_at, now), now));
+  }
+  for (const r of activity) {
+    const key = itemKey(r.content_type, r.movie_id);
+    const weight = ACTIVITY_WEIGHT[r.type] || 0;
+    add(weight < 0 ? disliked : positive, r.user_id, key, weight * decay(timeOf(r.ts, now), now));
+    if (r.title && !titles.has(key)) titles.set(key, r.title);
+  }
+
+  // A low rating or "not interested" outweighs any amount of browsing the same title
+  for (const [userId, items] of disliked) {
+    const prefs = positive.get(userId) || new Map<ItemKey, number>();
+    for (const [item, weight] of items) prefs.set(item, weight);
+    positive.set(userId, prefs);
+  }
+  return { prefs: positive, titles };
+};
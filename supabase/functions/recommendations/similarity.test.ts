@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Prefs } from './signals.ts';
+import { collaborativeScores, seedsFor } from './similarity.ts';
+
+const prefsOf = (users: Record<string, Record<string, number>>): Prefs =>
+  new Map(Object.entries(users).map(([user, items]) => [user, new Map(Object.entries(items))]));
+
+describe('seedsFor', () => {
+  it("lists the user's liked titles, strongest first", () => {
+    const prefs = prefsOf({ me: { 'movie:1': 0.5, 'movie:2': -1, 'tv:3': 1 } });
+
+    expect(seedsFor(prefs, 'me')).toEqual([['tv:3', 1], ['movie:1', 0.5]]);
+    expect(seedsFor(prefs, 'nobody')).toEqual([]);
+  });
+});
+
+describe('collaborativeScores', () => {
+  it('finds nothing for a user alone in the data', () => {
+    expect(collaborativeScores(prefsOf({ me: { 'movie:1': 1 } }), 'me')).toEqual([]);
+  });
+
+  it('finds nothing when no one else likes what the user likes', () => {
+    const prefs = prefsOf({
+      me: { 'movie:1': 1 },
+      other: { 'movie:2': 1, 'movie:3': 1 },
+      // Disliking the seed does not make them a neighbour
+      critic: { 'movie:1': -1, 'movie:4': 1 },
+    });
+
+    expect(collaborativeScores(prefs, 'me')).toEqual([]);
+  });
+
+  it('finds nothing for unknown users or users with only dislikes', () => {
+    const prefs = prefsOf({ me: { 'movie:1': -1 }, other: { 'movie:1': 1, 'movie:2': 1 } });
+
+    expect(collaborativeScores(prefs, 'me')).toEqual([]);
+    expect(collaborativeScores(prefs, 'nobody')).toEqual([]);
+  });
+
+  it('scores a candidate by cosine similarity shrunk by the shared users', () => {
+    const prefs = prefsOf({ me: { 'movie:1': 1 }, other: { 'movie:1': 1, 'movie:2': 1 } });
+
+    const [candidate] = collaborativeScores(prefs, 'me');
+
+    // dot 1 / (|movie:1| √2 * |movie:2| 1), shrunk by 1 / (1 + 2)
+    const expected = 1 / Math.SQRT2 / 3;
+    expect(candidate.item).toBe('movie:2');
+    expect(candidate.score).toBeCloseTo(expected);
+    expect(candidate.contributions).toEqual([{ seed: 'movie:1', score: expect.closeTo(expected), users: 1 }]);
+  });
+
+  it('ranks titles more neighbours liked first and sums over seeds', () => {
+    const prefs = prefsOf({
+      me: { 'movie:1': 1, 'movie:2': 0.5 },
+      a: { 'movie:1': 1, 'movie:10': 1 },
+      b: { 'movie:1': 1, 'movie:10': 1, 'movie:11': 1 },
+      c: { 'movie:2': 1, 'movie:10': 1 },
+    });
+
+    const scores = collaborativeScores(prefs, 'me');
+
+    expect(scores.map(c => c.item)).toEqual(['movie:10', 'movie:11']);
+    expect(scores[0].contributions.map(c => [c.seed, c.users])).toEqual([['movie:1', 2], ['movie:2', 1]]);
+    expect(scores[0].score).toBeCloseTo(scores[0].contributions.reduce((sum, c) => sum + c.score, 0));
+  });
+
+  it("leaves out titles the user already knows and neighbours' dislikes", () => {
+    const prefs = prefsOf({
+      me: { 'movie:1': 1, 'movie:2': -1 },
+      other: { 'movie:1': 1, 'movie:2': 1, 'movie:3': -0.6, 'movie:4': 1 },
+    });
+
+    expect(collaborativeScores(prefs, 'me').map(c => c.item)).toEqual(['movie:4']);
+  });
+
+  it('uses only the strongest seeds', () => {
+    const prefs = prefsOf({
+      me: { 'movie:1': 1, 'movie:2': 0.2 },
+      a: { 'movie:1': 1, 'movie:10': 1 },
+      b: { 'movie:2': 1, 'movie:20': 1 },
+    });
+
+    expect(collaborativeScores(prefs, 'me', 1).map(c => c.item)).toEqual(['movie:10']);
+  });
+});
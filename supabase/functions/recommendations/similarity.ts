@@ -0,0 +1,88 @@
+// Item-item collaborative filtering over the preference weights from
+// signals.ts. Only the neighbourhood of the target user's titles is scored,
+// so the cost grows with the users who share a title with them rather than
+// with the whole catalog.
+
+import type { ItemKey, Prefs } from "./signals.ts";
+
+// Pairs seen by few users are shrunk towards zero: sim * n / (n + SHRINKAGE)
+const SHRINKAGE = 2;
+
+export interface CfContribution {
+  seed: ItemKey;
+  score: number;
+  // Users who interacted positively with both the seed and the candidate
+  users: number;
+}
+
+export interface CfCandidate {
+  item: ItemKey;
+  score: number;
+  contributions: CfContribution[];
+}
+
+// L2 norm of each item's positive weights across all users
+const itemNorms = (prefs: Prefs): Map<ItemKey, number> => {
+  const sq = new Map<ItemKey, number>();
+  for (const items of prefs.values()) {
+    for (const [item, w] of items) {
+      if (w > 0) sq.set(item, (sq.get(item) || 0) + w * w);
+    }
+  }
+  const norms = new Map<ItemKey, number>();
+  for (const [item, s] of sq) norms.set(item, Math.sqrt(s));
+  return norms;
+};
+
+// The target's liked titles, strongest first
+export const seedsFor = (prefs: Prefs, userId: string): Array<[ItemKey, number]> =>
+  [...(prefs.get(userId) || new Map<ItemKey, number>())]
+    .filter(([, w]) => w > 0)
+    .sort((a, b) => b[1] - a[1]);
+
+export const collaborativeScores = (prefs: Prefs, userId: string, maxSeeds = 50): CfCandidate[] => {
+  const own = prefs.get(userId);
+  if (!own) return [];
+  const seeds = new Map(seedsFor(prefs, userId).slice(0, maxSeeds));
+  if (seeds.size === 0) return [];
+
+  // seed -> candidate -> [co-occurrence dot product, shared users]
+  const co = new Map<ItemKey, Map<ItemKey, [number, number]>>();
+  for (const [otherId, items] of prefs) {
+    if (otherId === userId) continue;
+    const shared = [...seeds.keys()].filter(s => (items.get(s) || 0) > 0);
+    if (shared.length === 0) continue;
+    for (const seed of shared) {
+      const ws = items.get(seed)!;
+      const row = co.get(seed) || new Map<ItemKey, [number, number]>();
+      for (const [item, w] of items) {
+        // Titles the target already knows (liked, seen or disliked) are not candidates
+        if (w <= 0 || own.has(item)) continue;
+        const cell = row.get(item) || [0, 0];
+        cell[0] += ws * w;
+        cell[1] += 1;
+        row.set(item, cell);
+      }
+      co.set(seed, row);
+    }
+  }
+
+  const norms = itemNorms(prefs);
+  const byItem = new Map<ItemKey, CfCandidate>();
+  for (const [seed, row] of co) {
+    const seedWeight = seeds.get(seed)!;
+    const seedNorm = norms.get(seed) || 1;
+    for (const [item, [dot, users]] of row) {
+      const sim = (dot / (seedNorm * (norms.get(item) || 1))) * (users / (users + SHRINKAGE));
+      const score = seedWeight * sim;
+      const candidate = byItem.get(item) || { item, score: 0, contributions: [] };
+      candidate.score += score;
+      candidate.contributions.push({ seed, score, users });
+      byItem.set(item, candidate);
+    }
+  }
+
+  return [...byItem.values()]
+    .map(c => ({ ...c, contributions: c.contributions.sort((a, b) => b.score - a.score) }))
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,99 @@
+// In-memory response cache for the TMDB proxy. Entries live as long as the
+// function instance stays warm and are keyed by the normalized endpoint, so
+// every user hitting the same route shares one upstream request.
+
+export interface CachePolicy {
+  // Seconds a response is served without contacting TMDB
+  ttl: number;
+  // Extra seconds a stale response may be served while it is refreshed
+  swr: number;
+}
+
+export interface CacheEntry {
+  body: string;
+  etag: string;
+  storedAt: number;
+  policy: CachePolicy;
+}
+
+export type CacheState = 'HIT' | 'STALE' | 'MISS';
+
+const MAX_ENTRIES = 500;
+const store = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<CacheEntry>>();
+
+type EdgeRuntimeLike = { waitUntil?: (p: Promise<unknown>) => void };
+
+const computeEtag = async (body: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `W/"${hex}"`;
+};
+
+const remember = (key: string, entry: CacheEntry) => {
+  store.delete(key);
+  store.set(key, entry);
+  // Map keeps insertion order, so the first key is the least recently used
+  while (store.size > MAX_ENTRIES) {
+    const oldest = store.keys().next().value;
+    if (oldest === undefined) break;
+    store.delete(oldest);
+  }
+};
+
+const refresh = (key: string, policy: CachePolicy, load: () => Promise<string>) => {
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const p = (async () => {
+    const body = await load();
+    const entry: CacheEntry = { body, etag: await computeEtag(body), storedAt: Date.now(), policy };
+    remember(key, entry);
+    return entry;
+  })().finally(() => inflight.delete(key));
+
+  inflight.set(key, p);
+  return p;
+};
+
+export const ageSeconds = (entry: CacheEntry) => (Date.now() - entry.storedAt) / 1000;
+
+// Return a cached body for `key`, loading it on a miss. Stale entries inside
+// the swr window are returned immediately and refreshed in the background;
+// if a refresh fails, whatever is still in memory is served instead.
+export async function getCached(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<string>,
+): Promise<{ entry: CacheEntry; state: CacheState }> {
+  const hit = store.get(key);
+  if (hit) {
+    const age = ageSeconds(hit);
+    if (age < hit.policy.ttl) {
+      remember(key, hit);
+      return { entry: hit, state: 'HIT' };
+    }
+    if (age < hit.policy.ttl + hit.policy.swr) {
+      const bg = refresh(key, policy, load).catch(e => console.error('Background refresh failed for', key, e));
+      (globalThis as { EdgeRuntime?: EdgeRuntimeLike }).EdgeRuntime?.waitUntil?.(bg);
+      return { entry: hit, state: 'STALE' };
+    }
+  }
+
+  try {
+    return { entry: await refresh(key, policy, load), state: 'MISS' };
+  } catch (e) {
+    if (hit) {
+      console.error('Serving expired cache entry after upstream failure for', key, e);
+      return { entry: hit, state: 'STALE' };
+    }
+    throw e;
+  }
+}
+
+// True when an If-None-Match header matches the entry (weak comparison)
+export const matchesEtag = (header: string | null, etag: string) => {
+  if (!header) return false;
+  const strip = (t: string) => t.trim().replace(/^W\//, '');
+  return header.split(',').some(t => t.trim() === '*' || strip(t) === strip(etag));
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { bootFunction } from '../_testing/harness.ts';
+
+describe('tmdb-movies', () => {
+  it('answers CORS preflight without calling TMDB', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const res = await fn.call({ method: 'OPTIONS' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(res.headers.get('Access-Control-Allow-Headers')).toContain('if-none-match');
+    expect(fn.tmdb.requests).toHaveLength(0);
+  });
+
+  it('forwards a validated route with the API key and absolute image URLs', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const res = await fn.call({ query: { endpoint: 'movie/popular?page=1&language=en-US' } });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Access-Control-Expose-Headers')).toContain('etag');
+    expect(res.headers.get('X-Cache')).toBe('MISS');
+    const [upstream] = fn.tmdb.requests;
+    expect(upstream.pathname).toBe('/3/movie/popular');
+    expect(Object.fromEntries(upstream.searchParams)).toEqual({ api_key: 'test-tmdb-key', language: 'en-US', page: '1' });
+    expect(body.results[0].title).toBe('Interstellar');
+    expect(body.results[0].poster_path).toBe('https://image.tmdb.org/t/p/w500/interstellar.jpg');
+    expect(body.results.find((m: { id: number }) => m.id === 550).backdrop_path).toBeNull();
+  });
+
+  it('reads the endpoint from a POST body', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const res = await fn.call({ body: { endpoint: 'search/tv?query=dark' } });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(fn.tmdb.requests[0].searchParams.get('query')).toBe('dark');
+    expect(body.results.map((t: { name: string }) => t.name)).toEqual(['Dark']);
+  });
+
+  it('serves repeated requests from the cache and honours If-None-Match', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const first = await fn.call({ query: { endpoint: 'genre/movie/list' } });
+    const etag = first.headers.get('ETag');
+    const second = await fn.call({ query: { endpoint: 'genre/movie/list' } });
+    const revalidated = await fn.call({ query: { endpoint: 'genre/movie/list' }, headers: { 'If-None-Match': etag! } });
+
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(await second.text()).toBe(await first.text());
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(fn.tmdb.requests).toHaveLength(1);
+  });
+
+  it('merges movie and TV pages for mix routes', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const body = await (await fn.call({ query: { endpoint: 'mix/popular' } })).json();
+
+    expect(fn.tmdb.requestsFor('movie/popular')).toHaveLength(1);
+    expect(fn.tmdb.requestsFor('tv/popular')).toHaveLength(1);
+    expect(body.results.slice(0, 2).map((t: { media_type: string }) => t.media_type)).toEqual(['movie', 'tv']);
+    expect(body.total_results).toBe(15);
+  });
+
+  it('rejects undeclared endpoints and parameters before reaching TMDB', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const unknown = await fn.call({ query: { endpoint: 'account/1/favorite' } });
+    const invalid = await fn.call({ query: { endpoint: 'movie/popular?page=0&api_key=x' } });
+
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toMatchObject({ error: 'unknown_endpoint' });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({
+      error: 'invalid_params',
+      message: 'Invalid parameters for "popular"',
+      details: [
+        { param: 'api_key', issue: 'is not supported by this endpoint' },
+        { param: 'page', issue: 'must be >= 1' },
+      ],
+    });
+    expect(fn.tmdb.requests).toHaveLength(0);
+  });
+
+  it('rejects malformed bodies and unsupported methods', async () => {
+    const fn = await bootFunction('tmdb-movies');
+    const notJson = await fn.call({ method: 'POST', body: 'endpoint=movie/popular' });
+    const notString = await fn.call({ body: { endpoint: 42 } });
+    const put = await fn.call({ method: 'PUT' });
+
+    expect(notJson.status).toBe(400);
+    expect(await notJson.json()).toEqual({ error: 'bad_request', message: 'Request body must be JSON' });
+    expect(notString.status).toBe(400);
+    expect(put.status).toBe(405);
+    expect(await put.json()).toMatchObject({ error: 'method_not_allowed' });
+  });
+
+  it('reports a missing API key and upstream failures as 500s', async () => {
+    const unconfigured = await bootFunction('tmdb-movies', { env: { TMDB_API_KEY: undefined } });
+    const res = await unconfigured.call();
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'TMDB API key not configured' });
+
+    const fn = await bootFunction('tmdb-movies');
+    fn.tmdb.failNext(503);
+    const failed = await fn.call({ query: { endpoint: 'trending/movie/week' } });
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ error: 'TMDB API error: 503 ' });
+    expect(failed.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+});
@@ -1,17 +1,82 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { resolveEndpoint, RouteError, type RouteMatch } from "./routes.ts";
+import { ageSeconds, getCached, matchesEtag, type CacheEntry, type CacheState } from "./cache.ts";
+import { isMixed, loadMixed } from "./mix.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match',
+  'Access-Control-Expose-Headers': 'etag, cache-control, x-cache',
 };
 
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+type TmdbPayload = {
+  results?: Array<Record<string, unknown>>;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  [key: string]: unknown;
+};
+
+const fetchTmdb = async (url: URL): Promise<TmdbPayload> => {
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(`TMDB API error: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as TmdbPayload;
+};
+
+// Add full poster URLs
+const withImageUrls = (data: TmdbPayload): TmdbPayload => {
+  if (data.results) {
+    data.results = data.results.map((movie: any) => ({
+      ...movie,
+      poster_path: movie.poster_path 
+        ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
+        : null,
+      backdrop_path: movie.backdrop_path 
+        ? `https://image.tmdb.org/t/p/w1280${movie.backdrop_path}`
+        : null,
+    }));
+  } else if (data.poster_path) {
+    // Single movie result
+    data.poster_path = `https://image.tmdb.org/t/p/w500${data.poster_path}`;
+    data.backdrop_path = data.backdrop_path 
+      ? `https://image.tmdb.org/t/p/w1280${data.backdrop_path}`
+      : null;
+  }
+  return data;
+};
+
+// Cached body for a resolved route; mixed routes are assembled from the
+// cached movie and TV sources instead of calling TMDB directly.
+const fetchRoute = (match: RouteMatch, apiKey: string): Promise<{ entry: CacheEntry; state: CacheState }> =>
+  getCached(match.key, match.route.cache, async () => {
+    if (isMixed(match)) {
+      return loadMixed(match, async (source): Promise<string> => (await fetchRoute(source, apiKey)).entry.body);
+    }
+    console.log('Fetching from TMDB:', match.route.name, match.key);
+    const tmdbUrl = new URL(`https://api.themoviedb.org/3/${match.path}`);
+    match.query.forEach((value, key) => tmdbUrl.searchParams.set(key, value));
+    tmdbUrl.searchParams.set('api_key', apiKey);
+    return JSON.stringify(withImageUrls(await fetchTmdb(tmdbUrl)));
+  });
+
 serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return json({ error: 'method_not_allowed', message: `Method ${req.method} is not supported` }, 405);
+  }
+
   try {
     const TMDB_API_KEY = Deno.env.get('TMDB_API_KEY');
     if (!TMDB_API_KEY) {
@@ -19,67 +84,52 @@ serve(async (req: Request) => {
     }
 
     // Handle both GET query params and POST body
-    let endpoint = 'popular';
+    let endpoint = 'movie/popular';
     if (req.method === 'POST') {
-      const body = await req.json() as { endpoint?: string };
-      endpoint = body.endpoint || 'popular';
+      let body: { endpoint?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return json({ error: 'bad_request', message: 'Request body must be JSON' }, 400);
+      }
+      if (body?.endpoint !== undefined && typeof body.endpoint !== 'string') {
+        return json({ error: 'bad_request', message: '"endpoint" must be a string' }, 400);
+      }
+      endpoint = body?.endpoint || endpoint;
     } else {
       const url = new URL(req.url);
-      endpoint = url.searchParams.get('endpoint') || 'popular';
+      endpoint = url.searchParams.get('endpoint') || endpoint;
     }
 
-    // Build TMDB URL dynamically
-    let tmdbUrl = `https://api.themoviedb.org/3/${endpoint}`;
-    
-    // Add API key
-    if (endpoint.includes('?')) {
-      tmdbUrl += `&api_key=${TMDB_API_KEY}`;
-    } else {
-      tmdbUrl += `?api_key=${TMDB_API_KEY}`;
+    // Only declared routes with validated parameters are forwarded
+    let match: RouteMatch;
+    try {
+      match = resolveEndpoint(endpoint);
+    } catch (e) {
+      if (e instanceof RouteError) {
+        return json({ error: e.code, message: e.message, details: e.details }, 400);
+      }
+      throw e;
     }
 
-    console.log('Fetching from TMDB:', tmdbUrl);
-
-    const response = await fetch(tmdbUrl);
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.status} ${response.statusText}`);
-    }
+    const { entry, state } = await fetchRoute(match, TMDB_API_KEY);
 
-    const data = await response.json() as {
-      results?: Array<Record<string, unknown>>;
-      poster_path?: string | null;
-      backdrop_path?: string | null;
-      [key: string]: unknown;
+    const { ttl, swr } = entry.policy;
+    const headers = {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${Math.max(0, Math.floor(ttl - ageSeconds(entry)))}, stale-while-revalidate=${swr}`,
+      'ETag': entry.etag,
+      'X-Cache': state,
     };
 
-    // Add full poster URLs
-    if (data.results) {
-      data.results = data.results.map((movie: any) => ({
-        ...movie,
-        poster_path: movie.poster_path 
-          ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-          : null,
-        backdrop_path: movie.backdrop_path 
-          ? `https://image.tmdb.org/t/p/w1280${movie.backdrop_path}`
-          : null,
-      }));
-    } else if (data.poster_path) {
-      // Single movie result
-      data.poster_path = `https://image.tmdb.org/t/p/w500${data.poster_path}`;
-      data.backdrop_path = data.backdrop_path 
-        ? `https://image.tmdb.org/t/p/w1280${data.backdrop_path}`
-        : null;
+    if (matchesEtag(req.headers.get('If-None-Match'), entry.etag)) {
+      return new Response(null, { status: 304, headers });
     }
-
-    return new Response(JSON.stringify(data), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return new Response(entry.body, { headers });
   } catch (error) {
     console.error('Error in tmdb-movies function:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return json({ error: errorMessage }, 500);
   }
-});
\ No newline at end of file
+});
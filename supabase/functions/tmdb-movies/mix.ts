@@ -0,0 +1,56 @@
+// Virtual `mix/*` endpoints: the same page of the movie and TV sources merged
+// into one list. Page N of a mix is always built from page N of each source,
+// so paging stays stable and the totals describe both sources together.
+
+import { resolveEndpoint, type RouteMatch } from './routes.ts';
+
+const KINDS = ['movie', 'tv'] as const;
+const MAX_PAGES = 500;
+
+type SourcePage = {
+  page?: number;
+  total_pages?: number;
+  total_results?: number;
+  results?: Array<Record<string, unknown>>;
+};
+
+export const isMixed = (match: RouteMatch) => typeof match.route.mixOf === 'function';
+
+// `load` returns the JSON body of a source route (normally from the cache)
+export async function loadMixed(
+  match: RouteMatch,
+  load: (source: RouteMatch) => Promise<string>,
+): Promise<string> {
+  const qs = match.query.toString();
+  const pages = await Promise.all(KINDS.map(async kind => {
+    const path = match.route.mixOf!(kind);
+    const source = resolveEndpoint(qs ? `${path}?${qs}` : path);
+    return JSON.parse(await load(source)) as SourcePage;
+  }));
+
+  const lists = pages.map((p, i) =>
+    (p.results || []).map((item): Record<string, unknown> => ({ ...item, media_type: KINDS[i] })));
+
+  // Alternate movie/TV so neither source dominates the top of the page
+  const seen = new Set<string>();
+  const results: Array<Record<string, unknown>> = [];
+  const longest = Math.max(0, ...lists.map(l => l.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      const item = list[i];
+      if (!item) continue;
+      const key = `${item.media_type}:${item.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(item);
+    }
+  }
+
+  const page = Number(match.query.get('page') || 1);
+  return JSON.stringify({
+    page,
+    total_pages: Math.min(MAX_PAGES, Math.max(1, ...pages.map(p => p.total_pages || 1))),
+    total_results: pages.reduce((sum, p) => sum + (p.total_results || 0), 0),
+    results,
+  });
+}
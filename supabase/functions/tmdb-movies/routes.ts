@@ -0,0 +1,264 @@
+// Declared TMDB routes this function is allowed to proxy. Anything that does
+// not match a route, or carries a parameter the route does not declare, is
+// rejected before the request reaches TMDB.
+
+import type { CachePolicy } from './cache.ts';
+
+export type ParamRule =
+  | { kind: 'int'; min?: number; max?: number }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'list'; values: readonly string[] }
+  | { kind: 'pattern'; re: RegExp; maxLength?: number }
+  | { kind: 'bool' };
+
+export interface RouteDef {
+  name: string;
+  path: RegExp;
+  params: Record<string, ParamRule>;
+  required?: string[];
+  cache: CachePolicy;
+  // Virtual routes: path of the movie/tv source merged into one page
+  mixOf?: (kind: 'movie' | 'tv') => string;
+}
+
+export interface ValidationIssue {
+  param: string;
+  issue: string;
+}
+
+export interface RouteMatch {
+  route: RouteDef;
+  path: string;
+  query: URLSearchParams;
+  // Normalized `path?query` used as the cache key
+  key: string;
+}
+
+export class RouteError extends Error {
+  constructor(
+    public code: 'unknown_endpoint' | 'invalid_params',
+    message: string,
+    public details: ValidationIssue[] = [],
+  ) {
+    super(message);
+    this.name = 'RouteError';
+  }
+}
+
+// ---------- Parameter rules ----------
+
+const page: ParamRule = { kind: 'int', min: 1, max: 500 };
+const language: ParamRule = { kind: 'pattern', re: /^[a-z]{2}(-[A-Z]{2})?$/ };
+const region: ParamRule = { kind: 'pattern', re: /^[A-Z]{2}$/ };
+const year: ParamRule = { kind: 'int', min: 1870, max: 2100 };
+const date: ParamRule = { kind: 'pattern', re: /^\d{4}-\d{2}-\d{2}$/ };
+const idList: ParamRule = { kind: 'pattern', re: /^\d+([,|]\d+)*$/, maxLength: 200 };
+const score: ParamRule = { kind: 'pattern', re: /^\d{1,2}(\.\d{1,2})?$/ };
+const count: ParamRule = { kind: 'int', min: 0, max: 1_000_000 };
+const runtime: ParamRule = { kind: 'int', min: 0, max: 1000 };
+
+const APPENDABLE = [
+  'videos',
+  'credits',
+  'aggregate_credits',
+  'similar',
+  'recommendations',
+  'images',
+  'external_ids',
+  'release_dates',
+  'content_ratings',
+  'watch/providers',
+] as const;
+
+const PERSON_APPENDABLE = ['combined_credits', 'movie_credits', 'tv_credits', 'images', 'external_ids'] as const;
+
+const SORT_BY = [
+  'popularity.asc', 'popularity.desc',
+  'vote_average.asc', 'vote_average.desc',
+  'vote_count.asc', 'vote_count.desc',
+  'primary_release_date.asc', 'primary_release_date.desc',
+  'first_air_date.asc', 'first_air_date.desc',
+  'revenue.asc', 'revenue.desc',
+] as const;
+
+const listParams = { page, language, region };
+
+const discoverParams: Record<string, ParamRule> = {
+  ...listParams,
+  sort_by: { kind: 'enum', values: SORT_BY },
+  with_genres: idList,
+  without_genres: idList,
+  with_keywords: idList,
+  with_people: idList,
+  with_cast: idList,
+  with_crew: idList,
+  with_companies: idList,
+  with_networks: idList,
+  with_origin_country: region,
+  with_original_language: { kind: 'pattern', re: /^[a-z]{2}$/ },
+  with_watch_providers: idList,
+  watch_region: region,
+  include_adult: { kind: 'bool' },
+  year,
+  primary_release_year: year,
+  first_air_date_year: year,
+  'primary_release_date.gte': date,
+  'primary_release_date.lte': date,
+  'first_air_date.gte': date,
+  'first_air_date.lte': date,
+  'vote_average.gte': score,
+  'vote_average.lte': score,
+  'vote_count.gte': count,
+  'with_runtime.gte': runtime,
+  'with_runtime.lte': runtime,
+};
+
+const searchParams: Record<string, ParamRule> = {
+  ...listParams,
+  query: { kind: 'pattern', re: /\S/, maxLength: 200 },
+  include_adult: { kind: 'bool' },
+  year,
+  primary_release_year: year,
+  first_air_date_year: year,
+};
+
+// ---------- Cache policies (seconds) ----------
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+const LISTS: CachePolicy = { ttl: 30 * MINUTE, swr: 6 * HOUR };
+const TRENDING: CachePolicy = { ttl: 10 * MINUTE, swr: HOUR };
+const SEARCH: CachePolicy = { ttl: 5 * MINUTE, swr: HOUR };
+const TITLE: CachePolicy = { ttl: 6 * HOUR, swr: 24 * HOUR };
+const STATIC: CachePolicy = { ttl: 24 * HOUR, swr: 7 * 24 * HOUR };
+
+// ---------- Route table ----------
+
+export const ROUTES: RouteDef[] = [
+  { name: 'popular', path: /^(movie|tv)\/popular$/, params: listParams, cache: LISTS },
+  { name: 'top_rated', path: /^(movie|tv)\/top_rated$/, params: listParams, cache: LISTS },
+  { name: 'movie_lists', path: /^movie\/(now_playing|upcoming)$/, params: listParams, cache: LISTS },
+  { name: 'tv_lists', path: /^tv\/(on_the_air|airing_today)$/, params: listParams, cache: LISTS },
+  { name: 'discover', path: /^discover\/(movie|tv)$/, params: discoverParams, cache: LISTS },
+  { name: 'search', path: /^search\/(movie|tv|multi)$/, params: searchParams, required: ['query'], cache: SEARCH },
+  { name: 'trending', path: /^trending\/(all|movie|tv)\/(day|week)$/, params: { page, language }, cache: TRENDING },
+  { name: 'genres', path: /^genre\/(movie|tv)\/list$/, params: { language }, cache: STATIC },
+  {
+    name: 'details',
+    path: /^(movie|tv)\/\d+$/,
+    params: { language, append_to_response: { kind: 'list', values: APPENDABLE } },
+    cache: TITLE,
+  },
+  { name: 'videos', path: /^(movie|tv)\/\d+\/videos$/, params: { language }, cache: TITLE },
+  { name: 'similar', path: /^(movie|tv)\/\d+\/(similar|recommendations)$/, params: { page, language }, cache: TITLE },
+  { name: 'tv_season', path: /^tv\/\d+\/season\/\d+$/, params: { language }, cache: TITLE },
+  { name: 'credits', path: /^(movie|tv)\/\d+\/credits$/, params: { language }, cache: TITLE },
+  {
+    name: 'person',
+    path: /^person\/\d+$/,
+    params: { language, append_to_response: { kind: 'list', values: PERSON_APPENDABLE } },
+    cache: TITLE,
+  },
+  // Exact lookup by IMDb id, used by the CSV importer
+  {
+    name: 'find',
+    path: /^find\/tt\d+$/,
+    params: { language, external_source: { kind: 'enum', values: ['imdb_id'] } },
+    required: ['external_source'],
+    cache: STATIC,
+  },
+  { name: 'person_credits', path: /^person\/\d+\/(combined_credits|movie_credits|tv_credits)$/, params: { language }, cache: TITLE },
+  { name: 'mix_popular', path: /^mix\/popular$/, params: listParams, cache: LISTS, mixOf: kind => `${kind}/popular` },
+  {
+    name: 'mix_search',
+    path: /^mix\/search$/,
+    params: searchParams,
+    required: ['query'],
+    cache: SEARCH,
+    mixOf: kind => `search/${kind}`,
+  },
+  { name: 'watch_providers', path: /^(movie|tv)\/\d+\/watch\/providers$/, params: {}, cache: TITLE },
+];
+
+// ---------- Resolution ----------
+
+const checkParam = (name: string, value: string, rule: ParamRule): string | null => {
+  switch (rule.kind) {
+    case 'int': {
+      if (!/^\d+$/.test(value)) return 'must be an integer';
+      const n = Number(value);
+      if (rule.min !== undefined && n < rule.min) return `must be >= ${rule.min}`;
+      if (rule.max !== undefined && n > rule.max) return `must be <= ${rule.max}`;
+      return null;
+    }
+    case 'enum':
+      return rule.values.includes(value) ? null : `must be one of ${rule.values.join(', ')}`;
+    case 'list': {
+      const bad = value.split(',').filter(v => !rule.values.includes(v));
+      return bad.length ? `unsupported value(s): ${bad.join(', ')}` : null;
+    }
+    case 'pattern':
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) return `must be at most ${rule.maxLength} characters`;
+      return rule.re.test(value) ? null : 'has an invalid format';
+    case 'bool':
+      return value === 'true' || value === 'false' ? null : 'must be true or false';
+    default:
+      return `unsupported parameter ${name}`;
+  }
+};
+
+// Match a caller-supplied endpoint such as `movie/550?append_to_response=videos`
+// against the route table. Returns the canonical path and a query containing
+// only validated parameters, sorted so equal requests produce equal URLs.
+export function resolveEndpoint(endpoint: string): RouteMatch {
+  const raw = endpoint.trim().replace(/^\/+/, '');
+  const [rawPath, rawQuery = ''] = raw.split(/\?(.*)/s, 2);
+  const path = rawPath.replace(/\/+$/, '');
+
+  if (!/^[a-z0-9_/]+$/.test(path) || path.includes('//')) {
+    throw new RouteError('unknown_endpoint', `Endpoint "${path}" is not allowed`);
+  }
+
+  const route = ROUTES.find(r => r.path.test(path));
+  if (!route) {
+    throw new RouteError('unknown_endpoint', `Endpoint "${path}" is not allowed`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const incoming = new URLSearchParams(rawQuery);
+  const query = new URLSearchParams();
+  const names = [...new Set(incoming.keys())].sort();
+
+  for (const name of names) {
+    const values = incoming.getAll(name);
+    const rule = route.params[name];
+    if (!rule) {
+      issues.push({ param: name, issue: 'is not supported by this endpoint' });
+      continue;
+    }
+    if (values.length > 1) {
+      issues.push({ param: name, issue: 'must not be repeated' });
+      continue;
+    }
+    const problem = checkParam(name, values[0], rule);
+    if (problem) {
+      issues.push({ param: name, issue: problem });
+      continue;
+    }
+    query.set(name, values[0]);
+  }
+
+  for (const name of route.required ?? []) {
+    if (!query.has(name) && !issues.some(i => i.param === name)) {
+      issues.push({ param: name, issue: 'is required' });
+    }
+  }
+
+  if (issues.length) {
+    throw new RouteError('invalid_params', `Invalid parameters for "${route.name}"`, issues);
+  }
+
+  const qs = query.toString();
+  return { route, path, query, key: qs ? `${path}?${qs}` : path };
+}
@@ -7,3 +7,7 @@ declare module "https://deno.land/std@0.168.0/http/server.ts" {
 declare module "https://deno.land/x/xhr@0.1.0/mod.ts" {
   // This module patches globalThis with XMLHttpRequest for fetch polyfills in Deno.
 }
+
+declare module "https://esm.sh/@supabase/supabase-js@2" {
+  export * from "@supabase/supabase-js";
+}
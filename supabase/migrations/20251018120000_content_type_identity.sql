@@ -0,0 +1,69 @@
+-- Movies and TV series share the TMDB id space. Every table that stores a
+-- title now records which kind it is, and uniqueness includes the kind.
+
+-- Favorites
+alter table public.user_favorites
+add column if not exists content_type text not null default 'movie';
+
+-- TMDB ids are not rows in public.movies, and TV ids never will be
+alter table public.user_favorites
+drop constraint if exists user_favorites_movie_id_fkey;
+
+alter table public.user_favorites
+drop constraint if exists user_favorites_user_id_movie_id_key;
+
+alter table public.user_favorites
+drop constraint if exists user_favorites_content_type_check;
+
+alter table public.user_favorites
+add constraint user_favorites_content_type_check check (content_type in ('movie', 'tv'));
+
+create unique index if not exists user_favorites_user_content_key
+on public.user_favorites(user_id, movie_id, content_type);
+
+-- Watchlist
+alter table public.user_watchlist
+add column if not exists content_type text not null default 'movie';
+
+alter table public.user_watchlist
+drop constraint if exists user_watchlist_movie_id_fkey;
+
+alter table public.user_watchlist
+drop constraint if exists user_watchlist_user_id_movie_id_key;
+
+alter table public.user_watchlist
+drop constraint if exists user_watchlist_content_type_check;
+
+alter table public.user_watchlist
+add constraint user_watchlist_content_type_check check (content_type in ('movie', 'tv'));
+
+create unique index if not exists user_watchlist_user_content_key
+on public.user_watchlist(user_id, movie_id, content_type);
+
+-- Ratings already carry content_type; constrain it like the others
+alter table public.user_ratings
+drop constraint if exists user_ratings_content_type_check;
+
+alter table public.user_ratings
+add constraint user_ratings_content_type_check check (content_type in ('movie', 'tv'));
+
+-- Activity log: rows written before this change are movie events
+update public.user_activity
+set content_type = 'movie'
+where content_type is null and movie_id is not null;
+
+create index if not exists idx_user_activity_user_content
+on public.user_activity(user_id, content_type, movie_id);
+
+-- Taste memory
+update public.user_taste_memory
+set content_type = 'movie'
+where content_type is null;
+
+alter table public.user_taste_memory
+alter column content_type set not null;
+
+-- Watch history (written by the trending page)
+alter table if exists public.watch_history
+add column if not exists movie_id integer,
+add column if not exists content_type text not null default 'movie';
@@ -0,0 +1,24 @@
+-- Per-episode watch progress for TV series. One row per watched episode;
+-- unwatching deletes the row.
+create table if not exists public.user_episode_progress (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  series_id integer not null,
+  season_number integer not null check (season_number >= 0),
+  episode_number integer not null check (episode_number > 0),
+  -- Denormalized so "Continue watching" can render before TMDB responds
+  series_title text,
+  poster_path text,
+  watched_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, series_id, season_number, episode_number)
+);
+
+create index if not exists idx_user_episode_progress_user_series
+on public.user_episode_progress(user_id, series_id);
+
+alter table public.user_episode_progress enable row level security;
+
+create policy "Users can manage their own episode progress"
+on public.user_episode_progress
+for all
+using (auth.uid() = user_id);
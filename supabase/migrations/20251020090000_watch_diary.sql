@@ -0,0 +1,32 @@
+-- Watch diary: one row per viewing, so rewatches are separate rows.
+-- Title and poster are copied in so the diary renders without TMDB calls.
+create table if not exists public.user_watches (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  movie_id integer not null,
+  content_type text not null default 'movie' check (content_type in ('movie', 'tv')),
+  watched_on date not null default current_date,
+  rating smallint check (rating between 1 and 5),
+  notes text,
+  title text,
+  poster_path text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_user_watches_user_date
+on public.user_watches(user_id, watched_on desc);
+
+create index if not exists idx_user_watches_user_content
+on public.user_watches(user_id, content_type, movie_id);
+
+alter table public.user_watches enable row level security;
+
+create policy "Users can manage their own watches"
+on public.user_watches
+for all
+using (auth.uid() = user_id);
+
+create or replace trigger update_user_watches_updated_at
+before update on public.user_watches
+for each row execute function update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Ranking weights chosen in Settings (Familiar/Adventurous, Popular/Hidden
+-- gems, Recent/Classic). Null means the app defaults.
+alter table public.user_preferences
+  add column if not exists reco_config jsonb;
@@ -0,0 +1,5 @@
+-- Taste memories extracted from assistant chats. A memory about a title keeps
+-- the title's name for the Profile page; general ones ("Hates jump scares")
+-- have no movie_id.
+alter table public.user_taste_memory
+  add column if not exists title text;
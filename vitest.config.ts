@@ -0,0 +1,38 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import path from "path";
+import viteConfig from "./vite.config";
+
+const shim = (file: string) => path.resolve(__dirname, "./supabase/functions/_testing/shims", file);
+
+export default defineConfig((env) =>
+  mergeConfig(viteConfig(env), {
+    test: {
+      projects: [
+        {
+          extends: true,
+          test: {
+            name: "app",
+            environment: "jsdom",
+            setupFiles: ["./src/test/setup.ts"],
+            include: ["src/**/*.test.{ts,tsx}"],
+          },
+        },
+        {
+          // Edge functions run in-process under Node; their remote imports
+          // resolve to the shims the harness in _testing/ controls
+          extends: true,
+          test: {
+            name: "functions",
+            environment: "node",
+            include: ["supabase/functions/**/*.test.ts"],
+            alias: {
+              "https://deno.land/std@0.168.0/http/server.ts": shim("std-http-server.ts"),
+              "https://deno.land/x/xhr@0.1.0/mod.ts": shim("xhr.ts"),
+              "https://esm.sh/@supabase/supabase-js@2": shim("supabase-js.ts"),
+            },
+          },
+        },
+      ],
+    },
+  })
+);